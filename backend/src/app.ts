@@ -0,0 +1,43 @@
+/**
+ * Express Application
+ *
+ * Builds the API described in docs/openapi.yaml. Everything except
+ * /auth/login requires a bearer token.
+ */
+
+import express, { Express } from 'express';
+import cors from 'cors';
+import { ServerConfig } from './config';
+import { requireAuth } from './middleware/auth';
+import { errorHandler, notFound } from './middleware/error';
+import { authRouter } from './routes/auth';
+import { agentsRouter } from './routes/agents';
+import { ticketsRouter } from './routes/tickets';
+import { settingsRouter } from './routes/settings';
+import { summaryRouter } from './routes/summary';
+
+export function createApp(config: ServerConfig): Express {
+    const app = express();
+
+    app.use(cors({ origin: config.corsOrigin }));
+    app.use(express.json({ limit: '2mb' }));
+
+    const api = express.Router();
+    const auth = requireAuth(config);
+
+    api.get('/health', (_req, res) => {
+        res.json({ success: true, data: { status: 'ok' } });
+    });
+
+    api.use('/auth', authRouter(config));
+    api.use('/agents', auth, agentsRouter());
+    api.use('/tickets', auth, ticketsRouter());
+    api.use('/settings', auth, settingsRouter());
+    api.use('/summary', auth, summaryRouter());
+
+    app.use('/api', api);
+    app.use(notFound);
+    app.use(errorHandler);
+
+    return app;
+}
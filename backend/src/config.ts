@@ -0,0 +1,36 @@
+/**
+ * Server Configuration
+ *
+ * Reads runtime options from environment variables (see root .env).
+ */
+
+import path from 'path';
+
+const DEV_JWT_SECRET = 'bookielocal-dev-secret';
+
+export interface ServerConfig {
+    port: number;
+    jwtSecret: string;
+    jwtExpiresIn: string;
+    corsOrigin: string;
+    // Path of the JSON data file, or ':memory:' to keep everything in memory
+    dataFile: string;
+    adminPassword: string;
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+    const isProduction = env.NODE_ENV === 'production';
+
+    if (isProduction && !env.JWT_SECRET) {
+        throw new Error('JWT_SECRET must be set in production');
+    }
+
+    return {
+        port: Number(env.PORT ?? 3001),
+        jwtSecret: env.JWT_SECRET ?? DEV_JWT_SECRET,
+        jwtExpiresIn: env.JWT_EXPIRES_IN ?? '12h',
+        corsOrigin: env.CORS_ORIGIN ?? '*',
+        dataFile: env.DATA_FILE ?? path.resolve('data', 'db.json'),
+        adminPassword: env.ADMIN_PASSWORD ?? 'admin123',
+    };
+}
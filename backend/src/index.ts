@@ -0,0 +1,26 @@
+/**
+ * BookieLocal API Server
+ *
+ * Optional backend - the frontend works fully offline without it.
+ */
+
+import { loadConfig } from './config';
+import { createApp } from './app';
+import { initDatabase, seedAdminUser } from './services/db';
+
+async function main(): Promise<void> {
+    const config = loadConfig();
+
+    await initDatabase(config.dataFile);
+    await seedAdminUser(config.adminPassword);
+
+    const app = createApp(config);
+    app.listen(config.port, () => {
+        console.log(`[API] Listening on http://localhost:${config.port}/api`);
+    });
+}
+
+main().catch((error) => {
+    console.error('[API] Failed to start:', error);
+    process.exit(1);
+});
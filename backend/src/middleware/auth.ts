@@ -0,0 +1,92 @@
+/**
+ * Authentication Middleware
+ *
+ * Bearer JWT authentication and guards on the role permission matrix
+ * (ROLE_PERMISSIONS), the same one the app checks.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { User, UserRole, UserRoleEnum, Permission } from '@shared/schemas';
+import { ServerConfig } from '../config';
+import { HttpError } from './error';
+import { hasPermission } from '../../../frontend/src/lib/permissions';
+
+export interface AuthUser {
+    id: string;
+    username: string;
+    role: UserRole;
+    agentId?: string; // Role 'agent': the only agent whose bills the user works with
+}
+
+declare global {
+    // eslint-disable-next-line @typescript-eslint/no-namespace
+    namespace Express {
+        interface Request {
+            user?: AuthUser;
+        }
+    }
+}
+
+/**
+ * Sign a token for a user
+ */
+export function signToken(user: User, config: ServerConfig): string {
+    const payload: AuthUser = {
+        id: user.id,
+        username: user.username,
+        role: user.role,
+        ...(user.agentId ? { agentId: user.agentId } : {}),
+    };
+    return jwt.sign(payload, config.jwtSecret, {
+        expiresIn: config.jwtExpiresIn,
+    } as jwt.SignOptions);
+}
+
+/**
+ * Require a valid bearer token; attaches req.user
+ */
+export function requireAuth(config: ServerConfig) {
+    return (req: Request, _res: Response, next: NextFunction): void => {
+        const header = req.headers.authorization;
+        if (!header?.startsWith('Bearer ')) {
+            next(new HttpError(401, 'Missing bearer token'));
+            return;
+        }
+
+        try {
+            const decoded = jwt.verify(header.slice('Bearer '.length), config.jwtSecret) as jwt.JwtPayload;
+            const role = UserRoleEnum.safeParse(decoded.role);
+            if (
+                typeof decoded.id !== 'string' ||
+                typeof decoded.username !== 'string' ||
+                !role.success ||
+                (decoded.agentId !== undefined && typeof decoded.agentId !== 'string')
+            ) {
+                throw new Error('Malformed token payload');
+            }
+            req.user = {
+                id: decoded.id,
+                username: decoded.username,
+                role: role.data,
+                ...(decoded.agentId ? { agentId: decoded.agentId } : {}),
+            };
+            next();
+        } catch {
+            next(new HttpError(401, 'Invalid or expired token'));
+        }
+    };
+}
+
+/**
+ * Require the authenticated user's role to have a permission (use after requireAuth)
+ */
+export function requirePermission(permission: Permission) {
+    return (req: Request, _res: Response, next: NextFunction): void => {
+        if (!hasPermission(req.user ?? null, permission)) {
+            next(new HttpError(403, `Permission required: ${permission}`));
+            return;
+        }
+        next();
+    };
+}
@@ -0,0 +1,58 @@
+/**
+ * Error Handling Middleware
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiResponse } from '@shared/schemas';
+
+/**
+ * Error carrying an HTTP status code, thrown from route handlers
+ */
+export class HttpError extends Error {
+    constructor(
+        public readonly status: number,
+        message: string
+    ) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+/**
+ * Wrap an async route handler so rejected promises reach the error handler
+ * (Express 4 does not do this on its own)
+ */
+export function asyncHandler(
+    handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler {
+    return (req, res, next) => {
+        handler(req, res, next).catch(next);
+    };
+}
+
+export function notFound(req: Request, _res: Response, next: NextFunction): void {
+    next(new HttpError(404, `Not found: ${req.method} ${req.path}`));
+}
+
+export function errorHandler(
+    error: unknown,
+    _req: Request,
+    res: Response<ApiResponse>,
+    // Express identifies error handlers by arity, so `next` must stay
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _next: NextFunction
+): void {
+    if (error instanceof HttpError) {
+        res.status(error.status).json({ success: false, error: error.message });
+        return;
+    }
+
+    // Malformed JSON body from express.json()
+    if (error instanceof SyntaxError && 'body' in error) {
+        res.status(400).json({ success: false, error: 'Invalid JSON body' });
+        return;
+    }
+
+    console.error('[API] Unhandled error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+}
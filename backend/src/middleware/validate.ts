@@ -0,0 +1,34 @@
+/**
+ * Request Validation Middleware
+ *
+ * Validates request bodies against the shared Zod schemas.
+ */
+
+import { RequestHandler } from 'express';
+import { ZodError, ZodTypeAny } from 'zod';
+import { HttpError } from './error';
+
+/**
+ * Format Zod issues into a single readable message
+ */
+export function formatZodError(error: ZodError): string {
+    return error.issues
+        .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+        .join('; ');
+}
+
+/**
+ * Parse req.body with the given schema, replacing it with the parsed value
+ * (defaults applied, unknown keys stripped)
+ */
+export function validateBody(schema: ZodTypeAny): RequestHandler {
+    return (req, _res, next) => {
+        const result = schema.safeParse(req.body);
+        if (!result.success) {
+            next(new HttpError(400, formatZodError(result.error)));
+            return;
+        }
+        req.body = result.data;
+        next();
+    };
+}
@@ -0,0 +1,74 @@
+/**
+ * Agent Routes
+ *
+ * GET    /agents      - list agents
+ * POST   /agents      - create agent (agents.create)
+ * GET    /agents/:id  - get agent
+ * PUT    /agents/:id  - update agent name / commission (agents.manage)
+ * DELETE /agents/:id  - delete agent (agents.manage)
+ *
+ * Agent users only see their own agent.
+ */
+
+import { Router } from 'express';
+import { CreateAgentSchema, CreateAgent, UpdateAgentSchema, UpdateAgent } from '@shared/schemas';
+import * as db from '../services/db';
+import { canAccessAgent } from '../../../frontend/src/lib/permissions';
+import { requirePermission } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler, HttpError } from '../middleware/error';
+
+export function agentsRouter(): Router {
+    const router = Router();
+
+    router.get(
+        '/',
+        asyncHandler(async (req, res) => {
+            const agents = await db.getAgents();
+            res.json({ success: true, data: agents.filter((a) => canAccessAgent(req.user!, a.id)) });
+        })
+    );
+
+    router.post(
+        '/',
+        requirePermission('agents.create'),
+        validateBody(CreateAgentSchema),
+        asyncHandler(async (req, res) => {
+            const { name, commission } = req.body as CreateAgent;
+            const agent = await db.createAgent(name, commission);
+            res.status(201).json({ success: true, data: agent });
+        })
+    );
+
+    router.get(
+        '/:id',
+        asyncHandler(async (req, res) => {
+            const agent = await db.getAgent(req.params.id);
+            if (!agent || !canAccessAgent(req.user!, agent.id)) throw new HttpError(404, 'Agent not found');
+            res.json({ success: true, data: agent });
+        })
+    );
+
+    router.put(
+        '/:id',
+        requirePermission('agents.manage'),
+        validateBody(UpdateAgentSchema),
+        asyncHandler(async (req, res) => {
+            const agent = await db.updateAgent(req.params.id, req.body as UpdateAgent);
+            if (!agent) throw new HttpError(404, 'Agent not found');
+            res.json({ success: true, data: agent });
+        })
+    );
+
+    router.delete(
+        '/:id',
+        requirePermission('agents.manage'),
+        asyncHandler(async (req, res) => {
+            const deleted = await db.deleteAgent(req.params.id);
+            if (!deleted) throw new HttpError(404, 'Agent not found');
+            res.json({ success: true });
+        })
+    );
+
+    return router;
+}
@@ -0,0 +1,72 @@
+/**
+ * Auth Routes
+ *
+ * POST /auth/login     - exchange credentials for a JWT
+ * POST /auth/register  - create a user (users.manage); agent users need an agentId
+ */
+
+import { Router } from 'express';
+import { LoginSchema, RegisterSchema, LoginInput, RegisterInput } from '@shared/schemas';
+import { ServerConfig } from '../config';
+import * as db from '../services/db';
+import { canAssignRole } from '../../../frontend/src/lib/permissions';
+import { requireAuth, requirePermission, signToken } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler, HttpError } from '../middleware/error';
+
+export function authRouter(config: ServerConfig): Router {
+    const router = Router();
+
+    router.post(
+        '/login',
+        validateBody(LoginSchema),
+        asyncHandler(async (req, res) => {
+            const { username, password } = req.body as LoginInput;
+
+            const user = await db.getUserByUsername(username);
+            if (!user || !(await db.verifyUserPassword(user, password))) {
+                throw new HttpError(401, 'Invalid username or password');
+            }
+            if (user.disabled) {
+                throw new HttpError(403, 'Account is disabled');
+            }
+
+            res.json({
+                success: true,
+                data: {
+                    token: signToken(user, config),
+                    user: db.toPublicUser(user),
+                },
+            });
+        })
+    );
+
+    router.post(
+        '/register',
+        requireAuth(config),
+        requirePermission('users.manage'),
+        validateBody(RegisterSchema),
+        asyncHandler(async (req, res) => {
+            const { username, password, role, agentId } = req.body as RegisterInput;
+
+            if (!canAssignRole(req.user!, role)) {
+                throw new HttpError(403, `Cannot assign role: ${role}`);
+            }
+            if (role === 'agent' && !agentId) {
+                throw new HttpError(400, 'Agent users need an agentId');
+            }
+            if (agentId && !(await db.getAgent(agentId))) {
+                throw new HttpError(400, `Unknown agent: ${agentId}`);
+            }
+            if (await db.getUserByUsername(username)) {
+                throw new HttpError(400, 'Username already exists');
+            }
+
+            // Only agent users are tied to an agent
+            const user = await db.createUser(username, password, role, false, role === 'agent' ? agentId : undefined);
+            res.status(201).json({ success: true, data: db.toPublicUser(user) });
+        })
+    );
+
+    return router;
+}
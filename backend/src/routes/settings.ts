@@ -0,0 +1,110 @@
+/**
+ * Settings Routes
+ *
+ * GET    /settings                      - get settings
+ * PUT    /settings                      - update settings (settings.manage); changed
+ *                                          rates are kept as a new rate table version
+ * GET    /settings/blocked-numbers      - list blocked numbers
+ * POST   /settings/blocked-numbers      - create blocked number (blocked.manage)
+ * PUT    /settings/blocked-numbers/:id  - update blocked number (blocked.manage)
+ * DELETE /settings/blocked-numbers/:id  - delete blocked number (blocked.manage)
+ */
+
+import { Router } from 'express';
+import {
+    SettingsSchema,
+    Settings,
+    CreateBlockedNumberSchema,
+    CreateBlockedNumber,
+} from '@shared/schemas';
+import { validateNumber } from '../../../frontend/src/lib/expand';
+import { createRateTableVersion } from '../../../frontend/src/lib/rateTable';
+import * as db from '../services/db';
+import { requirePermission } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler, HttpError } from '../middleware/error';
+
+const SettingsUpdateSchema = SettingsSchema.partial();
+const BlockedNumberUpdateSchema = CreateBlockedNumberSchema.partial();
+
+function assertValidBlockedNumber(blocked: Pick<CreateBlockedNumber, 'number' | 'category'>): void {
+    try {
+        validateNumber(blocked.number, blocked.category);
+    } catch (error) {
+        throw new HttpError(400, error instanceof Error ? error.message : 'Invalid number');
+    }
+}
+
+export function settingsRouter(): Router {
+    const router = Router();
+
+    router.get(
+        '/',
+        asyncHandler(async (_req, res) => {
+            res.json({ success: true, data: await db.getSettings() });
+        })
+    );
+
+    router.put(
+        '/',
+        requirePermission('settings.manage'),
+        validateBody(SettingsUpdateSchema),
+        asyncHandler(async (req, res) => {
+            let settings = await db.updateSettings(req.body as Partial<Settings>);
+
+            // New tickets record the version of the rates they are sold at
+            const version = createRateTableVersion(await db.getRateTables(), settings, req.user!.username);
+            if (version) {
+                const table = await db.createRateTable(version);
+                settings = await db.updateSettings({ rateTableId: table.id });
+            }
+            res.json({ success: true, data: settings });
+        })
+    );
+
+    router.get(
+        '/blocked-numbers',
+        asyncHandler(async (_req, res) => {
+            res.json({ success: true, data: await db.getBlockedNumbers() });
+        })
+    );
+
+    router.post(
+        '/blocked-numbers',
+        requirePermission('blocked.manage'),
+        validateBody(CreateBlockedNumberSchema),
+        asyncHandler(async (req, res) => {
+            const body = req.body as CreateBlockedNumber;
+            assertValidBlockedNumber(body);
+            const blocked = await db.createBlockedNumber(body);
+            res.status(201).json({ success: true, data: blocked });
+        })
+    );
+
+    router.put(
+        '/blocked-numbers/:id',
+        requirePermission('blocked.manage'),
+        validateBody(BlockedNumberUpdateSchema),
+        asyncHandler(async (req, res) => {
+            const existing = (await db.getBlockedNumbers()).find((b) => b.id === req.params.id);
+            if (!existing) throw new HttpError(404, 'Blocked number not found');
+
+            const updates = req.body as Partial<CreateBlockedNumber>;
+            assertValidBlockedNumber({ ...existing, ...updates });
+            const blocked = await db.updateBlockedNumber(existing.id, updates);
+            res.json({ success: true, data: blocked });
+        })
+    );
+
+    router.delete(
+        '/blocked-numbers/:id',
+        requirePermission('blocked.manage'),
+        asyncHandler(async (req, res) => {
+            const deleted = await db.deleteBlockedNumber(req.params.id);
+            if (!deleted) throw new HttpError(404, 'Blocked number not found');
+            res.json({ success: true });
+        })
+    );
+
+    return router;
+}
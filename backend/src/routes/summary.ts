@@ -0,0 +1,48 @@
+/**
+ * Summary Routes
+ *
+ * GET /summary?date=YYYY-MM-DD&round=  - accounting summary (reports.view)
+ *
+ * Uses the same computeSummary as the Dashboard so both report identical numbers.
+ * `date` may be a ticket date or a draw period id (e.g. 2025-01-16).
+ */
+
+import { Router } from 'express';
+import { computeSummary } from '../../../frontend/src/lib/compute';
+import * as db from '../services/db';
+import { requirePermission } from '../middleware/auth';
+import { asyncHandler, HttpError } from '../middleware/error';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function summaryRouter(): Router {
+    const router = Router();
+
+    router.get(
+        '/',
+        requirePermission('reports.view'),
+        asyncHandler(async (req, res) => {
+            const { date, round } = req.query;
+            if (typeof date !== 'string' || !DATE_PATTERN.test(date)) {
+                throw new HttpError(400, 'Query parameter "date" (YYYY-MM-DD) is required');
+            }
+
+            const [tickets, settings, agents] = await Promise.all([
+                db.getTickets(),
+                db.getSettings(),
+                db.getAgents(),
+            ]);
+
+            const summary = computeSummary(
+                tickets,
+                settings,
+                agents,
+                date,
+                typeof round === 'string' && round ? round : undefined
+            );
+            res.json({ success: true, data: summary });
+        })
+    );
+
+    return router;
+}
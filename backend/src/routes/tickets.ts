@@ -0,0 +1,198 @@
+/**
+ * Ticket Routes
+ *
+ * GET    /tickets      - list tickets (?agent=&date=&round=)
+ * POST   /tickets      - create ticket (tickets.create)
+ * GET    /tickets/:id  - get ticket
+ * PUT    /tickets/:id  - update ticket (tickets.edit)
+ * DELETE /tickets/:id  - soft-delete ticket (tickets.delete)
+ *
+ * Agent users only work with their own agent's bills; other users without
+ * tickets.viewAll only see the bills they entered.
+ *
+ * Entry totals are always recomputed on the server with the ticket's payout
+ * rates and blocked numbers, so clients cannot submit their own figures. A new
+ * ticket records the server's current rate table, and an edited one is priced
+ * again with the rate table it records. The server also sets the
+ * status: bills of users who may review them are accepted, others pending.
+ * Bills of a draw past its cut-off cannot be created, edited or deleted
+ * unless an admin reopened the draw.
+ */
+
+import { Router } from 'express';
+import { CreateTicketSchema, CreateTicket, Entry, Ticket } from '@shared/schemas';
+import { computeEntryTotals, repriceEntry, PayoutContext } from '../../../frontend/src/lib/compute';
+import { isTicketDrawClosed } from '../../../frontend/src/lib/drawPeriod';
+import { getTicketSettings } from '../../../frontend/src/lib/rateTable';
+import * as db from '../services/db';
+import { hasPermission, canAccessAgent } from '../../../frontend/src/lib/permissions';
+import { AuthUser, requirePermission } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler, HttpError } from '../middleware/error';
+
+// Status is left out, so a client's status is dropped and cannot skip review
+const TicketBodySchema = CreateTicketSchema.omit({
+    createdBy: true,
+    rateTableId: true,
+    status: true,
+    statusReason: true,
+});
+const TicketUpdateSchema = TicketBodySchema.partial();
+
+type TicketBody = Omit<CreateTicket, 'createdBy' | 'rateTableId' | 'status' | 'statusReason'>;
+
+/**
+ * Expand and price entries with the server's settings and the ticket's payout
+ * layers, at the rates of the saved ticket's rate table (of the current one
+ * for a new ticket). Entries already saved keep their combos (e.g. a 2-digit
+ * number keyed with its reverse) and are only priced again.
+ */
+async function rateEntries(
+    entries: Entry[],
+    context: PayoutContext,
+    existing?: Ticket,
+    saved = false
+): Promise<{ entries: Entry[]; billTotal: number; rateTableId?: string }> {
+    const [current, blockedNumbers, rateTables] = await Promise.all([
+        db.getSettings(),
+        db.getBlockedNumbers(),
+        db.getRateTables(),
+    ]);
+    const rateTableId = existing ? existing.rateTableId : current.rateTableId;
+    const settings = getTicketSettings({ rateTableId }, current, rateTables);
+
+    try {
+        const rate = saved ? repriceEntry : computeEntryTotals;
+        const rated = entries.map((entry) => rate(entry, settings, blockedNumbers, context));
+        const billTotal = rated.reduce((sum, entry) => sum + (entry.total ?? 0), 0);
+        return { entries: rated, billTotal, rateTableId };
+    } catch (error) {
+        // expandNumber throws on digit-length mismatches
+        throw new HttpError(400, error instanceof Error ? error.message : 'Invalid entry');
+    }
+}
+
+async function assertAgentExists(agentId: string): Promise<void> {
+    if (!(await db.getAgent(agentId))) {
+        throw new HttpError(400, `Unknown agent: ${agentId}`);
+    }
+}
+
+function canViewTicket(user: AuthUser, ticket: Ticket): boolean {
+    if (user.role === 'agent') return canAccessAgent(user, ticket.agentId);
+    return hasPermission(user, 'tickets.viewAll') || ticket.createdBy === user.id;
+}
+
+function assertAgentAccess(user: AuthUser, agentId: string): void {
+    if (!canAccessAgent(user, agentId)) {
+        throw new HttpError(403, `No access to agent: ${agentId}`);
+    }
+}
+
+async function assertDrawOpen(ticket: Pick<Ticket, 'round' | 'date'>): Promise<void> {
+    if (isTicketDrawClosed(ticket, await db.getSettings())) {
+        throw new HttpError(409, `Draw is closed for ${ticket.round} on ${ticket.date}`);
+    }
+}
+
+export function ticketsRouter(): Router {
+    const router = Router();
+
+    router.get(
+        '/',
+        asyncHandler(async (req, res) => {
+            const { agent, date, round } = req.query;
+            const tickets = await db.getTicketsByFilter({
+                agentId: typeof agent === 'string' ? agent : undefined,
+                date: typeof date === 'string' ? date : undefined,
+                round: typeof round === 'string' ? round : undefined,
+            });
+            res.json({ success: true, data: tickets.filter((t) => canViewTicket(req.user!, t)) });
+        })
+    );
+
+    router.post(
+        '/',
+        requirePermission('tickets.create'),
+        validateBody(TicketBodySchema),
+        asyncHandler(async (req, res) => {
+            const body = req.body as TicketBody;
+            assertAgentAccess(req.user!, body.agentId);
+            await assertAgentExists(body.agentId);
+            await assertDrawOpen(body);
+
+            const { entries, billTotal, rateTableId } = await rateEntries(body.entries, {
+                productId: body.round,
+                agentId: body.agentId,
+                date: body.date,
+            });
+            const ticket = await db.createTicket({
+                ...body,
+                createdBy: req.user!.id,
+                entries,
+                billTotal,
+                rateTableId,
+                status: hasPermission(req.user!, 'tickets.review') ? 'accepted' : 'pending',
+            });
+            res.status(201).json({ success: true, data: ticket });
+        })
+    );
+
+    router.get(
+        '/:id',
+        asyncHandler(async (req, res) => {
+            const ticket = await db.getTicket(req.params.id);
+            if (!ticket || !canViewTicket(req.user!, ticket)) throw new HttpError(404, 'Ticket not found');
+            res.json({ success: true, data: ticket });
+        })
+    );
+
+    router.put(
+        '/:id',
+        requirePermission('tickets.edit'),
+        validateBody(TicketUpdateSchema),
+        asyncHandler(async (req, res) => {
+            const existing = await db.getTicket(req.params.id);
+            if (!existing) throw new HttpError(404, 'Ticket not found');
+            assertAgentAccess(req.user!, existing.agentId);
+
+            const updates = req.body as Partial<TicketBody>;
+            if (updates.agentId) {
+                assertAgentAccess(req.user!, updates.agentId);
+                await assertAgentExists(updates.agentId);
+            }
+            // Neither the draw the bill was in nor the one it moves to may be closed
+            await assertDrawOpen(existing);
+            await assertDrawOpen({ round: updates.round ?? existing.round, date: updates.date ?? existing.date });
+
+            const { entries, billTotal, rateTableId } = await rateEntries(
+                updates.entries ?? existing.entries,
+                {
+                    productId: updates.round ?? existing.round,
+                    agentId: updates.agentId ?? existing.agentId,
+                    date: updates.date ?? existing.date,
+                },
+                existing,
+                !updates.entries
+            );
+            const ticket = await db.updateTicket(existing.id, { ...updates, entries, billTotal, rateTableId });
+            res.json({ success: true, data: ticket });
+        })
+    );
+
+    router.delete(
+        '/:id',
+        requirePermission('tickets.delete'),
+        asyncHandler(async (req, res) => {
+            const existing = await db.getTicket(req.params.id);
+            if (!existing) throw new HttpError(404, 'Ticket not found');
+            assertAgentAccess(req.user!, existing.agentId);
+            await assertDrawOpen(existing);
+
+            await db.deleteTicket(existing.id);
+            res.json({ success: true });
+        })
+    );
+
+    return router;
+}
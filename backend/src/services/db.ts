@@ -0,0 +1,354 @@
+/**
+ * Server Storage Layer
+ *
+ * Keeps all collections in memory and persists them to a single JSON file
+ * after every write. Mirrors the CRUD surface of frontend/src/storage/db.ts.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import bcrypt from 'bcryptjs';
+import {
+    Agent,
+    UpdateAgent,
+    CommissionRates,
+    Ticket,
+    Settings,
+    BlockedNumber,
+    RateTable,
+    CreateRateTable,
+    User,
+    UserRole,
+    DEFAULT_SETTINGS,
+    DEFAULT_PAYOUTS,
+    DEFAULT_PRODUCTS,
+    DEFAULT_HEDGING,
+    DEFAULT_CEILINGS,
+} from '@shared/schemas';
+
+const SALT_ROUNDS = 10;
+const IN_MEMORY = ':memory:';
+
+interface Database {
+    version: number;
+    agents: Agent[];
+    tickets: Ticket[];
+    settings: Settings;
+    blockedNumbers: BlockedNumber[];
+    rateTables: RateTable[];
+    users: User[];
+}
+
+function emptyDatabase(): Database {
+    return {
+        version: 1,
+        agents: [],
+        tickets: [],
+        settings: { ...DEFAULT_SETTINGS },
+        blockedNumbers: [],
+        rateTables: [],
+        users: [],
+    };
+}
+
+let data: Database = emptyDatabase();
+let dataFile: string = IN_MEMORY;
+
+// Serialize writes so concurrent requests never interleave file writes
+let writeChain: Promise<void> = Promise.resolve();
+
+// =============================================================================
+// Initialization & Persistence
+// =============================================================================
+
+/**
+ * Load the database from disk (or start empty for ':memory:')
+ */
+export async function initDatabase(file: string): Promise<void> {
+    dataFile = file;
+    data = emptyDatabase();
+
+    if (dataFile === IN_MEMORY) return;
+
+    try {
+        const raw = await fs.readFile(dataFile, 'utf8');
+        data = { ...emptyDatabase(), ...(JSON.parse(raw) as Partial<Database>) };
+        // Fill in settings added after the file was written
+        data.settings.payouts = { ...DEFAULT_PAYOUTS, ...data.settings.payouts };
+        data.settings.products = data.settings.products ?? DEFAULT_PRODUCTS;
+        data.settings.agentPayouts = data.settings.agentPayouts ?? {};
+        data.settings.hedging = data.settings.hedging ?? DEFAULT_HEDGING;
+        data.settings.ceilings = { ...DEFAULT_CEILINGS, ...data.settings.ceilings };
+        data.settings.reopenedDraws = data.settings.reopenedDraws ?? [];
+        console.log(`[DB] Loaded ${dataFile}`);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        console.log(`[DB] No data file at ${dataFile}, starting empty`);
+    }
+}
+
+function persist(): Promise<void> {
+    if (dataFile === IN_MEMORY) return Promise.resolve();
+
+    const snapshot = JSON.stringify(data, null, 2);
+    const next = writeChain.then(async () => {
+        await fs.mkdir(path.dirname(dataFile), { recursive: true });
+        const tmpFile = `${dataFile}.tmp`;
+        await fs.writeFile(tmpFile, snapshot, 'utf8');
+        await fs.rename(tmpFile, dataFile);
+    });
+    // A failed write is reported to its caller only; later writes still run
+    writeChain = next.catch(() => undefined);
+    return next;
+}
+
+// =============================================================================
+// Agents CRUD
+// =============================================================================
+
+export async function getAgents(): Promise<Agent[]> {
+    return [...data.agents].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getAgent(id: string): Promise<Agent | null> {
+    return data.agents.find((a) => a.id === id) ?? null;
+}
+
+export async function createAgent(name: string, commission?: CommissionRates): Promise<Agent> {
+    const now = new Date().toISOString();
+    const agent: Agent = {
+        id: uuidv4(),
+        name,
+        ...(commission ? { commission } : {}),
+        createdAt: now,
+        modifiedAt: now,
+    };
+    data.agents.push(agent);
+    await persist();
+    return agent;
+}
+
+export async function updateAgent(id: string, updates: UpdateAgent): Promise<Agent | null> {
+    const index = data.agents.findIndex((a) => a.id === id);
+    if (index < 0) return null;
+
+    const updated: Agent = {
+        ...data.agents[index],
+        ...updates,
+        modifiedAt: new Date().toISOString(),
+    };
+    data.agents[index] = updated;
+    await persist();
+    return updated;
+}
+
+export async function deleteAgent(id: string): Promise<boolean> {
+    const before = data.agents.length;
+    data.agents = data.agents.filter((a) => a.id !== id);
+    if (data.agents.length === before) return false;
+    await persist();
+    return true;
+}
+
+// =============================================================================
+// Tickets CRUD
+// =============================================================================
+
+export async function getTickets(): Promise<Ticket[]> {
+    return data.tickets.filter((t) => !t.deleted);
+}
+
+export async function getTicketsByFilter(filter: {
+    agentId?: string;
+    date?: string;
+    round?: string;
+}): Promise<Ticket[]> {
+    const tickets = await getTickets();
+    return tickets.filter((t) => {
+        if (filter.agentId && t.agentId !== filter.agentId) return false;
+        if (filter.date && t.date !== filter.date) return false;
+        if (filter.round && t.round !== filter.round) return false;
+        return true;
+    });
+}
+
+export async function getTicket(id: string): Promise<Ticket | null> {
+    return data.tickets.find((t) => t.id === id && !t.deleted) ?? null;
+}
+
+export async function createTicket(
+    ticket: Omit<Ticket, 'id' | 'createdAt' | 'modifiedAt' | 'synced' | 'deleted'>
+): Promise<Ticket> {
+    const now = new Date().toISOString();
+    const newTicket: Ticket = {
+        ...ticket,
+        id: uuidv4(),
+        createdAt: now,
+        modifiedAt: now,
+        synced: true,
+        deleted: false,
+    };
+    data.tickets.push(newTicket);
+    await persist();
+    return newTicket;
+}
+
+export async function updateTicket(id: string, updates: Partial<Ticket>): Promise<Ticket | null> {
+    const index = data.tickets.findIndex((t) => t.id === id && !t.deleted);
+    if (index < 0) return null;
+
+    const updated: Ticket = {
+        ...data.tickets[index],
+        ...updates,
+        id,
+        modifiedAt: new Date().toISOString(),
+    };
+    data.tickets[index] = updated;
+    await persist();
+    return updated;
+}
+
+export async function deleteTicket(id: string): Promise<boolean> {
+    // Soft delete, same as the client storage layer
+    const updated = await updateTicket(id, { deleted: true });
+    return updated !== null;
+}
+
+// =============================================================================
+// Settings
+// =============================================================================
+
+export async function getSettings(): Promise<Settings> {
+    return data.settings;
+}
+
+export async function updateSettings(updates: Partial<Settings>): Promise<Settings> {
+    data.settings = {
+        ...data.settings,
+        ...updates,
+    };
+    await persist();
+    return data.settings;
+}
+
+// =============================================================================
+// Rate Tables (ตารางอัตราจ่าย)
+// =============================================================================
+
+// Append-only: a version is never changed once tickets may point at it
+
+export async function getRateTables(): Promise<RateTable[]> {
+    return data.rateTables;
+}
+
+export async function createRateTable(input: CreateRateTable): Promise<RateTable> {
+    const table: RateTable = {
+        ...input,
+        id: uuidv4(),
+    };
+    data.rateTables.push(table);
+    await persist();
+    return table;
+}
+
+// =============================================================================
+// Blocked Numbers CRUD
+// =============================================================================
+
+export async function getBlockedNumbers(): Promise<BlockedNumber[]> {
+    return data.blockedNumbers;
+}
+
+export async function createBlockedNumber(input: Omit<BlockedNumber, 'id'>): Promise<BlockedNumber> {
+    const blocked: BlockedNumber = {
+        ...input,
+        id: uuidv4(),
+    };
+    data.blockedNumbers.push(blocked);
+    await persist();
+    return blocked;
+}
+
+export async function updateBlockedNumber(id: string, updates: Partial<BlockedNumber>): Promise<BlockedNumber | null> {
+    const index = data.blockedNumbers.findIndex((b) => b.id === id);
+    if (index < 0) return null;
+
+    const updated: BlockedNumber = {
+        ...data.blockedNumbers[index],
+        ...updates,
+        id,
+    };
+    data.blockedNumbers[index] = updated;
+    await persist();
+    return updated;
+}
+
+export async function deleteBlockedNumber(id: string): Promise<boolean> {
+    const before = data.blockedNumbers.length;
+    data.blockedNumbers = data.blockedNumbers.filter((b) => b.id !== id);
+    if (data.blockedNumbers.length === before) return false;
+    await persist();
+    return true;
+}
+
+// =============================================================================
+// Users
+// =============================================================================
+
+export async function getUsers(): Promise<User[]> {
+    return data.users;
+}
+
+export async function getUserByUsername(username: string): Promise<User | null> {
+    const normalized = username.toLowerCase();
+    return data.users.find((u) => u.username === normalized) ?? null;
+}
+
+export async function createUser(
+    username: string,
+    password: string,
+    role: UserRole,
+    mustChangePassword = false,
+    agentId?: string
+): Promise<User> {
+    const user: User = {
+        id: uuidv4(),
+        username: username.toLowerCase(),
+        passwordHash: await bcrypt.hash(password, SALT_ROUNDS),
+        role,
+        ...(agentId ? { agentId } : {}),
+        mustChangePassword,
+        disabled: false,
+        createdAt: new Date().toISOString(),
+    };
+    data.users.push(user);
+    await persist();
+    return user;
+}
+
+export async function verifyUserPassword(user: User, password: string): Promise<boolean> {
+    return bcrypt.compare(password, user.passwordHash);
+}
+
+/**
+ * Strip the password hash before sending a user to a client
+ */
+export function toPublicUser(user: User): Omit<User, 'passwordHash'> {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { passwordHash, ...rest } = user;
+    return rest;
+}
+
+// =============================================================================
+// Seed Data
+// =============================================================================
+
+/**
+ * Create the default admin account when no users exist yet
+ */
+export async function seedAdminUser(password: string): Promise<void> {
+    if (data.users.length > 0) return;
+    await createUser('admin', password, 'admin', true);
+    console.log('[DB] Default admin user created');
+}
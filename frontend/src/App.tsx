@@ -9,9 +9,14 @@ import Tickets from './components/Tickets';
 import Agents from './components/Agents';
 import Settings from './components/Settings';
 import LotteryCheck from './components/LotteryCheck';
+import Simulator from './components/Simulator';
 import MonthlyReport from './components/MonthlyReport';
+import AuditLog from './components/AuditLog';
+import ReviewQueue from './components/ReviewQueue';
 import LandingPage from './components/LandingPage';
+import LoginPage from './components/LoginPage';
 import TenantRegister from './components/TenantRegister';
+import AgentPortal from './components/AgentPortal';
 
 /**
  * Tenant Route Wrapper
@@ -53,20 +58,15 @@ function TenantRouteWrapper({ children }: { children: React.ReactNode }) {
     return <>{children}</>;
 }
 
-function TenantApp() {
-    const { tenantSlug } = useParams<{ tenantSlug: string }>();
+/**
+ * Dark mode saved in localStorage, following the system by default
+ */
+function useDarkMode() {
     const [darkMode, setDarkMode] = useState(() => {
         const saved = localStorage.getItem('darkMode');
         return saved ? JSON.parse(saved) : window.matchMedia('(prefers-color-scheme: dark)').matches;
     });
 
-    const loadAll = useAppStore((state) => state.loadAll);
-
-    useEffect(() => {
-        // Load data when entering tenant app
-        loadAll();
-    }, [loadAll]);
-
     useEffect(() => {
         if (darkMode) {
             document.documentElement.classList.add('dark');
@@ -77,6 +77,20 @@ function TenantApp() {
     }, [darkMode]);
 
     const toggleDarkMode = () => setDarkMode(!darkMode);
+    return { darkMode, toggleDarkMode };
+}
+
+function TenantApp() {
+    const { tenantSlug } = useParams<{ tenantSlug: string }>();
+    const { darkMode, toggleDarkMode } = useDarkMode();
+
+    const loadAll = useAppStore((state) => state.loadAll);
+
+    useEffect(() => {
+        // Load data when entering tenant app
+        loadAll();
+    }, [loadAll]);
+
     const basePath = `/${tenantSlug}`;
 
     return (
@@ -87,16 +101,37 @@ function TenantApp() {
                     <Route path="/entry" element={<TicketEntry />} />
                     <Route path="/dashboard" element={<Dashboard />} />
                     <Route path="/tickets" element={<Tickets />} />
+                    <Route path="/review" element={<ReviewQueue />} />
                     <Route path="/agents" element={<Agents />} />
                     <Route path="/lottery-check" element={<LotteryCheck />} />
+                    <Route path="/simulate" element={<Simulator />} />
                     <Route path="/report" element={<MonthlyReport />} />
                     <Route path="/settings" element={<Settings />} />
+                    <Route path="/audit" element={<AuditLog />} />
                 </Routes>
             </Layout>
         </TenantRouteWrapper>
     );
 }
 
+/**
+ * Agent portal: an agent's login keys bills for their own agent only
+ */
+function AgentApp() {
+    const { darkMode, toggleDarkMode } = useDarkMode();
+    const loadAll = useAppStore((state) => state.loadAll);
+
+    useEffect(() => {
+        loadAll();
+    }, [loadAll]);
+
+    return (
+        <TenantRouteWrapper>
+            <AgentPortal darkMode={darkMode} toggleDarkMode={toggleDarkMode} />
+        </TenantRouteWrapper>
+    );
+}
+
 function App() {
     return (
         <BrowserRouter>
@@ -106,6 +141,15 @@ function App() {
                 <Route path="/4dxv" element={<TenantRegister />} />
 
                 {/* Tenant-specific Routes */}
+                <Route
+                    path="/:tenantSlug/login"
+                    element={
+                        <TenantRouteWrapper>
+                            <LoginPage />
+                        </TenantRouteWrapper>
+                    }
+                />
+                <Route path="/:tenantSlug/agent/*" element={<AgentApp />} />
                 <Route path="/:tenantSlug/*" element={<TenantApp />} />
             </Routes>
         </BrowserRouter>
@@ -1,8 +1,10 @@
 
-import { useState } from 'react';
-import { Ticket, LotteryResult, CATEGORY_LABELS, Category } from '@shared/schemas';
+import { useState, useMemo } from 'react';
+import { Ticket, LotteryResult, CATEGORY_LABELS, DEFAULT_PAYOUTS, CommissionRates } from '@shared/schemas';
 import { formatCurrency, formatDateTimeShort } from '../utils/export';
-import { computeActualPayout } from '../lib/payout';
+import { evaluateTicket, PRIZE_LABELS, PayoutSource } from '../lib/payout';
+import { computeTicketCommission } from '../lib/compute';
+import AgentStatement from './AgentStatement';
 
 interface AgentDetailModalProps {
     isOpen: boolean;
@@ -10,6 +12,12 @@ interface AgentDetailModalProps {
     agentName: string;
     tickets: Ticket[];
     lotteryResult: LotteryResult | null;
+    payouts?: PayoutSource;
+    commissionRates?: CommissionRates;
+    // Ledger statement; hidden unless all three are given
+    agentId?: string;
+    drawDate?: string;
+    productId?: string;
 }
 
 export default function AgentDetailModal({
@@ -18,30 +26,27 @@ export default function AgentDetailModal({
     agentName,
     tickets,
     lotteryResult,
+    payouts = DEFAULT_PAYOUTS,
+    commissionRates,
+    agentId,
+    drawDate,
+    productId,
 }: AgentDetailModalProps) {
     const [expandedTicketId, setExpandedTicketId] = useState<string | null>(null);
+    const [view, setView] = useState<'tickets' | 'statement'>('tickets');
+    const hasStatement = !!(agentId && drawDate && productId);
 
-    if (!isOpen) return null;
-
-    const checkEntryWin = (category: Category, combo: string): boolean => {
-        if (!lotteryResult) return false;
-        const { threeTop, twoDown, threeTod3, threeTod4 } = lotteryResult;
-        const twoTop = threeTop ? threeTop.slice(-2) : "";
+    // Net settlement for the draw: sales − commission − winnings
+    const settlement = useMemo(() => {
+        const gross = tickets.reduce((sum, t) => sum + t.billTotal, 0);
+        const commission = tickets.reduce((sum, t) => sum + computeTicketCommission(t, commissionRates), 0);
+        const winnings = lotteryResult
+            ? tickets.reduce((sum, t) => sum + evaluateTicket(t, lotteryResult, payouts).amount, 0)
+            : 0;
+        return { gross, commission, winnings, netDue: gross - commission - winnings };
+    }, [tickets, commissionRates, lotteryResult, payouts]);
 
-        switch (category) {
-            case '3top':
-            case '3tod':
-                return threeTop === combo;
-            case '2top':
-                return twoTop === combo;
-            case '2down':
-                return twoDown === combo;
-            case '3down':
-                return (threeTod3 === combo) || (threeTod4 === combo);
-            default:
-                return false;
-        }
-    };
+    if (!isOpen) return null;
 
     return (
         <div className="fixed inset-0 z-50 overflow-y-auto">
@@ -58,99 +63,150 @@ export default function AgentDetailModal({
                     <div className="bg-white dark:bg-slate-800 px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
                         <div className="sm:flex sm:items-start">
                             <div className="mt-3 text-center sm:mt-0 sm:text-left w-full">
-                                <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-slate-100 mb-4">
-                                    รายละเอียดบิลของ: {agentName}
-                                </h3>
-
-                                <div className="space-y-2 max-h-[70vh] overflow-y-auto">
-                                    {tickets.map((ticket) => {
-                                        const payout = lotteryResult ? computeActualPayout([ticket], lotteryResult) : 0;
-                                        const isWin = payout > 0;
-
-                                        return (
-                                            <div
-                                                key={ticket.id}
-                                                className={`card overflow-hidden transition-all duration-200 border ${isWin ? 'border-red-200 dark:border-red-900/50 bg-red-50/10' : 'border-gray-200 dark:border-slate-700'}`}
-                                            >
-                                                <div
-                                                    className="p-3 flex items-center justify-between cursor-pointer hover:bg-gray-50 dark:hover:bg-slate-700/50"
-                                                    onClick={() => setExpandedTicketId(expandedTicketId === ticket.id ? null : ticket.id)}
+                                <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                                    <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-slate-100">
+                                        รายละเอียดบิลของ: {agentName}
+                                    </h3>
+                                    {hasStatement && (
+                                        <div className="flex gap-1">
+                                            {([['tickets', 'บิล'], ['statement', 'บัญชี']] as const).map(([id, label]) => (
+                                                <button
+                                                    key={id}
+                                                    onClick={() => setView(id)}
+                                                    className={`px-3 py-1 rounded-lg text-sm font-medium ${view === id
+                                                        ? 'bg-blue-600 text-white'
+                                                        : 'bg-gray-100 text-gray-600 dark:bg-slate-700 dark:text-slate-300'
+                                                        }`}
                                                 >
-                                                    <div className="flex items-center gap-2 flex-1">
-                                                        <svg
-                                                            className={`w-4 h-4 transition-transform ${expandedTicketId === ticket.id ? 'rotate-90' : ''}`}
-                                                            fill="none" viewBox="0 0 24 24" stroke="currentColor"
-                                                        >
-                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                                                        </svg>
-                                                        <span className="text-sm text-gray-500 dark:text-slate-400">
-                                                            {formatDateTimeShort(ticket.createdAt)}
-                                                        </span>
-                                                        <span className="text-sm font-medium">
-                                                            {ticket.entries.length} รายการ
-                                                        </span>
-                                                    </div>
-                                                    <div className="flex items-center gap-4">
-                                                        <span className="font-bold text-blue-600">
-                                                            {formatCurrency(ticket.billTotal)}
-                                                        </span>
-                                                        {isWin && (
-                                                            <span className="font-bold text-red-500">
-                                                                ถูก {formatCurrency(payout)}
-                                                            </span>
-                                                        )}
-                                                    </div>
-                                                </div>
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
 
-                                                {expandedTicketId === ticket.id && (
-                                                    <div className="border-t border-gray-200 dark:border-slate-700 p-3 bg-gray-50/50 dark:bg-slate-800/50">
-                                                        <div className="overflow-x-auto">
-                                                            <table className="table w-full text-sm whitespace-nowrap">
-                                                                <thead>
-                                                                    <tr>
-                                                                        <th>ประเภท</th>
-                                                                        <th>เลข</th>
-                                                                        <th>ยอดแทง</th>
-                                                                        {lotteryResult && <th>สถานะ</th>}
-                                                                    </tr>
-                                                                </thead>
-                                                                <tbody>
-                                                                    {ticket.entries.map((entry) => {
-                                                                        // Check if any combo wins
-                                                                        let winAmount = 0;
-                                                                        let isEntryWin = false;
+                                {view === 'statement' && hasStatement ? (
+                                    <AgentStatement
+                                        agentId={agentId}
+                                        drawDate={drawDate}
+                                        productId={productId}
+                                        tickets={tickets}
+                                        lotteryResult={lotteryResult}
+                                        payouts={payouts}
+                                        commissionRates={commissionRates}
+                                    />
+                                ) : (
+                                    <>
+                                        <div className="space-y-2 max-h-[70vh] overflow-y-auto">
+                                            {tickets.map((ticket) => {
+                                                const ticketWin = lotteryResult ? evaluateTicket(ticket, lotteryResult, payouts) : null;
+                                                const payout = ticketWin?.amount ?? 0;
+                                                const isWin = payout > 0;
 
-                                                                        if (lotteryResult && entry.perComboTotals) {
-                                                                            for (const item of entry.perComboTotals) {
-                                                                                if (checkEntryWin(entry.category, item.combo)) {
-                                                                                    winAmount += item.payoutRate * item.unitPrice * item.quantity;
-                                                                                    isEntryWin = true;
-                                                                                }
-                                                                            }
-                                                                        }
+                                                return (
+                                                    <div
+                                                        key={ticket.id}
+                                                        className={`card overflow-hidden transition-all duration-200 border ${isWin ? 'border-red-200 dark:border-red-900/50 bg-red-50/10' : 'border-gray-200 dark:border-slate-700'}`}
+                                                    >
+                                                        <div
+                                                            className="p-3 flex items-center justify-between cursor-pointer hover:bg-gray-50 dark:hover:bg-slate-700/50"
+                                                            onClick={() => setExpandedTicketId(expandedTicketId === ticket.id ? null : ticket.id)}
+                                                        >
+                                                            <div className="flex items-center gap-2 flex-1">
+                                                                <svg
+                                                                    className={`w-4 h-4 transition-transform ${expandedTicketId === ticket.id ? 'rotate-90' : ''}`}
+                                                                    fill="none" viewBox="0 0 24 24" stroke="currentColor"
+                                                                >
+                                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                                                                </svg>
+                                                                <span className="text-sm text-gray-500 dark:text-slate-400">
+                                                                    {formatDateTimeShort(ticket.createdAt)}
+                                                                </span>
+                                                                <span className="text-sm font-medium">
+                                                                    {ticket.entries.length} รายการ
+                                                                </span>
+                                                            </div>
+                                                            <div className="flex items-center gap-4">
+                                                                <span className="font-bold text-blue-600">
+                                                                    {formatCurrency(ticket.billTotal)}
+                                                                </span>
+                                                                {isWin && (
+                                                                    <span className="font-bold text-red-500">
+                                                                        ถูก {formatCurrency(payout)}
+                                                                    </span>
+                                                                )}
+                                                            </div>
+                                                        </div>
 
-                                                                        return (
-                                                                            <tr key={entry.id} className={isEntryWin ? 'bg-red-50 dark:bg-red-900/10' : ''}>
-                                                                                <td>{CATEGORY_LABELS[entry.category]}</td>
-                                                                                <td className="font-mono">{entry.raw}</td>
-                                                                                <td>{entry.total}</td>
-                                                                                {lotteryResult && (
-                                                                                    <td className={isEntryWin ? 'text-red-600 font-bold' : 'text-gray-400'}>
-                                                                                        {isEntryWin ? `ถูก ${formatCurrency(winAmount)}` : '-'}
-                                                                                    </td>
-                                                                                )}
+                                                        {expandedTicketId === ticket.id && (
+                                                            <div className="border-t border-gray-200 dark:border-slate-700 p-3 bg-gray-50/50 dark:bg-slate-800/50">
+                                                                <div className="overflow-x-auto">
+                                                                    <table className="table w-full text-sm whitespace-nowrap">
+                                                                        <thead>
+                                                                            <tr>
+                                                                                <th>ประเภท</th>
+                                                                                <th>เลข</th>
+                                                                                <th>ยอดแทง</th>
+                                                                                {lotteryResult && <th>สถานะ</th>}
                                                                             </tr>
-                                                                        );
-                                                                    })}
-                                                                </tbody>
-                                                            </table>
-                                                        </div>
+                                                                        </thead>
+                                                                        <tbody>
+                                                                            {ticket.entries.map((entry) => {
+                                                                                const entryWin = ticketWin?.entries.find((w) => w.entry.id === entry.id);
+                                                                                const isEntryWin = !!entryWin;
+
+                                                                                return (
+                                                                                    <tr key={entry.id} className={isEntryWin ? 'bg-red-50 dark:bg-red-900/10' : ''}>
+                                                                                        <td>{CATEGORY_LABELS[entry.category]}</td>
+                                                                                        <td className="font-mono">{entry.raw}</td>
+                                                                                        <td>{entry.total}</td>
+                                                                                        {lotteryResult && (
+                                                                                            <td className={isEntryWin ? 'text-red-600 font-bold' : 'text-gray-400'}>
+                                                                                                {entryWin
+                                                                                                    ? `ถูก ${formatCurrency(entryWin.amount)} (${entryWin.lines.map((l) => PRIZE_LABELS[l.prize]).join(', ')})`
+                                                                                                    : '-'}
+                                                                                            </td>
+                                                                                        )}
+                                                                                    </tr>
+                                                                                );
+                                                                            })}
+                                                                        </tbody>
+                                                                    </table>
+                                                                </div>
+                                                            </div>
+                                                        )}
                                                     </div>
-                                                )}
+                                                );
+                                            })}
+                                        </div>
+
+                                        {/* Settlement */}
+                                        <div className="mt-4 grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+                                            <div className="p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                                                <div className="text-xs text-gray-500 dark:text-slate-400">ยอดขาย</div>
+                                                <div className="font-bold text-blue-600">{formatCurrency(settlement.gross)}</div>
                                             </div>
-                                        );
-                                    })}
-                                </div>
+                                            <div className="p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                                                <div className="text-xs text-gray-500 dark:text-slate-400">ค่าคอม</div>
+                                                <div className="font-bold text-gray-700 dark:text-slate-200">{formatCurrency(settlement.commission)}</div>
+                                            </div>
+                                            <div className="p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                                                <div className="text-xs text-gray-500 dark:text-slate-400">ถูกรางวัล</div>
+                                                <div className="font-bold text-red-500">
+                                                    {lotteryResult ? formatCurrency(settlement.winnings) : 'รอผล'}
+                                                </div>
+                                            </div>
+                                            <div className="p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                                                <div className="text-xs text-gray-500 dark:text-slate-400">
+                                                    {settlement.netDue >= 0 ? 'เจ้าต้องส่ง' : 'ต้องจ่ายให้เจ้า'}
+                                                </div>
+                                                <div className={`font-bold ${settlement.netDue >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                                    {formatCurrency(Math.abs(settlement.netDue))}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    </>
+                                )}
                             </div>
                         </div>
                     </div>
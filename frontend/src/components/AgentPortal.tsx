@@ -0,0 +1,374 @@
+import { useState, useMemo, useEffect } from 'react';
+import { NavLink, Routes, Route, Navigate } from 'react-router-dom';
+import {
+    Ticket,
+    LotteryResult,
+    CATEGORY_LABELS,
+    GOVERNMENT_PRODUCT_ID,
+} from '@shared/schemas';
+import { useAppStore } from '../store/appStore';
+import { useAuthStore } from '../store/authStore';
+import { useTenantStore } from '../store/tenantStore';
+import { getLotteryResults } from '../storage/firebaseData';
+import { evaluateTicket, PRIZE_LABELS, PayoutSource } from '../lib/payout';
+import { ticketPayoutResolver } from '../lib/rateTable';
+import { isCountedTicket } from '../lib/ticketStatus';
+import {
+    getDrawPeriodOptions,
+    getCurrentDrawPeriod,
+    isDateInDrawPeriod,
+    isTicketDrawClosed,
+    findProduct,
+    getEnabledProducts,
+} from '../lib/drawPeriod';
+import { formatCurrency, formatDateTimeShort } from '../utils/export';
+import LoginPage from './LoginPage';
+import TicketEntry from './TicketEntry';
+import AgentStatement from './AgentStatement';
+import ChangePasswordModal from './ChangePasswordModal';
+import TicketStatusBadge from './TicketStatusBadge';
+
+interface AgentPortalProps {
+    darkMode: boolean;
+    toggleDarkMode: () => void;
+}
+
+const TABS = [
+    { path: '', label: 'คีย์บิล', icon: '📝' },
+    { path: 'tickets', label: 'บิลของฉัน', icon: '📋' },
+    { path: 'results', label: 'ผลรางวัล', icon: '🎰' },
+    { path: 'statement', label: 'บัญชี', icon: '💰' },
+];
+
+/**
+ * Restricted app of an agent's login (/:tenantSlug/agent): key bills for
+ * their own agent, which the shop accepts, and see their own bills, results
+ * and statement
+ */
+export default function AgentPortal({ darkMode, toggleDarkMode }: AgentPortalProps) {
+    const user = useAuthStore((state) => state.user);
+    const signOut = useAuthStore((state) => state.logout);
+    const { tenantSlug, tenantName } = useTenantStore();
+    const agents = useAppStore((state) => state.agents);
+    const basePath = `/${tenantSlug}/agent`;
+
+    if (!user) {
+        return <LoginPage redirectPath="/agent" showDemoAccount={false} />;
+    }
+
+    if (user.role !== 'agent' || !user.agentId) {
+        return (
+            <div className="min-h-screen flex items-center justify-center p-4 bg-gray-50 dark:bg-slate-900">
+                <div className="card p-8 max-w-md text-center space-y-4">
+                    <p className="text-gray-700 dark:text-slate-300">บัญชี {user.username} ไม่ใช่บัญชีของเจ้าที่ส่ง</p>
+                    <div className="flex justify-center gap-2">
+                        <NavLink to={`/${tenantSlug}/entry`} className="btn-secondary">
+                            ไปหน้าร้าน
+                        </NavLink>
+                        <button onClick={signOut} className="btn-primary">
+                            ออกจากระบบ
+                        </button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    const agentName = agents.find((a) => a.id === user.agentId)?.name ?? '';
+
+    return (
+        <div className="min-h-screen bg-gray-50 dark:bg-slate-900">
+            <header className="sticky top-0 z-30 bg-white/90 dark:bg-slate-800/90 backdrop-blur-lg border-b border-gray-200 dark:border-slate-700 safe-area-top">
+                <div className="max-w-6xl mx-auto px-4 py-3 flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                        <p className="font-bold text-gray-900 dark:text-slate-100 truncate">{tenantName ?? tenantSlug}</p>
+                        <p className="text-xs text-gray-500 dark:text-slate-400 truncate">
+                            👤 {agentName} ({user.username})
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button onClick={toggleDarkMode} className="btn-ghost btn-sm" title="สลับโหมดมืด">
+                            {darkMode ? '☀️' : '🌙'}
+                        </button>
+                        <button onClick={signOut} className="btn-secondary btn-sm">
+                            ออกจากระบบ
+                        </button>
+                    </div>
+                </div>
+                <nav className="max-w-6xl mx-auto px-4 flex gap-1 overflow-x-auto">
+                    {TABS.map((tab) => (
+                        <NavLink
+                            key={tab.path}
+                            to={tab.path ? `${basePath}/${tab.path}` : basePath}
+                            end
+                            className={({ isActive }) =>
+                                `px-3 py-2 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${isActive
+                                    ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                                    : 'border-transparent text-gray-500 dark:text-slate-400'
+                                }`
+                            }
+                        >
+                            {tab.icon} {tab.label}
+                        </NavLink>
+                    ))}
+                </nav>
+            </header>
+
+            <main className="p-4 lg:p-6">
+                <Routes>
+                    <Route index element={<TicketEntry agentId={user.agentId} />} />
+                    <Route path="tickets" element={<AgentDraw agentId={user.agentId} view="tickets" />} />
+                    <Route path="results" element={<AgentDraw agentId={user.agentId} view="results" />} />
+                    <Route path="statement" element={<AgentDraw agentId={user.agentId} view="statement" />} />
+                    <Route path="*" element={<Navigate to={basePath} replace />} />
+                </Routes>
+            </main>
+
+            {/* A new or reset password has to be replaced before going on */}
+            {user.mustChangePassword && <ChangePasswordModal onClose={() => undefined} />}
+        </div>
+    );
+}
+
+/**
+ * One draw of the agent: their bills, the result with their winnings, or
+ * their ledger statement
+ */
+function AgentDraw({ agentId, view }: { agentId: string; view: 'tickets' | 'results' | 'statement' }) {
+    const tickets = useAppStore((state) => state.tickets);
+    const agents = useAppStore((state) => state.agents);
+    const settings = useAppStore((state) => state.settings);
+    const rateTables = useAppStore((state) => state.rateTables);
+
+    const products = useMemo(() => getEnabledProducts(settings.products), [settings.products]);
+    const [selectedProductId, setSelectedProductId] = useState(GOVERNMENT_PRODUCT_ID);
+    const selectedProduct = useMemo(
+        () => findProduct(settings.products, selectedProductId),
+        [settings.products, selectedProductId]
+    );
+    const drawPeriodOptions = useMemo(() => getDrawPeriodOptions(12, selectedProduct), [selectedProduct]);
+    const [selectedPeriod, setSelectedPeriod] = useState(() => getCurrentDrawPeriod(selectedProduct).id);
+    const [lotteryResult, setLotteryResult] = useState<LotteryResult | null>(null);
+
+    const handleProductChange = (productId: string) => {
+        setSelectedProductId(productId);
+        setSelectedPeriod(getCurrentDrawPeriod(findProduct(settings.products, productId)).id);
+    };
+
+    useEffect(() => {
+        getLotteryResults()
+            .then((results) =>
+                setLotteryResult(
+                    results.find(
+                        (r) => r.date === selectedPeriod && (r.round ?? GOVERNMENT_PRODUCT_ID) === selectedProduct.id
+                    ) ?? null
+                )
+            )
+            .catch((error) => console.error('Failed to fetch lottery results:', error));
+    }, [selectedPeriod, selectedProduct.id]);
+
+    const agentTickets = useMemo(
+        () =>
+            tickets
+                .filter(
+                    (t) =>
+                        t.agentId === agentId &&
+                        !t.deleted &&
+                        t.round === selectedProduct.id &&
+                        isDateInDrawPeriod(t.date, selectedPeriod, selectedProduct)
+                )
+                .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+        [tickets, agentId, selectedProduct, selectedPeriod]
+    );
+
+    // Each ticket is paid at the rates it was sold with
+    const payouts = useMemo(() => ticketPayoutResolver(settings, rateTables), [settings, rateTables]);
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-4 animate-fade-in">
+            <div className="card p-4 grid grid-cols-2 gap-3">
+                <div>
+                    <label className="label">ประเภทหวย</label>
+                    <select
+                        value={selectedProduct.id}
+                        onChange={(e) => handleProductChange(e.target.value)}
+                        className="select w-full"
+                    >
+                        {products.map((product) => (
+                            <option key={product.id} value={product.id}>
+                                {product.name}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="label">งวด</label>
+                    <select value={selectedPeriod} onChange={(e) => setSelectedPeriod(e.target.value)} className="select w-full">
+                        {drawPeriodOptions.map((option) => (
+                            <option key={option.id} value={option.id}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {view === 'tickets' && <AgentTicketList tickets={agentTickets} lotteryResult={lotteryResult} payouts={payouts} />}
+
+            {view === 'results' && <AgentResult tickets={agentTickets} lotteryResult={lotteryResult} payouts={payouts} />}
+
+            {view === 'statement' && (
+                <div className="card p-4">
+                    <AgentStatement
+                        agentId={agentId}
+                        drawDate={selectedPeriod}
+                        productId={selectedProduct.id}
+                        tickets={agentTickets}
+                        lotteryResult={lotteryResult}
+                        payouts={payouts}
+                        commissionRates={agents.find((a) => a.id === agentId)?.commission}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface AgentDrawViewProps {
+    tickets: Ticket[];
+    lotteryResult: LotteryResult | null;
+    payouts: PayoutSource;
+}
+
+function AgentTicketList({ tickets, lotteryResult, payouts }: AgentDrawViewProps) {
+    const changeTicketStatus = useAppStore((state) => state.changeTicketStatus);
+    const settings = useAppStore((state) => state.settings);
+    const [expandedTicketId, setExpandedTicketId] = useState<string | null>(null);
+
+    if (tickets.length === 0) {
+        return <div className="card p-8 text-center text-gray-500 dark:text-slate-400">ยังไม่มีบิลในงวดนี้</div>;
+    }
+
+    return (
+        <div className="space-y-2">
+            {tickets.map((ticket) => {
+                const win = lotteryResult && isCountedTicket(ticket) ? evaluateTicket(ticket, lotteryResult, payouts) : null;
+                return (
+                    <div key={ticket.id} className="card overflow-hidden">
+                        <button
+                            onClick={() => setExpandedTicketId(expandedTicketId === ticket.id ? null : ticket.id)}
+                            className="w-full p-3 flex items-center justify-between gap-2 text-left"
+                        >
+                            <div className="flex items-center gap-2 text-sm">
+                                <span className="text-gray-500 dark:text-slate-400">{formatDateTimeShort(ticket.createdAt)}</span>
+                                <span>{ticket.entries.length} รายการ</span>
+                                <TicketStatusBadge ticket={ticket} />
+                            </div>
+                            <div className="flex items-center gap-3">
+                                <span className="font-bold text-blue-600">{formatCurrency(ticket.billTotal)}</span>
+                                {win && win.amount > 0 && (
+                                    <span className="font-bold text-red-500">ถูก {formatCurrency(win.amount)}</span>
+                                )}
+                            </div>
+                        </button>
+                        {expandedTicketId === ticket.id && (
+                            <div className="border-t border-gray-200 dark:border-slate-700 p-3 overflow-x-auto">
+                                {ticket.statusReason && (
+                                    <p className="mb-2 text-sm text-red-600 dark:text-red-400">เหตุผล: {ticket.statusReason}</p>
+                                )}
+                                {(ticket.status === 'draft' || ticket.status === 'rejected') &&
+                                    !isTicketDrawClosed(ticket, settings) && (
+                                        <button
+                                            onClick={() => changeTicketStatus([ticket.id], 'pending')}
+                                            className="btn-primary btn-sm mb-2"
+                                        >
+                                            ส่งบิลให้ร้าน
+                                        </button>
+                                    )}
+                                <table className="table w-full text-sm whitespace-nowrap">
+                                    <thead>
+                                        <tr>
+                                            <th>ประเภท</th>
+                                            <th>เลข</th>
+                                            <th>ยอดแทง</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {ticket.entries.map((entry) => (
+                                            <tr key={entry.id}>
+                                                <td>{CATEGORY_LABELS[entry.category]}</td>
+                                                <td className="font-mono">{entry.raw}</td>
+                                                <td>{formatCurrency(entry.total ?? 0)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+function AgentResult({ tickets, lotteryResult, payouts }: AgentDrawViewProps) {
+    if (!lotteryResult) {
+        return <div className="card p-8 text-center text-gray-500 dark:text-slate-400">ยังไม่ออกผลงวดนี้</div>;
+    }
+
+    const bottom3 = [lotteryResult.threeTod3, lotteryResult.threeTod4].filter(Boolean).join(', ');
+    const numbers = ([
+        ['รางวัลที่ 1', lotteryResult.firstPrize],
+        ['3 ตัวบน', lotteryResult.threeTop],
+        ['2 ตัวล่าง', lotteryResult.twoDown],
+        ['3 ตัวล่าง', bottom3 || lotteryResult.threeDown],
+    ] as [string, string | undefined][]).filter(([, value]) => value);
+    const wins = tickets
+        .filter(isCountedTicket)
+        .flatMap((ticket) => evaluateTicket(ticket, lotteryResult, payouts).entries);
+    const total = wins.reduce((sum, win) => sum + win.amount, 0);
+
+    return (
+        <div className="space-y-4">
+            <div className="card p-4 grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+                {numbers.map(([label, value]) => (
+                    <div key={label}>
+                        <div className="text-xs text-gray-500 dark:text-slate-400">{label}</div>
+                        <div className="font-mono text-xl font-bold text-gray-900 dark:text-slate-100">{value}</div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="card p-4">
+                <h3 className="font-semibold text-gray-900 dark:text-slate-100 mb-3">
+                    เลขที่ถูกของฉัน: <span className="text-red-500">{formatCurrency(total)}</span>
+                </h3>
+                {wins.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-slate-400">ไม่มีเลขที่ถูกในงวดนี้</p>
+                ) : (
+                    <table className="table w-full text-sm whitespace-nowrap">
+                        <thead>
+                            <tr>
+                                <th>ประเภท</th>
+                                <th>เลข</th>
+                                <th>รางวัล</th>
+                                <th className="text-right">จ่าย</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {wins.map((win) => (
+                                <tr key={win.entry.id}>
+                                    <td>{CATEGORY_LABELS[win.entry.category]}</td>
+                                    <td className="font-mono">{win.entry.raw}</td>
+                                    <td>{win.lines.map((l) => PRIZE_LABELS[l.prize]).join(', ')}</td>
+                                    <td className="text-right">{formatCurrency(win.amount)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,207 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+    Ticket,
+    LotteryResult,
+    CommissionRates,
+    LedgerEntry,
+    LedgerEntryType,
+    LEDGER_ENTRY_LABELS,
+} from '@shared/schemas';
+import * as db from '../storage/db';
+import { buildAgentStatement, buildDrawLedgerEntries } from '../lib/ledger';
+import { PayoutSource } from '../lib/payout';
+import { useUsername, usePermission } from '../store/authStore';
+import { formatCurrency, formatDateTimeShort } from '../utils/export';
+
+interface AgentStatementProps {
+    agentId: string;
+    drawDate: string;
+    productId: string;
+    tickets: Ticket[];
+    lotteryResult: LotteryResult | null;
+    payouts: PayoutSource;
+    commissionRates?: CommissionRates;
+}
+
+const MANUAL_TYPES: LedgerEntryType[] = ['cashReceived', 'cashPaid', 'adjustment'];
+
+/**
+ * Ledger statement of an agent for one draw, with the balance carried forward
+ */
+export default function AgentStatement({
+    agentId,
+    drawDate,
+    productId,
+    tickets,
+    lotteryResult,
+    payouts,
+    commissionRates,
+}: AgentStatementProps) {
+    const username = useUsername() ?? 'unknown';
+    const canEdit = usePermission('ledger.manage');
+    const [entries, setEntries] = useState<LedgerEntry[]>([]);
+    const [newType, setNewType] = useState<LedgerEntryType>('cashReceived');
+    const [newAmount, setNewAmount] = useState('');
+    const [newNote, setNewNote] = useState('');
+
+    const loadEntries = useCallback(async () => {
+        setEntries(await db.getLedgerEntries(agentId));
+    }, [agentId]);
+
+    useEffect(() => {
+        loadEntries();
+    }, [loadEntries]);
+
+    const statement = buildAgentStatement(entries, agentId, drawDate, productId);
+    const isPosted = statement.lines.some((l) => l.entry.auto);
+
+    const handlePostDraw = async () => {
+        const drawEntries = buildDrawLedgerEntries(
+            tickets,
+            { id: agentId, commission: commissionRates },
+            drawDate,
+            productId,
+            username,
+            lotteryResult,
+            payouts
+        );
+        await db.postDrawLedgerEntries(agentId, drawDate, productId, drawEntries);
+        await loadEntries();
+    };
+
+    const handleAddEntry = async () => {
+        const amount = parseFloat(newAmount);
+        if (isNaN(amount) || amount === 0) return;
+        // Only adjustments may be negative
+        if (newType !== 'adjustment' && amount < 0) return;
+
+        await db.createLedgerEntry({
+            agentId,
+            type: newType,
+            amount,
+            drawDate,
+            productId,
+            note: newNote.trim() || undefined,
+            auto: false,
+            createdBy: username,
+        });
+        setNewAmount('');
+        setNewNote('');
+        await loadEntries();
+    };
+
+    const handleDeleteEntry = async (id: string) => {
+        if (!confirm('ต้องการลบรายการนี้?')) return;
+        await db.deleteLedgerEntry(id);
+        await loadEntries();
+    };
+
+    return (
+        <div className="space-y-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-gray-500 dark:text-slate-400">
+                    ยอดยกมา{' '}
+                    <strong className={statement.openingBalance >= 0 ? 'text-gray-900 dark:text-slate-100' : 'text-red-600'}>
+                        {formatCurrency(statement.openingBalance)}
+                    </strong>
+                </span>
+                {canEdit && (
+                    <button onClick={handlePostDraw} className="btn-secondary btn-sm">
+                        {isPosted ? '🔄 ลงบัญชีงวดนี้ใหม่' : '📒 ลงบัญชีงวดนี้'}
+                    </button>
+                )}
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="table w-full whitespace-nowrap">
+                    <thead>
+                        <tr>
+                            <th>เวลา</th>
+                            <th>รายการ</th>
+                            <th className="text-right">จำนวน</th>
+                            <th className="text-right">คงเหลือ</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {statement.lines.map(({ entry, delta, balance }) => (
+                            <tr key={entry.id}>
+                                <td className="text-gray-500 dark:text-slate-400">{formatDateTimeShort(entry.createdAt)}</td>
+                                <td>
+                                    {LEDGER_ENTRY_LABELS[entry.type]}
+                                    {entry.note && <span className="text-gray-400 ml-1">({entry.note})</span>}
+                                    {!entry.synced && <span className="text-orange-400 ml-1" title="ยังไม่ซิงค์">•</span>}
+                                </td>
+                                <td className={`text-right font-mono ${delta >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                                    {delta >= 0 ? '+' : ''}{formatCurrency(delta)}
+                                </td>
+                                <td className="text-right font-mono">{formatCurrency(balance)}</td>
+                                <td className="text-right">
+                                    {canEdit && !entry.auto && (
+                                        <button
+                                            onClick={() => handleDeleteEntry(entry.id)}
+                                            className="text-red-500 hover:text-red-700"
+                                            title="ลบ"
+                                        >
+                                            ✕
+                                        </button>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                        {statement.lines.length === 0 && (
+                            <tr>
+                                <td colSpan={5} className="text-center text-gray-400 py-4">
+                                    ยังไม่มีรายการในงวดนี้
+                                </td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex items-center justify-between p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                <span className="text-gray-500 dark:text-slate-400">
+                    {statement.closingBalance >= 0 ? 'ยอดยกไป (เจ้าค้างส่ง)' : 'ยอดยกไป (ค้างจ่ายเจ้า)'}
+                </span>
+                <strong className={statement.closingBalance >= 0 ? 'text-green-600' : 'text-red-600'}>
+                    {formatCurrency(Math.abs(statement.closingBalance))}
+                </strong>
+            </div>
+
+            {/* Manual entry */}
+            {canEdit && (
+                <div className="flex flex-wrap gap-2">
+                    <select
+                        value={newType}
+                        onChange={(e) => setNewType(e.target.value as LedgerEntryType)}
+                        className="select w-auto text-sm"
+                    >
+                        {MANUAL_TYPES.map((type) => (
+                            <option key={type} value={type}>{LEDGER_ENTRY_LABELS[type]}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="number"
+                        inputMode="decimal"
+                        value={newAmount}
+                        onChange={(e) => setNewAmount(e.target.value)}
+                        placeholder={newType === 'adjustment' ? '+/- บาท' : 'บาท'}
+                        className="input w-28 text-sm"
+                    />
+                    <input
+                        type="text"
+                        value={newNote}
+                        onChange={(e) => setNewNote(e.target.value)}
+                        placeholder="หมายเหตุ"
+                        maxLength={200}
+                        className="input flex-1 min-w-[120px] text-sm"
+                    />
+                    <button onClick={handleAddEntry} disabled={!newAmount} className="btn-primary btn-sm">
+                        + บันทึก
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
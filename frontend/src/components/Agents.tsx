@@ -1,7 +1,20 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useAppStore } from '../store/appStore';
-import { useIsAdmin } from '../store/authStore';
-import { Agent } from '@shared/schemas';
+import { usePermission } from '../store/authStore';
+import { useTenantStore } from '../store/tenantStore';
+import { getUsers, createAgentUser } from '../storage/db';
+import { isCountedTicket } from '../lib/ticketStatus';
+import {
+    Agent,
+    User,
+    Category,
+    CommissionRates,
+    CreditLimitBasis,
+    CATEGORY_LABELS,
+    CREDIT_LIMIT_BASIS_LABELS,
+} from '@shared/schemas';
+
+const COMMISSION_CATEGORIES: Category[] = ['3top', '3down', '3tod', '3back', '2top', '2down', '2back', '1top', '1down'];
 
 export default function Agents() {
     const agents = useAppStore((state) => state.agents);
@@ -9,13 +22,29 @@ export default function Agents() {
     const createAgent = useAppStore((state) => state.createAgent);
     const updateAgent = useAppStore((state) => state.updateAgent);
     const deleteAgent = useAppStore((state) => state.deleteAgent);
-    const isAdmin = useIsAdmin();
+    const canCreate = usePermission('agents.create');
+    const canManage = usePermission('agents.manage');
+    const canManageUsers = usePermission('users.manage');
+    const tenantSlug = useTenantStore((state) => state.tenantSlug);
 
     const [showCreate, setShowCreate] = useState(false);
     const [showEdit, setShowEdit] = useState<Agent | null>(null);
     const [showDeleteConfirm, setShowDeleteConfirm] = useState<Agent | null>(null);
     const [newName, setNewName] = useState('');
     const [editName, setEditName] = useState('');
+    const [editCommission, setEditCommission] = useState<CommissionRates>({});
+    const [editCreditAmount, setEditCreditAmount] = useState('');
+    const [editCreditBasis, setEditCreditBasis] = useState<CreditLimitBasis>('gross');
+    const [agentLogins, setAgentLogins] = useState<User[]>([]);
+    const [showLogin, setShowLogin] = useState<Agent | null>(null);
+    const [loginUsername, setLoginUsername] = useState('');
+    const [loginPassword, setLoginPassword] = useState('');
+    const [loginError, setLoginError] = useState('');
+
+    // Logins of agents (role 'agent') open the agent portal
+    useEffect(() => {
+        getUsers().then((users) => setAgentLogins(users.filter((u) => u.role === 'agent')));
+    }, []);
 
     const handleCreate = async () => {
         if (!newName.trim()) return;
@@ -26,9 +55,52 @@ export default function Agents() {
 
     const handleUpdate = async () => {
         if (!showEdit || !editName.trim()) return;
-        await updateAgent(showEdit.id, editName.trim());
+        // An empty or zero amount removes the limit
+        const creditAmount = parseFloat(editCreditAmount);
+        const creditLimit = creditAmount > 0 ? { amount: creditAmount, basis: editCreditBasis } : null;
+        await updateAgent(showEdit.id, { name: editName.trim(), commission: editCommission, creditLimit });
         setShowEdit(null);
         setEditName('');
+        setEditCommission({});
+        setEditCreditAmount('');
+    };
+
+    const handleCommissionChange = (category: Category, value: string) => {
+        const next = { ...editCommission };
+        const rate = parseFloat(value);
+        if (value === '' || isNaN(rate)) {
+            delete next[category];
+        } else {
+            next[category] = Math.min(100, Math.max(0, rate));
+        }
+        setEditCommission(next);
+    };
+
+    const openLogin = (agent: Agent) => {
+        setShowLogin(agent);
+        setLoginUsername('');
+        setLoginPassword('');
+        setLoginError('');
+    };
+
+    const handleCreateLogin = async () => {
+        if (!showLogin) return;
+        if (loginUsername.trim().length < 3) {
+            setLoginError('ชื่อผู้ใช้ต้องมีอย่างน้อย 3 ตัวอักษร');
+            return;
+        }
+        if (loginPassword.length < 6) {
+            setLoginError('รหัสผ่านต้องมีอย่างน้อย 6 ตัวอักษร');
+            return;
+        }
+
+        try {
+            const user = await createAgentUser(showLogin.id, loginUsername.trim(), loginPassword);
+            setAgentLogins((list) => [...list, user]);
+            setShowLogin(null);
+        } catch (err) {
+            setLoginError(err instanceof Error ? err.message : 'สร้างบัญชีไม่สำเร็จ');
+        }
     };
 
     const handleDelete = async () => {
@@ -38,7 +110,7 @@ export default function Agents() {
     };
 
     const getAgentStats = (agentId: string) => {
-        const agentTickets = tickets.filter((t) => t.agentId === agentId && !t.deleted);
+        const agentTickets = tickets.filter((t) => t.agentId === agentId && isCountedTicket(t));
         const totalSales = agentTickets.reduce((sum, t) => sum + t.billTotal, 0);
         return { ticketCount: agentTickets.length, totalSales };
     };
@@ -55,7 +127,7 @@ export default function Agents() {
                         จัดการรายชื่อเจ้าที่ส่ง
                     </p>
                 </div>
-                {isAdmin && (
+                {canCreate && (
                     <button onClick={() => setShowCreate(true)} className="btn-primary">
                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
@@ -69,6 +141,7 @@ export default function Agents() {
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 {agents.map((agent) => {
                     const stats = getAgentStats(agent.id);
+                    const logins = agentLogins.filter((u) => u.agentId === agent.id);
                     return (
                         <div key={agent.id} className="card p-5 hover:shadow-md transition-shadow">
                             <div className="flex items-start justify-between">
@@ -85,31 +158,66 @@ export default function Agents() {
                                             <span>•</span>
                                             <span>฿{stats.totalSales.toLocaleString()}</span>
                                         </div>
+                                        {agent.commission && Object.keys(agent.commission).length > 0 && (
+                                            <div className="text-xs text-gray-400 dark:text-slate-500 mt-1">
+                                                ค่าคอม{' '}
+                                                {(Object.entries(agent.commission) as [Category, number][])
+                                                    .map(([cat, rate]) => `${CATEGORY_LABELS[cat]} ${rate}%`)
+                                                    .join(', ')}
+                                            </div>
+                                        )}
+                                        {agent.creditLimit && (
+                                            <div className="text-xs text-gray-400 dark:text-slate-500 mt-1">
+                                                วงเงิน ฿{agent.creditLimit.amount.toLocaleString()}/งวด
+                                                ({CREDIT_LIMIT_BASIS_LABELS[agent.creditLimit.basis]})
+                                            </div>
+                                        )}
+                                        {logins.length > 0 && (
+                                            <div className="text-xs text-gray-400 dark:text-slate-500 mt-1">
+                                                🔑 {logins.map((u) => u.username).join(', ')}
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
-                                {isAdmin && (
+                                {(canManage || canManageUsers) && (
                                     <div className="flex gap-1">
-                                        <button
-                                            onClick={() => {
-                                                setShowEdit(agent);
-                                                setEditName(agent.name);
-                                            }}
-                                            className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors"
-                                            title="แก้ไข"
-                                        >
-                                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                                            </svg>
-                                        </button>
-                                        <button
-                                            onClick={() => setShowDeleteConfirm(agent)}
-                                            className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
-                                            title="ลบ"
-                                        >
-                                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                                            </svg>
-                                        </button>
+                                        {canManageUsers && (
+                                            <button
+                                                onClick={() => openLogin(agent)}
+                                                className="p-2 text-gray-500 hover:text-green-600 hover:bg-green-50 dark:hover:bg-green-900/30 rounded-lg transition-colors"
+                                                title="บัญชีเข้าใช้ของเจ้า"
+                                            >
+                                                🔑
+                                            </button>
+                                        )}
+                                        {canManage && (
+                                            <>
+                                                <button
+                                                    onClick={() => {
+                                                        setShowEdit(agent);
+                                                        setEditName(agent.name);
+                                                        setEditCommission(agent.commission ?? {});
+                                                        setEditCreditAmount(agent.creditLimit ? String(agent.creditLimit.amount) : '');
+                                                        setEditCreditBasis(agent.creditLimit?.basis ?? 'gross');
+                                                    }}
+                                                    className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors"
+                                                    title="แก้ไข"
+                                                >
+                                                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                                                    </svg>
+                                                </button>
+                                                <button
+                                                    onClick={() => setShowDeleteConfirm(agent)}
+                                                    className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                                                    title="ลบ"
+                                                >
+                                                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                                    </svg>
+                                                </button>
+                                            </>
+                                        )}
                                     </div>
                                 )}
                             </div>
@@ -121,7 +229,7 @@ export default function Agents() {
                     <div className="col-span-2 card p-12 text-center">
                         <div className="text-4xl mb-4">👤</div>
                         <p className="text-gray-500 dark:text-slate-400">ยังไม่มีเจ้าที่ส่ง</p>
-                        {isAdmin && (
+                        {canCreate && (
                             <button
                                 onClick={() => setShowCreate(true)}
                                 className="btn-primary mt-4"
@@ -172,7 +280,7 @@ export default function Agents() {
                     <div className="modal-content" onClick={(e) => e.stopPropagation()}>
                         <div className="modal-header">
                             <h2 className="text-xl font-semibold text-gray-900 dark:text-slate-100">
-                                แก้ไขชื่อเจ้า
+                                แก้ไขเจ้าที่ส่ง
                             </h2>
                         </div>
                         <div className="modal-body">
@@ -186,6 +294,48 @@ export default function Agents() {
                                 autoFocus
                                 onKeyDown={(e) => e.key === 'Enter' && handleUpdate()}
                             />
+
+                            <label className="label mt-4">ค่าคอม (% ของยอดขาย)</label>
+                            <div className="grid grid-cols-3 gap-2">
+                                {COMMISSION_CATEGORIES.map((cat) => (
+                                    <div key={cat}>
+                                        <span className="text-xs text-gray-500 dark:text-slate-400">{CATEGORY_LABELS[cat]}</span>
+                                        <input
+                                            type="number"
+                                            inputMode="decimal"
+                                            step="0.5"
+                                            min="0"
+                                            max="100"
+                                            value={editCommission[cat] ?? ''}
+                                            onChange={(e) => handleCommissionChange(cat, e.target.value)}
+                                            className="input text-sm"
+                                            placeholder="0"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+
+                            <label className="label mt-4">วงเงินเครดิตต่องวด</label>
+                            <div className="flex gap-2">
+                                <input
+                                    type="number"
+                                    inputMode="decimal"
+                                    min="0"
+                                    value={editCreditAmount}
+                                    onChange={(e) => setEditCreditAmount(e.target.value)}
+                                    className="input flex-1"
+                                    placeholder="ไม่จำกัด"
+                                />
+                                <select
+                                    value={editCreditBasis}
+                                    onChange={(e) => setEditCreditBasis(e.target.value as CreditLimitBasis)}
+                                    className="select w-auto"
+                                >
+                                    {(Object.keys(CREDIT_LIMIT_BASIS_LABELS) as CreditLimitBasis[]).map((basis) => (
+                                        <option key={basis} value={basis}>{CREDIT_LIMIT_BASIS_LABELS[basis]}</option>
+                                    ))}
+                                </select>
+                            </div>
                         </div>
                         <div className="modal-footer">
                             <button onClick={() => setShowEdit(null)} className="btn-secondary">
@@ -199,6 +349,70 @@ export default function Agents() {
                 </div>
             )}
 
+            {/* Agent Login Modal */}
+            {showLogin && (
+                <div className="modal-overlay" onClick={() => setShowLogin(null)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <div className="modal-header">
+                            <h2 className="text-xl font-semibold text-gray-900 dark:text-slate-100">
+                                บัญชีเข้าใช้ของ {showLogin.name}
+                            </h2>
+                            <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">
+                                เจ้าเข้าใช้ที่ /{tenantSlug}/agent คีย์บิลได้เฉพาะของตัวเอง และบิลจะรอร้านรับก่อน
+                            </p>
+                        </div>
+                        <div className="modal-body space-y-3">
+                            {agentLogins
+                                .filter((u) => u.agentId === showLogin.id)
+                                .map((u) => (
+                                    <div key={u.id} className="flex items-center justify-between text-sm">
+                                        <span className="font-medium">{u.username}</span>
+                                        {u.disabled && <span className="badge-danger">ระงับ</span>}
+                                    </div>
+                                ))}
+                            {loginError && (
+                                <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-400">
+                                    {loginError}
+                                </div>
+                            )}
+                            <div>
+                                <label className="label">ชื่อผู้ใช้ใหม่</label>
+                                <input
+                                    type="text"
+                                    value={loginUsername}
+                                    onChange={(e) => setLoginUsername(e.target.value)}
+                                    className="input"
+                                    autoComplete="off"
+                                    autoFocus
+                                />
+                            </div>
+                            <div>
+                                <label className="label">รหัสผ่านแรกเข้า</label>
+                                <input
+                                    type="password"
+                                    value={loginPassword}
+                                    onChange={(e) => setLoginPassword(e.target.value)}
+                                    className="input"
+                                    autoComplete="new-password"
+                                    onKeyDown={(e) => e.key === 'Enter' && handleCreateLogin()}
+                                />
+                            </div>
+                            <p className="text-xs text-gray-500 dark:text-slate-400">
+                                ระงับหรือตั้งรหัสผ่านใหม่ได้ที่ ตั้งค่า → ผู้ใช้
+                            </p>
+                        </div>
+                        <div className="modal-footer">
+                            <button onClick={() => setShowLogin(null)} className="btn-secondary">
+                                ปิด
+                            </button>
+                            <button onClick={handleCreateLogin} className="btn-primary">
+                                สร้างบัญชี
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Delete Confirmation Modal */}
             {showDeleteConfirm && (
                 <div className="modal-overlay" onClick={() => setShowDeleteConfirm(null)}>
@@ -0,0 +1,207 @@
+import { Fragment, useState, useEffect, useMemo } from 'react';
+import {
+    AuditEntry,
+    AuditAction,
+    AuditEntity,
+    AuditActionEnum,
+    AuditEntityEnum,
+    AUDIT_ACTION_LABELS,
+    AUDIT_ENTITY_LABELS,
+} from '@shared/schemas';
+import { usePermission } from '../store/authStore';
+import { useAppStore } from '../store/appStore';
+import { getAuditLog } from '../storage/db';
+import { filterAuditEntries, formatAuditValue } from '../lib/audit';
+import { formatDateTimeShort, exportAuditCSV } from '../utils/export';
+
+// Rows rendered at once; the CSV export has them all
+const PAGE_SIZE = 200;
+
+// Longer values are cut in the table
+const VALUE_LIMIT = 60;
+
+const ACTION_BADGES: Record<AuditAction, string> = {
+    create: 'badge-success',
+    update: 'badge-primary',
+    delete: 'badge-danger',
+};
+
+function AuditValue({ value }: { value: unknown }) {
+    if (value === undefined) return <span className="text-gray-400">-</span>;
+    const text = formatAuditValue(value);
+    return (
+        <span className="font-mono" title={text.length > VALUE_LIMIT ? text : undefined}>
+            {text.length > VALUE_LIMIT ? `${text.slice(0, VALUE_LIMIT)}…` : text}
+        </span>
+    );
+}
+
+/**
+ * Who changed what: every write to storage, searchable
+ */
+export default function AuditLog() {
+    const canView = usePermission('audit.view');
+    const syncStatus = useAppStore((state) => state.syncStatus);
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [text, setText] = useState('');
+    const [entity, setEntity] = useState<AuditEntity | ''>('');
+    const [action, setAction] = useState<AuditAction | ''>('');
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [limit, setLimit] = useState(PAGE_SIZE);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    // Reload after each sync, which may bring entries from other devices
+    useEffect(() => {
+        if (canView) getAuditLog().then(setEntries);
+    }, [canView, syncStatus.lastSync]);
+
+    const filtered = useMemo(
+        () =>
+            filterAuditEntries(entries, {
+                text,
+                entity: entity || undefined,
+                action: action || undefined,
+                from: from || undefined,
+                to: to || undefined,
+            }),
+        [entries, text, entity, action, from, to]
+    );
+
+    if (!canView) {
+        return (
+            <div className="card p-12 text-center">
+                <div className="text-4xl mb-4">🔒</div>
+                <p className="text-gray-500 dark:text-slate-400">ไม่มีสิทธิ์ดูประวัติการแก้ไข</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-7xl mx-auto animate-fade-in">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-4 mb-4 sm:mb-6">
+                <div>
+                    <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-slate-100">
+                        ประวัติการแก้ไข
+                    </h1>
+                    <p className="text-sm sm:text-base text-gray-500 dark:text-slate-400">
+                        ใคร ทำอะไร กับข้อมูลไหน เมื่อไร
+                    </p>
+                </div>
+                <button
+                    onClick={() => exportAuditCSV(filtered)}
+                    disabled={filtered.length === 0}
+                    className="btn-secondary btn-sm text-xs sm:text-sm"
+                >
+                    📥 CSV
+                </button>
+            </div>
+
+            {/* Filters */}
+            <div className="card p-4 mb-4 grid grid-cols-2 lg:grid-cols-5 gap-3">
+                <input
+                    type="search"
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    className="input col-span-2 lg:col-span-1"
+                    placeholder="ค้นหา ผู้ใช้ / รหัส / ค่า"
+                />
+                <select value={entity} onChange={(e) => setEntity(e.target.value as AuditEntity | '')} className="select">
+                    <option value="">ทุกข้อมูล</option>
+                    {AuditEntityEnum.options.map((value) => (
+                        <option key={value} value={value}>
+                            {AUDIT_ENTITY_LABELS[value]}
+                        </option>
+                    ))}
+                </select>
+                <select value={action} onChange={(e) => setAction(e.target.value as AuditAction | '')} className="select">
+                    <option value="">ทุกการกระทำ</option>
+                    {AuditActionEnum.options.map((value) => (
+                        <option key={value} value={value}>
+                            {AUDIT_ACTION_LABELS[value]}
+                        </option>
+                    ))}
+                </select>
+                <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="input" />
+                <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="input" />
+            </div>
+
+            {filtered.length === 0 ? (
+                <div className="card p-12 text-center">
+                    <div className="text-4xl mb-4">📜</div>
+                    <p className="text-gray-500 dark:text-slate-400">ไม่พบรายการที่ตรงกับเงื่อนไข</p>
+                </div>
+            ) : (
+                <div className="card p-0 overflow-x-auto">
+                    <table className="table w-full whitespace-nowrap">
+                        <thead>
+                            <tr>
+                                <th>เวลา</th>
+                                <th>ผู้ใช้</th>
+                                <th>การกระทำ</th>
+                                <th>ข้อมูล</th>
+                                <th>รหัส</th>
+                                <th>ฟิลด์ที่เปลี่ยน</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {filtered.slice(0, limit).map((entry) => (
+                                <Fragment key={entry.id}>
+                                    <tr
+                                        onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                                        className="cursor-pointer"
+                                    >
+                                        <td className="text-gray-500">{formatDateTimeShort(entry.timestamp)}</td>
+                                        <td>{entry.actor}</td>
+                                        <td>
+                                            <span className={ACTION_BADGES[entry.action]}>
+                                                {AUDIT_ACTION_LABELS[entry.action]}
+                                            </span>
+                                        </td>
+                                        <td>{AUDIT_ENTITY_LABELS[entry.entity]}</td>
+                                        <td className="font-mono text-xs">{entry.entityId.slice(0, 8)}</td>
+                                        <td className="text-sm text-gray-500 dark:text-slate-400">
+                                            {entry.changes.map((c) => c.field).join(', ')}
+                                        </td>
+                                    </tr>
+                                    {expandedId === entry.id && (
+                                        <tr>
+                                            <td colSpan={6} className="bg-gray-50 dark:bg-slate-700/50">
+                                                <div className="text-xs text-gray-500 dark:text-slate-400 mb-2 font-mono">
+                                                    {entry.entityId}
+                                                </div>
+                                                <table className="w-full text-sm">
+                                                    <tbody>
+                                                        {entry.changes.map((change) => (
+                                                            <tr key={change.field}>
+                                                                <td className="pr-4 font-medium">{change.field}</td>
+                                                                <td className="pr-4 text-red-600">
+                                                                    <AuditValue value={change.before} />
+                                                                </td>
+                                                                <td className="text-green-600">
+                                                                    <AuditValue value={change.after} />
+                                                                </td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                    {filtered.length > limit && (
+                        <div className="p-3 text-center">
+                            <button onClick={() => setLimit(limit + PAGE_SIZE)} className="btn-secondary btn-sm">
+                                แสดงเพิ่ม ({limit} จาก {filtered.length})
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { Category, CATEGORY_LABELS } from '@shared/schemas';
+import { Category, CATEGORY_LABELS, CATEGORY_DIGIT_LENGTH } from '@shared/schemas';
+import { expandShorthand, parseShorthand } from '../lib/expand';
 
 interface BatchEntryProps {
     onAddEntries: (entries: { number: string; price: number; categories: Category[] }[]) => void;
@@ -12,6 +13,7 @@ interface BatchEntryProps {
  * - "123=100" -> number 123, price 100
  * - "123=100, 456=50" -> multiple entries
  * - "123,456,789=100" -> same price for multiple numbers
+ * - "5 19 ประตู=10", "รูดหน้า 5=10", "เบิ้ล=20", "ตอง=5" -> shorthand sets
  * - Line breaks also work as separators
  */
 function parseBatchInput(input: string): { number: string; price: number }[] {
@@ -39,7 +41,13 @@ function parseBatchInput(input: string): { number: string; price: number }[] {
 
             currentPrice = price;
 
-            if (numPart) {
+            const shorthand = numPart ? parseShorthand(numPart) : null;
+            if (shorthand) {
+                // Shorthand set before = (e.g., "5 19 ประตู=10")
+                for (const num of expandShorthand(shorthand)) {
+                    results.push({ number: num, price });
+                }
+            } else if (numPart) {
                 // Handle multiple numbers before = (e.g., "123,456=100")
                 const nums = numPart.split(/\s+/).filter(Boolean);
                 for (const num of nums) {
@@ -50,7 +58,13 @@ function parseBatchInput(input: string): { number: string; price: number }[] {
                 }
             }
         } else {
-            // Just a number, add to pending
+            // Just a number (or shorthand set), add to pending
+            const shorthand = parseShorthand(part);
+            if (shorthand) {
+                pendingNumbers.push(...expandShorthand(shorthand));
+                continue;
+            }
+
             const cleanNum = part.replace(/\D/g, '');
             if (cleanNum) {
                 pendingNumbers.push(cleanNum);
@@ -94,12 +108,12 @@ export default function BatchEntry({ onAddEntries, selectedCategories, onClose }
         const entries = parseBatchInput(batchInput);
 
         if (entries.length === 0) {
-            setError('กรุณากรอกข้อมูลให้ถูกต้อง (เช่น 123=100, 456=50)');
+            setError('กรุณากรอกข้อมูลให้ถูกต้อง (เช่น 123=100, 456=50, 5 19 ประตู=10)');
             return;
         }
 
         // Validate all numbers
-        const digitLength = selectedCategories[0].startsWith('3') ? 3 : 2;
+        const digitLength = CATEGORY_DIGIT_LENGTH[selectedCategories[0]];
         for (const entry of entries) {
             if (entry.number.length !== digitLength) {
                 setError(`เลข "${entry.number}" ต้องมี ${digitLength} หลัก`);
@@ -158,10 +172,14 @@ export default function BatchEntry({ onAddEntries, selectedCategories, onClose }
                     placeholder={`ตัวอย่าง:
 123=100
 456=50
-789 012 345=100`}
+789 012 345=100
+5 19 ประตู=10
+เบิ้ล=20`}
                 />
                 <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
                     รูปแบบ: เลข=ราคา คั่นด้วย comma หรือ ขึ้นบรรทัดใหม่
+                    <br />
+                    ชุดเลข: 19 ประตู, รูด, รูดหน้า/รูดหลัง, สิบเลขหน้า/สิบเลขหลัง, เบิ้ล, ตอง
                 </p>
             </div>
 
@@ -247,7 +247,7 @@ export default function BillScanner({ onEntriesScanned, onClose }: BillScannerPr
                                                 onChange={(e) => updateEntry(index, 'category', e.target.value as Category)}
                                                 className="select text-sm"
                                             >
-                                                {(['3top', '3tod', '3down', '2top', '2down'] as Category[]).map((cat) => (
+                                                {(['3top', '3tod', '3down', '3back', '2top', '2down', '2back', '1top', '1down'] as Category[]).map((cat) => (
                                                     <option key={cat} value={cat}>
                                                         {CATEGORY_LABELS[cat]}
                                                     </option>
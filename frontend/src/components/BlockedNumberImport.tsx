@@ -0,0 +1,253 @@
+import { useState, useMemo } from 'react';
+import { BlockedNumber, Category, CreateBlockedNumber, Settings, CATEGORY_LABELS } from '@shared/schemas';
+import { parseBlockedList, buildBlockedList, BlockedRate } from '../lib/blocked';
+import { resolvePayouts } from '../lib/compute';
+import BlockedWindowFields, { WindowInput, EMPTY_WINDOW, toBlockedWindow } from './BlockedWindowFields';
+
+interface BlockedNumberImportProps {
+    settings: Settings;
+    categories: Category[];
+    blockedNumbers: BlockedNumber[];
+    onImport: (rules: CreateBlockedNumber[]) => Promise<void>;
+    onClose: () => void;
+}
+
+// Rows shown in the preview table
+const PREVIEW_LIMIT = 200;
+
+/**
+ * Blocks every number of a pasted list, shown for confirmation first
+ */
+export default function BlockedNumberImport({
+    settings,
+    categories,
+    blockedNumbers,
+    onImport,
+    onClose,
+}: BlockedNumberImportProps) {
+    const [text, setText] = useState('');
+    const [selectedCategories, setSelectedCategories] = useState<Category[]>([categories[0]]);
+    const [rateKind, setRateKind] = useState<BlockedRate['kind']>('payout');
+    const [rateValue, setRateValue] = useState('');
+    const [windowInput, setWindowInput] = useState<WindowInput>(EMPTY_WINDOW);
+    const [step, setStep] = useState<'edit' | 'preview'>('edit');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const lines = useMemo(() => parseBlockedList(text), [text]);
+    const invalid = lines.flatMap((line) => line.invalid);
+    const numberCount = new Set(lines.flatMap((line) => line.numbers)).size;
+
+    const validity = useMemo(() => toBlockedWindow(windowInput, settings.products), [windowInput, settings.products]);
+    const rate = parseFloat(rateValue);
+    const needsRate = lines.some((line) => !line.rate);
+
+    const preview = useMemo(
+        () =>
+            validity
+                ? buildBlockedList(lines, {
+                    categories: selectedCategories,
+                    rate: { kind: rateKind, value: isNaN(rate) ? 0 : rate },
+                    payouts: resolvePayouts(settings, { productId: validity.productId }),
+                    window: validity,
+                    existing: blockedNumbers,
+                })
+                : null,
+        [lines, selectedCategories, rateKind, rate, settings, validity, blockedNumbers]
+    );
+
+    const toggleCategory = (category: Category) => {
+        setSelectedCategories((current) =>
+            current.includes(category) ? current.filter((c) => c !== category) : [...current, category]
+        );
+    };
+
+    const handlePreview = () => {
+        if (selectedCategories.length === 0) {
+            setError('กรุณาเลือกประเภทอย่างน้อย 1 ประเภท');
+            return;
+        }
+        if (needsRate && (isNaN(rate) || rate < 0)) {
+            setError('กรุณากรอกอัตราจ่าย (หรือระบุ "จ่าย ..." ในแต่ละบรรทัด)');
+            return;
+        }
+        if (!validity) {
+            setError('ช่วงวันที่ไม่ถูกต้อง');
+            return;
+        }
+        setError(null);
+        setStep('preview');
+    };
+
+    const handleConfirm = async () => {
+        if (!preview || preview.rules.length === 0) return;
+        setIsSaving(true);
+        try {
+            await onImport(preview.rules);
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'เพิ่มเลขอั้นไม่สำเร็จ');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-slate-100">
+                        {step === 'edit' ? 'นำเข้าเลขอั้นหลายเลข' : 'ตรวจสอบก่อนเพิ่ม'}
+                    </h2>
+                </div>
+                <div className="modal-body space-y-4">
+                    {error && (
+                        <div className="p-3 bg-red-100 dark:bg-red-900/30 border border-red-300 dark:border-red-700 rounded-lg text-red-700 dark:text-red-400 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {step === 'edit' ? (
+                        <>
+                            <div>
+                                <label className="label">รายการเลข (บรรทัดละชุด)</label>
+                                <textarea
+                                    value={text}
+                                    onChange={(e) => setText(e.target.value)}
+                                    className="input min-h-[120px] font-mono"
+                                    placeholder={'123 456 789 จ่ายครึ่ง\nเลขเบิ้ล ทั้งหมด 2 ตัว\n159 โต๊ด จ่าย 300\nตอง'}
+                                    autoFocus
+                                />
+                                <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                                    เลขคั่นด้วยช่องว่างหรือ comma · โต๊ด/กลับ = ทุกตำแหน่ง · เบิ้ล, ตอง, รูด, 19 ประตู ·
+                                    จ่ายครึ่ง, จ่าย 300, จ่าย 30%
+                                </p>
+                                {text.trim() && (
+                                    <p className="text-sm text-gray-600 dark:text-slate-400 mt-1">
+                                        พบ {numberCount} เลข
+                                        {invalid.length > 0 && (
+                                            <span className="text-red-500"> · อ่านไม่ได้: {invalid.slice(0, 10).join(', ')}</span>
+                                        )}
+                                    </p>
+                                )}
+                            </div>
+                            <div>
+                                <label className="label">ประเภท</label>
+                                <div className="flex flex-wrap gap-2">
+                                    {categories.map((cat) => (
+                                        <button
+                                            key={cat}
+                                            type="button"
+                                            onClick={() => toggleCategory(cat)}
+                                            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${selectedCategories.includes(cat)
+                                                ? 'bg-blue-600 text-white'
+                                                : 'bg-gray-100 text-gray-700 dark:bg-slate-700 dark:text-slate-300'
+                                                }`}
+                                        >
+                                            {CATEGORY_LABELS[cat]}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div>
+                                <label className="label">อัตราจ่าย (บรรทัดที่ไม่ได้ระบุ)</label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <select
+                                        value={rateKind}
+                                        onChange={(e) => setRateKind(e.target.value as BlockedRate['kind'])}
+                                        className="select"
+                                    >
+                                        <option value="payout">บาทละ</option>
+                                        <option value="percent">% ของอัตราปกติ</option>
+                                    </select>
+                                    <input
+                                        type="number"
+                                        inputMode="numeric"
+                                        value={rateValue}
+                                        onChange={(e) => setRateValue(e.target.value)}
+                                        className="input"
+                                        placeholder={rateKind === 'percent' ? '50' : '100'}
+                                        min="0"
+                                    />
+                                </div>
+                            </div>
+                            <BlockedWindowFields value={windowInput} products={settings.products} onChange={setWindowInput} />
+                        </>
+                    ) : (
+                        preview && (
+                            <>
+                                <p className="text-sm text-gray-600 dark:text-slate-400">
+                                    จะเพิ่ม <strong>{preview.rules.length}</strong> รายการ
+                                    {preview.duplicates > 0 && ` · ข้าม ${preview.duplicates} รายการที่มีอยู่แล้ว`}
+                                </p>
+                                {preview.unmatched.length > 0 && (
+                                    <p className="text-sm text-yellow-700 dark:text-yellow-400">
+                                        ไม่มีประเภทที่ตรงกับจำนวนหลักของ: {preview.unmatched.slice(0, 10).join(', ')}
+                                        {preview.unmatched.length > 10 && ` +${preview.unmatched.length - 10}`}
+                                    </p>
+                                )}
+                                {invalid.length > 0 && (
+                                    <p className="text-sm text-red-500">อ่านไม่ได้ (ข้าม): {invalid.slice(0, 10).join(', ')}</p>
+                                )}
+                                <div className="overflow-y-auto max-h-64">
+                                    <table className="table w-full whitespace-nowrap">
+                                        <thead>
+                                            <tr>
+                                                <th>เลข</th>
+                                                <th>ประเภท</th>
+                                                <th className="text-right">จ่าย</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {preview.rules.slice(0, PREVIEW_LIMIT).map((rule) => (
+                                                <tr key={`${rule.category}:${rule.number}`}>
+                                                    <td className="font-mono font-bold">{rule.number}</td>
+                                                    <td>{CATEGORY_LABELS[rule.category]}</td>
+                                                    <td className="text-right font-mono">{rule.payoutOverride}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                    {preview.rules.length > PREVIEW_LIMIT && (
+                                        <p className="text-center text-sm text-gray-500 dark:text-slate-400 py-2">
+                                            +{preview.rules.length - PREVIEW_LIMIT} อีก...
+                                        </p>
+                                    )}
+                                </div>
+                            </>
+                        )
+                    )}
+                </div>
+                <div className="modal-footer">
+                    {step === 'edit' ? (
+                        <>
+                            <button onClick={onClose} className="btn-secondary flex-1 sm:flex-none">
+                                ยกเลิก
+                            </button>
+                            <button
+                                onClick={handlePreview}
+                                disabled={numberCount === 0}
+                                className="btn-primary flex-1 sm:flex-none"
+                            >
+                                ดูตัวอย่าง
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <button onClick={() => setStep('edit')} className="btn-secondary flex-1 sm:flex-none">
+                                แก้ไข
+                            </button>
+                            <button
+                                onClick={handleConfirm}
+                                disabled={isSaving || !preview || preview.rules.length === 0}
+                                className="btn-primary flex-1 sm:flex-none"
+                            >
+                                ยืนยันเพิ่ม {preview?.rules.length ?? 0} รายการ
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
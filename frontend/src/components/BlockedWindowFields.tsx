@@ -0,0 +1,125 @@
+import { Product, GOVERNMENT_PRODUCT_ID } from '@shared/schemas';
+import { BlockedWindow } from '../lib/blocked';
+import { findProduct, getEnabledProducts, getCurrentDrawPeriod, getDrawPeriodOptions, DrawPeriod } from '../lib/drawPeriod';
+
+export interface WindowInput {
+    productId: string; // Blank = every product
+    type: 'always' | 'draw' | 'range';
+    drawDate: string;
+    validFrom: string;
+    validTo: string;
+}
+
+export const EMPTY_WINDOW: WindowInput = { productId: '', type: 'always', drawDate: '', validFrom: '', validTo: '' };
+
+/**
+ * The current draw and the ones before it, newest first
+ */
+export function getBlockedDrawOptions(product: Product): DrawPeriod[] {
+    const current = getCurrentDrawPeriod(product);
+    return [current, ...getDrawPeriodOptions(2, product).filter((p) => p.id < current.id)];
+}
+
+/**
+ * Validity window from the form, or null when a draw or a date is missing or
+ * the range ends before it starts. A draw always belongs to one product.
+ */
+export function toBlockedWindow(input: WindowInput, products: Product[] | undefined): BlockedWindow | null {
+    const product = input.productId ? { productId: input.productId } : {};
+
+    switch (input.type) {
+        case 'draw': {
+            const productId = input.productId || GOVERNMENT_PRODUCT_ID;
+            const drawDate = input.drawDate || getCurrentDrawPeriod(findProduct(products, productId)).id;
+            return { productId, drawDate };
+        }
+        case 'range':
+            if (!input.validFrom && !input.validTo) return null;
+            if (input.validFrom && input.validTo && input.validFrom > input.validTo) return null;
+            return {
+                ...product,
+                ...(input.validFrom ? { validFrom: input.validFrom } : {}),
+                ...(input.validTo ? { validTo: input.validTo } : {}),
+            };
+        default:
+            return product;
+    }
+}
+
+interface BlockedWindowFieldsProps {
+    value: WindowInput;
+    products: Product[] | undefined;
+    onChange: (value: WindowInput) => void;
+}
+
+/**
+ * Product, draw and date range a blocked number applies to
+ */
+export default function BlockedWindowFields({ value, products, onChange }: BlockedWindowFieldsProps) {
+    const enabledProducts = getEnabledProducts(products);
+    const drawProduct = findProduct(products, value.productId || GOVERNMENT_PRODUCT_ID);
+    const drawOptions = getBlockedDrawOptions(drawProduct);
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+                <div>
+                    <label className="label">ประเภทหวย</label>
+                    <select
+                        value={value.productId}
+                        onChange={(e) => onChange({ ...value, productId: e.target.value, drawDate: '' })}
+                        className="select"
+                    >
+                        <option value="">ทุกประเภท</option>
+                        {enabledProducts.map((product) => (
+                            <option key={product.id} value={product.id}>
+                                {product.name}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="label">ใช้กับ</label>
+                    <select
+                        value={value.type}
+                        onChange={(e) => onChange({ ...value, type: e.target.value as WindowInput['type'] })}
+                        className="select"
+                    >
+                        <option value="always">ทุกงวด</option>
+                        <option value="draw">เฉพาะงวด</option>
+                        <option value="range">ช่วงวันที่</option>
+                    </select>
+                </div>
+            </div>
+            {value.type === 'draw' && (
+                <select
+                    value={value.drawDate || drawOptions[0].id}
+                    onChange={(e) => onChange({ ...value, drawDate: e.target.value })}
+                    className="select"
+                >
+                    {drawOptions.map((opt) => (
+                        <option key={opt.id} value={opt.id}>
+                            งวด {opt.label}
+                        </option>
+                    ))}
+                </select>
+            )}
+            {value.type === 'range' && (
+                <div className="grid grid-cols-2 gap-2">
+                    <input
+                        type="date"
+                        value={value.validFrom}
+                        onChange={(e) => onChange({ ...value, validFrom: e.target.value })}
+                        className="input"
+                    />
+                    <input
+                        type="date"
+                        value={value.validTo}
+                        onChange={(e) => onChange({ ...value, validTo: e.target.value })}
+                        className="input"
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
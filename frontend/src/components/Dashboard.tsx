@@ -1,14 +1,26 @@
 
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useCallback } from 'react';
 import { useLocation } from 'react-router-dom';
 import { useAppStore } from '../store/appStore';
 import { computeSummary } from '../lib/compute';
-import { computeActualPayout } from '../lib/payout';
+import { computeActualPayout, evaluateTicket } from '../lib/payout';
+import { summarizeHedges } from '../lib/hedge';
+import { ticketPayoutResolver } from '../lib/rateTable';
+import { isCountedTicket } from '../lib/ticketStatus';
 import { getLotteryResults } from '../storage/firebaseData';
+import { getHedgeTickets } from '../storage/db';
 import { formatCurrency, exportSummaryCSV, exportTicketsCSV } from '../utils/export';
-import { CATEGORY_LABELS, LotteryResult } from '@shared/schemas';
-import { getDrawPeriodOptions, getCurrentDrawPeriod, isDateInDrawPeriod } from '../lib/drawPeriod';
+import { CATEGORY_LABELS, LotteryResult, HedgeTicket, GOVERNMENT_PRODUCT_ID } from '@shared/schemas';
+import {
+    getDrawPeriodOptions,
+    getCurrentDrawPeriod,
+    isDateInDrawPeriod,
+    findProduct,
+    getEnabledProducts,
+} from '../lib/drawPeriod';
 import AgentDetailModal from './AgentDetailModal';
+import HedgePanel from './HedgePanel';
+import ExposureMatrix from './ExposureMatrix';
 
 // Helper component for Stat Card
 function StatCard({
@@ -57,16 +69,29 @@ export default function Dashboard() {
     const tickets = useAppStore((state) => state.tickets);
     const agents = useAppStore((state) => state.agents);
     const settings = useAppStore((state) => state.settings);
+    const rateTables = useAppStore((state) => state.rateTables);
 
-    const drawPeriodOptions = useMemo(() => getDrawPeriodOptions(12), []);
+    const products = useMemo(() => getEnabledProducts(settings.products), [settings.products]);
+    const [selectedProductId, setSelectedProductId] = useState(GOVERNMENT_PRODUCT_ID);
+    const selectedProduct = useMemo(
+        () => findProduct(settings.products, selectedProductId),
+        [settings.products, selectedProductId]
+    );
+
+    const drawPeriodOptions = useMemo(() => getDrawPeriodOptions(12, selectedProduct), [selectedProduct]);
 
     // Check location state for period, otherwise use default
     const [selectedPeriod, setSelectedPeriod] = useState(() => {
         const statePeriod = location.state?.period;
         if (statePeriod) return statePeriod;
-        return getCurrentDrawPeriod().id;
+        return getCurrentDrawPeriod(selectedProduct).id;
     });
 
+    const handleProductChange = (productId: string) => {
+        setSelectedProductId(productId);
+        setSelectedPeriod(getCurrentDrawPeriod(findProduct(settings.products, productId)).id);
+    };
+
     // Modal State
     const [detailAgentId, setDetailAgentId] = useState<string | null>(null);
     const [lotteryResult, setLotteryResult] = useState<LotteryResult | null>(null);
@@ -76,59 +101,75 @@ export default function Dashboard() {
         const fetchResult = async () => {
             try {
                 const results = await getLotteryResults();
-                const match = results.find((r) => r.date === selectedPeriod);
+                const match = results.find(
+                    (r) => r.date === selectedPeriod && (r.round ?? GOVERNMENT_PRODUCT_ID) === selectedProduct.id
+                );
                 setLotteryResult(match || null);
             } catch (error) {
                 console.error('Failed to fetch lottery results:', error);
             }
         };
         fetchResult();
-    }, [selectedPeriod]);
+    }, [selectedPeriod, selectedProduct.id]);
+
+    // Hedge tickets (ตัดส่ง) sent for the selected draw
+    const [hedges, setHedges] = useState<HedgeTicket[]>([]);
+
+    const loadHedges = useCallback(async () => {
+        setHedges(await getHedgeTickets(selectedProduct.id, selectedPeriod));
+    }, [selectedProduct.id, selectedPeriod]);
+
+    useEffect(() => {
+        loadHedges();
+    }, [loadHedges]);
+
+    const hedgeSummary = useMemo(() => summarizeHedges(hedges, lotteryResult), [hedges, lotteryResult]);
 
     const filteredTickets = useMemo(() => {
-        return tickets.filter((t) => isDateInDrawPeriod(t.date, selectedPeriod));
-    }, [tickets, selectedPeriod]);
+        return tickets.filter(
+            (t) =>
+                isCountedTicket(t) &&
+                t.round === selectedProduct.id &&
+                isDateInDrawPeriod(t.date, selectedPeriod, selectedProduct)
+        );
+    }, [tickets, selectedPeriod, selectedProduct]);
+
+    // Each ticket is paid at the rates it was sold with
+    const payouts = useMemo(() => ticketPayoutResolver(settings, rateTables), [settings, rateTables]);
 
     const summary = useMemo(() => {
-        return computeSummary(filteredTickets, settings, agents, selectedPeriod);
-    }, [filteredTickets, agents, settings, selectedPeriod]);
+        return computeSummary(filteredTickets, settings, agents, selectedPeriod, selectedProduct.id, lotteryResult, payouts);
+    }, [filteredTickets, agents, settings, selectedPeriod, selectedProduct.id, lotteryResult, payouts]);
 
     const actualPayout = useMemo(() => {
         if (!lotteryResult) return null;
-        return computeActualPayout(filteredTickets, lotteryResult);
-    }, [filteredTickets, lotteryResult]);
+        return computeActualPayout(filteredTickets, lotteryResult, payouts);
+    }, [filteredTickets, lotteryResult, payouts]);
 
     const agentStats = useMemo(() => {
         if (!lotteryResult) return summary.perAgent;
 
-        // Calculate actual stats per agent
-        const agentMap = new Map<string, { gross: number; payout: number; ticketCount: number }>();
-
+        // Replace expected payouts with actual winnings per agent
+        const payoutByAgent = new Map<string, number>();
         filteredTickets.forEach((ticket) => {
-            const ticketPayout = computeActualPayout([ticket], lotteryResult);
-            const current = agentMap.get(ticket.agentId) || { gross: 0, payout: 0, ticketCount: 0 };
-
-            agentMap.set(ticket.agentId, {
-                gross: current.gross + ticket.billTotal,
-                payout: current.payout + ticketPayout,
-                ticketCount: current.ticketCount + 1,
-            });
+            const ticketPayout = evaluateTicket(ticket, lotteryResult, payouts).amount;
+            payoutByAgent.set(ticket.agentId, (payoutByAgent.get(ticket.agentId) ?? 0) + ticketPayout);
         });
 
-        // Convert to array matching summary.perAgent structure
-        return Array.from(agentMap.entries()).map(([agentId, stats]) => {
-            const agent = agents.find(a => a.id === agentId);
+        return summary.perAgent.map((agent) => {
+            const payout = payoutByAgent.get(agent.agentId) ?? 0;
             return {
-                agentId,
-                agentName: agent?.name ?? 'Unknown',
-                gross: stats.gross,
-                expectedPayout: stats.payout, // Reusing field name but storing actual payout
-                profit: stats.gross - stats.payout,
-                ticketCount: stats.ticketCount,
+                ...agent,
+                expectedPayout: payout, // Reusing field name but storing actual payout
+                profit: agent.gross - payout,
             };
-        }).sort((a, b) => b.gross - a.gross);
+        });
+    }, [lotteryResult, summary.perAgent, filteredTickets, payouts]);
 
-    }, [lotteryResult, summary.perAgent, filteredTickets, agents]);
+    const totalCommission = useMemo(
+        () => summary.perAgent.reduce((sum, agent) => sum + agent.commission, 0),
+        [summary.perAgent]
+    );
 
     const handleExportSummary = () => {
         exportSummaryCSV(summary);
@@ -156,9 +197,12 @@ export default function Dashboard() {
         return agents.find(a => a.id === detailAgentId)?.name ?? 'Unknown';
     }, [agents, detailAgentId]);
 
-    // Determine values to display
-    const displayPayout = actualPayout !== null ? actualPayout : summary.expectedPayout;
-    const displayProfit = summary.gross - displayPayout;
+    // Determine values to display; hedged exposure is netted out
+    const displayPayout =
+        actualPayout !== null
+            ? actualPayout - hedgeSummary.winnings
+            : Math.max(summary.expectedPayout - hedgeSummary.coverage, 0);
+    const displayProfit = summary.gross - totalCommission - hedgeSummary.stake - displayPayout;
     const isActual = actualPayout !== null;
 
     return (
@@ -175,6 +219,19 @@ export default function Dashboard() {
                 </div>
 
                 <div className="flex flex-wrap items-center gap-2 sm:gap-4">
+                    {products.length > 1 && (
+                        <select
+                            value={selectedProduct.id}
+                            onChange={(e) => handleProductChange(e.target.value)}
+                            className="select flex-1 sm:flex-none"
+                        >
+                            {products.map((product) => (
+                                <option key={product.id} value={product.id}>
+                                    {product.name}
+                                </option>
+                            ))}
+                        </select>
+                    )}
                     <select
                         value={selectedPeriod}
                         onChange={(e) => setSelectedPeriod(e.target.value)}
@@ -210,14 +267,18 @@ export default function Dashboard() {
                 {isActual ? (
                     <>
                         <StatCard
-                            label="จ่ายจริง (มีคนถูก)"
+                            label={hedgeSummary.stake > 0 ? 'จ่ายจริงสุทธิ (หักได้คืนจากตัดส่ง)' : 'จ่ายจริง (มีคนถูก)'}
                             value={formatCurrency(displayPayout)}
                             icon="💸"
                             color={displayPayout > 0 ? "red" : "green"}
                             valueColor={displayPayout > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}
                         />
                         <StatCard
-                            label="กำไรสุทธิ"
+                            label={
+                                hedgeSummary.stake > 0
+                                    ? 'กำไรสุทธิ (หักค่าคอมและตัดส่ง)'
+                                    : totalCommission > 0 ? 'กำไรสุทธิ (หักค่าคอม)' : 'กำไรสุทธิ'
+                            }
                             value={formatCurrency(displayProfit)}
                             icon="📈"
                             color={displayProfit >= 0 ? "green" : "red"}
@@ -260,13 +321,15 @@ export default function Dashboard() {
                     </h2>
                     {agentStats.length > 0 ? (
                         <div className="overflow-x-auto -mx-3 sm:mx-0 px-3 sm:px-0">
-                            <table className="table min-w-[600px] sm:min-w-full">
+                            <table className="table min-w-[760px] sm:min-w-full">
                                 <thead>
                                     <tr>
                                         <th className="whitespace-nowrap">เจ้า</th>
                                         <th className="text-right whitespace-nowrap">ยอดขาย</th>
                                         <th className="text-right whitespace-nowrap">{isActual ? "จ่ายจริง" : "จ่ายคืน"}</th>
                                         <th className="text-right whitespace-nowrap">กำไร</th>
+                                        <th className="text-right whitespace-nowrap">ค่าคอม</th>
+                                        <th className="text-right whitespace-nowrap">ยอดสุทธิ</th>
                                         <th className="text-right whitespace-nowrap">บิล</th>
                                     </tr>
                                 </thead>
@@ -292,6 +355,15 @@ export default function Dashboard() {
                                             >
                                                 {isActual ? formatCurrency(agent.profit) : 'รอผล'}
                                             </td>
+                                            <td className="text-right font-mono whitespace-nowrap text-gray-500 dark:text-slate-400">
+                                                {formatCurrency(agent.commission)}
+                                            </td>
+                                            <td
+                                                className={`text-right font-mono font-medium whitespace-nowrap ${agent.netDue >= 0 ? 'text-green-500' : 'text-red-500'}`}
+                                                title={agent.netDue >= 0 ? 'เจ้าต้องส่ง' : 'ต้องจ่ายให้เจ้า'}
+                                            >
+                                                {formatCurrency(agent.netDue)}
+                                            </td>
                                             <td className="text-right whitespace-nowrap">{agent.ticketCount}</td>
                                         </tr>
                                     ))}
@@ -338,6 +410,22 @@ export default function Dashboard() {
                         </div>
                     )}
                 </div>
+
+                {/* Lay-off to the upstream dealer */}
+                <HedgePanel
+                    tickets={filteredTickets}
+                    hedges={hedges}
+                    hedgeSummary={hedgeSummary}
+                    expectedPayout={summary.expectedPayout}
+                    settings={settings}
+                    productId={selectedProduct.id}
+                    drawDate={selectedPeriod}
+                    lotteryResult={lotteryResult}
+                    onChange={loadHedges}
+                />
+
+                {/* Exposure per number */}
+                <ExposureMatrix tickets={filteredTickets} gross={summary.gross} ceilings={settings.ceilings} />
             </div>
 
             <AgentDetailModal
@@ -346,6 +434,11 @@ export default function Dashboard() {
                 agentName={selectedAgentName}
                 tickets={selectedAgentTickets}
                 lotteryResult={lotteryResult}
+                payouts={payouts}
+                commissionRates={agents.find((a) => a.id === detailAgentId)?.commission}
+                agentId={detailAgentId ?? undefined}
+                drawDate={selectedPeriod}
+                productId={selectedProduct.id}
             />
         </div>
     );
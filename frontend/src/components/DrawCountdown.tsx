@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react';
+import { useAppStore } from '../store/appStore';
+import { usePermission } from '../store/authStore';
+import {
+    getEnabledProducts,
+    getCurrentDrawPeriod,
+    getDrawCutoff,
+    findReopenedDraw,
+} from '../lib/drawPeriod';
+import { formatCountdown } from '../utils/export';
+
+// Under this much time left the countdown turns red
+const WARNING_MS = 60 * 60 * 1000;
+
+/**
+ * Time left to enter bills for the current draw: of the products taking
+ * bets, the one closing soonest. Admins reopen or close a draw past its
+ * cut-off here.
+ */
+export default function DrawCountdown() {
+    const settings = useAppStore((state) => state.settings);
+    const reopenDraw = useAppStore((state) => state.reopenDraw);
+    const closeDraw = useAppStore((state) => state.closeDraw);
+    const canReopen = usePermission('draws.reopen');
+    const [now, setNow] = useState(() => new Date());
+
+    useEffect(() => {
+        const intervalId = setInterval(() => setNow(new Date()), 1000);
+        return () => clearInterval(intervalId);
+    }, []);
+
+    const draws = getEnabledProducts(settings.products)
+        .map((product) => {
+            const draw = getCurrentDrawPeriod(product);
+            return { product, draw, cutoff: getDrawCutoff(draw.id, product) };
+        })
+        .sort((a, b) => a.cutoff.getTime() - b.cutoff.getTime());
+    const current = draws.find((d) => now < d.cutoff) ?? draws[0];
+    if (!current) return null;
+
+    const { product, draw, cutoff } = current;
+    const left = cutoff.getTime() - now.getTime();
+    const reopened = findReopenedDraw(settings.reopenedDraws, draw.id, product);
+    const name = `${product.name} ${draw.label}`;
+
+    if (left > 0) {
+        return (
+            <div
+                className={`text-xs sm:text-sm whitespace-nowrap ${left < WARNING_MS ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-gray-600 dark:text-slate-400'
+                    }`}
+                title={`ปิดรับ ${cutoff.toLocaleString('th-TH')}`}
+            >
+                ⏰ <span className="hidden sm:inline">{name} </span>ปิดรับใน{' '}
+                <span className="font-mono">{formatCountdown(left)}</span>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex items-center gap-2 text-xs sm:text-sm whitespace-nowrap">
+            {reopened ? (
+                <span className="badge-warning">🔓 {name} เปิดรับพิเศษ</span>
+            ) : (
+                <span className="badge-danger">🔒 {name} ปิดรับแล้ว</span>
+            )}
+            {canReopen &&
+                (reopened ? (
+                    <button onClick={() => closeDraw(product.id, draw.id)} className="btn-secondary btn-sm text-xs">
+                        ปิดรับ
+                    </button>
+                ) : (
+                    <button onClick={() => reopenDraw(product.id, draw.id)} className="btn-secondary btn-sm text-xs">
+                        เปิดรับ
+                    </button>
+                ))}
+        </div>
+    );
+}
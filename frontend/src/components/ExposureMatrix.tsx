@@ -0,0 +1,152 @@
+import { useState, useMemo } from 'react';
+import { Ticket, Category, Ceilings, CATEGORY_LABELS, CATEGORY_DIGIT_LENGTH } from '@shared/schemas';
+import { createComboSalesTracker, buildExposureGrid, ExposureCell } from '../lib/compute';
+import { formatCurrency } from '../utils/export';
+
+interface ExposureMatrixProps {
+    tickets: Ticket[];
+    gross: number;
+    ceilings: Ceilings;
+}
+
+const EXPOSURE_CATEGORIES: Category[] = ['2top', '2down', '2back', '3top', '3tod', '3down', '3back'];
+
+// 3-digit numbers are shown 100 at a time
+const PAGE_SIZE = 100;
+
+/**
+ * Cell colour by sold amount against the per-combo ceiling
+ */
+function getCellClass(cell: ExposureCell, ceilings: Ceilings): string {
+    if (cell.soldAmount === 0) return 'bg-gray-50 text-gray-300 dark:bg-slate-800 dark:text-slate-600';
+    const ratio = cell.soldAmount / ceilings.perComboMax;
+    if (ratio >= 1) return 'bg-red-500 text-white';
+    if (ratio >= 0.8) return 'bg-orange-400 text-white';
+    if (ratio >= 0.5) return 'bg-yellow-200 text-yellow-900 dark:bg-yellow-700 dark:text-yellow-100';
+    return 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300';
+}
+
+/**
+ * Sold amount, worst-case payout and net loss for every number of a category
+ */
+export default function ExposureMatrix({ tickets, gross, ceilings }: ExposureMatrixProps) {
+    const [category, setCategory] = useState<Category>('2top');
+    const [page, setPage] = useState(0);
+    const [selected, setSelected] = useState<ExposureCell | null>(null);
+
+    // Only newly added tickets are aggregated on each update
+    const [trackComboSales] = useState(createComboSalesTracker);
+    const comboSales = useMemo(() => trackComboSales(tickets), [trackComboSales, tickets]);
+
+    const digits = CATEGORY_DIGIT_LENGTH[category];
+    const pageCount = digits === 3 ? 10 ** digits / PAGE_SIZE : 1;
+
+    const cells = useMemo(
+        () => buildExposureGrid(comboSales, category, gross, page * PAGE_SIZE, PAGE_SIZE),
+        [comboSales, category, gross, page]
+    );
+
+    const worst = useMemo(
+        () => buildExposureGrid(comboSales, category, gross).reduce<ExposureCell | null>(
+            (max, cell) => (!max || cell.payout > max.payout ? cell : max),
+            null
+        ),
+        [comboSales, category, gross]
+    );
+
+    const handleCategoryChange = (next: Category) => {
+        setCategory(next);
+        setPage(0);
+        setSelected(null);
+    };
+
+    const detail = selected ?? worst;
+
+    return (
+        <div className="card p-3 sm:p-6">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <h2 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-slate-100">
+                    📊 ตารางความเสี่ยงรายเลข
+                </h2>
+                <div className="flex gap-2">
+                    <select
+                        value={category}
+                        onChange={(e) => handleCategoryChange(e.target.value as Category)}
+                        className="select w-auto text-sm"
+                    >
+                        {EXPOSURE_CATEGORIES.map((cat) => (
+                            <option key={cat} value={cat}>{CATEGORY_LABELS[cat]}</option>
+                        ))}
+                    </select>
+                    {pageCount > 1 && (
+                        <select
+                            value={page}
+                            onChange={(e) => {
+                                setPage(Number(e.target.value));
+                                setSelected(null);
+                            }}
+                            className="select w-auto text-sm"
+                        >
+                            {Array.from({ length: pageCount }, (_, i) => (
+                                <option key={i} value={i}>
+                                    {String(i * PAGE_SIZE).padStart(digits, '0')}–{String((i + 1) * PAGE_SIZE - 1).padStart(digits, '0')}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-10 gap-0.5 sm:gap-1">
+                {cells.map((cell) => (
+                    <button
+                        key={cell.number}
+                        type="button"
+                        onClick={() => setSelected(cell)}
+                        className={`rounded px-0.5 py-1 text-center leading-tight ${getCellClass(cell, ceilings)} ${selected?.number === cell.number ? 'ring-2 ring-blue-500' : ''}`}
+                        title={`${cell.number}: ขาย ${formatCurrency(cell.soldAmount)} / จ่าย ${formatCurrency(cell.payout)}`}
+                    >
+                        <div className="font-mono text-xs sm:text-sm font-bold">{cell.number}</div>
+                        <div className="text-[9px] sm:text-[10px] truncate">
+                            {cell.soldAmount > 0 ? cell.soldAmount.toLocaleString() : '-'}
+                        </div>
+                    </button>
+                ))}
+            </div>
+
+            {detail && (
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-4 text-sm">
+                    <div className="p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                        <div className="text-xs text-gray-500 dark:text-slate-400">
+                            {selected ? 'เลขที่เลือก' : 'เลขที่จ่ายสูงสุด'}
+                        </div>
+                        <div className="font-mono font-bold text-lg">{detail.number}</div>
+                    </div>
+                    <div className="p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                        <div className="text-xs text-gray-500 dark:text-slate-400">ยอดขาย</div>
+                        <div className="font-bold">{formatCurrency(detail.soldAmount)}</div>
+                    </div>
+                    <div className="p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                        <div className="text-xs text-gray-500 dark:text-slate-400">ต้องจ่ายถ้าออก</div>
+                        <div className="font-bold text-orange-600">{formatCurrency(detail.payout)}</div>
+                    </div>
+                    <div className="p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                        <div className="text-xs text-gray-500 dark:text-slate-400">
+                            {detail.netLoss > 0 ? 'ขาดทุนสุทธิถ้าออก' : 'กำไรสุทธิถ้าออก'}
+                        </div>
+                        <div className={`font-bold ${detail.netLoss > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {formatCurrency(Math.abs(detail.netLoss))}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex flex-wrap gap-3 mt-3 text-xs text-gray-500 dark:text-slate-400">
+                <span><span className="inline-block w-3 h-3 rounded bg-green-100 align-middle mr-1" />ต่ำกว่า 50%</span>
+                <span><span className="inline-block w-3 h-3 rounded bg-yellow-200 align-middle mr-1" />50%+</span>
+                <span><span className="inline-block w-3 h-3 rounded bg-orange-400 align-middle mr-1" />80%+</span>
+                <span><span className="inline-block w-3 h-3 rounded bg-red-500 align-middle mr-1" />เกินเพดานต่อชุด ({formatCurrency(ceilings.perComboMax)})</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,169 @@
+import { useMemo } from 'react';
+import { Ticket, Settings, HedgeTicket, LotteryResult, CATEGORY_LABELS } from '@shared/schemas';
+import * as db from '../storage/db';
+import { computeHedgeLines, buildHedgeEntries, HedgeSummary } from '../lib/hedge';
+import { useUsername, usePermission } from '../store/authStore';
+import { formatCurrency, formatDateTimeShort } from '../utils/export';
+
+interface HedgePanelProps {
+    tickets: Ticket[];
+    hedges: HedgeTicket[];
+    hedgeSummary: HedgeSummary;
+    expectedPayout: number;
+    settings: Settings;
+    productId: string;
+    drawDate: string;
+    lotteryResult: LotteryResult | null;
+    onChange: () => void;
+}
+
+/**
+ * Combos to lay off (ตัดส่ง) to the upstream dealer for one draw, and the
+ * hedge tickets already sent
+ */
+export default function HedgePanel({
+    tickets,
+    hedges,
+    hedgeSummary,
+    expectedPayout,
+    settings,
+    productId,
+    drawDate,
+    lotteryResult,
+    onChange,
+}: HedgePanelProps) {
+    const username = useUsername() ?? 'unknown';
+    const canEdit = usePermission('hedges.manage');
+    const hedging = settings.hedging;
+    const hasKeepLimits = Object.keys(hedging?.keep ?? {}).length > 0;
+
+    const lines = useMemo(
+        () => computeHedgeLines(tickets, hedges, settings, productId, drawDate),
+        [tickets, hedges, settings, productId, drawDate]
+    );
+    const pendingTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+
+    const handleSend = async () => {
+        if (lines.length === 0) return;
+        await db.createHedgeTicket({
+            round: productId,
+            drawDate,
+            upstream: hedging?.upstream ?? '',
+            entries: buildHedgeEntries(lines),
+            total: pendingTotal,
+            createdBy: username,
+        });
+        onChange();
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('ต้องการลบใบตัดส่งนี้?')) return;
+        await db.deleteHedgeTicket(id);
+        onChange();
+    };
+
+    return (
+        <div className="card p-3 sm:p-6">
+            <h2 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-slate-100 mb-4">
+                ✂️ ตัดส่ง {hedging?.upstream && <span className="text-sm font-normal text-gray-500">→ {hedging.upstream}</span>}
+            </h2>
+
+            {!hasKeepLimits ? (
+                <p className="text-center text-gray-500 py-8">
+                    ยังไม่ได้ตั้งยอดเก็บต่อเลข (ตั้งค่า → ตัดส่ง)
+                </p>
+            ) : (
+                <div className="space-y-4 text-sm">
+                    {/* Pending lay-off */}
+                    {lines.length > 0 ? (
+                        <div>
+                            <div className="overflow-x-auto max-h-64">
+                                <table className="table w-full whitespace-nowrap">
+                                    <thead>
+                                        <tr>
+                                            <th>เลข</th>
+                                            <th>ประเภท</th>
+                                            <th className="text-right">ยอดขาย</th>
+                                            <th className="text-right">ส่งแล้ว</th>
+                                            <th className="text-right">ต้องตัดส่ง</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {lines.map((line) => (
+                                            <tr key={`${line.category}-${line.combo}`}>
+                                                <td className="font-mono font-bold">{line.combo}</td>
+                                                <td>{CATEGORY_LABELS[line.category]}</td>
+                                                <td className="text-right font-mono">{formatCurrency(line.sold)}</td>
+                                                <td className="text-right font-mono text-gray-400">{formatCurrency(line.alreadySent)}</td>
+                                                <td className="text-right font-mono text-orange-600">{formatCurrency(line.amount)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                            <div className="flex items-center justify-between mt-2">
+                                <span className="text-gray-500 dark:text-slate-400">
+                                    รวมต้องตัดส่ง <strong className="text-orange-600">{formatCurrency(pendingTotal)}</strong>
+                                </span>
+                                {canEdit && (
+                                    <button onClick={handleSend} className="btn-primary btn-sm">
+                                        📤 บันทึกใบตัดส่ง
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="text-gray-500 dark:text-slate-400">ไม่มีเลขที่เกินยอดเก็บ</p>
+                    )}
+
+                    {/* Sent hedge tickets */}
+                    {hedges.length > 0 && (
+                        <div className="space-y-2">
+                            {hedges.map((hedge) => (
+                                <div
+                                    key={hedge.id}
+                                    className="flex items-center justify-between p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50"
+                                >
+                                    <span className="text-gray-500 dark:text-slate-400">
+                                        {formatDateTimeShort(hedge.createdAt)} · {hedge.entries.length} เลข
+                                        {!hedge.synced && <span className="text-orange-400 ml-1" title="ยังไม่ซิงค์">•</span>}
+                                    </span>
+                                    <span className="flex items-center gap-2">
+                                        <strong className="font-mono">{formatCurrency(hedge.total)}</strong>
+                                        {canEdit && (
+                                            <button
+                                                onClick={() => handleDelete(hedge.id)}
+                                                className="text-red-500 hover:text-red-700"
+                                                title="ลบ"
+                                            >
+                                                ✕
+                                            </button>
+                                        )}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Net exposure */}
+                    <div className="grid grid-cols-2 gap-2">
+                        <div className="p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                            <div className="text-xs text-gray-500 dark:text-slate-400">ยอดส่งต่อ</div>
+                            <div className="font-bold">{formatCurrency(hedgeSummary.stake)}</div>
+                        </div>
+                        <div className="p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                            <div className="text-xs text-gray-500 dark:text-slate-400">ยอดจ่ายคืนสุทธิ (หักที่ตัดส่ง)</div>
+                            <div className="font-bold">{formatCurrency(Math.max(expectedPayout - hedgeSummary.coverage, 0))}</div>
+                        </div>
+                        {lotteryResult && (
+                            <div className="col-span-2 p-2 rounded-lg bg-green-50 dark:bg-green-900/20">
+                                <div className="text-xs text-gray-500 dark:text-slate-400">ได้คืนจากเจ้ามือใหญ่</div>
+                                <div className="font-bold text-green-600">{formatCurrency(hedgeSummary.winnings)}</div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
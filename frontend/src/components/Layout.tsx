@@ -1,8 +1,13 @@
 import { useState, useEffect } from 'react';
-import { NavLink, useNavigate } from 'react-router-dom';
+import { NavLink, Navigate, useNavigate } from 'react-router-dom';
 import { useAppStore } from '../store/appStore';
 import { useTenantStore } from '../store/tenantStore';
+import { useAuthStore } from '../store/authStore';
+import { Permission, USER_ROLE_LABELS } from '@shared/schemas';
+import { hasPermission } from '../lib/permissions';
 import FontSizeControl, { useFontSize } from './FontSizeControl';
+import ChangePasswordModal from './ChangePasswordModal';
+import DrawCountdown from './DrawCountdown';
 
 interface LayoutProps {
     children: React.ReactNode;
@@ -10,22 +15,32 @@ interface LayoutProps {
     toggleDarkMode: () => void;
 }
 
-// Base nav items (paths will be prefixed with tenant slug)
-const navItems = [
-    { path: '/entry', label: 'ออกบิล', icon: '📝' },
-    { path: '/dashboard', label: 'สรุปยอด', icon: '📊' },
-    { path: '/tickets', label: 'รายการบิล', icon: '🎫' },
-    { path: '/lottery-check', label: 'ตรวจหวย', icon: '🎯' },
-    { path: '/report', label: 'รายงาน', icon: '📈' },
-    { path: '/agents', label: 'เจ้าที่ส่ง', icon: '👤' },
+// Base nav items (paths will be prefixed with tenant slug), shown to roles
+// with the permission
+const navItems: { path: string; label: string; icon: string; permission: Permission }[] = [
+    { path: '/entry', label: 'ออกบิล', icon: '📝', permission: 'tickets.create' },
+    { path: '/dashboard', label: 'สรุปยอด', icon: '📊', permission: 'reports.view' },
+    { path: '/tickets', label: 'รายการบิล', icon: '🎫', permission: 'tickets.viewAll' },
+    { path: '/review', label: 'ตรวจรับบิล', icon: '📥', permission: 'tickets.review' },
+    { path: '/lottery-check', label: 'ตรวจหวย', icon: '🎯', permission: 'reports.view' },
+    { path: '/simulate', label: 'จำลองผล', icon: '🎲', permission: 'reports.view' },
+    { path: '/report', label: 'รายงาน', icon: '📈', permission: 'reports.view' },
+    { path: '/agents', label: 'เจ้าที่ส่ง', icon: '👤', permission: 'reports.view' },
 ];
 
 export default function Layout({ children, darkMode, toggleDarkMode }: LayoutProps) {
     const navigate = useNavigate();
     const syncStatus = useAppStore((state) => state.syncStatus);
     const syncNow = useAppStore((state) => state.syncNow);
+    const pendingCount = useAppStore(
+        (state) => state.tickets.filter((t) => !t.deleted && t.status === 'pending').length
+    );
     const { fontSize, setFontSize } = useFontSize();
     const { tenantSlug, tenantName, clearTenant, checkSession, error } = useTenantStore();
+    const user = useAuthStore((state) => state.user);
+    const signOut = useAuthStore((state) => state.logout);
+    const checkAuth = useAuthStore((state) => state.checkAuth);
+    const visibleNavItems = navItems.filter((item) => hasPermission(user, item.permission));
 
     // Helper to prefix path with tenant slug
     const getTenantPath = (path: string) => tenantSlug ? `/${tenantSlug}${path}` : path;
@@ -49,6 +64,11 @@ export default function Layout({ children, darkMode, toggleDarkMode }: LayoutPro
         return () => clearInterval(intervalId);
     }, [checkSession, error, navigate]);
 
+    // Users sync between devices: sign out a disabled user, refresh the role
+    useEffect(() => {
+        checkAuth();
+    }, [checkAuth, syncStatus.lastSync]);
+
     // Initialize sidebar state (default closed)
     const [sidebarOpen, setSidebarOpen] = useState(false);
 
@@ -65,6 +85,14 @@ export default function Layout({ children, darkMode, toggleDarkMode }: LayoutPro
 
     const toggleSidebar = () => setSidebarOpen(!sidebarOpen);
 
+    // The shop is only used with a staff sign-in; agent logins only have the agent portal
+    if (!user) {
+        return <Navigate to={getTenantPath('/login')} replace />;
+    }
+    if (user.role === 'agent') {
+        return <Navigate to={getTenantPath('/agent')} replace />;
+    }
+
     return (
         <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
             {/* Mobile Overlay */}
@@ -103,7 +131,7 @@ export default function Layout({ children, darkMode, toggleDarkMode }: LayoutPro
 
                 {/* Navigation */}
                 <nav className="flex-1 py-2 lg:py-4 overflow-y-auto scrollbar-thin">
-                    {navItems.map((item) => (
+                    {visibleNavItems.map((item) => (
                         <NavLink
                             key={item.path}
                             to={getTenantPath(item.path)}
@@ -114,20 +142,39 @@ export default function Layout({ children, darkMode, toggleDarkMode }: LayoutPro
                         >
                             <span className="text-lg lg:text-xl">{item.icon}</span>
                             <span className="text-sm lg:text-base">{item.label}</span>
+                            {item.path === '/review' && pendingCount > 0 && (
+                                <span className="badge-warning text-xs ml-auto">{pendingCount}</span>
+                            )}
                         </NavLink>
                     ))}
 
-                    {/* Settings - visible to everyone in shop */}
-                    <NavLink
-                        to={getTenantPath('/settings')}
-                        onClick={closeSidebar}
-                        className={({ isActive }) =>
-                            `sidebar-link ${isActive ? 'sidebar-link-active' : ''}`
-                        }
-                    >
-                        <span className="text-lg lg:text-xl">⚙️</span>
-                        <span className="text-sm lg:text-base">ตั้งค่า</span>
-                    </NavLink>
+                    {/* Settings - for roles that change settings or users */}
+                    {(hasPermission(user, 'settings.manage') || hasPermission(user, 'users.manage')) && (
+                        <NavLink
+                            to={getTenantPath('/settings')}
+                            onClick={closeSidebar}
+                            className={({ isActive }) =>
+                                `sidebar-link ${isActive ? 'sidebar-link-active' : ''}`
+                            }
+                        >
+                            <span className="text-lg lg:text-xl">⚙️</span>
+                            <span className="text-sm lg:text-base">ตั้งค่า</span>
+                        </NavLink>
+                    )}
+
+                    {/* Audit log */}
+                    {hasPermission(user, 'audit.view') && (
+                        <NavLink
+                            to={getTenantPath('/audit')}
+                            onClick={closeSidebar}
+                            className={({ isActive }) =>
+                                `sidebar-link ${isActive ? 'sidebar-link-active' : ''}`
+                            }
+                        >
+                            <span className="text-lg lg:text-xl">📜</span>
+                            <span className="text-sm lg:text-base">ประวัติการแก้ไข</span>
+                        </NavLink>
+                    )}
                 </nav>
 
                 {/* Sync Status */}
@@ -193,6 +240,15 @@ export default function Layout({ children, darkMode, toggleDarkMode }: LayoutPro
                             </svg>
                         </button>
                     </div>
+                    {/* Staff sign-in: the role the shop is used with */}
+                    <div className="mt-2 flex items-center justify-between text-xs text-gray-500 dark:text-slate-400">
+                        <span className="truncate">
+                            👤 {user.username} ({USER_ROLE_LABELS[user.role]})
+                        </span>
+                        <button onClick={signOut} className="underline flex-shrink-0 ml-2">
+                            ออกจากระบบพนักงาน
+                        </button>
+                    </div>
                     {/* Switch Shop Button */}
                     {/* <button
                         onClick={handleSwitchShop}
@@ -228,6 +284,9 @@ export default function Layout({ children, darkMode, toggleDarkMode }: LayoutPro
                             </h1>
                         </div>
 
+                        {/* Cut-off of the current draw */}
+                        <DrawCountdown />
+
                         <div className="flex items-center gap-2 lg:gap-3">
                             {/* Font size control - hidden on mobile */}
                             <div className="hidden sm:block">
@@ -264,7 +323,7 @@ export default function Layout({ children, darkMode, toggleDarkMode }: LayoutPro
             {/* Bottom Navigation - Mobile Only */}
             <nav className="fixed bottom-0 left-0 right-0 bg-white dark:bg-slate-800 border-t border-gray-200 dark:border-slate-700 lg:hidden z-40 safe-area-bottom">
                 <div className="flex justify-around py-2">
-                    {navItems.slice(0, 5).map((item) => (
+                    {visibleNavItems.slice(0, 5).map((item) => (
                         <NavLink
                             key={item.path}
                             to={getTenantPath(item.path)}
@@ -281,6 +340,9 @@ export default function Layout({ children, darkMode, toggleDarkMode }: LayoutPro
                     ))}
                 </div>
             </nav>
+
+            {/* A new or reset password has to be replaced before going on */}
+            {user?.mustChangePassword && <ChangePasswordModal onClose={() => undefined} />}
         </div>
     );
 }
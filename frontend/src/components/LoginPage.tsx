@@ -1,8 +1,14 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../store/authStore';
+import { useTenantStore } from '../store/tenantStore';
 
-export default function LoginPage() {
+interface LoginPageProps {
+    redirectPath?: string; // Page of the shop to open after signing in
+    showDemoAccount?: boolean; // Hint at the seeded admin account
+}
+
+export default function LoginPage({ redirectPath = '/entry', showDemoAccount = true }: LoginPageProps) {
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
     const [isLoading, setIsLoading] = useState(false);
@@ -11,6 +17,8 @@ export default function LoginPage() {
     const error = useAuthStore((state) => state.error);
     const clearError = useAuthStore((state) => state.clearError);
     const navigate = useNavigate();
+    const tenantSlug = useTenantStore((state) => state.tenantSlug);
+    const entryPath = tenantSlug ? `/${tenantSlug}${redirectPath}` : '/';
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -20,7 +28,9 @@ export default function LoginPage() {
         const success = await login(username, password);
 
         if (success) {
-            navigate('/entry');
+            // Agents work in their own portal
+            const isAgent = useAuthStore.getState().user?.role === 'agent';
+            navigate(isAgent && tenantSlug ? `/${tenantSlug}/agent` : entryPath);
         }
 
         setIsLoading(false);
@@ -100,10 +110,12 @@ export default function LoginPage() {
                         </button>
                     </form>
 
-                    <div className="mt-6 text-center text-sm text-gray-500 dark:text-slate-400">
-                        <p>Account:</p>
-                        <p className="font-mono">admin / ******</p>
-                    </div>
+                    {showDemoAccount && (
+                        <div className="mt-6 text-center text-sm text-gray-500 dark:text-slate-400">
+                            <p>Account:</p>
+                            <p className="font-mono">admin / ******</p>
+                        </div>
+                    )}
                 </div>
 
                 {/* Footer */}
@@ -1,14 +1,24 @@
 import { useState, useMemo, useEffect } from 'react';
 import { useAppStore } from '../store/appStore';
-import { Ticket, Entry, CATEGORY_LABELS, DEFAULT_PAYOUTS, LotteryResult } from '@shared/schemas';
-import { formatCurrency } from '../utils/export';
+import { usePermission } from '../store/authStore';
+import { Ticket, Entry, CATEGORY_LABELS, LotteryResult, GOVERNMENT_PRODUCT_ID } from '@shared/schemas';
+import { formatCurrency, exportWinnersCSV } from '../utils/export';
 import {
     getLotteryResults,
     getLotteryResultByDate,
     createLotteryResult,
 } from '../storage/firebaseData';
-import { getDrawPeriodOptions, getCurrentDrawPeriod, isDateInDrawPeriod } from '../lib/drawPeriod';
+import {
+    getDrawPeriodOptions,
+    getCurrentDrawPeriod,
+    isDateInDrawPeriod,
+    findProduct,
+    getEnabledProducts,
+} from '../lib/drawPeriod';
 import { fetchLotteryResults } from '../utils/lotteryApi';
+import { DrawResult, TicketWin, WinLine, evaluateTickets, PRIZE_LABELS } from '../lib/payout';
+import { ticketPayoutResolver } from '../lib/rateTable';
+import { isCountedTicket } from '../lib/ticketStatus';
 
 interface WinningNumbers {
     firstPrize: string;         // รางวัลที่ 1 (6 หลัก)
@@ -17,12 +27,24 @@ interface WinningNumbers {
     back3Digit1: string;        // เลขท้าย 3 ตัว ชุด 1
     back3Digit2: string;        // เลขท้าย 3 ตัว ชุด 2
     back2Digit: string;         // เลขท้าย 2 ตัว
+    top3Digit: string;          // 3 ตัวบน (หวยที่ไม่มีรางวัลที่ 1)
 }
 
+const EMPTY_WINNING_NUMBERS: WinningNumbers = {
+    firstPrize: '',
+    front3Digit1: '',
+    front3Digit2: '',
+    back3Digit1: '',
+    back3Digit2: '',
+    back2Digit: '',
+    top3Digit: '',
+};
+
 interface WinnerEntry {
     ticket: Ticket;
     entry: Entry;
     agentName: string;
+    lines: WinLine[];
     winAmount: number;
 }
 
@@ -30,17 +52,20 @@ export default function LotteryCheck() {
     const tickets = useAppStore((state) => state.tickets);
     const agents = useAppStore((state) => state.agents);
     const settings = useAppStore((state) => state.settings);
+    const rateTables = useAppStore((state) => state.rateTables);
+    const canSaveResults = usePermission('results.manage');
+
+    const products = useMemo(() => getEnabledProducts(settings.products), [settings.products]);
+    const [selectedProductId, setSelectedProductId] = useState(GOVERNMENT_PRODUCT_ID);
+    const selectedProduct = useMemo(
+        () => findProduct(settings.products, selectedProductId),
+        [settings.products, selectedProductId]
+    );
+    const isGovernmentShape = selectedProduct.resultShape === 'government';
 
-    const drawPeriodOptions = useMemo(() => getDrawPeriodOptions(12), []);
-    const [selectedPeriod, setSelectedPeriod] = useState(() => getCurrentDrawPeriod().id);
-    const [winningNumbers, setWinningNumbers] = useState<WinningNumbers>({
-        firstPrize: '',
-        front3Digit1: '',
-        front3Digit2: '',
-        back3Digit1: '',
-        back3Digit2: '',
-        back2Digit: '',
-    });
+    const drawPeriodOptions = useMemo(() => getDrawPeriodOptions(12, selectedProduct), [selectedProduct]);
+    const [selectedPeriod, setSelectedPeriod] = useState(() => getCurrentDrawPeriod(selectedProduct).id);
+    const [winningNumbers, setWinningNumbers] = useState<WinningNumbers>(EMPTY_WINNING_NUMBERS);
     const [isCalculated, setIsCalculated] = useState(false);
     const [savedResults, setSavedResults] = useState<LotteryResult[]>([]);
     const [isFetching, setIsFetching] = useState(false);
@@ -63,6 +88,20 @@ export default function LotteryCheck() {
             setIsFetching(true);
             setIsCalculated(false);
 
+            // Products without an online result source are entered by hand
+            if (!isGovernmentShape) {
+                const savedResult = await getLotteryResultByDate(selectedPeriod, selectedProductId);
+                if (!isMounted) return true;
+                setWinningNumbers({
+                    ...EMPTY_WINNING_NUMBERS,
+                    top3Digit: savedResult?.threeTop || '',
+                    back2Digit: savedResult?.twoDown || '',
+                });
+                setIsCalculated(!!savedResult);
+                setIsFetching(false);
+                return true;
+            }
+
             // First, check if we have saved result in Firebase
             const savedResult = await getLotteryResultByDate(selectedPeriod);
             console.log('[Lottery] Firebase result:', savedResult);
@@ -70,6 +109,7 @@ export default function LotteryCheck() {
             if (savedResult && savedResult.firstPrize && savedResult.firstPrize.length === 6 && /^\d{6}$/.test(savedResult.firstPrize)) {
                 console.log('[Lottery] Using saved result from Firebase');
                 setWinningNumbers({
+                    ...EMPTY_WINNING_NUMBERS,
                     firstPrize: savedResult.firstPrize,
                     front3Digit1: savedResult.threeTod1 || '',
                     front3Digit2: savedResult.threeTod2 || '',
@@ -91,6 +131,7 @@ export default function LotteryCheck() {
                 if (apiResult && apiResult.prizeFirst) {
                     console.log('[Lottery] Got result from API:', apiResult.prizeFirst);
                     setWinningNumbers({
+                        ...EMPTY_WINNING_NUMBERS,
                         firstPrize: apiResult.prizeFirst,
                         front3Digit1: apiResult.threeFront[0] || '',
                         front3Digit2: apiResult.threeFront[1] || '',
@@ -112,7 +153,8 @@ export default function LotteryCheck() {
                         threeTod4: apiResult.threeDown[1] || '',
                     };
 
-                    await createLotteryResult(saveData);
+                    // The official result, fetched by the app for whoever looks
+                    await createLotteryResult(saveData, { system: true });
 
                     const updatedResults = await getLotteryResults();
                     if (isMounted) {
@@ -124,14 +166,7 @@ export default function LotteryCheck() {
                 } else {
                     console.log('[Lottery] No result from API, will retry...');
                     if (isMounted) {
-                        setWinningNumbers({
-                            firstPrize: '',
-                            front3Digit1: '',
-                            front3Digit2: '',
-                            back3Digit1: '',
-                            back3Digit2: '',
-                            back2Digit: '',
-                        });
+                        setWinningNumbers(EMPTY_WINNING_NUMBERS);
                         setIsFetching(false);
                     }
                     return false;
@@ -139,14 +174,7 @@ export default function LotteryCheck() {
             } catch (error) {
                 console.error('[Lottery] Failed to fetch:', error);
                 if (isMounted) {
-                    setWinningNumbers({
-                        firstPrize: '',
-                        front3Digit1: '',
-                        front3Digit2: '',
-                        back3Digit1: '',
-                        back3Digit2: '',
-                        back2Digit: '',
-                    });
+                    setWinningNumbers(EMPTY_WINNING_NUMBERS);
                     setIsFetching(false);
                 }
                 return false;
@@ -176,9 +204,39 @@ export default function LotteryCheck() {
                 clearInterval(pollingInterval);
             }
         };
-    }, [selectedPeriod]);
+    }, [selectedPeriod, selectedProductId, isGovernmentShape]);
+
+    const productResults = useMemo(
+        () => savedResults.filter((r) => (r.round ?? GOVERNMENT_PRODUCT_ID) === selectedProduct.id),
+        [savedResults, selectedProduct.id]
+    );
 
+    const handleProductChange = (productId: string) => {
+        setSelectedProductId(productId);
+        setSelectedPeriod(getCurrentDrawPeriod(findProduct(settings.products, productId)).id);
+        setIsCalculated(false);
+    };
 
+    // บันทึกผลที่กรอกเอง (หวยที่มีเฉพาะ 3 ตัวบน / 2 ตัวล่าง)
+    const handleSaveManualResult = async () => {
+        if (!/^\d{3}$/.test(winningNumbers.top3Digit) || !/^\d{2}$/.test(winningNumbers.back2Digit)) return;
+
+        // Roles that may not record results still see what the numbers would pay
+        if (canSaveResults) {
+            try {
+                await createLotteryResult({
+                    date: selectedPeriod,
+                    round: selectedProductId,
+                    threeTop: winningNumbers.top3Digit,
+                    twoDown: winningNumbers.back2Digit,
+                });
+                setSavedResults(await getLotteryResults());
+            } catch (error) {
+                console.error('[Lottery] Failed to save result:', error);
+            }
+        }
+        setIsCalculated(true);
+    };
 
     // Derived values from first prize
     const twoTop = winningNumbers.firstPrize.slice(-2);  // 2 ตัวบน = 2 หลักสุดท้ายของรางวัลที่ 1
@@ -188,10 +246,15 @@ export default function LotteryCheck() {
         return new Map(agents.map((a) => [a.id, a.name]));
     }, [agents]);
 
-    // หวยรัฐบาลมีรอบเดียว - filter ตามงวด
+    // filter ตามประเภทหวยและงวด
     const filteredTickets = useMemo(() => {
-        return tickets.filter((t) => isDateInDrawPeriod(t.date, selectedPeriod));
-    }, [tickets, selectedPeriod]);
+        return tickets.filter(
+            (t) =>
+                isCountedTicket(t) &&
+                t.round === selectedProduct.id &&
+                isDateInDrawPeriod(t.date, selectedPeriod, selectedProduct)
+        );
+    }, [tickets, selectedPeriod, selectedProduct]);
 
     const summary = useMemo(() => {
         let totalGross = 0;
@@ -203,80 +266,30 @@ export default function LotteryCheck() {
         return { totalGross };
     }, [filteredTickets]);
 
-    const winners = useMemo((): WinnerEntry[] => {
-        if (!isCalculated) return [];
-
-        const results: WinnerEntry[] = [];
-        const payouts = settings.payouts || DEFAULT_PAYOUTS;
+    const drawResult = useMemo((): DrawResult => ({
+        firstPrize: winningNumbers.firstPrize || undefined,
+        threeTop: winningNumbers.top3Digit || undefined,
+        twoDown: winningNumbers.back2Digit || undefined,
+        threeTod3: winningNumbers.back3Digit1 || undefined,
+        threeTod4: winningNumbers.back3Digit2 || undefined,
+    }), [winningNumbers]);
 
-        for (const ticket of filteredTickets) {
-            for (const entry of ticket.entries) {
-                let isWinner = false;
-                let winAmount = 0;
-
-                const expanded = entry.expanded || [entry.raw];
-
-                for (const num of expanded) {
-                    switch (entry.category) {
-                        case '3top':
-                            if (num === threeTop) {
-                                isWinner = true;
-                                winAmount = entry.unitPrice * (payouts['3top'] || 800);
-                            }
-                            break;
-                        case '3tod': {
-                            const sorted3Top = threeTop.split('').sort().join('');
-                            const sortedNum = num.split('').sort().join('');
-                            if (sortedNum === sorted3Top) {
-                                isWinner = true;
-                                winAmount = entry.unitPrice * (payouts['3tod'] || 130);
-                            }
-                            break;
-                        }
-                        case '3down':
-                            // ตรวจทั้ง 2 ชุดของเลขท้าย 3 ตัว
-                            if (num === winningNumbers.back3Digit1 || num === winningNumbers.back3Digit2) {
-                                isWinner = true;
-                                winAmount = entry.unitPrice * (payouts['3down'] || 400);
-                            }
-                            break;
-                        case '2top':
-                            if (num === twoTop) {
-                                isWinner = true;
-                                winAmount = entry.unitPrice * (payouts['2top'] || 70);
-                            }
-                            break;
-                        case '2down':
-                            if (num === winningNumbers.back2Digit) {
-                                isWinner = true;
-                                winAmount = entry.unitPrice * (payouts['2down'] || 70);
-                            }
-                            break;
-                        case '2back': {
-                            const reversed = num.split('').reverse().join('');
-                            if (num === winningNumbers.back2Digit || reversed === winningNumbers.back2Digit) {
-                                isWinner = true;
-                                winAmount = entry.unitPrice * (payouts['2back'] || 35);
-                            }
-                            break;
-                        }
-                    }
-                    if (isWinner) break;
-                }
-
-                if (isWinner) {
-                    results.push({
-                        ticket,
-                        entry,
-                        agentName: agentMap.get(ticket.agentId) || 'Unknown',
-                        winAmount: winAmount * entry.quantity,
-                    });
-                }
-            }
-        }
+    const ticketWins = useMemo((): TicketWin[] => {
+        if (!isCalculated) return [];
+        return evaluateTickets(filteredTickets, drawResult, ticketPayoutResolver(settings, rateTables));
+    }, [filteredTickets, drawResult, isCalculated, settings, rateTables]);
 
-        return results;
-    }, [filteredTickets, winningNumbers, isCalculated, settings.payouts, agentMap, threeTop, twoTop]);
+    const winners = useMemo((): WinnerEntry[] => {
+        return ticketWins.flatMap((win) =>
+            win.entries.map((entryWin) => ({
+                ticket: win.ticket,
+                entry: entryWin.entry,
+                agentName: agentMap.get(win.ticket.agentId) || 'Unknown',
+                lines: entryWin.lines,
+                winAmount: entryWin.amount,
+            }))
+        );
+    }, [ticketWins, agentMap]);
 
     const totalPayout = winners.reduce((sum, w) => sum + w.winAmount, 0);
     const profit = summary.totalGross - totalPayout;
@@ -296,22 +309,40 @@ export default function LotteryCheck() {
             </div>
 
             <div className="card p-4 sm:p-6 mb-4 sm:mb-6">
-                <div>
-                    <label className="label">งวดหวย</label>
-                    <select
-                        value={selectedPeriod}
-                        onChange={(e) => {
-                            setSelectedPeriod(e.target.value);
-                            setIsCalculated(false);
-                        }}
-                        className="select w-full sm:max-w-xs"
-                    >
-                        {drawPeriodOptions.map((opt) => (
-                            <option key={opt.id} value={opt.id}>
-                                งวด {opt.label}
-                            </option>
-                        ))}
-                    </select>
+                <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
+                    {products.length > 1 && (
+                        <div className="flex-1 sm:max-w-xs">
+                            <label className="label">ประเภทหวย</label>
+                            <select
+                                value={selectedProduct.id}
+                                onChange={(e) => handleProductChange(e.target.value)}
+                                className="select w-full"
+                            >
+                                {products.map((product) => (
+                                    <option key={product.id} value={product.id}>
+                                        {product.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    <div className="flex-1 sm:max-w-xs">
+                        <label className="label">งวดหวย</label>
+                        <select
+                            value={selectedPeriod}
+                            onChange={(e) => {
+                                setSelectedPeriod(e.target.value);
+                                setIsCalculated(false);
+                            }}
+                            className="select w-full"
+                        >
+                            {drawPeriodOptions.map((opt) => (
+                                <option key={opt.id} value={opt.id}>
+                                    งวด {opt.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
                 </div>
 
                 <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
@@ -335,86 +366,136 @@ export default function LotteryCheck() {
                     </div>
                 )}
 
-                {/* รางวัลที่ 1 */}
-                <div className="mb-4 sm:mb-6">
-                    <label className="label text-base sm:text-lg">รางวัลที่ 1 *</label>
-                    {winningNumbers.firstPrize ? (
-                        /* แสดงเลขเมื่อมีผลแล้ว */
-                        <div className="number-input text-center text-2xl sm:text-3xl font-bold bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-900/20 dark:to-purple-900/20 flex items-center justify-center">
-                            <span className="tracking-[0.3em] sm:tracking-[0.4em] text-blue-700 dark:text-blue-300">
-                                {winningNumbers.firstPrize.split('').join(' ')}
-                            </span>
-                        </div>
-                    ) : (
-                        /* Input สำหรับกรอกเองเมื่อยังไม่มีผล */
-                        <input
-                            type="text"
-                            inputMode="numeric"
-                            value={winningNumbers.firstPrize}
-                            onChange={(e) => {
-                                const val = e.target.value.replace(/\D/g, '').slice(0, 6);
-                                setWinningNumbers((prev) => ({
-                                    ...prev,
-                                    firstPrize: val,
-                                }));
-                                setIsCalculated(false);
-                            }}
-                            className="number-input text-center text-2xl sm:text-3xl font-bold"
-                            placeholder="X X X X X X"
-                            maxLength={6}
-                        />
-                    )}
-                    <p className="text-xs text-gray-500 mt-2 text-center">
-                        2 ตัวบน: <span className="font-mono font-bold text-blue-600">{twoTop || '--'}</span> |
-                        3 ตัวบน: <span className="font-mono font-bold text-blue-600">{threeTop || '---'}</span>
-                    </p>
-                </div>
-
-                {/* เลขหน้า 3 ตัว และ เลขท้าย 3 ตัว */}
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6 mb-4 sm:mb-6">
-                    <div>
-                        <label className="label">เลขหน้า 3 ตัว</label>
-                        <div className="flex gap-2">
-                            <div className="number-input text-center flex-1 text-lg bg-gray-50 dark:bg-slate-700/50 flex items-center justify-center">
-                                <span className="tracking-[0.2em] text-gray-700 dark:text-slate-300 font-mono">
-                                    {winningNumbers.front3Digit1 ? winningNumbers.front3Digit1.split('').join(' ') : 'X X X'}
+                {isGovernmentShape ? (
+                    <>
+                    {/* รางวัลที่ 1 */}
+                    <div className="mb-4 sm:mb-6">
+                        <label className="label text-base sm:text-lg">รางวัลที่ 1 *</label>
+                        {winningNumbers.firstPrize ? (
+                            /* แสดงเลขเมื่อมีผลแล้ว */
+                            <div className="number-input text-center text-2xl sm:text-3xl font-bold bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-900/20 dark:to-purple-900/20 flex items-center justify-center">
+                                <span className="tracking-[0.3em] sm:tracking-[0.4em] text-blue-700 dark:text-blue-300">
+                                    {winningNumbers.firstPrize.split('').join(' ')}
                                 </span>
                             </div>
-                            <div className="number-input text-center flex-1 text-lg bg-gray-50 dark:bg-slate-700/50 flex items-center justify-center">
-                                <span className="tracking-[0.2em] text-gray-700 dark:text-slate-300 font-mono">
-                                    {winningNumbers.front3Digit2 ? winningNumbers.front3Digit2.split('').join(' ') : 'X X X'}
-                                </span>
+                        ) : (
+                            /* Input สำหรับกรอกเองเมื่อยังไม่มีผล */
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                value={winningNumbers.firstPrize}
+                                onChange={(e) => {
+                                    const val = e.target.value.replace(/\D/g, '').slice(0, 6);
+                                    setWinningNumbers((prev) => ({
+                                        ...prev,
+                                        firstPrize: val,
+                                    }));
+                                    setIsCalculated(false);
+                                }}
+                                className="number-input text-center text-2xl sm:text-3xl font-bold"
+                                placeholder="X X X X X X"
+                                maxLength={6}
+                            />
+                        )}
+                        <p className="text-xs text-gray-500 mt-2 text-center">
+                            2 ตัวบน: <span className="font-mono font-bold text-blue-600">{twoTop || '--'}</span> |
+                            3 ตัวบน: <span className="font-mono font-bold text-blue-600">{threeTop || '---'}</span>
+                        </p>
+                    </div>
+
+                    {/* เลขหน้า 3 ตัว และ เลขท้าย 3 ตัว */}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6 mb-4 sm:mb-6">
+                        <div>
+                            <label className="label">เลขหน้า 3 ตัว</label>
+                            <div className="flex gap-2">
+                                <div className="number-input text-center flex-1 text-lg bg-gray-50 dark:bg-slate-700/50 flex items-center justify-center">
+                                    <span className="tracking-[0.2em] text-gray-700 dark:text-slate-300 font-mono">
+                                        {winningNumbers.front3Digit1 ? winningNumbers.front3Digit1.split('').join(' ') : 'X X X'}
+                                    </span>
+                                </div>
+                                <div className="number-input text-center flex-1 text-lg bg-gray-50 dark:bg-slate-700/50 flex items-center justify-center">
+                                    <span className="tracking-[0.2em] text-gray-700 dark:text-slate-300 font-mono">
+                                        {winningNumbers.front3Digit2 ? winningNumbers.front3Digit2.split('').join(' ') : 'X X X'}
+                                    </span>
+                                </div>
                             </div>
                         </div>
-                    </div>
-                    <div>
-                        <label className="label">เลขท้าย 3 ตัว</label>
-                        <div className="flex gap-2">
-                            <div className="number-input text-center flex-1 text-lg bg-gray-50 dark:bg-slate-700/50 flex items-center justify-center">
-                                <span className="tracking-[0.2em] text-gray-700 dark:text-slate-300 font-mono">
-                                    {winningNumbers.back3Digit1 ? winningNumbers.back3Digit1.split('').join(' ') : 'X X X'}
-                                </span>
+                        <div>
+                            <label className="label">เลขท้าย 3 ตัว</label>
+                            <div className="flex gap-2">
+                                <div className="number-input text-center flex-1 text-lg bg-gray-50 dark:bg-slate-700/50 flex items-center justify-center">
+                                    <span className="tracking-[0.2em] text-gray-700 dark:text-slate-300 font-mono">
+                                        {winningNumbers.back3Digit1 ? winningNumbers.back3Digit1.split('').join(' ') : 'X X X'}
+                                    </span>
+                                </div>
+                                <div className="number-input text-center flex-1 text-lg bg-gray-50 dark:bg-slate-700/50 flex items-center justify-center">
+                                    <span className="tracking-[0.2em] text-gray-700 dark:text-slate-300 font-mono">
+                                        {winningNumbers.back3Digit2 ? winningNumbers.back3Digit2.split('').join(' ') : 'X X X'}
+                                    </span>
+                                </div>
                             </div>
-                            <div className="number-input text-center flex-1 text-lg bg-gray-50 dark:bg-slate-700/50 flex items-center justify-center">
-                                <span className="tracking-[0.2em] text-gray-700 dark:text-slate-300 font-mono">
-                                    {winningNumbers.back3Digit2 ? winningNumbers.back3Digit2.split('').join(' ') : 'X X X'}
+                        </div>
+                    </div>
+
+                    {/* เลขท้าย 2 ตัว */}
+                    <div className="mb-4 sm:mb-6">
+                        <label className="label text-center block">เลขท้าย 2 ตัว</label>
+                        <div className="max-w-[120px] sm:max-w-[150px] mx-auto">
+                            <div className="number-input text-center text-xl sm:text-2xl bg-gray-50 dark:bg-slate-700/50 flex items-center justify-center">
+                                <span className="tracking-[0.3em] text-gray-700 dark:text-slate-300 font-mono font-bold">
+                                    {winningNumbers.back2Digit ? winningNumbers.back2Digit.split('').join(' ') : 'X X'}
                                 </span>
                             </div>
                         </div>
                     </div>
-                </div>
-
-                {/* เลขท้าย 2 ตัว */}
-                <div className="mb-4 sm:mb-6">
-                    <label className="label text-center block">เลขท้าย 2 ตัว</label>
-                    <div className="max-w-[120px] sm:max-w-[150px] mx-auto">
-                        <div className="number-input text-center text-xl sm:text-2xl bg-gray-50 dark:bg-slate-700/50 flex items-center justify-center">
-                            <span className="tracking-[0.3em] text-gray-700 dark:text-slate-300 font-mono font-bold">
-                                {winningNumbers.back2Digit ? winningNumbers.back2Digit.split('').join(' ') : 'X X'}
-                            </span>
+                    </>
+                ) : (
+                    /* หวยที่มีเฉพาะ 3 ตัวบน / 2 ตัวล่าง - กรอกผลเอง */
+                    <div className="mb-4 sm:mb-6">
+                        <div className="grid grid-cols-2 gap-4 mb-4">
+                            <div>
+                                <label className="label">3 ตัวบน *</label>
+                                <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    value={winningNumbers.top3Digit}
+                                    onChange={(e) => {
+                                        const val = e.target.value.replace(/\D/g, '').slice(0, 3);
+                                        setWinningNumbers((prev) => ({ ...prev, top3Digit: val }));
+                                        setIsCalculated(false);
+                                    }}
+                                    className="number-input text-center text-2xl font-bold"
+                                    placeholder="X X X"
+                                    maxLength={3}
+                                />
+                            </div>
+                            <div>
+                                <label className="label">2 ตัวล่าง *</label>
+                                <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    value={winningNumbers.back2Digit}
+                                    onChange={(e) => {
+                                        const val = e.target.value.replace(/\D/g, '').slice(0, 2);
+                                        setWinningNumbers((prev) => ({ ...prev, back2Digit: val }));
+                                        setIsCalculated(false);
+                                    }}
+                                    className="number-input text-center text-2xl font-bold"
+                                    placeholder="X X"
+                                    maxLength={2}
+                                />
+                            </div>
                         </div>
+                        <button
+                            type="button"
+                            onClick={handleSaveManualResult}
+                            disabled={winningNumbers.top3Digit.length !== 3 || winningNumbers.back2Digit.length !== 2}
+                            className="btn-primary w-full sm:w-auto"
+                        >
+                            {canSaveResults ? 'บันทึกผลและคำนวณ' : 'คำนวณ'}
+                        </button>
                     </div>
-                </div>
+                )}
 
 
 
@@ -432,13 +513,13 @@ export default function LotteryCheck() {
                                 ✕
                             </button>
                         </div>
-                        {savedResults.length === 0 ? (
+                        {productResults.length === 0 ? (
                             <p className="text-center text-gray-500 dark:text-slate-400 py-4">
                                 ยังไม่มีประวัติผลหวย
                             </p>
                         ) : (
                             <div className="space-y-2 max-h-60 overflow-y-auto">
-                                {savedResults.slice(0, 10).map((result) => (
+                                {productResults.slice(0, 10).map((result) => (
                                     <button
                                         key={result.id}
                                         onClick={() => {
@@ -499,9 +580,19 @@ export default function LotteryCheck() {
                     </div>
 
                     <div className="card p-6">
-                        <h2 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-4">
-                            🎉 รายการที่ถูก ({winners.length} รายการ)
-                        </h2>
+                        <div className="flex items-center justify-between mb-4">
+                            <h2 className="text-lg font-semibold text-gray-900 dark:text-slate-100">
+                                🎉 รายการที่ถูก ({winners.length} รายการ)
+                            </h2>
+                            {winners.length > 0 && (
+                                <button
+                                    onClick={() => exportWinnersCSV(ticketWins, agents, `winners_${selectedPeriod}.csv`)}
+                                    className="btn-secondary btn-sm text-xs sm:text-sm"
+                                >
+                                    📊 Export
+                                </button>
+                            )}
+                        </div>
 
                         {winners.length > 0 ? (
                             <div className="table-container">
@@ -511,6 +602,7 @@ export default function LotteryCheck() {
                                             <th>เจ้าที่ส่ง</th>
                                             <th>ประเภท</th>
                                             <th>เลข</th>
+                                            <th>ถูกรางวัล</th>
                                             <th className="text-right">แทง</th>
                                             <th className="text-right">ต้องจ่าย</th>
                                         </tr>
@@ -527,6 +619,15 @@ export default function LotteryCheck() {
                                                 <td className="font-mono font-bold text-lg">
                                                     {winner.entry.raw}
                                                 </td>
+                                                <td className="text-sm">
+                                                    {winner.lines.map((line) => (
+                                                        <div key={`${line.prize}-${line.combo}`}>
+                                                            {PRIZE_LABELS[line.prize]}{' '}
+                                                            <span className="font-mono font-bold">{line.matched}</span>
+                                                            <span className="text-gray-500 dark:text-slate-400"> × {line.rate}</span>
+                                                        </div>
+                                                    ))}
+                                                </td>
                                                 <td className="text-right">
                                                     {formatCurrency(winner.entry.unitPrice * winner.entry.quantity)}
                                                 </td>
@@ -538,7 +639,7 @@ export default function LotteryCheck() {
                                     </tbody>
                                     <tfoot>
                                         <tr className="bg-red-50 dark:bg-red-900/20">
-                                            <td colSpan={4} className="text-right font-medium">
+                                            <td colSpan={5} className="text-right font-medium">
                                                 รวมต้องจ่าย:
                                             </td>
                                             <td className="text-right font-bold text-xl text-red-600">
@@ -1,6 +1,7 @@
 import { useState, useMemo } from 'react';
 import { useAppStore } from '../store/appStore';
 import { formatCurrency } from '../utils/export';
+import { isCountedTicket } from '../lib/ticketStatus';
 
 interface MonthData {
     month: string; // YYYY-MM
@@ -40,7 +41,7 @@ export default function MonthlyReport() {
 
         // Aggregate tickets by month
         for (const ticket of tickets) {
-            if (ticket.deleted) continue;
+            if (!isCountedTicket(ticket)) continue;
 
             const ticketDate = new Date(ticket.date);
             if (ticketDate.getFullYear() !== selectedYear) continue;
@@ -1,13 +1,21 @@
-import { Ticket, CATEGORY_LABELS } from '@shared/schemas';
-import { formatCurrency } from '../utils/export';
+import { Ticket, CATEGORY_LABELS, CommissionRates } from '@shared/schemas';
+import { useAppStore } from '../store/appStore';
+import { formatCurrency, formatDateTimeShort } from '../utils/export';
+import { computeTicketCommission } from '../lib/compute';
+import { findRateTable } from '../lib/rateTable';
 
 interface PrintReceiptProps {
     ticket: Ticket;
     agentName: string;
+    commissionRates?: CommissionRates;
     onClose: () => void;
 }
 
-export default function PrintReceipt({ ticket, agentName, onClose }: PrintReceiptProps) {
+export default function PrintReceipt({ ticket, agentName, commissionRates, onClose }: PrintReceiptProps) {
+    const commission = computeTicketCommission(ticket, commissionRates);
+    // Rates the ticket was sold at, printed so they can be checked later
+    const rateTable = useAppStore((state) => findRateTable(state.rateTables, ticket.rateTableId));
+
     const handlePrint = () => {
         window.print();
     };
@@ -66,6 +74,14 @@ export default function PrintReceipt({ ticket, agentName, onClose }: PrintReceip
                                 {new Date(ticket.createdAt).toLocaleTimeString('th-TH')}
                             </span>
                         </div>
+                        {rateTable && (
+                            <div className="flex justify-between">
+                                <span className="text-gray-500 dark:text-slate-400">อัตราจ่าย:</span>
+                                <span className="text-gray-900 dark:text-slate-100">
+                                    ฉบับที่ {rateTable.version} ({formatDateTimeShort(rateTable.effectiveFrom)})
+                                </span>
+                            </div>
+                        )}
                     </div>
 
                     {/* Divider */}
@@ -78,26 +94,45 @@ export default function PrintReceipt({ ticket, agentName, onClose }: PrintReceip
                             <span>ราคา</span>
                         </div>
                         {ticket.entries.map((entry) => (
-                            <div
-                                key={entry.id}
-                                className="flex justify-between items-center py-1"
-                            >
-                                <div className="flex items-center gap-2">
-                                    <span className="text-xs px-1.5 py-0.5 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded">
-                                        {CATEGORY_LABELS[entry.category]}
-                                    </span>
-                                    <span className="font-mono font-bold text-lg text-gray-900 dark:text-slate-100">
-                                        {entry.raw}
-                                    </span>
-                                    {entry.quantity > 1 && (
-                                        <span className="text-xs text-gray-500 dark:text-slate-400">
-                                            ×{entry.quantity}
+                            <div key={entry.id} className="py-1">
+                                <div className="flex justify-between items-center">
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-xs px-1.5 py-0.5 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded">
+                                            {CATEGORY_LABELS[entry.category]}
+                                        </span>
+                                        <span className="font-mono font-bold text-lg text-gray-900 dark:text-slate-100">
+                                            {entry.raw}
                                         </span>
-                                    )}
+                                        {entry.quantity > 1 && (
+                                            <span className="text-xs text-gray-500 dark:text-slate-400">
+                                                ×{entry.quantity}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <span className="font-medium text-gray-900 dark:text-slate-100">
+                                        {formatCurrency(entry.total ?? entry.unitPrice * entry.quantity)}
+                                    </span>
                                 </div>
-                                <span className="font-medium text-gray-900 dark:text-slate-100">
-                                    {formatCurrency(entry.total ?? entry.unitPrice * entry.quantity)}
-                                </span>
+                                {/* Rate the entry was sold at, unless it is split into bands */}
+                                {entry.perComboTotals?.[0] && entry.perComboTotals.every((combo) => combo.tier === undefined) && (
+                                    <div className="text-xs text-gray-500 dark:text-slate-400 pl-2">
+                                        จ่ายบาทละ {[...new Set(entry.perComboTotals.map((combo) => combo.payoutRate))].join(' / ')}
+                                    </div>
+                                )}
+                                {/* Bands of tiered blocked numbers */}
+                                {entry.perComboTotals
+                                    ?.filter((combo) => combo.tier !== undefined)
+                                    .map((combo) => (
+                                        <div
+                                            key={`${combo.combo}-${combo.tier}`}
+                                            className="flex justify-between text-xs text-gray-500 dark:text-slate-400 pl-2"
+                                        >
+                                            <span>
+                                                {combo.combo} ขั้น {(combo.tier ?? 0) + 1} (จ่าย {combo.payoutRate})
+                                            </span>
+                                            <span>{formatCurrency(combo.soldAmount)}</span>
+                                        </div>
+                                    ))}
                             </div>
                         ))}
                     </div>
@@ -114,6 +149,20 @@ export default function PrintReceipt({ ticket, agentName, onClose }: PrintReceip
                             {formatCurrency(ticket.billTotal)}
                         </span>
                     </div>
+                    {commission > 0 && (
+                        <>
+                            <div className="flex justify-between text-sm mt-2">
+                                <span className="text-gray-500 dark:text-slate-400">หักค่าคอม</span>
+                                <span className="text-gray-900 dark:text-slate-100">-{formatCurrency(commission)}</span>
+                            </div>
+                            <div className="flex justify-between items-baseline mt-1">
+                                <span className="font-medium text-gray-700 dark:text-slate-300">ยอดสุทธิ</span>
+                                <span className="text-xl font-bold text-gray-900 dark:text-slate-100">
+                                    {formatCurrency(ticket.billTotal - commission)}
+                                </span>
+                            </div>
+                        </>
+                    )}
 
                     {/* Footer */}
                     <div className="mt-6 text-center text-xs text-gray-400 dark:text-slate-500">
@@ -0,0 +1,92 @@
+import { useMemo } from 'react';
+import { CATEGORY_LABELS } from '@shared/schemas';
+import { useAppStore } from '../store/appStore';
+import { getRateTableHistory, RateChange } from '../lib/rateTable';
+import { findProduct } from '../lib/drawPeriod';
+import { formatDateTimeShort } from '../utils/export';
+
+/**
+ * Every version of the payout rates, newest first, with the time it was in
+ * force and what changed from the version before
+ */
+export default function RateTableHistory() {
+    const rateTables = useAppStore((state) => state.rateTables);
+    const settings = useAppStore((state) => state.settings);
+    const agents = useAppStore((state) => state.agents);
+    const tickets = useAppStore((state) => state.tickets);
+
+    const history = useMemo(() => getRateTableHistory(rateTables), [rateTables]);
+
+    const ticketCounts = useMemo(() => {
+        const counts = new Map<string, number>();
+        for (const ticket of tickets) {
+            if (ticket.deleted || !ticket.rateTableId) continue;
+            counts.set(ticket.rateTableId, (counts.get(ticket.rateTableId) ?? 0) + 1);
+        }
+        return counts;
+    }, [tickets]);
+
+    const layerLabel = (change: RateChange) => {
+        switch (change.layer) {
+            case 'product':
+                return findProduct(settings.products, change.layerId ?? '').name;
+            case 'agent':
+                return `เจ้า ${agents.find((a) => a.id === change.layerId)?.name ?? 'ไม่ทราบ'}`;
+            default:
+                return 'ทั่วไป';
+        }
+    };
+
+    if (history.length === 0) {
+        return (
+            <p className="text-center text-gray-500 dark:text-slate-400 py-8">
+                ยังไม่มีประวัติอัตราจ่าย (บันทึกเมื่อเชื่อมต่อฐานข้อมูล)
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {history.map(({ table, from, to, changes }) => (
+                <div key={table.id} className="p-3 sm:p-4 rounded-xl bg-gray-50 dark:bg-slate-700/50">
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                        <span className="font-semibold text-gray-900 dark:text-slate-100">ฉบับที่ {table.version}</span>
+                        {table.id === settings.rateTableId && <span className="badge-success">ใช้อยู่</span>}
+                        <span className="text-sm text-gray-500 dark:text-slate-400">
+                            {formatDateTimeShort(from)} – {to ? formatDateTimeShort(to) : 'ปัจจุบัน'}
+                        </span>
+                        <span className="text-xs text-gray-500 dark:text-slate-400 ml-auto">
+                            โดย {table.createdBy} · {ticketCounts.get(table.id) ?? 0} บิล
+                        </span>
+                    </div>
+                    {changes.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-slate-400">ตารางแรก</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="table w-full whitespace-nowrap text-sm">
+                                <thead>
+                                    <tr>
+                                        <th>ชั้น</th>
+                                        <th>ประเภท</th>
+                                        <th className="text-right">เดิม</th>
+                                        <th className="text-right">ใหม่</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {changes.map((change) => (
+                                        <tr key={`${change.layer}:${change.layerId ?? ''}:${change.category}`}>
+                                            <td>{layerLabel(change)}</td>
+                                            <td>{CATEGORY_LABELS[change.category]}</td>
+                                            <td className="text-right font-mono">{change.before ?? '-'}</td>
+                                            <td className="text-right font-mono">{change.after ?? '-'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
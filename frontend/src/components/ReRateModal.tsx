@@ -0,0 +1,140 @@
+import { useState, useMemo } from 'react';
+import { Product } from '@shared/schemas';
+import { useAppStore } from '../store/appStore';
+import { useUsername } from '../store/authStore';
+import { planReRate } from '../lib/rerate';
+import { formatCurrency, formatTime } from '../utils/export';
+
+interface ReRateModalProps {
+    product: Product;
+    drawId: string;
+    drawLabel: string;
+    onClose: () => void;
+}
+
+function DeltaText({ value }: { value: number }) {
+    if (value === 0) return <span className="text-gray-400">-</span>;
+    return (
+        <span className={value > 0 ? 'text-red-600' : 'text-green-600'}>
+            {value > 0 ? '+' : '-'}{formatCurrency(Math.abs(value))}
+        </span>
+    );
+}
+
+/**
+ * Prices the tickets of a draw again with the current rate table and
+ * blocked numbers, after showing what changes
+ */
+export default function ReRateModal({ product, drawId, drawLabel, onClose }: ReRateModalProps) {
+    const tickets = useAppStore((state) => state.tickets);
+    const agents = useAppStore((state) => state.agents);
+    const settings = useAppStore((state) => state.settings);
+    const blockedNumbers = useAppStore((state) => state.blockedNumbers);
+    const rateTables = useAppStore((state) => state.rateTables);
+    const reRateTickets = useAppStore((state) => state.reRateTickets);
+    const username = useUsername() ?? 'unknown';
+
+    // Planned once, so saving does not re-plan against the updated tickets
+    const [plan] = useState(() => planReRate(tickets, settings, rateTables, blockedNumbers, product, drawId));
+    const [isSaving, setIsSaving] = useState(false);
+    const [result, setResult] = useState<string | null>(null);
+
+    const agentMap = useMemo(() => new Map(agents.map((a) => [a.id, a.name])), [agents]);
+
+    const handleConfirm = async () => {
+        setIsSaving(true);
+        try {
+            const count = await reRateTickets(plan.changes, username);
+            setResult(`ปรับอัตราแล้ว ${count} บิล`);
+        } catch (error) {
+            setResult(error instanceof Error ? error.message : 'ปรับอัตราไม่สำเร็จ');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content max-w-2xl" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-slate-100">
+                        คำนวณอัตราใหม่ · งวด {drawLabel}
+                    </h2>
+                </div>
+                <div className="modal-body space-y-4">
+                    <div className="grid grid-cols-3 gap-2 text-sm">
+                        <div className="p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                            <div className="text-xs text-gray-500 dark:text-slate-400">บิลที่เปลี่ยน</div>
+                            <div className="font-bold">{plan.changes.length} / {plan.ticketCount}</div>
+                        </div>
+                        <div className="p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                            <div className="text-xs text-gray-500 dark:text-slate-400">ยอดจ่ายสูงสุด (เดิม → ใหม่)</div>
+                            <div className="font-bold font-mono">
+                                {formatCurrency(plan.payoutBefore)} → {formatCurrency(plan.payoutAfter)}
+                            </div>
+                        </div>
+                        <div className="p-2 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+                            <div className="text-xs text-gray-500 dark:text-slate-400">ส่วนต่าง</div>
+                            <div className="font-bold font-mono">
+                                <DeltaText value={plan.payoutAfter - plan.payoutBefore} />
+                            </div>
+                        </div>
+                    </div>
+
+                    {plan.changes.length === 0 ? (
+                        <p className="text-center text-gray-500 dark:text-slate-400 py-4">
+                            ทุกบิลใช้อัตราปัจจุบันอยู่แล้ว
+                        </p>
+                    ) : (
+                        <div className="overflow-x-auto max-h-72">
+                            <table className="table w-full whitespace-nowrap">
+                                <thead>
+                                    <tr>
+                                        <th>เจ้าที่ส่ง</th>
+                                        <th>เวลา</th>
+                                        <th className="text-right">ยอดจ่ายเดิม</th>
+                                        <th className="text-right">ยอดจ่ายใหม่</th>
+                                        <th className="text-right">ส่วนต่าง</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {plan.changes.map((change) => (
+                                        <tr key={change.ticket.id}>
+                                            <td>{agentMap.get(change.ticket.agentId) ?? 'ไม่ทราบ'}</td>
+                                            <td className="text-gray-500">{change.ticket.date} {formatTime(change.ticket.createdAt)}</td>
+                                            <td className="text-right font-mono">{formatCurrency(change.payoutBefore)}</td>
+                                            <td className="text-right font-mono">{formatCurrency(change.payoutAfter)}</td>
+                                            <td className="text-right font-mono">
+                                                <DeltaText value={change.payoutAfter - change.payoutBefore} />
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {result && (
+                        <p className="p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 text-sm">
+                            {result}
+                        </p>
+                    )}
+                </div>
+                <div className="modal-footer">
+                    <button onClick={onClose} className="btn-secondary flex-1 sm:flex-none">
+                        {result ? 'ปิด' : 'ยกเลิก'}
+                    </button>
+                    {!result && (
+                        <button
+                            onClick={handleConfirm}
+                            disabled={isSaving || plan.changes.length === 0}
+                            className="btn-primary flex-1 sm:flex-none"
+                        >
+                            บันทึกอัตราใหม่ ({plan.changes.length} บิล)
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,293 @@
+import { Fragment, useState, useEffect, useMemo } from 'react';
+import { TicketStatus, CATEGORY_LABELS, TICKET_STATUS_LABELS } from '@shared/schemas';
+import { useAppStore } from '../store/appStore';
+import { useAuthStore, usePermission } from '../store/authStore';
+import { canAccessAgent } from '../lib/permissions';
+import { findProduct } from '../lib/drawPeriod';
+import { TicketStatusError } from '../lib/ticketStatus';
+import { getUsers } from '../storage/db';
+import { formatCurrency, formatDateTimeShort } from '../utils/export';
+import TicketStatusBadge from './TicketStatusBadge';
+
+// Statuses waiting on the shop
+const QUEUE_STATUSES: TicketStatus[] = ['pending', 'draft'];
+
+/**
+ * Bills sent in by agents, scanned or pasted, waiting to be accepted or
+ * rejected, one at a time or in bulk
+ */
+export default function ReviewQueue() {
+    const tickets = useAppStore((state) => state.tickets);
+    const agents = useAppStore((state) => state.agents);
+    const settings = useAppStore((state) => state.settings);
+    const syncStatus = useAppStore((state) => state.syncStatus);
+    const changeTicketStatus = useAppStore((state) => state.changeTicketStatus);
+    const user = useAuthStore((state) => state.user);
+    const canReview = usePermission('tickets.review');
+
+    const [status, setStatus] = useState<TicketStatus>('pending');
+    const [selectedAgent, setSelectedAgent] = useState('');
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [showReject, setShowReject] = useState(false);
+    const [reason, setReason] = useState('');
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    // createdBy is a user id; reload after each sync for users from other devices
+    const [userMap, setUserMap] = useState<Map<string, string>>(new Map());
+    useEffect(() => {
+        getUsers().then((users) => setUserMap(new Map(users.map((u) => [u.id, u.username]))));
+    }, [syncStatus.lastSync]);
+
+    const agentMap = useMemo(() => new Map(agents.map((a) => [a.id, a.name])), [agents]);
+
+    const queue = useMemo(
+        () =>
+            tickets
+                .filter(
+                    (t) =>
+                        !t.deleted &&
+                        t.status === status &&
+                        canAccessAgent(user, t.agentId) &&
+                        (!selectedAgent || t.agentId === selectedAgent)
+                )
+                .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+        [tickets, status, user, selectedAgent]
+    );
+
+    // Drop selections that left the queue (reviewed here or on another device)
+    const selectedIds = queue.filter((t) => selected.has(t.id)).map((t) => t.id);
+    const selectedTotal = queue.filter((t) => selected.has(t.id)).reduce((sum, t) => sum + t.billTotal, 0);
+    const allSelected = queue.length > 0 && selectedIds.length === queue.length;
+
+    const toggle = (id: string) => {
+        setSelected((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelected(allSelected ? new Set() : new Set(queue.map((t) => t.id)));
+    };
+
+    const closeReject = () => {
+        setShowReject(false);
+        setReason('');
+        setError('');
+    };
+
+    const apply = async (next: TicketStatus, nextReason?: string): Promise<boolean> => {
+        setError('');
+        setIsSaving(true);
+        try {
+            await changeTicketStatus(selectedIds, next, nextReason);
+        } catch (err) {
+            if (!(err instanceof TicketStatusError)) throw err;
+            setError(err.message);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+        setSelected(new Set());
+        return true;
+    };
+
+    const handleReject = async () => {
+        if (await apply('rejected', reason)) closeReject();
+    };
+
+    if (!canReview) {
+        return (
+            <div className="card p-12 text-center">
+                <div className="text-4xl mb-4">🔒</div>
+                <p className="text-gray-500 dark:text-slate-400">ไม่มีสิทธิ์ตรวจรับบิล</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-7xl mx-auto animate-fade-in">
+            {/* Header */}
+            <div className="mb-4 sm:mb-6">
+                <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-slate-100">ตรวจรับบิล</h1>
+                <p className="text-sm sm:text-base text-gray-500 dark:text-slate-400">
+                    บิลจากเจ้า การสแกน หรือการวางรายการ จะนับยอดเมื่อรับแล้วเท่านั้น
+                </p>
+            </div>
+
+            {/* Filters and bulk actions */}
+            <div className="card p-4 mb-4 flex flex-wrap items-center gap-3">
+                <select
+                    value={status}
+                    onChange={(e) => {
+                        setStatus(e.target.value as TicketStatus);
+                        setSelected(new Set());
+                    }}
+                    className="select"
+                >
+                    {QUEUE_STATUSES.map((value) => (
+                        <option key={value} value={value}>
+                            {TICKET_STATUS_LABELS[value]}
+                        </option>
+                    ))}
+                </select>
+                <select value={selectedAgent} onChange={(e) => setSelectedAgent(e.target.value)} className="select">
+                    <option value="">ทุกเจ้า</option>
+                    {agents.map((agent) => (
+                        <option key={agent.id} value={agent.id}>
+                            {agent.name}
+                        </option>
+                    ))}
+                </select>
+                <div className="flex items-center gap-2 ml-auto">
+                    <span className="text-sm text-gray-500 dark:text-slate-400">
+                        เลือก {selectedIds.length} บิล • {formatCurrency(selectedTotal)}
+                    </span>
+                    <button
+                        onClick={() => apply('accepted')}
+                        disabled={selectedIds.length === 0 || isSaving}
+                        className="btn-success btn-sm"
+                    >
+                        รับบิล
+                    </button>
+                    {status === 'pending' && (
+                        <button
+                            onClick={() => setShowReject(true)}
+                            disabled={selectedIds.length === 0 || isSaving}
+                            className="btn-danger btn-sm"
+                        >
+                            ไม่รับ
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {error && !showReject && (
+                <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-400">
+                    {error}
+                </div>
+            )}
+
+            {queue.length === 0 ? (
+                <div className="card p-12 text-center">
+                    <div className="text-4xl mb-4">📥</div>
+                    <p className="text-gray-500 dark:text-slate-400">ไม่มีบิลที่{TICKET_STATUS_LABELS[status]}</p>
+                </div>
+            ) : (
+                <div className="card p-0 overflow-x-auto">
+                    <table className="table w-full whitespace-nowrap">
+                        <thead>
+                            <tr>
+                                <th>
+                                    <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+                                </th>
+                                <th>เวลา</th>
+                                <th>เจ้า</th>
+                                <th>หวย / งวด</th>
+                                <th>ผู้คีย์</th>
+                                <th>สถานะ</th>
+                                <th className="text-right">รายการ</th>
+                                <th className="text-right">ยอด</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {queue.map((ticket) => (
+                                <Fragment key={ticket.id}>
+                                    <tr
+                                        onClick={() => setExpandedId(expandedId === ticket.id ? null : ticket.id)}
+                                        className="cursor-pointer"
+                                    >
+                                        <td onClick={(e) => e.stopPropagation()}>
+                                            <input
+                                                type="checkbox"
+                                                checked={selected.has(ticket.id)}
+                                                onChange={() => toggle(ticket.id)}
+                                            />
+                                        </td>
+                                        <td className="text-gray-500">{formatDateTimeShort(ticket.createdAt)}</td>
+                                        <td className="font-medium">{agentMap.get(ticket.agentId) ?? 'Unknown'}</td>
+                                        <td>
+                                            {findProduct(settings.products, ticket.round).name} • {ticket.date}
+                                        </td>
+                                        <td>{userMap.get(ticket.createdBy) ?? ticket.createdBy}</td>
+                                        <td>
+                                            <TicketStatusBadge ticket={ticket} />
+                                        </td>
+                                        <td className="text-right">{ticket.entries.length}</td>
+                                        <td className="text-right font-mono font-bold text-blue-600">
+                                            {formatCurrency(ticket.billTotal)}
+                                        </td>
+                                    </tr>
+                                    {expandedId === ticket.id && (
+                                        <tr>
+                                            <td colSpan={8} className="bg-gray-50 dark:bg-slate-700/50">
+                                                <table className="w-full text-sm">
+                                                    <tbody>
+                                                        {ticket.entries.map((entry) => (
+                                                            <tr key={entry.id}>
+                                                                <td className="pr-4">{CATEGORY_LABELS[entry.category]}</td>
+                                                                <td className="pr-4 font-mono font-bold">{entry.raw}</td>
+                                                                <td className="pr-4 text-gray-500 dark:text-slate-400">
+                                                                    {entry.expanded?.join(', ')}
+                                                                </td>
+                                                                <td className="text-right font-mono">
+                                                                    {formatCurrency(entry.total ?? 0)}
+                                                                </td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* Reject Modal */}
+            {showReject && (
+                <div className="modal-overlay" onClick={closeReject}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <div className="modal-header">
+                            <h2 className="text-xl font-semibold text-gray-900 dark:text-slate-100">
+                                ไม่รับ {selectedIds.length} บิล
+                            </h2>
+                        </div>
+                        <div className="modal-body space-y-3">
+                            <p className="text-gray-600 dark:text-slate-400">
+                                เจ้าจะเห็นเหตุผลนี้ และแก้แล้วส่งบิลมาใหม่ได้
+                            </p>
+                            <div>
+                                <label className="label">เหตุผล</label>
+                                <input
+                                    type="text"
+                                    value={reason}
+                                    onChange={(e) => setReason(e.target.value)}
+                                    className="input w-full"
+                                    placeholder="เช่น เลขอั้น, ยอดไม่ตรง"
+                                    autoFocus
+                                />
+                            </div>
+                            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                        </div>
+                        <div className="modal-footer">
+                            <button onClick={closeReject} className="btn-secondary">
+                                ยกเลิก
+                            </button>
+                            <button onClick={handleReject} disabled={isSaving} className="btn-danger">
+                                ไม่รับ
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -5,27 +5,96 @@ import {
     Category,
     CATEGORY_LABELS,
     BlockedNumber,
+    CreateBlockedNumber,
+    PayoutTier,
+    Product,
+    PayoutOverrides,
+    KeepLimits,
+    Hedging,
+    DEFAULT_PRODUCTS,
+    DEFAULT_HEDGING,
+    GOVERNMENT_PRODUCT_ID,
+    CeilingPolicy,
+    CeilingPolicyEnum,
+    CEILING_POLICY_LABELS,
 } from '@shared/schemas';
 import { downloadFile } from '../utils/export';
 import { exportAllData, importData, ExportData } from '../storage/db';
 import { isFirebaseInitialized } from '../storage/sync';
+import { resolvePayouts } from '../lib/compute';
+import { copyBlockedNumbersToDraw, describeBlockedWindow } from '../lib/blocked';
+import { findProduct, getEnabledProducts, getCurrentDrawPeriod, getPreviousDrawPeriod } from '../lib/drawPeriod';
+import BlockedWindowFields, { EMPTY_WINDOW, toBlockedWindow, getBlockedDrawOptions } from './BlockedWindowFields';
+import BlockedNumberImport from './BlockedNumberImport';
+import RateTableHistory from './RateTableHistory';
+import UserManagement from './UserManagement';
+import { usePermission } from '../store/authStore';
 
 const CATEGORIES: Category[] = [
     '3top',
     '3down',
     '3tod',
-    // '3back',
+    '3back',
     '2top',
     // '2tod',
     '2down',
-    // '2back',
+    '2back',
+    '1top',
+    '1down',
 ];
 
+const WEEKDAY_LABELS = ['อา', 'จ', 'อ', 'พ', 'พฤ', 'ศ', 'ส'];
+
+interface TierInput {
+    upTo: string;       // Blank = no limit (last band only)
+    payoutRate: string; // Blank = the normal rate
+}
+
+/**
+ * Payout bands from the form, or null when the limits do not go up or a
+ * band other than the last has none
+ */
+function parseTiers(rows: TierInput[]): PayoutTier[] | null {
+    const tiers = rows.map((row) => ({
+        upTo: row.upTo.trim() === '' ? null : parseFloat(row.upTo),
+        payoutRate: row.payoutRate.trim() === '' ? null : parseFloat(row.payoutRate),
+    }));
+
+    let previous = 0;
+    for (const [i, tier] of tiers.entries()) {
+        if (tier.payoutRate !== null && (isNaN(tier.payoutRate) || tier.payoutRate < 0)) return null;
+        if (tier.upTo === null) {
+            if (i !== tiers.length - 1) return null;
+            continue;
+        }
+        if (isNaN(tier.upTo) || tier.upTo <= previous) return null;
+        previous = tier.upTo;
+    }
+
+    return tiers;
+}
+
+// Payout input rows: 3-digit, 2-digit, running digits
+const PAYOUT_GROUPS: { categories: Category[]; className: string; step?: string }[] = [
+    { categories: ['3top', '3tod', '3down', '3back'], className: 'grid-cols-2 sm:grid-cols-4' },
+    { categories: ['2top', '2down', '2back'], className: 'grid-cols-3' },
+    { categories: ['1top', '1down'], className: 'grid-cols-2', step: '0.1' },
+];
+
+type PayoutSource = 'global' | 'product' | 'agent';
+
+const PAYOUT_SOURCE_LABELS: Record<PayoutSource, string> = {
+    global: 'ทั่วไป',
+    product: 'ประเภทหวย',
+    agent: 'เจ้าที่ส่ง',
+};
+
 // Storage modes constant removed
 
 
 export default function Settings() {
     const settings = useAppStore((state) => state.settings);
+    const agents = useAppStore((state) => state.agents);
     const blockedNumbers = useAppStore((state) => state.blockedNumbers);
     const updateSettings = useAppStore((state) => state.updateSettings);
     const createBlockedNumber = useAppStore((state) => state.createBlockedNumber);
@@ -35,13 +104,23 @@ export default function Settings() {
     // Get tenant context
     const { tenantName, tenantSlug } = useTenantStore();
 
-    const [activeTab, setActiveTab] = useState<'payouts' | 'blocked' | 'storage' | 'export' | 'reset'>('payouts');
+    const [activeTab, setActiveTab] = useState<'payouts' | 'rateHistory' | 'products' | 'blocked' | 'hedging' | 'users' | 'storage' | 'export' | 'reset'>('payouts');
+    const canManageUsers = usePermission('users.manage');
     const [showAddBlocked, setShowAddBlocked] = useState(false);
     const [newBlocked, setNewBlocked] = useState({
         number: '',
         category: '3top' as Category,
         payoutOverride: '',
+        tiers: [] as TierInput[],
+        window: EMPTY_WINDOW,
     });
+    const [showImportBlocked, setShowImportBlocked] = useState(false);
+    const [copyProductId, setCopyProductId] = useState(GOVERNMENT_PRODUCT_ID);
+    const [copyDrawId, setCopyDrawId] = useState(() => getCurrentDrawPeriod(findProduct(settings.products)).id);
+    const [payoutLayer, setPayoutLayer] = useState('global'); // 'global' | 'product:<id>' | 'agent:<id>'
+    const [previewProductId, setPreviewProductId] = useState(GOVERNMENT_PRODUCT_ID);
+    const [previewAgentId, setPreviewAgentId] = useState('');
+    const [newProductName, setNewProductName] = useState('');
     const [isSaving, setIsSaving] = useState(false);
     const [resetStep, setResetStep] = useState(0);
     const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
@@ -91,6 +170,56 @@ export default function Settings() {
         });
     };
 
+    // Payout layer handlers
+    const products = settings.products ?? DEFAULT_PRODUCTS;
+    const [layerType, layerId] = payoutLayer.split(':') as [PayoutSource, string | undefined];
+
+    const layerPayouts: PayoutOverrides =
+        layerType === 'product'
+            ? products.find((p) => p.id === layerId)?.payouts ?? {}
+            : layerType === 'agent'
+                ? settings.agentPayouts?.[layerId ?? ''] ?? {}
+                : settings.payouts;
+
+    const handleLayerPayoutChange = async (category: Category, value: string) => {
+        if (layerType === 'global') {
+            await handlePayoutChange(category, value);
+            return;
+        }
+
+        // An empty field removes the override and falls back to the layer below
+        const numValue = parseFloat(value);
+        const next: PayoutOverrides = { ...layerPayouts };
+        if (value === '') {
+            delete next[category];
+        } else if (isNaN(numValue)) {
+            return;
+        } else {
+            next[category] = numValue;
+        }
+
+        if (layerType === 'product') {
+            await updateSettings({
+                products: products.map((p) => (p.id === layerId ? { ...p, payouts: next } : p)),
+            });
+        } else if (layerId) {
+            const agentPayouts = { ...settings.agentPayouts, [layerId]: next };
+            if (Object.keys(next).length === 0) delete agentPayouts[layerId];
+            await updateSettings({ agentPayouts });
+        }
+    };
+
+    const previewPayouts = resolvePayouts(settings, {
+        productId: previewProductId,
+        agentId: previewAgentId || undefined,
+    });
+
+    const getPayoutSource = (category: Category): PayoutSource => {
+        if (previewAgentId && settings.agentPayouts?.[previewAgentId]?.[category] !== undefined) return 'agent';
+        if (products.find((p) => p.id === previewProductId)?.payouts?.[category] !== undefined) return 'product';
+        return 'global';
+    };
+
     // Ceiling handler
     const handleCeilingChange = async (value: string) => {
         const numValue = parseFloat(value);
@@ -104,6 +233,27 @@ export default function Settings() {
         });
     };
 
+    const handleCeilingPolicyChange = async (policy: CeilingPolicy) => {
+        await updateSettings({
+            ceilings: {
+                ...settings.ceilings,
+                policy,
+            },
+        });
+    };
+
+    const handleReducedPayoutChange = async (value: string) => {
+        const numValue = parseFloat(value);
+        if (isNaN(numValue) || numValue < 0 || numValue > 100) return;
+
+        await updateSettings({
+            ceilings: {
+                ...settings.ceilings,
+                reducedPayoutPercent: numValue,
+            },
+        });
+    };
+
     // Risky threshold handler
     const handleThresholdChange = async (value: string) => {
         const numValue = parseFloat(value);
@@ -114,26 +264,148 @@ export default function Settings() {
         });
     };
 
+    // Product handlers
+    const handleProductChange = async (id: string, updates: Partial<Product>) => {
+        await updateSettings({
+            products: products.map((p) => (p.id === id ? { ...p, ...updates } : p)),
+        });
+    };
+
+    const handleProductScheduleChange = async (product: Product, updates: Partial<Product['schedule']>) => {
+        await handleProductChange(product.id, { schedule: { ...product.schedule, ...updates } });
+    };
+
+    const handleToggleWeekday = async (product: Product, weekday: number) => {
+        const { weekdays } = product.schedule;
+        await handleProductScheduleChange(product, {
+            weekdays: weekdays.includes(weekday)
+                ? weekdays.filter((d) => d !== weekday)
+                : [...weekdays, weekday].sort(),
+        });
+    };
+
+    const handleAddProduct = async () => {
+        const name = newProductName.trim();
+        if (!name) return;
+
+        await updateSettings({
+            products: [
+                ...products,
+                {
+                    id: `product-${Date.now().toString(36)}`,
+                    name,
+                    schedule: { type: 'weekly', weekdays: [], drawTime: '16:00', cutoffMinutes: 0 },
+                    resultShape: 'topBottom',
+                    enabled: true,
+                },
+            ],
+        });
+        setNewProductName('');
+        showMessage('success', 'เพิ่มประเภทหวยสำเร็จ');
+    };
+
+    const handleDeleteProduct = async (id: string) => {
+        if (!confirm('ต้องการลบประเภทหวยนี้? บิลเดิมจะยังอยู่แต่จะไม่แสดงในตัวกรอง')) return;
+        await updateSettings({ products: products.filter((p) => p.id !== id) });
+    };
+
+    // Hedging handlers
+    const hedging = settings.hedging ?? DEFAULT_HEDGING;
+
+    const handleHedgingChange = async (updates: Partial<Hedging>) => {
+        await updateSettings({ hedging: { ...hedging, ...updates } });
+    };
+
+    // An empty field means "no limit" for keep, "our own rate" for upstream payouts
+    const handleHedgingRateChange = async (field: 'keep' | 'payouts', category: Category, value: string) => {
+        const numValue = parseFloat(value);
+        const next: KeepLimits & PayoutOverrides = { ...hedging[field] };
+        if (value === '') {
+            delete next[category];
+        } else if (isNaN(numValue) || numValue < 0) {
+            return;
+        } else {
+            next[category] = numValue;
+        }
+        await handleHedgingChange({ [field]: next });
+    };
+
     // Blocked number handlers
     const handleAddBlocked = async () => {
-        if (!newBlocked.number || !newBlocked.payoutOverride) return;
+        if (!newBlocked.number) return;
+        const validity = toBlockedWindow(newBlocked.window, settings.products);
+        if (!validity) {
+            showMessage('error', 'ช่วงวันที่ไม่ถูกต้อง');
+            return;
+        }
 
-        await createBlockedNumber({
-            number: newBlocked.number,
-            category: newBlocked.category,
-            payoutOverride: parseFloat(newBlocked.payoutOverride),
-            enabled: true,
-        });
+        if (newBlocked.tiers.length === 0) {
+            if (!newBlocked.payoutOverride) return;
 
-        setNewBlocked({ number: '', category: '3top', payoutOverride: '' });
+            await createBlockedNumber({
+                number: newBlocked.number,
+                category: newBlocked.category,
+                payoutOverride: parseFloat(newBlocked.payoutOverride),
+                enabled: true,
+                ...validity,
+            });
+        } else {
+            const tiers = parseTiers(newBlocked.tiers);
+            if (!tiers) {
+                showMessage('error', 'ยอดของแต่ละขั้นต้องเพิ่มขึ้น และเว้นว่างได้เฉพาะขั้นสุดท้าย');
+                return;
+            }
+
+            await createBlockedNumber({
+                number: newBlocked.number,
+                category: newBlocked.category,
+                // Used where draw totals are not known
+                payoutOverride: tiers[0].payoutRate ?? settings.payouts[newBlocked.category],
+                tiers,
+                enabled: true,
+                ...validity,
+            });
+        }
+
+        setNewBlocked({ number: '', category: '3top', payoutOverride: '', tiers: [], window: EMPTY_WINDOW });
         setShowAddBlocked(false);
         showMessage('success', 'เพิ่มเลขอั้นสำเร็จ');
     };
 
+    const handleTierChange = (index: number, field: keyof TierInput, value: string) => {
+        setNewBlocked({
+            ...newBlocked,
+            tiers: newBlocked.tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)),
+        });
+    };
+
     const handleToggleBlocked = async (blocked: BlockedNumber) => {
         await updateBlockedNumber(blocked.id, { enabled: !blocked.enabled });
     };
 
+    const handleImportBlocked = async (rules: CreateBlockedNumber[]) => {
+        for (const rule of rules) {
+            await createBlockedNumber(rule);
+        }
+        showMessage('success', `เพิ่มเลขอั้น ${rules.length} รายการสำเร็จ`);
+    };
+
+    const copyProduct = findProduct(settings.products, copyProductId);
+
+    const handleCopyPreviousDraw = async () => {
+        const previous = getPreviousDrawPeriod(copyDrawId, copyProduct);
+        const copies = copyBlockedNumbersToDraw(blockedNumbers, copyProduct.id, previous.id, copyDrawId);
+        if (copies.length === 0) {
+            showMessage('error', `ไม่มีเลขอั้นเฉพาะงวด ${previous.label} ที่ยังไม่ได้คัดลอก`);
+            return;
+        }
+
+        for (const copy of copies) {
+            await createBlockedNumber(copy);
+        }
+        showMessage('success', `คัดลอกเลขอั้น ${copies.length} รายการจากงวด ${previous.label}`);
+    };
+
     const handleDeleteBlocked = async (id: string) => {
         await deleteBlockedNumber(id);
         showMessage('success', 'ลบเลขอั้นสำเร็จ');
@@ -206,7 +478,11 @@ export default function Settings() {
             <div className="flex gap-1 sm:gap-2 mb-4 sm:mb-6 border-b border-gray-200 dark:border-slate-700 overflow-x-auto scrollbar-hide">
                 {[
                     { id: 'payouts', label: 'อัตราจ่าย', icon: '💰' },
+                    { id: 'rateHistory', label: 'ประวัติอัตรา', icon: '📜' },
+                    { id: 'products', label: 'ประเภทหวย', icon: '🎰' },
                     { id: 'blocked', label: 'เลขอั้น', icon: '🚫' },
+                    { id: 'hedging', label: 'ตัดส่ง', icon: '✂️' },
+                    ...(canManageUsers ? [{ id: 'users', label: 'ผู้ใช้', icon: '👥' }] : []),
                     { id: 'storage', label: 'การจัดเก็บ', icon: '☁️' },
                     { id: 'export', label: 'นำเข้า/ส่งออก', icon: '📦' },
                     { id: 'reset', label: 'ล้างข้อมูล', icon: '💀' },
@@ -231,40 +507,95 @@ export default function Settings() {
                 {activeTab === 'payouts' && (
                     <div className="space-y-4 sm:space-y-6">
                         <div>
-                            <h3 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-slate-100 mb-3 sm:mb-4">
-                                อัตราจ่ายเริ่มต้น (บาทละ)
-                            </h3>
-                            {/* 3-digit categories - top row */}
-                            <div className="grid grid-cols-3 gap-3 sm:gap-4 mb-4">
-                                {(['3top', '3tod', '3down'] as const).map((cat) => (
-                                    <div key={cat}>
-                                        <label className="label text-xs sm:text-sm">{CATEGORY_LABELS[cat]}</label>
-                                        <input
-                                            type="number"
-                                            inputMode="numeric"
-                                            value={settings.payouts[cat]}
-                                            onChange={(e) => handlePayoutChange(cat, e.target.value)}
-                                            className="input"
-                                            min="0"
-                                        />
-                                    </div>
-                                ))}
+                            <div className="flex flex-wrap items-center justify-between gap-3 mb-3 sm:mb-4">
+                                <h3 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-slate-100">
+                                    อัตราจ่าย (บาทละ)
+                                </h3>
+                                <select
+                                    value={payoutLayer}
+                                    onChange={(e) => setPayoutLayer(e.target.value)}
+                                    className="select w-auto text-sm"
+                                >
+                                    <option value="global">ทั่วไป (ค่าเริ่มต้น)</option>
+                                    <optgroup label="ประเภทหวย">
+                                        {products.map((p) => (
+                                            <option key={p.id} value={`product:${p.id}`}>{p.name}</option>
+                                        ))}
+                                    </optgroup>
+                                    {agents.length > 0 && (
+                                        <optgroup label="เจ้าที่ส่ง">
+                                            {agents.map((a) => (
+                                                <option key={a.id} value={`agent:${a.id}`}>{a.name}</option>
+                                            ))}
+                                        </optgroup>
+                                    )}
+                                </select>
                             </div>
-                            {/* 2-digit categories - bottom row */}
-                            <div className="grid grid-cols-2 gap-3 sm:gap-4">
-                                {(['2top', '2down'] as const).map((cat) => (
-                                    <div key={cat}>
-                                        <label className="label text-xs sm:text-sm">{CATEGORY_LABELS[cat]}</label>
-                                        <input
-                                            type="number"
-                                            inputMode="numeric"
-                                            value={settings.payouts[cat]}
-                                            onChange={(e) => handlePayoutChange(cat, e.target.value)}
-                                            className="input"
-                                            min="0"
-                                        />
-                                    </div>
-                                ))}
+                            {payoutLayer !== 'global' && (
+                                <p className="text-xs sm:text-sm text-gray-500 dark:text-slate-400 mb-3">
+                                    เว้นว่างเพื่อใช้อัตราจากชั้นก่อนหน้า (ทั่วไป → ประเภทหวย → เจ้าที่ส่ง)
+                                </p>
+                            )}
+                            {PAYOUT_GROUPS.map((group, i) => (
+                                <div key={i} className={`grid ${group.className} gap-3 sm:gap-4 mb-4`}>
+                                    {group.categories.map((cat) => (
+                                        <div key={cat}>
+                                            <label className="label text-xs sm:text-sm">{CATEGORY_LABELS[cat]}</label>
+                                            <input
+                                                type="number"
+                                                inputMode={group.step ? 'decimal' : 'numeric'}
+                                                step={group.step}
+                                                value={layerPayouts[cat] ?? ''}
+                                                placeholder={String(settings.payouts[cat])}
+                                                onChange={(e) => handleLayerPayoutChange(cat, e.target.value)}
+                                                className="input"
+                                                min="0"
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Effective rate preview */}
+                        <div className="p-3 sm:p-4 rounded-xl bg-gray-50 dark:bg-slate-700/50">
+                            <div className="flex flex-wrap items-center gap-2 mb-3">
+                                <h4 className="font-semibold text-gray-900 dark:text-slate-100 mr-auto">
+                                    อัตราที่ใช้จริง
+                                </h4>
+                                <select
+                                    value={previewProductId}
+                                    onChange={(e) => setPreviewProductId(e.target.value)}
+                                    className="select w-auto text-sm"
+                                >
+                                    {products.map((p) => (
+                                        <option key={p.id} value={p.id}>{p.name}</option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={previewAgentId}
+                                    onChange={(e) => setPreviewAgentId(e.target.value)}
+                                    className="select w-auto text-sm"
+                                >
+                                    <option value="">-- ไม่ระบุเจ้า --</option>
+                                    {agents.map((a) => (
+                                        <option key={a.id} value={a.id}>{a.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                                {CATEGORIES.map((cat) => {
+                                    const source = getPayoutSource(cat);
+                                    return (
+                                        <div key={cat} className="p-2 rounded-lg bg-white dark:bg-slate-800 text-center">
+                                            <div className="text-xs text-gray-500 dark:text-slate-400">{CATEGORY_LABELS[cat]}</div>
+                                            <div className="text-lg font-bold text-gray-900 dark:text-slate-100">{previewPayouts[cat]}</div>
+                                            <div className={`text-[10px] ${source === 'global' ? 'text-gray-400' : 'text-blue-600 dark:text-blue-400'}`}>
+                                                {PAYOUT_SOURCE_LABELS[source]}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
                             </div>
                         </div>
 
@@ -282,7 +613,42 @@ export default function Settings() {
                                     min="0"
                                 />
                                 <p className="text-xs sm:text-sm text-gray-500 dark:text-slate-400 mt-1">
-                                    ยอดขายสูงสุดต่อชุด เมื่อเกินจะมีคำเตือน
+                                    ยอดขายสูงสุดต่อชุดในงวด (รวมทุกบิล)
+                                </p>
+                            </div>
+
+                            <div>
+                                <label className="label">เมื่อเกินเพดานต่อชุด</label>
+                                <select
+                                    value={settings.ceilings.policy}
+                                    onChange={(e) => handleCeilingPolicyChange(e.target.value as CeilingPolicy)}
+                                    className="select"
+                                >
+                                    {CeilingPolicyEnum.options.map((policy) => (
+                                        <option key={policy} value={policy}>
+                                            {CEILING_POLICY_LABELS[policy]}
+                                        </option>
+                                    ))}
+                                </select>
+                                {settings.ceilings.policy === 'reduce' && (
+                                    <div className="flex items-center gap-2 mt-2">
+                                        <span className="text-sm text-gray-500 dark:text-slate-400">จ่าย</span>
+                                        <input
+                                            type="number"
+                                            inputMode="numeric"
+                                            value={settings.ceilings.reducedPayoutPercent}
+                                            onChange={(e) => handleReducedPayoutChange(e.target.value)}
+                                            className="input w-24"
+                                            min="0"
+                                            max="100"
+                                        />
+                                        <span className="text-sm text-gray-500 dark:text-slate-400">% ของอัตราปกติ</span>
+                                    </div>
+                                )}
+                                <p className="text-xs sm:text-sm text-gray-500 dark:text-slate-400 mt-1">
+                                    {settings.ceilings.policy === 'reduce'
+                                        ? 'เลขที่เกินเพดานจะถูกเพิ่มเป็นเลขอั้นอัตโนมัติ'
+                                        : 'รายการที่ถูกปรับจะมีป้ายกำกับในบิล'}
                                 </p>
                             </div>
 
@@ -342,6 +708,150 @@ export default function Settings() {
                     </div>
                 )}
 
+                {/* Rate History Tab */}
+                {activeTab === 'rateHistory' && (
+                    <div>
+                        <h3 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">
+                            ประวัติอัตราจ่าย
+                        </h3>
+                        <p className="text-xs sm:text-sm text-gray-500 dark:text-slate-400 mb-4">
+                            ทุกครั้งที่แก้อัตราจ่ายจะเก็บเป็นฉบับใหม่ บิลจะจ่ายตามฉบับที่ใช้อยู่ตอนขาย
+                        </p>
+                        <RateTableHistory />
+                    </div>
+                )}
+
+                {/* Users Tab */}
+                {activeTab === 'users' && canManageUsers && <UserManagement />}
+
+                {/* Products Tab */}
+                {activeTab === 'products' && (
+                    <div>
+                        <h3 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">
+                            ประเภทหวยและตารางออกผล
+                        </h3>
+                        <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">
+                            แต่ละประเภทมีงวดของตัวเอง บิลจะผูกกับประเภทหวยที่เลือกตอนคีย์
+                        </p>
+
+                        <div className="space-y-3">
+                            {products.map((product) => (
+                                <div
+                                    key={product.id}
+                                    className={`p-3 sm:p-4 rounded-xl border border-gray-200 dark:border-slate-600 ${product.enabled ? '' : 'opacity-60'}`}
+                                >
+                                    <div className="flex items-center justify-between gap-3 mb-3">
+                                        <input
+                                            type="text"
+                                            value={product.name}
+                                            onChange={(e) => handleProductChange(product.id, { name: e.target.value })}
+                                            className="input flex-1 min-w-0 font-semibold"
+                                        />
+                                        <div className="flex items-center gap-2 flex-shrink-0">
+                                            <button
+                                                onClick={() => handleProductChange(product.id, { enabled: !product.enabled })}
+                                                className={`px-2 sm:px-3 py-1.5 rounded-lg text-xs sm:text-sm font-medium transition-colors ${product.enabled
+                                                    ? 'bg-green-200 text-green-800 dark:bg-green-800 dark:text-green-200'
+                                                    : 'bg-gray-200 text-gray-600 dark:bg-slate-600 dark:text-slate-300'
+                                                    }`}
+                                            >
+                                                {product.enabled ? 'เปิดรับ' : 'ปิด'}
+                                            </button>
+                                            {product.id !== GOVERNMENT_PRODUCT_ID && (
+                                                <button
+                                                    onClick={() => handleDeleteProduct(product.id)}
+                                                    className="p-2 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                                                >
+                                                    <svg className="w-4 h-4 sm:w-5 sm:h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                                    </svg>
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+
+                                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                                        <div>
+                                            <label className="label text-xs">ตารางออกผล</label>
+                                            <select
+                                                value={product.schedule.type}
+                                                onChange={(e) => handleProductScheduleChange(product, { type: e.target.value as Product['schedule']['type'] })}
+                                                disabled={product.id === GOVERNMENT_PRODUCT_ID}
+                                                className="select text-sm"
+                                            >
+                                                <option value="semimonthly">งวด 1 / 16</option>
+                                                <option value="weekly">รายสัปดาห์</option>
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className="label text-xs">รูปแบบผล</label>
+                                            <select
+                                                value={product.resultShape}
+                                                onChange={(e) => handleProductChange(product.id, { resultShape: e.target.value as Product['resultShape'] })}
+                                                disabled={product.id === GOVERNMENT_PRODUCT_ID}
+                                                className="select text-sm"
+                                            >
+                                                <option value="government">รางวัลที่ 1 + เลขท้าย</option>
+                                                <option value="topBottom">3 ตัวบน / 2 ตัวล่าง</option>
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className="label text-xs">เวลาออกผล</label>
+                                            <input
+                                                type="time"
+                                                value={product.schedule.drawTime}
+                                                onChange={(e) => handleProductScheduleChange(product, { drawTime: e.target.value })}
+                                                className="input text-sm"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="label text-xs">ปิดรับก่อน (นาที)</label>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                value={product.schedule.cutoffMinutes}
+                                                onChange={(e) => handleProductScheduleChange(product, { cutoffMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                                                className="input text-sm"
+                                            />
+                                        </div>
+                                    </div>
+
+                                    {product.schedule.type === 'weekly' && (
+                                        <div className="flex flex-wrap gap-1.5 mt-3">
+                                            {WEEKDAY_LABELS.map((label, weekday) => (
+                                                <button
+                                                    key={weekday}
+                                                    onClick={() => handleToggleWeekday(product, weekday)}
+                                                    className={`w-10 py-1.5 rounded-lg text-xs font-medium transition-colors ${product.schedule.weekdays.includes(weekday)
+                                                        ? 'bg-primary-600 text-white'
+                                                        : 'bg-gray-100 text-gray-600 dark:bg-slate-700 dark:text-slate-300'
+                                                        }`}
+                                                >
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="flex gap-2 mt-4">
+                            <input
+                                type="text"
+                                value={newProductName}
+                                onChange={(e) => setNewProductName(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleAddProduct()}
+                                placeholder="ชื่อประเภทหวยใหม่ เช่น หวยมาเลย์"
+                                className="input flex-1"
+                            />
+                            <button onClick={handleAddProduct} disabled={!newProductName.trim()} className="btn-primary btn-sm">
+                                + เพิ่ม
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 {/* Blocked Numbers Tab */}
                 {activeTab === 'blocked' && (
                     <div>
@@ -349,8 +859,47 @@ export default function Settings() {
                             <h3 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-slate-100">
                                 เลขอั้น ({blockedNumbers.length})
                             </h3>
-                            <button onClick={() => setShowAddBlocked(true)} className="btn-primary btn-sm">
-                                + เพิ่มเลขอั้น
+                            <div className="flex gap-2">
+                                <button onClick={() => setShowImportBlocked(true)} className="btn-secondary btn-sm">
+                                    นำเข้าหลายเลข
+                                </button>
+                                <button onClick={() => setShowAddBlocked(true)} className="btn-primary btn-sm">
+                                    + เพิ่มเลขอั้น
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* Copy the previous draw's list */}
+                        <div className="flex flex-wrap items-center gap-2 mb-4 p-3 rounded-xl bg-gray-50 dark:bg-slate-700/50">
+                            {getEnabledProducts(settings.products).length > 1 && (
+                                <select
+                                    value={copyProduct.id}
+                                    onChange={(e) => {
+                                        setCopyProductId(e.target.value);
+                                        setCopyDrawId(getCurrentDrawPeriod(findProduct(settings.products, e.target.value)).id);
+                                    }}
+                                    className="select w-auto text-sm"
+                                >
+                                    {getEnabledProducts(settings.products).map((product) => (
+                                        <option key={product.id} value={product.id}>
+                                            {product.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
+                            <select
+                                value={copyDrawId}
+                                onChange={(e) => setCopyDrawId(e.target.value)}
+                                className="select w-auto text-sm"
+                            >
+                                {getBlockedDrawOptions(copyProduct).map((opt) => (
+                                    <option key={opt.id} value={opt.id}>
+                                        งวด {opt.label}
+                                    </option>
+                                ))}
+                            </select>
+                            <button onClick={handleCopyPreviousDraw} className="btn-secondary btn-sm">
+                                คัดลอกจากงวดที่แล้ว
                             </button>
                         </div>
 
@@ -371,9 +920,28 @@ export default function Settings() {
                                                     {blocked.number}
                                                 </span>
                                                 <span className="badge-primary text-xs">{CATEGORY_LABELS[blocked.category]}</span>
-                                                <span className="text-xs sm:text-sm text-gray-600 dark:text-slate-400">
-                                                    จ่าย: <strong>{blocked.payoutOverride}</strong> บาท
-                                                </span>
+                                                {describeBlockedWindow(blocked, settings.products) && (
+                                                    <span className="badge-secondary text-xs">
+                                                        {describeBlockedWindow(blocked, settings.products)}
+                                                    </span>
+                                                )}
+                                                {blocked.tiers && blocked.tiers.length > 0 ? (
+                                                    <span className="text-xs sm:text-sm text-gray-600 dark:text-slate-400">
+                                                        {blocked.tiers.map((tier, i) => (
+                                                            <span key={i} className="mr-2">
+                                                                {tier.upTo === null ? 'ที่เหลือ' : `ถึง ${tier.upTo.toLocaleString()}`}:{' '}
+                                                                <strong>{tier.payoutRate ?? 'ปกติ'}</strong>
+                                                            </span>
+                                                        ))}
+                                                        {blocked.tiers[blocked.tiers.length - 1].upTo !== null && (
+                                                            <span className="text-red-500">เกินนั้นไม่รับ</span>
+                                                        )}
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-xs sm:text-sm text-gray-600 dark:text-slate-400">
+                                                        จ่าย: <strong>{blocked.payoutOverride}</strong> บาท
+                                                    </span>
+                                                )}
                                             </div>
 
                                             {/* Actions */}
@@ -409,6 +977,72 @@ export default function Settings() {
                     </div>
                 )}
 
+                {/* Hedging Tab */}
+                {activeTab === 'hedging' && (
+                    <div className="space-y-4 sm:space-y-6">
+                        <div>
+                            <h3 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-slate-100 mb-3 sm:mb-4">
+                                ตัดส่งเจ้ามือใหญ่
+                            </h3>
+                            <label className="label">ชื่อเจ้ามือที่ส่งต่อ</label>
+                            <input
+                                type="text"
+                                value={hedging.upstream}
+                                onChange={(e) => handleHedgingChange({ upstream: e.target.value })}
+                                placeholder="เช่น เจ้ามือใหญ่"
+                                maxLength={100}
+                                className="input"
+                            />
+                        </div>
+
+                        <div>
+                            <h4 className="font-semibold text-gray-900 dark:text-slate-100">ยอดเก็บต่อเลข (บาท)</h4>
+                            <p className="text-xs sm:text-sm text-gray-500 dark:text-slate-400 mb-3">
+                                ยอดขายต่อเลขที่เกินจากนี้จะถูกตัดส่ง เว้นว่าง = ไม่ตัดส่งประเภทนั้น
+                            </p>
+                            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                                {CATEGORIES.map((cat) => (
+                                    <div key={cat}>
+                                        <label className="label text-xs sm:text-sm">{CATEGORY_LABELS[cat]}</label>
+                                        <input
+                                            type="number"
+                                            inputMode="numeric"
+                                            value={hedging.keep[cat] ?? ''}
+                                            placeholder="ไม่ตัด"
+                                            onChange={(e) => handleHedgingRateChange('keep', cat, e.target.value)}
+                                            className="input"
+                                            min="0"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div>
+                            <h4 className="font-semibold text-gray-900 dark:text-slate-100">อัตราจ่ายของเจ้ามือใหญ่ (บาทละ)</h4>
+                            <p className="text-xs sm:text-sm text-gray-500 dark:text-slate-400 mb-3">
+                                เว้นว่างเพื่อใช้อัตราจ่ายของเราเอง
+                            </p>
+                            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                                {CATEGORIES.map((cat) => (
+                                    <div key={cat}>
+                                        <label className="label text-xs sm:text-sm">{CATEGORY_LABELS[cat]}</label>
+                                        <input
+                                            type="number"
+                                            inputMode="decimal"
+                                            value={hedging.payouts[cat] ?? ''}
+                                            placeholder={String(settings.payouts[cat])}
+                                            onChange={(e) => handleHedgingRateChange('payouts', cat, e.target.value)}
+                                            className="input"
+                                            min="0"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
                 {/* Storage Tab */}
                 {activeTab === 'storage' && (
                     <div className="space-y-4 sm:space-y-6">
@@ -691,18 +1325,76 @@ export default function Settings() {
                                         ))}
                                     </select>
                                 </div>
+                                {newBlocked.tiers.length === 0 && (
+                                    <div>
+                                        <label className="label">อัตราจ่าย Override (บาทละ)</label>
+                                        <input
+                                            type="number"
+                                            inputMode="numeric"
+                                            value={newBlocked.payoutOverride}
+                                            onChange={(e) => setNewBlocked({ ...newBlocked, payoutOverride: e.target.value })}
+                                            className="input"
+                                            placeholder="100"
+                                            min="0"
+                                        />
+                                    </div>
+                                )}
                                 <div>
-                                    <label className="label">อัตราจ่าย Override (บาทละ)</label>
-                                    <input
-                                        type="number"
-                                        inputMode="numeric"
-                                        value={newBlocked.payoutOverride}
-                                        onChange={(e) => setNewBlocked({ ...newBlocked, payoutOverride: e.target.value })}
-                                        className="input"
-                                        placeholder="100"
-                                        min="0"
-                                    />
+                                    <label className="label">จ่ายเป็นขั้นตามยอดขายในงวด</label>
+                                    {newBlocked.tiers.map((tier, i) => (
+                                        <div key={i} className="flex items-center gap-2 mb-2">
+                                            <span className="text-sm text-gray-500 dark:text-slate-400 w-12">ขั้น {i + 1}</span>
+                                            <input
+                                                type="number"
+                                                inputMode="numeric"
+                                                value={tier.upTo}
+                                                onChange={(e) => handleTierChange(i, 'upTo', e.target.value)}
+                                                className="input"
+                                                placeholder="ถึงยอด (ว่าง = ไม่จำกัด)"
+                                                min="0"
+                                            />
+                                            <input
+                                                type="number"
+                                                inputMode="numeric"
+                                                value={tier.payoutRate}
+                                                onChange={(e) => handleTierChange(i, 'payoutRate', e.target.value)}
+                                                className="input"
+                                                placeholder={`จ่าย (ว่าง = ${settings.payouts[newBlocked.category]})`}
+                                                min="0"
+                                            />
+                                            <button
+                                                onClick={() =>
+                                                    setNewBlocked({
+                                                        ...newBlocked,
+                                                        tiers: newBlocked.tiers.filter((_, j) => j !== i),
+                                                    })
+                                                }
+                                                className="p-2 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-lg"
+                                            >
+                                                ✕
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <button
+                                        onClick={() =>
+                                            setNewBlocked({
+                                                ...newBlocked,
+                                                tiers: [...newBlocked.tiers, { upTo: '', payoutRate: '' }],
+                                            })
+                                        }
+                                        className="btn-secondary btn-sm"
+                                    >
+                                        + เพิ่มขั้น
+                                    </button>
+                                    <p className="text-xs sm:text-sm text-gray-500 dark:text-slate-400 mt-1">
+                                        ยอดที่เกินขั้นสุดท้ายจะไม่รับ (เว้นว่างยอดขั้นสุดท้ายเพื่อรับไม่จำกัด)
+                                    </p>
                                 </div>
+                                <BlockedWindowFields
+                                    value={newBlocked.window}
+                                    products={settings.products}
+                                    onChange={(value) => setNewBlocked({ ...newBlocked, window: value })}
+                                />
                             </div>
                             <div className="modal-footer">
                                 <button onClick={() => setShowAddBlocked(false)} className="btn-secondary flex-1 sm:flex-none">
@@ -716,6 +1408,16 @@ export default function Settings() {
                     </div>
                 )
             }
+
+            {showImportBlocked && (
+                <BlockedNumberImport
+                    settings={settings}
+                    categories={CATEGORIES}
+                    blockedNumbers={blockedNumbers}
+                    onImport={handleImportBlocked}
+                    onClose={() => setShowImportBlocked(false)}
+                />
+            )}
         </div >
     );
 }
@@ -0,0 +1,195 @@
+import { useState, useMemo } from 'react';
+import { useAppStore } from '../store/appStore';
+import { resolvePayouts } from '../lib/compute';
+import { simulateDraw, SimulatedOutcome } from '../lib/simulate';
+import { isCountedTicket } from '../lib/ticketStatus';
+import { formatCurrency } from '../utils/export';
+import { GOVERNMENT_PRODUCT_ID } from '@shared/schemas';
+import {
+    getDrawPeriodOptions,
+    getCurrentDrawPeriod,
+    isDateInDrawPeriod,
+    findProduct,
+    getEnabledProducts,
+} from '../lib/drawPeriod';
+
+const TOP_N_OPTIONS = [10, 20, 50];
+
+function ProfitText({ value }: { value: number }) {
+    return (
+        <span className={value < 0 ? 'text-red-600' : 'text-green-600'}>
+            {value < 0 ? '-' : '+'}{formatCurrency(Math.abs(value))}
+        </span>
+    );
+}
+
+function OutcomeCard({ label, outcome }: { label: string; outcome: SimulatedOutcome }) {
+    return (
+        <div className="card p-4 sm:p-6">
+            <p className="text-sm font-medium text-gray-500 dark:text-slate-400 mb-1">{label}</p>
+            <h3 className="text-xl sm:text-2xl font-bold font-mono tracking-tight">
+                <ProfitText value={outcome.profit} />
+            </h3>
+            <p className="text-xs text-gray-500 dark:text-slate-400 mt-1 font-mono">
+                บน {outcome.threeTop} · ล่าง {outcome.twoDown}
+                {outcome.threeDown.length > 0 && ` · 3 ตัวล่าง ${outcome.threeDown.join(', ')}`}
+            </p>
+        </div>
+    );
+}
+
+/**
+ * Profit and loss of a draw over every possible result
+ */
+export default function Simulator() {
+    const tickets = useAppStore((state) => state.tickets);
+    const settings = useAppStore((state) => state.settings);
+
+    const products = useMemo(() => getEnabledProducts(settings.products), [settings.products]);
+    const [selectedProductId, setSelectedProductId] = useState(GOVERNMENT_PRODUCT_ID);
+    const selectedProduct = useMemo(
+        () => findProduct(settings.products, selectedProductId),
+        [settings.products, selectedProductId]
+    );
+    const isGovernmentShape = selectedProduct.resultShape === 'government';
+
+    const drawPeriodOptions = useMemo(() => getDrawPeriodOptions(12, selectedProduct), [selectedProduct]);
+    const [selectedPeriod, setSelectedPeriod] = useState(() => getCurrentDrawPeriod(selectedProduct).id);
+    const [topN, setTopN] = useState(TOP_N_OPTIONS[0]);
+
+    const handleProductChange = (productId: string) => {
+        setSelectedProductId(productId);
+        setSelectedPeriod(getCurrentDrawPeriod(findProduct(settings.products, productId)).id);
+    };
+
+    const filteredTickets = useMemo(() => {
+        return tickets.filter(
+            (t) => isCountedTicket(t) && t.round === selectedProduct.id && isDateInDrawPeriod(t.date, selectedPeriod, selectedProduct)
+        );
+    }, [tickets, selectedPeriod, selectedProduct]);
+
+    const simulation = useMemo(
+        () =>
+            simulateDraw(filteredTickets, {
+                payouts: resolvePayouts(settings, { productId: selectedProduct.id }),
+                bottomSets: isGovernmentShape ? 2 : 0,
+                topN,
+            }),
+        [filteredTickets, settings, selectedProduct.id, isGovernmentShape, topN]
+    );
+
+    return (
+        <div className="max-w-5xl mx-auto animate-fade-in">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4 sm:mb-6">
+                <div>
+                    <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-slate-100">
+                        🎲 จำลองผล
+                    </h1>
+                    <p className="text-sm sm:text-base text-gray-500 dark:text-slate-400">
+                        กำไร/ขาดทุนของทุกผลที่เป็นไปได้ในงวด
+                    </p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 sm:gap-4">
+                    {products.length > 1 && (
+                        <select
+                            value={selectedProduct.id}
+                            onChange={(e) => handleProductChange(e.target.value)}
+                            className="select flex-1 sm:flex-none"
+                        >
+                            {products.map((product) => (
+                                <option key={product.id} value={product.id}>
+                                    {product.name}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                    <select
+                        value={selectedPeriod}
+                        onChange={(e) => setSelectedPeriod(e.target.value)}
+                        className="select flex-1 sm:flex-none"
+                    >
+                        {drawPeriodOptions.map((opt) => (
+                            <option key={opt.id} value={opt.id}>
+                                งวด {opt.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {filteredTickets.length === 0 ? (
+                <div className="card p-8 text-center text-gray-500 dark:text-slate-400">
+                    ยังไม่มีโพยในงวดนี้
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-3 sm:gap-4 mb-4 sm:mb-6">
+                        <div className="card p-4 sm:p-6">
+                            <p className="text-sm font-medium text-gray-500 dark:text-slate-400 mb-1">ยอดขายรวม</p>
+                            <h3 className="text-xl sm:text-2xl font-bold font-mono tracking-tight text-blue-600 dark:text-blue-400">
+                                {formatCurrency(simulation.gross)}
+                            </h3>
+                        </div>
+                        <OutcomeCard label="กรณีแย่สุด" outcome={simulation.worst} />
+                        <OutcomeCard label="กรณีดีสุด" outcome={simulation.best} />
+                        <div className="card p-4 sm:p-6">
+                            <p className="text-sm font-medium text-gray-500 dark:text-slate-400 mb-1">กำไรคาดหวัง (เฉลี่ย)</p>
+                            <h3 className="text-xl sm:text-2xl font-bold font-mono tracking-tight">
+                                <ProfitText value={simulation.expectedProfit} />
+                            </h3>
+                            <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                                จ่ายเฉลี่ย {formatCurrency(simulation.expectedPayout)}
+                            </p>
+                        </div>
+                    </div>
+
+                    <div className="card p-3 sm:p-6">
+                        <div className="flex items-center justify-between gap-2 mb-4">
+                            <h2 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-slate-100">
+                                ⚠️ ผลที่เสียหายมากที่สุด
+                            </h2>
+                            <select
+                                value={topN}
+                                onChange={(e) => setTopN(Number(e.target.value))}
+                                className="select w-auto text-sm"
+                            >
+                                {TOP_N_OPTIONS.map((n) => (
+                                    <option key={n} value={n}>{n} อันดับ</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="overflow-x-auto">
+                            <table className="table w-full whitespace-nowrap">
+                                <thead>
+                                    <tr>
+                                        <th>#</th>
+                                        <th>3 ตัวบน</th>
+                                        <th>2 ตัวล่าง</th>
+                                        {isGovernmentShape && <th>3 ตัวล่าง</th>}
+                                        <th className="text-right">ต้องจ่าย</th>
+                                        <th className="text-right">กำไร/ขาดทุน</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {simulation.topOutcomes.map((outcome, i) => (
+                                        <tr key={`${outcome.threeTop}-${outcome.twoDown}-${outcome.threeDown.join('-')}`}>
+                                            <td className="text-gray-400">{i + 1}</td>
+                                            <td className="font-mono font-bold">{outcome.threeTop}</td>
+                                            <td className="font-mono font-bold">{outcome.twoDown}</td>
+                                            {isGovernmentShape && (
+                                                <td className="font-mono">{outcome.threeDown.join(', ')}</td>
+                                            )}
+                                            <td className="text-right font-mono text-orange-600">{formatCurrency(outcome.payout)}</td>
+                                            <td className="text-right font-mono"><ProfitText value={outcome.profit} /></td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,10 +1,42 @@
 import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { useAppStore } from '../store/appStore';
-import { useAuthStore } from '../store/authStore';
-import { Category, CATEGORY_LABELS, Entry } from '@shared/schemas';
-import { expandNumber, getExpansionCount, validateNumber } from '../lib/expand';
+import {
+    useAppStore,
+    CreditLimitError,
+    CeilingRejectedError,
+    CeilingBlockError,
+    SignInRequiredError,
+} from '../store/appStore';
+import { useAuthStore, usePermission } from '../store/authStore';
+import {
+    Category,
+    CATEGORY_LABELS,
+    CATEGORY_DIGIT_LENGTH,
+    CREDIT_LIMIT_BASIS_LABELS,
+    CEILING_POLICY_LABELS,
+    Entry,
+    GOVERNMENT_PRODUCT_ID,
+} from '@shared/schemas';
+import {
+    expandNumber,
+    getExpansionCount,
+    validateNumber,
+    expandShorthand,
+    getShorthandDigitLength,
+    shorthandNeedsDigit,
+    ShorthandKind,
+    SHORTHAND_LABELS,
+} from '../lib/expand';
 import { formatCurrency } from '../utils/export';
-import { getNumberTotals, NumberTotal } from '../lib/compute';
+import { getNumberTotals, NumberTotal, computeCreditUsage, checkCreditLimit } from '../lib/compute';
+import {
+    findProduct,
+    getDrawPeriodForDate,
+    getEnabledProducts,
+    getSaleDate,
+    isDrawClosed,
+    DrawClosedError,
+} from '../lib/drawPeriod';
+import { PermissionError, canAccessAgent } from '../lib/permissions';
 import NumpadEntry from './NumpadEntry';
 import BatchEntry from './BatchEntry';
 import BillScanner from './BillScanner';
@@ -13,39 +45,20 @@ const CATEGORIES: Category[] = [
     '3top',
     '3tod',
     '3down',
+    '3back',
     '2top',
     '2down',
+    '2back',
+    '1top',
+    '1down',
 ];
 
-/**
- * คำนวณงวดหวยจากวันที่
- * - วันที่ 18 ถึงวันที่ 1 ของเดือนถัดไป = งวดวันที่ 1
- * - วันที่ 2 ถึงวันที่ 16/17 = งวดวันที่ 16 (หรือปรับตามวันหยุด)
- */
-function calculateDrawPeriod(dateStr: string): { period: string; drawDate: string } {
-    const date = new Date(dateStr);
-    const day = date.getDate();
-    const month = date.getMonth();
-    const year = date.getFullYear();
-
-    if (day >= 18) {
-        // งวดวันที่ 1 ของเดือนถัดไป
-        const nextMonth = month === 11 ? 0 : month + 1;
-        const nextYear = month === 11 ? year + 1 : year;
-        const drawDate = `${nextYear}-${String(nextMonth + 1).padStart(2, '0')}-01`;
-        return { period: '1', drawDate };
-    } else if (day <= 1) {
-        // งวดวันที่ 1 ของเดือนนี้
-        const drawDate = `${year}-${String(month + 1).padStart(2, '0')}-01`;
-        return { period: '1', drawDate };
-    } else {
-        // งวดวันที่ 16 ของเดือนนี้ (ค่าเริ่มต้น อาจเป็น 17 ตามวันหยุด)
-        const drawDate = `${year}-${String(month + 1).padStart(2, '0')}-16`;
-        return { period: '16', drawDate };
-    }
+interface TicketEntryProps {
+    // Agent portal: bills of this agent only, without the shop-wide ceiling alerts
+    agentId?: string;
 }
 
-export default function TicketEntry() {
+export default function TicketEntry({ agentId }: TicketEntryProps) {
     const agents = useAppStore((state) => state.agents);
     const tickets = useAppStore((state) => state.tickets);
     const settings = useAppStore((state) => state.settings);
@@ -55,17 +68,26 @@ export default function TicketEntry() {
     const removeEntry = useAppStore((state) => state.removeEntry);
     const clearCurrentTicket = useAppStore((state) => state.clearCurrentTicket);
     const saveCurrentTicket = useAppStore((state) => state.saveCurrentTicket);
+    const markCurrentTicketImported = useAppStore((state) => state.markCurrentTicketImported);
     const createAgent = useAppStore((state) => state.createAgent);
     const undo = useAppStore((state) => state.undo);
-    const username = useAuthStore((state) => state.user?.username) ?? 'unknown';
+    const user = useAuthStore((state) => state.user);
+    const canOverrideCredit = usePermission('tickets.overrideCredit');
+    const canCreateAgent = usePermission('agents.create');
 
-    const [selectedAgent, setSelectedAgent] = useState('');
-    const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+    const [selectedAgent, setSelectedAgent] = useState(agentId ?? '');
+    // Past today's cut-off, sales start under the next draw
+    const [selectedDate, setSelectedDate] = useState(() =>
+        getSaleDate(findProduct(settings.products, GOVERNMENT_PRODUCT_ID))
+    );
+    const [selectedProductId, setSelectedProductId] = useState(GOVERNMENT_PRODUCT_ID);
     const [selectedCategories, setSelectedCategories] = useState<Category[]>(['3top']);
     const [numberInput, setNumberInput] = useState('');
     const [unitPrice, setUnitPrice] = useState('');
     const [error, setError] = useState('');
     const [showConfirm, setShowConfirm] = useState(false);
+    const [saveError, setSaveError] = useState('');
+    const [ceilingNotices, setCeilingNotices] = useState<string[]>([]);
     const [showNewAgent, setShowNewAgent] = useState(false);
     const [newAgentName, setNewAgentName] = useState('');
     const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
@@ -81,10 +103,17 @@ export default function TicketEntry() {
 
     const numberInputRef = useRef<HTMLInputElement>(null);
 
+    const products = useMemo(() => getEnabledProducts(settings.products), [settings.products]);
+    const selectedProduct = useMemo(
+        () => findProduct(settings.products, selectedProductId),
+        [settings.products, selectedProductId]
+    );
+
     // Calculate numbers near/at ceiling
     const ceilingAlerts = useMemo((): NumberTotal[] => {
         const perNumberMax = settings.ceilings?.perNumberMax ?? 50000;
-        const totals = getNumberTotals(tickets, selectedDate, perNumberMax);
+        const productTickets = tickets.filter((t) => t.round === selectedProduct.id);
+        const totals = getNumberTotals(productTickets, selectedDate, perNumberMax);
 
         // Filter numbers at 80% or more of ceiling
         const alerts: NumberTotal[] = [];
@@ -96,19 +125,43 @@ export default function TicketEntry() {
 
         // Sort by amount descending
         return alerts.sort((a, b) => b.totalAmount - a.totalAmount).slice(0, 10);
-    }, [tickets, selectedDate, settings.ceilings]);
+    }, [tickets, selectedDate, selectedProduct.id, settings.ceilings]);
 
-    // Auto-calculate draw period from date
+    // Auto-calculate draw period from date and product schedule
     const drawPeriodInfo = useMemo(() => {
-        return calculateDrawPeriod(selectedDate);
-    }, [selectedDate]);
+        return getDrawPeriodForDate(selectedDate, selectedProduct);
+    }, [selectedDate, selectedProduct]);
+    const drawClosed = isDrawClosed(drawPeriodInfo.id, selectedProduct, settings.reopenedDraws);
+
+    // Credit limit of the selected agent in this draw (null = no limit)
+    const creditUsage = useMemo(() => {
+        const agent = agents.find((a) => a.id === selectedAgent);
+        if (!agent) return null;
+        return computeCreditUsage(tickets, agent, selectedProduct.id, selectedDate, settings);
+    }, [agents, tickets, selectedAgent, selectedProduct.id, selectedDate, settings]);
+
+    const creditCheck = useMemo(
+        () => checkCreditLimit(creditUsage, currentTicket?.entries ?? []),
+        [creditUsage, currentTicket?.entries]
+    );
 
-    // Initialize ticket when agent/date changes
+    // Initialize ticket when agent/product/date changes
     useEffect(() => {
         if (selectedAgent) {
-            initCurrentTicket(selectedAgent, 'government', selectedDate, drawPeriodInfo.period);
+            initCurrentTicket(selectedAgent, selectedProduct.id, selectedDate, drawPeriodInfo.period);
         }
-    }, [selectedAgent, selectedDate, drawPeriodInfo.period, initCurrentTicket]);
+    }, [selectedAgent, selectedProduct.id, selectedDate, drawPeriodInfo.period, initCurrentTicket]);
+
+    // Adds an entry and notes what the ceiling policy did to it
+    const addEntryChecked = (category: Category, number: string, price: number) => {
+        const action = addEntry(category, number, price, 1);
+        if (action) {
+            setCeilingNotices((prev) => [
+                ...prev,
+                `${CATEGORY_LABELS[category]} ${number}: เกินเพดาน — ${CEILING_POLICY_LABELS[action.policy]}`,
+            ]);
+        }
+    };
 
     // Focus number input after adding entry
     const focusNumberInput = useCallback(() => {
@@ -118,6 +171,7 @@ export default function TicketEntry() {
     const handleAddEntry = (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
+        setCeilingNotices([]);
 
         if (!selectedAgent) {
             setError('กรุณาเลือกเจ้าที่ส่ง');
@@ -146,14 +200,14 @@ export default function TicketEntry() {
                 validateNumber(numberInput, category);
 
                 // เพิ่มเลขหลัก
-                addEntry(category, numberInput, price, 1);
+                addEntryChecked(category, numberInput, price);
 
                 // ถ้าเปิด "กลับ" และเป็น 2 ตัว ให้เพิ่มเลขกลับเป็นรายการแยก
                 if (reverse2Digit && (category === '2top' || category === '2down') && numberInput.length === 2) {
                     const reversed = numberInput.split('').reverse().join('');
                     // เพิ่มเฉพาะถ้าเลขกลับไม่เหมือนเลขเดิม (เช่น 55 กลับก็ 55)
                     if (reversed !== numberInput) {
-                        addEntry(category, reversed, price, 1);
+                        addEntryChecked(category, reversed, price);
                     }
                 }
             }
@@ -169,8 +223,69 @@ export default function TicketEntry() {
         }
     };
 
-    const handleSave = async () => {
-        const ticket = await saveCurrentTicket(username);
+    // เพิ่มชุดเลข (19 ประตู, รูดหน้า/หลัง, เบิ้ล, ตอง) เป็นรายการปกติทีละเลข
+    const handleAddShorthand = (kind: ShorthandKind) => {
+        setError('');
+        setCeilingNotices([]);
+
+        if (!selectedAgent) {
+            setError('กรุณาเลือกเจ้าที่ส่ง');
+            return;
+        }
+
+        if (selectedCategories.length === 0) {
+            setError('กรุณาเลือกประเภทอย่างน้อย 1 รายการ');
+            return;
+        }
+
+        if (shorthandNeedsDigit(kind) && !/^\d$/.test(numberInput)) {
+            setError(`${SHORTHAND_LABELS[kind]}: กรุณากรอกเลข 1 หลัก`);
+            return;
+        }
+
+        const price = parseFloat(unitPrice);
+        if (isNaN(price) || price <= 0) {
+            setError('กรุณากรอกราคาที่ถูกต้อง');
+            return;
+        }
+
+        try {
+            const numbers = expandShorthand({ kind, digit: numberInput });
+            for (const category of selectedCategories) {
+                for (const number of numbers) {
+                    validateNumber(number, category);
+                    addEntryChecked(category, number, price);
+                }
+            }
+
+            setNumberInput('');
+            focusNumberInput();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Invalid input');
+        }
+    };
+
+    const handleSave = async (options: { overrideCreditLimit?: boolean; draft?: boolean } = {}) => {
+        setSaveError('');
+        let ticket;
+        try {
+            ticket = await saveCurrentTicket(options);
+        } catch (err) {
+            if (
+                !(
+                    err instanceof CreditLimitError ||
+                    err instanceof CeilingRejectedError ||
+                    err instanceof CeilingBlockError ||
+                    err instanceof PermissionError ||
+                    err instanceof SignInRequiredError ||
+                    err instanceof DrawClosedError
+                )
+            ) {
+                throw err;
+            }
+            setSaveError(err.message);
+            return;
+        }
         if (ticket) {
             setShowConfirm(false);
             // Reset form
@@ -189,23 +304,28 @@ export default function TicketEntry() {
     };
 
     const handleUndo = async () => {
-        await undo();
+        try {
+            await undo();
+        } catch (err) {
+            if (!(err instanceof DrawClosedError || err instanceof PermissionError)) throw err;
+            setError(err.message);
+        }
     };
 
     const getDigitLength = (): number => {
         if (selectedCategories.length === 0) return 3;
-        return selectedCategories[0].startsWith('3') ? 3 : 2;
+        return CATEGORY_DIGIT_LENGTH[selectedCategories[0]];
     };
 
     const toggleCategory = (cat: Category) => {
-        const isThreeDigit = cat.startsWith('3');
+        const digitLength = CATEGORY_DIGIT_LENGTH[cat];
         setSelectedCategories((prev) => {
             if (prev.includes(cat)) {
                 // Remove if already selected
                 return prev.filter((c) => c !== cat);
             } else {
                 // Add to selection, but only same digit-length categories
-                const filtered = prev.filter((c) => c.startsWith('3') === isThreeDigit);
+                const filtered = prev.filter((c) => CATEGORY_DIGIT_LENGTH[c] === digitLength);
                 return [...filtered, cat];
             }
         });
@@ -222,7 +342,7 @@ export default function TicketEntry() {
                         ออกบิล
                     </h1>
                     <p className="text-sm sm:text-base text-gray-500 dark:text-slate-400">
-                        กรอกรายการหวยและบันทึกบิล
+                        {agentId ? 'บิลที่ส่งจะรอร้านรับก่อน' : 'กรอกรายการหวยและบันทึกบิล'}
                     </p>
                 </div>
                 <div className="flex gap-2">
@@ -246,8 +366,10 @@ export default function TicketEntry() {
             {showScanner && (
                 <BillScanner
                     onEntriesScanned={(entries) => {
+                        setCeilingNotices([]);
+                        markCurrentTicketImported();
                         for (const entry of entries) {
-                            addEntry(entry.category, entry.number, entry.price, 1);
+                            addEntryChecked(entry.category, entry.number, entry.price);
                         }
                         setShowScanner(false);
                     }}
@@ -255,6 +377,17 @@ export default function TicketEntry() {
                 />
             )}
 
+            {drawClosed && (
+                <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-300 dark:border-red-700 text-sm text-red-700 dark:text-red-400 flex items-center justify-between gap-3">
+                    <span>
+                        🔒 งวด {drawPeriodInfo.label} ปิดรับแล้ว — คีย์ต่อในงวดถัดไป หรือให้ผู้ดูแลเปิดรับงวดนี้อีกครั้ง
+                    </span>
+                    <button onClick={() => setSelectedDate(getSaleDate(selectedProduct))} className="btn-secondary btn-sm">
+                        ไปงวดถัดไป
+                    </button>
+                </div>
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6 items-start">
                 {/* Left: Entry Form */}
                 <div className="lg:col-span-2 space-y-4 sm:space-y-6 min-w-0">
@@ -263,7 +396,7 @@ export default function TicketEntry() {
                         <h2 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-slate-100 mb-3 sm:mb-4">
                             ข้อมูลบิล
                         </h2>
-                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+                        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 sm:gap-4">
                             {/* Agent Select */}
                             <div>
                                 <label className="label">เจ้าที่ส่ง</label>
@@ -272,23 +405,54 @@ export default function TicketEntry() {
                                         value={selectedAgent}
                                         onChange={(e) => setSelectedAgent(e.target.value)}
                                         className="select flex-1"
+                                        disabled={!!agentId}
                                     >
                                         <option value="">-- เลือก --</option>
-                                        {agents.map((agent) => (
-                                            <option key={agent.id} value={agent.id}>
-                                                {agent.name}
-                                            </option>
-                                        ))}
+                                        {agents
+                                            .filter((agent) => canAccessAgent(user, agent.id))
+                                            .map((agent) => (
+                                                <option key={agent.id} value={agent.id}>
+                                                    {agent.name}
+                                                </option>
+                                            ))}
                                     </select>
-                                    <button
-                                        type="button"
-                                        onClick={() => setShowNewAgent(true)}
-                                        className="btn-secondary btn-sm"
-                                        title="เพิ่มเจ้าใหม่"
-                                    >
-                                        +
-                                    </button>
+                                    {canCreateAgent && !agentId && (
+                                        <button
+                                            type="button"
+                                            onClick={() => setShowNewAgent(true)}
+                                            className="btn-secondary btn-sm"
+                                            title="เพิ่มเจ้าใหม่"
+                                        >
+                                            +
+                                        </button>
+                                    )}
                                 </div>
+                                {creditUsage && (
+                                    <p
+                                        className={`mt-1 text-xs ${creditCheck.exceeded ? 'text-red-600' : 'text-gray-500 dark:text-slate-400'}`}
+                                        title={`วงเงิน ${formatCurrency(creditUsage.limit.amount)} (${CREDIT_LIMIT_BASIS_LABELS[creditUsage.limit.basis]})`}
+                                    >
+                                        วงเงินคงเหลือ{' '}
+                                        <strong>{formatCurrency(creditCheck.remaining - creditCheck.amount)}</strong>
+                                        {' / '}{formatCurrency(creditUsage.limit.amount)}
+                                    </p>
+                                )}
+                            </div>
+
+                            {/* Product */}
+                            <div>
+                                <label className="label">ประเภทหวย</label>
+                                <select
+                                    value={selectedProduct.id}
+                                    onChange={(e) => setSelectedProductId(e.target.value)}
+                                    className="select w-full"
+                                >
+                                    {products.map((product) => (
+                                        <option key={product.id} value={product.id}>
+                                            {product.name}
+                                        </option>
+                                    ))}
+                                </select>
                             </div>
 
                             {/* Date */}
@@ -306,7 +470,11 @@ export default function TicketEntry() {
                             <div>
                                 <label className="label">งวด</label>
                                 <div className="input bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 flex items-center gap-2">
-                                    <span className="text-lg font-semibold">วันที่ {drawPeriodInfo.period}</span>
+                                    <span className="text-lg font-semibold">
+                                        {selectedProduct.schedule.type === 'semimonthly'
+                                            ? `วันที่ ${drawPeriodInfo.period}`
+                                            : drawPeriodInfo.label}
+                                    </span>
                                     <span className="text-xs text-gray-500 dark:text-slate-400">(อัตโนมัติ)</span>
                                 </div>
                             </div>
@@ -337,11 +505,13 @@ export default function TicketEntry() {
                             <BatchEntry
                                 selectedCategories={selectedCategories}
                                 onAddEntries={(entries) => {
+                                    setCeilingNotices([]);
+                                    markCurrentTicketImported();
                                     for (const entry of entries) {
                                         for (const category of entry.categories) {
                                             try {
                                                 validateNumber(entry.number, category);
-                                                addEntry(category, entry.number, entry.price, 1);
+                                                addEntryChecked(category, entry.number, entry.price);
                                             } catch (err) {
                                                 console.error('Failed to add batch entry:', err);
                                             }
@@ -358,11 +528,19 @@ export default function TicketEntry() {
                             </div>
                         )}
 
+                        {ceilingNotices.length > 0 && (
+                            <div className="mb-3 sm:mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-300 dark:border-yellow-700 rounded-xl text-yellow-800 dark:text-yellow-300 text-sm animate-fade-in space-y-1">
+                                {ceilingNotices.map((notice, i) => (
+                                    <div key={i}>⚠️ {notice}</div>
+                                ))}
+                            </div>
+                        )}
+
                         <form onSubmit={handleAddEntry}>
                             {/* Category Selection */}
                             <div className="mb-3 sm:mb-4">
                                 <label className="label">ประเภท</label>
-                                <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+                                <div className="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-9 gap-2">
                                     {CATEGORIES.map((cat) => {
                                         const isSelected = selectedCategories.includes(cat);
                                         return (
@@ -439,7 +617,7 @@ export default function TicketEntry() {
                                             value={numberInput}
                                             onChange={setNumberInput}
                                             maxLength={getDigitLength()}
-                                            placeholder={getDigitLength() === 3 ? 'กรอกเลข 3 หลัก' : 'กรอกเลข 2 หลัก'}
+                                            placeholder={`กรอกเลข ${getDigitLength()} หลัก`}
                                         />
                                     ) : (
                                         <input
@@ -453,7 +631,7 @@ export default function TicketEntry() {
                                                 }
                                             }}
                                             className="number-input"
-                                            placeholder={getDigitLength() === 3 ? '123' : '12'}
+                                            placeholder={'123'.slice(0, getDigitLength())}
                                             maxLength={getDigitLength()}
                                             inputMode="numeric"
                                             autoComplete="off"
@@ -476,6 +654,33 @@ export default function TicketEntry() {
                                 </div>
                             </div>
 
+                            {/* Shorthand Sets */}
+                            {selectedCategories.length > 0 && (
+                                <div className="mb-4">
+                                    <label className="label">ชุดเลข</label>
+                                    <div className="flex flex-wrap gap-2">
+                                        {(Object.keys(SHORTHAND_LABELS) as ShorthandKind[])
+                                            .filter((kind) => getShorthandDigitLength(kind) === getDigitLength())
+                                            .map((kind) => (
+                                                <button
+                                                    key={kind}
+                                                    type="button"
+                                                    onClick={() => handleAddShorthand(kind)}
+                                                    className="px-3 py-2 rounded-xl text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600 transition-all"
+                                                >
+                                                    {SHORTHAND_LABELS[kind]}
+                                                    {shorthandNeedsDigit(kind) && numberInput.length === 1 && ` ${numberInput}`}
+                                                </button>
+                                            ))}
+                                    </div>
+                                    {getDigitLength() === 2 && (
+                                        <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                                            กรอกเลข 1 หลักก่อนกด 19 ประตู / รูดหน้า / รูดหลัง
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Preview */}
                             {numberInput && numberInput.length === getDigitLength() && selectedCategories.length > 0 && (
                                 <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-sm animate-fade-in">
@@ -538,7 +743,7 @@ export default function TicketEntry() {
                 {/* Right: Summary */}
                 <div className="space-y-6">
                     {/* Ceiling Alerts */}
-                    {ceilingAlerts.length > 0 && (
+                    {!agentId && ceilingAlerts.length > 0 && (
                         <div className="card p-4 border-2 border-orange-500/50 bg-orange-50 dark:bg-orange-900/20 animate-fade-in">
                             <h3 className="text-base font-semibold text-orange-600 dark:text-orange-400 mb-3 flex items-center gap-2">
                                 ⚠️ เลขใกล้เต็มเพดาน
@@ -620,7 +825,7 @@ export default function TicketEntry() {
                                 <div className="space-y-3">
                                     <button
                                         onClick={() => setShowConfirm(true)}
-                                        disabled={!currentTicket?.entries.length}
+                                        disabled={!currentTicket?.entries.length || drawClosed}
                                         className="btn-success w-full"
                                     >
                                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -671,14 +876,47 @@ export default function TicketEntry() {
                                     <span className="text-blue-600">{formatCurrency(ticketTotal)}</span>
                                 </div>
                             </div>
+                            {currentTicket?.imported && !agentId && (
+                                <p className="mt-4 text-sm text-amber-600 dark:text-amber-400">
+                                    บิลจากการสแกนหรือวางรายการจะรอตรวจรับก่อนนับยอด
+                                </p>
+                            )}
+                            {(creditCheck.exceeded || saveError) && (
+                                <div className="mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-400">
+                                    {saveError || 'บิลนี้เกินวงเงินเครดิตของเจ้า'}
+                                    {creditCheck.exceeded &&
+                                        (canOverrideCredit
+                                            ? ' — ผู้ดูแลระบบสามารถอนุมัติให้บันทึกเกินวงเงินได้'
+                                            : ' — ต้องให้ผู้ดูแลระบบอนุมัติ')}
+                                </div>
+                            )}
                         </div>
                         <div className="modal-footer">
-                            <button onClick={() => setShowConfirm(false)} className="btn-secondary">
+                            <button
+                                onClick={() => {
+                                    setShowConfirm(false);
+                                    setSaveError('');
+                                }}
+                                className="btn-secondary"
+                            >
                                 ยกเลิก
                             </button>
-                            <button onClick={handleSave} className="btn-success">
-                                ยืนยัน
-                            </button>
+                            {creditCheck.exceeded ? (
+                                canOverrideCredit && (
+                                    <button onClick={() => handleSave({ overrideCreditLimit: true })} className="btn-danger">
+                                        อนุมัติเกินวงเงิน
+                                    </button>
+                                )
+                            ) : (
+                                <>
+                                    <button onClick={() => handleSave({ draft: true })} className="btn-secondary">
+                                        บันทึกร่าง
+                                    </button>
+                                    <button onClick={() => handleSave()} className="btn-success">
+                                        ยืนยัน
+                                    </button>
+                                </>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -752,6 +990,14 @@ function EntryRow({ entry, isExpanded, onToggleExpand, onRemove }: EntryRowProps
                     <span className="text-sm text-gray-500 dark:text-slate-400">
                         × {entry.quantity} @ {formatCurrency(entry.unitPrice)}
                     </span>
+                    {entry.ceiling && (
+                        <span
+                            className="badge-warning"
+                            title={`เกินเพดาน: ${entry.ceiling.combos.join(', ')} (ขอ ${formatCurrency(entry.ceiling.requestedPrice)})`}
+                        >
+                            {CEILING_POLICY_LABELS[entry.ceiling.policy]}
+                        </span>
+                    )}
                 </div>
                 <div className="flex items-center gap-4">
                     <span className="font-semibold text-gray-900 dark:text-slate-100">
@@ -776,7 +1022,7 @@ function EntryRow({ entry, isExpanded, onToggleExpand, onRemove }: EntryRowProps
                     <div className="flex flex-wrap gap-2">
                         {entry.perComboTotals.map((combo) => (
                             <div
-                                key={combo.combo}
+                                key={`${combo.combo}-${combo.tier ?? 0}`}
                                 className="combo-pill"
                                 title={`Payout: ${combo.payoutRate}x`}
                             >
@@ -784,6 +1030,11 @@ function EntryRow({ entry, isExpanded, onToggleExpand, onRemove }: EntryRowProps
                                 <span className="text-gray-500 dark:text-slate-400 text-xs">
                                     {formatCurrency(combo.soldAmount)}
                                 </span>
+                                {combo.tier !== undefined && (
+                                    <span className="ml-2 text-xs text-yellow-700 dark:text-yellow-400">
+                                        ขั้น {combo.tier + 1} · จ่าย {combo.payoutRate}
+                                    </span>
+                                )}
                             </div>
                         ))}
                     </div>
@@ -0,0 +1,23 @@
+import { Ticket, TicketStatus, TICKET_STATUS_LABELS } from '@shared/schemas';
+import { getTicketStatus } from '../lib/ticketStatus';
+
+const STATUS_BADGES: Record<TicketStatus, string> = {
+    draft: 'badge-secondary',
+    pending: 'badge-warning',
+    accepted: 'badge-success',
+    rejected: 'badge-danger',
+    void: 'badge-danger',
+};
+
+interface TicketStatusBadgeProps {
+    ticket: Pick<Ticket, 'status' | 'statusReason'>;
+}
+
+export default function TicketStatusBadge({ ticket }: TicketStatusBadgeProps) {
+    const status = getTicketStatus(ticket);
+    return (
+        <span className={STATUS_BADGES[status]} title={ticket.statusReason}>
+            {TICKET_STATUS_LABELS[status]}
+        </span>
+    );
+}
@@ -1,31 +1,82 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { useAppStore } from '../store/appStore';
-import { useIsAdmin } from '../store/authStore';
-import { formatCurrency, formatTime, exportTicketsCSV, exportTicketsJSON } from '../utils/export';
-import { CATEGORY_LABELS } from '@shared/schemas';
-import { getDrawPeriodOptions, getCurrentDrawPeriod, isDateInDrawPeriod } from '../lib/drawPeriod';
+import { useAuthStore, usePermission } from '../store/authStore';
+import { formatCurrency, formatTime, formatDateTimeShort, exportTicketsCSV, exportTicketsJSON } from '../utils/export';
+import { Ticket, RateTable, CATEGORY_LABELS, GOVERNMENT_PRODUCT_ID } from '@shared/schemas';
+import {
+    getDrawPeriodOptions,
+    getCurrentDrawPeriod,
+    isDateInDrawPeriod,
+    findProduct,
+    getEnabledProducts,
+    isDrawClosed,
+    isTicketDrawClosed,
+    findReopenedDraw,
+    DrawClosedError,
+} from '../lib/drawPeriod';
+import { findRateTable } from '../lib/rateTable';
+import { canAccessAgent } from '../lib/permissions';
+import { getTicketStatus, isCountedTicket, canChangeTicketStatus, TicketStatusError } from '../lib/ticketStatus';
+import { getUsers } from '../storage/db';
+import ReRateModal from './ReRateModal';
+import PrintReceipt from './PrintReceipt';
+import TicketStatusBadge from './TicketStatusBadge';
+
+function RateTableLine({ rateTable }: { rateTable?: RateTable }) {
+    if (!rateTable) return <p>อัตราจ่าย: ไม่ได้บันทึก (ใช้อัตราปัจจุบัน)</p>;
+    return (
+        <p>
+            อัตราจ่าย: ฉบับที่ {rateTable.version} (ใช้ตั้งแต่ {formatDateTimeShort(rateTable.effectiveFrom)})
+        </p>
+    );
+}
 
 export default function Tickets() {
     const tickets = useAppStore((state) => state.tickets);
     const agents = useAppStore((state) => state.agents);
     const deleteTicket = useAppStore((state) => state.deleteTicket);
-    const isAdmin = useIsAdmin();
+    const changeTicketStatus = useAppStore((state) => state.changeTicketStatus);
+    const reopenDraw = useAppStore((state) => state.reopenDraw);
+    const closeDraw = useAppStore((state) => state.closeDraw);
+    const settings = useAppStore((state) => state.settings);
+    const rateTables = useAppStore((state) => state.rateTables);
+    const user = useAuthStore((state) => state.user);
+    const canEdit = usePermission('tickets.edit');
+    const canDelete = usePermission('tickets.delete');
+    const canReview = usePermission('tickets.review');
+    const canCreate = usePermission('tickets.create');
+    const canReopen = usePermission('draws.reopen');
 
-    const drawPeriodOptions = useMemo(() => getDrawPeriodOptions(12), []);
-    const [selectedPeriod, setSelectedPeriod] = useState<string>(() => getCurrentDrawPeriod().id);
+    const products = useMemo(() => getEnabledProducts(settings.products), [settings.products]);
+    const [selectedProductId, setSelectedProductId] = useState(GOVERNMENT_PRODUCT_ID);
+    const selectedProduct = useMemo(
+        () => findProduct(settings.products, selectedProductId),
+        [settings.products, selectedProductId]
+    );
+
+    const drawPeriodOptions = useMemo(() => getDrawPeriodOptions(12, selectedProduct), [selectedProduct]);
+    const [selectedPeriod, setSelectedPeriod] = useState<string>(() => getCurrentDrawPeriod(selectedProduct).id);
     const [selectedAgent, setSelectedAgent] = useState<string>('');
     const [expandedTicketId, setExpandedTicketId] = useState<string | null>(null);
     const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
+    const [showReRate, setShowReRate] = useState(false);
+    const [receiptTicket, setReceiptTicket] = useState<Ticket | null>(null);
+    const [deleteError, setDeleteError] = useState('');
+    const [voidTicketId, setVoidTicketId] = useState<string | null>(null);
+    const [voidReason, setVoidReason] = useState('');
+    const [voidError, setVoidError] = useState('');
 
     const filteredTickets = useMemo(() => {
         return tickets
             .filter((t) => {
-                if (selectedPeriod && !isDateInDrawPeriod(t.date, selectedPeriod)) return false;
+                if (!canAccessAgent(user, t.agentId)) return false;
+                if (t.round !== selectedProduct.id) return false;
+                if (selectedPeriod && !isDateInDrawPeriod(t.date, selectedPeriod, selectedProduct)) return false;
                 if (selectedAgent && t.agentId !== selectedAgent) return false;
                 return true;
             })
             .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    }, [tickets, selectedPeriod, selectedAgent]);
+    }, [tickets, user, selectedProduct, selectedPeriod, selectedAgent]);
 
     const handleExportCSV = () => {
         exportTicketsCSV(filteredTickets, agents);
@@ -36,14 +87,54 @@ export default function Tickets() {
     };
 
     const handleDelete = async (id: string) => {
-        await deleteTicket(id);
+        try {
+            await deleteTicket(id);
+        } catch (err) {
+            if (!(err instanceof DrawClosedError)) throw err;
+            setDeleteError(err.message);
+            return;
+        }
+        setShowDeleteConfirm(null);
+    };
+
+    const closeDelete = () => {
         setShowDeleteConfirm(null);
+        setDeleteError('');
+    };
+
+    // Bills of a draw past its cut-off stay as they are unless an admin reopens
+    // it; reviews may still finish
+    const isOpen = (ticket: Ticket) => !isTicketDrawClosed(ticket, settings);
+    const periodClosed = !!selectedPeriod && isDrawClosed(selectedPeriod, selectedProduct, settings.reopenedDraws);
+    const periodReopened = !!selectedPeriod && !!findReopenedDraw(settings.reopenedDraws, selectedPeriod, selectedProduct);
+
+    const closeVoid = () => {
+        setVoidTicketId(null);
+        setVoidReason('');
+        setVoidError('');
+    };
+
+    const handleVoid = async (id: string) => {
+        try {
+            await changeTicketStatus([id], 'void', voidReason);
+        } catch (err) {
+            if (!(err instanceof TicketStatusError)) throw err;
+            setVoidError(err.message);
+            return;
+        }
+        closeVoid();
     };
 
     const agentMap = useMemo(() => {
         return new Map(agents.map((a) => [a.id, a.name]));
     }, [agents]);
 
+    // createdBy is a user id; bills saved before that hold the username
+    const [userMap, setUserMap] = useState<Map<string, string>>(new Map());
+    useEffect(() => {
+        getUsers().then((users) => setUserMap(new Map(users.map((u) => [u.id, u.username]))));
+    }, []);
+
     return (
         <div className="max-w-7xl mx-auto animate-fade-in">
             {/* Header */}
@@ -58,6 +149,11 @@ export default function Tickets() {
                 </div>
 
                 <div className="flex gap-2">
+                    {canEdit && (
+                        <button onClick={() => setShowReRate(true)} className="btn-secondary btn-sm text-xs sm:text-sm">
+                            🔄 คำนวณอัตราใหม่
+                        </button>
+                    )}
                     <button onClick={handleExportCSV} className="btn-secondary btn-sm text-xs sm:text-sm">
                         📋 CSV
                     </button>
@@ -69,7 +165,26 @@ export default function Tickets() {
 
             {/* Filters */}
             <div className="card p-3 sm:p-4 mb-4 sm:mb-6">
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                <div className={`grid grid-cols-1 gap-3 sm:gap-4 ${products.length > 1 ? 'sm:grid-cols-3' : 'sm:grid-cols-2'}`}>
+                    {products.length > 1 && (
+                        <div>
+                            <label className="label">ประเภทหวย</label>
+                            <select
+                                value={selectedProduct.id}
+                                onChange={(e) => {
+                                    setSelectedProductId(e.target.value);
+                                    setSelectedPeriod(getCurrentDrawPeriod(findProduct(settings.products, e.target.value)).id);
+                                }}
+                                className="select"
+                            >
+                                {products.map((product) => (
+                                    <option key={product.id} value={product.id}>
+                                        {product.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
                     <div>
                         <label className="label">งวดหวย</label>
                         <select
@@ -93,7 +208,7 @@ export default function Tickets() {
                             className="select"
                         >
                             <option value="">ทั้งหมด</option>
-                            {agents.map((agent) => (
+                            {agents.filter((agent) => canAccessAgent(user, agent.id)).map((agent) => (
                                 <option key={agent.id} value={agent.id}>
                                     {agent.name}
                                 </option>
@@ -103,6 +218,28 @@ export default function Tickets() {
                 </div>
             </div>
 
+            {(periodClosed || periodReopened) && (
+                <div className="card p-3 mb-4 flex items-center justify-between gap-3 text-sm">
+                    <span className={periodClosed ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}>
+                        {periodClosed
+                            ? '🔒 งวดนี้ปิดรับแล้ว แก้ไขหรือลบบิลไม่ได้'
+                            : '🔓 งวดนี้ผู้ดูแลเปิดรับพิเศษ แก้ไขบิลได้จนกว่าจะปิดรับ'}
+                    </span>
+                    {canReopen && (
+                        <button
+                            onClick={() =>
+                                periodClosed
+                                    ? reopenDraw(selectedProduct.id, selectedPeriod)
+                                    : closeDraw(selectedProduct.id, selectedPeriod)
+                            }
+                            className="btn-secondary btn-sm"
+                        >
+                            {periodClosed ? 'เปิดรับ' : 'ปิดรับ'}
+                        </button>
+                    )}
+                </div>
+            )}
+
             {/* Tickets List */}
             <div className="space-y-3 sm:space-y-4">
                 {filteredTickets.length > 0 ? (
@@ -140,9 +277,11 @@ export default function Tickets() {
                                             <span className="font-semibold text-sm sm:text-base text-gray-900 dark:text-slate-100 truncate">
                                                 {agentMap.get(ticket.agentId) ?? 'Unknown'}
                                             </span>
+                                            {getTicketStatus(ticket) !== 'accepted' && <TicketStatusBadge ticket={ticket} />}
                                         </div>
                                         <p className="text-xs sm:text-sm text-gray-500 dark:text-slate-400 truncate">
                                             {ticket.date} • {formatTime(ticket.createdAt)} • {ticket.entries.length} รายการ
+                                            {ticket.reRatedAt && ` • ปรับอัตรา ${formatTime(ticket.reRatedAt)} โดย ${ticket.reRatedBy ?? '-'}`}
                                         </p>
                                     </div>
                                 </div>
@@ -150,7 +289,40 @@ export default function Tickets() {
                                     <span className="text-base sm:text-xl font-bold text-blue-600">
                                         {formatCurrency(ticket.billTotal)}
                                     </span>
-                                    {isAdmin && (
+                                    {canReview && canChangeTicketStatus(getTicketStatus(ticket), 'accepted') && (
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                changeTicketStatus([ticket.id], 'accepted');
+                                            }}
+                                            className="btn-success btn-sm"
+                                        >
+                                            รับบิล
+                                        </button>
+                                    )}
+                                    {!canReview && canCreate && isOpen(ticket) && canChangeTicketStatus(getTicketStatus(ticket), 'pending') && (
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                changeTicketStatus([ticket.id], 'pending');
+                                            }}
+                                            className="btn-primary btn-sm"
+                                        >
+                                            ส่งตรวจ
+                                        </button>
+                                    )}
+                                    {canReview && canChangeTicketStatus(getTicketStatus(ticket), 'void') && (
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                setVoidTicketId(ticket.id);
+                                            }}
+                                            className="btn-ghost btn-sm text-red-600"
+                                        >
+                                            ยกเลิกบิล
+                                        </button>
+                                    )}
+                                    {canDelete && isOpen(ticket) && (
                                         <button
                                             onClick={(e) => {
                                                 e.stopPropagation();
@@ -221,9 +393,22 @@ export default function Tickets() {
                                         </table>
                                     </div>
 
-                                    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-slate-700 text-sm text-gray-500 dark:text-slate-400">
-                                        <p>สร้างโดย: {ticket.createdBy}</p>
-                                        <p>ID: {ticket.id}</p>
+                                    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-slate-700 text-sm text-gray-500 dark:text-slate-400 flex items-end justify-between gap-2">
+                                        <div>
+                                            <p>สร้างโดย: {userMap.get(ticket.createdBy) ?? ticket.createdBy}</p>
+                                            {ticket.reviewedBy && (
+                                                <p>
+                                                    ตรวจโดย: {userMap.get(ticket.reviewedBy) ?? ticket.reviewedBy}
+                                                    {ticket.reviewedAt && ` • ${formatDateTimeShort(ticket.reviewedAt)}`}
+                                                    {ticket.statusReason && ` • เหตุผล: ${ticket.statusReason}`}
+                                                </p>
+                                            )}
+                                            <p>ID: {ticket.id}</p>
+                                            <RateTableLine rateTable={findRateTable(rateTables, ticket.rateTableId)} />
+                                        </div>
+                                        <button onClick={() => setReceiptTicket(ticket)} className="btn-secondary btn-sm">
+                                            🖨️ ใบเสร็จ
+                                        </button>
                                     </div>
                                 </div>
                             )}
@@ -244,9 +429,11 @@ export default function Tickets() {
                         แสดง {filteredTickets.length} บิล
                     </span>
                     <span className="text-lg font-bold text-gray-900 dark:text-slate-100">
-                        รวม:{' '}
+                        รวม (บิลที่รับแล้ว):{' '}
                         <span className="text-blue-600">
-                            {formatCurrency(filteredTickets.reduce((sum, t) => sum + t.billTotal, 0))}
+                            {formatCurrency(
+                                filteredTickets.filter(isCountedTicket).reduce((sum, t) => sum + t.billTotal, 0)
+                            )}
                         </span>
                     </span>
                 </div>
@@ -254,7 +441,7 @@ export default function Tickets() {
 
             {/* Delete Confirmation Modal */}
             {showDeleteConfirm && (
-                <div className="modal-overlay" onClick={() => setShowDeleteConfirm(null)}>
+                <div className="modal-overlay" onClick={closeDelete}>
                     <div className="modal-content" onClick={(e) => e.stopPropagation()}>
                         <div className="modal-header">
                             <h2 className="text-xl font-semibold text-gray-900 dark:text-slate-100">
@@ -265,9 +452,10 @@ export default function Tickets() {
                             <p className="text-gray-600 dark:text-slate-400">
                                 ต้องการลบบิลนี้หรือไม่? การกระทำนี้ไม่สามารถย้อนกลับได้
                             </p>
+                            {deleteError && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{deleteError}</p>}
                         </div>
                         <div className="modal-footer">
-                            <button onClick={() => setShowDeleteConfirm(null)} className="btn-secondary">
+                            <button onClick={closeDelete} className="btn-secondary">
                                 ยกเลิก
                             </button>
                             <button onClick={() => handleDelete(showDeleteConfirm)} className="btn-danger">
@@ -277,6 +465,61 @@ export default function Tickets() {
                     </div>
                 </div>
             )}
+
+            {/* Void Modal */}
+            {voidTicketId && (
+                <div className="modal-overlay" onClick={closeVoid}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <div className="modal-header">
+                            <h2 className="text-xl font-semibold text-gray-900 dark:text-slate-100">
+                                ยกเลิกบิล
+                            </h2>
+                        </div>
+                        <div className="modal-body space-y-3">
+                            <p className="text-gray-600 dark:text-slate-400">
+                                บิลที่ยกเลิกจะไม่นับยอดอีก แต่ยังเก็บไว้ในรายการ
+                            </p>
+                            <div>
+                                <label className="label">เหตุผล</label>
+                                <input
+                                    type="text"
+                                    value={voidReason}
+                                    onChange={(e) => setVoidReason(e.target.value)}
+                                    className="input w-full"
+                                    autoFocus
+                                />
+                            </div>
+                            {voidError && <p className="text-sm text-red-600 dark:text-red-400">{voidError}</p>}
+                        </div>
+                        <div className="modal-footer">
+                            <button onClick={closeVoid} className="btn-secondary">
+                                ปิด
+                            </button>
+                            <button onClick={() => handleVoid(voidTicketId)} className="btn-danger">
+                                ยกเลิกบิล
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {receiptTicket && (
+                <PrintReceipt
+                    ticket={receiptTicket}
+                    agentName={agentMap.get(receiptTicket.agentId) ?? 'Unknown'}
+                    commissionRates={agents.find((a) => a.id === receiptTicket.agentId)?.commission}
+                    onClose={() => setReceiptTicket(null)}
+                />
+            )}
+
+            {showReRate && (
+                <ReRateModal
+                    product={selectedProduct}
+                    drawId={selectedPeriod}
+                    drawLabel={drawPeriodOptions.find((opt) => opt.id === selectedPeriod)?.label ?? selectedPeriod}
+                    onClose={() => setShowReRate(false)}
+                />
+            )}
         </div>
     );
 }
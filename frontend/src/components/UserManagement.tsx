@@ -0,0 +1,353 @@
+import { useState, useEffect } from 'react';
+import {
+    User,
+    UserRole,
+    UserRoleEnum,
+    PermissionEnum,
+    USER_ROLE_LABELS,
+    PERMISSION_LABELS,
+    ROLE_PERMISSIONS,
+} from '@shared/schemas';
+import { useAppStore } from '../store/appStore';
+import { useAuthStore } from '../store/authStore';
+import {
+    getUsers,
+    createUser,
+    createAgentUser,
+    updateUserRole,
+    resetUserPassword,
+    setUserDisabled,
+} from '../storage/db';
+import { canAssignRole } from '../lib/permissions';
+import { formatDateTimeShort } from '../utils/export';
+
+/**
+ * Staff accounts of the shop: add, disable, reset passwords and assign the
+ * role each works with, plus what every role may do
+ */
+export default function UserManagement() {
+    const agents = useAppStore((state) => state.agents);
+    const currentUser = useAuthStore((state) => state.user);
+    const lastSync = useAppStore((state) => state.syncStatus.lastSync);
+    const [users, setUsers] = useState<User[]>([]);
+    const [error, setError] = useState('');
+    const [newUsername, setNewUsername] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [newRole, setNewRole] = useState<UserRole>('cashier');
+    const [newAgentId, setNewAgentId] = useState('');
+    const [resetTarget, setResetTarget] = useState<User | null>(null);
+    const [resetPassword, setResetPassword] = useState('');
+
+    // Users sync between devices
+    useEffect(() => {
+        getUsers().then((list) => setUsers(list.sort((a, b) => a.createdAt.localeCompare(b.createdAt))));
+    }, [lastSync]);
+
+    const replaceUser = (updated: User) => setUsers((list) => list.map((u) => (u.id === updated.id ? updated : u)));
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        const username = newUsername.trim().toLowerCase();
+        if (username.length < 3) {
+            setError('ชื่อผู้ใช้ต้องมีอย่างน้อย 3 ตัวอักษร');
+            return;
+        }
+        if (newPassword.length < 6) {
+            setError('รหัสผ่านต้องมีอย่างน้อย 6 ตัวอักษร');
+            return;
+        }
+        const agentId = newAgentId || agents[0]?.id;
+        if (newRole === 'agent' && !agentId) {
+            setError('ยังไม่มีเจ้าที่ส่งให้เลือก');
+            return;
+        }
+
+        try {
+            // A new user picks their own password at the first sign-in
+            const user =
+                newRole === 'agent' && agentId
+                    ? await createAgentUser(agentId, username, newPassword)
+                    : await createUser(username, newPassword, newRole, true);
+            setUsers((list) => [...list, user]);
+            setNewUsername('');
+            setNewPassword('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'เพิ่มผู้ใช้ไม่สำเร็จ');
+        }
+    };
+
+    const handleToggleDisabled = async (user: User) => {
+        setError('');
+        try {
+            const updated = await setUserDisabled(user.id, !user.disabled);
+            if (updated) replaceUser(updated);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'เปลี่ยนสถานะไม่สำเร็จ');
+        }
+    };
+
+    const handleResetPassword = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!resetTarget) return;
+        setError('');
+        if (resetPassword.length < 6) {
+            setError('รหัสผ่านต้องมีอย่างน้อย 6 ตัวอักษร');
+            return;
+        }
+
+        try {
+            const updated = await resetUserPassword(resetTarget.id, resetPassword);
+            if (updated) replaceUser(updated);
+            setResetTarget(null);
+            setResetPassword('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'ตั้งรหัสผ่านใหม่ไม่สำเร็จ');
+        }
+    };
+
+    const handleRoleChange = async (user: User, role: UserRole, agentId?: string) => {
+        setError('');
+        // An agent user needs an agent: start with the first one
+        if (role === 'agent' && !agentId) {
+            agentId = agents[0]?.id;
+            if (!agentId) {
+                setError('ยังไม่มีเจ้าที่ส่งให้เลือก');
+                return;
+            }
+        }
+
+        try {
+            const updated = await updateUserRole(user.id, role, agentId);
+            if (updated) replaceUser(updated);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'เปลี่ยนสิทธิ์ไม่สำเร็จ');
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h3 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">ผู้ใช้</h3>
+                <p className="text-xs sm:text-sm text-gray-500 dark:text-slate-400 mb-4">
+                    สิทธิ์ของผู้ใช้มีผลกับทุกการบันทึก ไม่ใช่แค่ซ่อนปุ่ม
+                </p>
+
+                {error && (
+                    <div className="mb-3 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-400">
+                        {error}
+                    </div>
+                )}
+
+                {/* New User */}
+                <form onSubmit={handleCreate} className="grid grid-cols-1 sm:grid-cols-5 gap-2 mb-4">
+                    <input
+                        type="text"
+                        value={newUsername}
+                        onChange={(e) => setNewUsername(e.target.value)}
+                        className="input"
+                        placeholder="ชื่อผู้ใช้"
+                        autoComplete="off"
+                    />
+                    <input
+                        type="password"
+                        value={newPassword}
+                        onChange={(e) => setNewPassword(e.target.value)}
+                        className="input"
+                        placeholder="รหัสผ่านแรกเข้า"
+                        autoComplete="new-password"
+                    />
+                    <select value={newRole} onChange={(e) => setNewRole(e.target.value as UserRole)} className="select">
+                        {UserRoleEnum.options
+                            .filter((role) => canAssignRole(currentUser, role))
+                            .map((role) => (
+                                <option key={role} value={role}>
+                                    {USER_ROLE_LABELS[role]}
+                                </option>
+                            ))}
+                    </select>
+                    {newRole === 'agent' ? (
+                        <select value={newAgentId} onChange={(e) => setNewAgentId(e.target.value)} className="select">
+                            {agents.map((agent) => (
+                                <option key={agent.id} value={agent.id}>
+                                    {agent.name}
+                                </option>
+                            ))}
+                        </select>
+                    ) : (
+                        <div className="hidden sm:block" />
+                    )}
+                    <button type="submit" className="btn-primary">
+                        ➕ เพิ่มผู้ใช้
+                    </button>
+                </form>
+
+                <div className="overflow-x-auto">
+                    <table className="table w-full whitespace-nowrap text-sm">
+                        <thead>
+                            <tr>
+                                <th>ชื่อผู้ใช้</th>
+                                <th>สิทธิ์</th>
+                                <th>เจ้าที่ส่ง</th>
+                                <th>สถานะ</th>
+                                <th>สร้างเมื่อ</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {users.map((user) => {
+                                const isSelf = user.id === currentUser?.id;
+                                const editable = !isSelf && canAssignRole(currentUser, user.role);
+                                return (
+                                    <tr key={user.id}>
+                                        <td className="font-medium">
+                                            {user.username}
+                                            {isSelf && <span className="badge-secondary ml-2">คุณ</span>}
+                                        </td>
+                                        <td>
+                                            <select
+                                                value={user.role}
+                                                onChange={(e) => handleRoleChange(user, e.target.value as UserRole, user.agentId)}
+                                                disabled={!editable}
+                                                className="select"
+                                            >
+                                                {UserRoleEnum.options
+                                                    .filter((role) => role === user.role || canAssignRole(currentUser, role))
+                                                    .map((role) => (
+                                                        <option key={role} value={role}>
+                                                            {USER_ROLE_LABELS[role]}
+                                                        </option>
+                                                    ))}
+                                            </select>
+                                        </td>
+                                        <td>
+                                            {user.role === 'agent' ? (
+                                                <select
+                                                    value={user.agentId ?? ''}
+                                                    onChange={(e) => handleRoleChange(user, 'agent', e.target.value)}
+                                                    disabled={!editable}
+                                                    className="select"
+                                                >
+                                                    {agents.map((agent) => (
+                                                        <option key={agent.id} value={agent.id}>
+                                                            {agent.name}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            ) : (
+                                                <span className="text-gray-400">-</span>
+                                            )}
+                                        </td>
+                                        <td>
+                                            {user.disabled ? (
+                                                <span className="badge-danger">ระงับ</span>
+                                            ) : user.mustChangePassword ? (
+                                                <span className="badge-warning">รอเปลี่ยนรหัสผ่าน</span>
+                                            ) : (
+                                                <span className="badge-success">ใช้งาน</span>
+                                            )}
+                                        </td>
+                                        <td className="text-gray-500">{formatDateTimeShort(user.createdAt)}</td>
+                                        <td className="text-right space-x-2">
+                                            {editable && (
+                                                <>
+                                                    <button onClick={() => setResetTarget(user)} className="btn-secondary btn-sm">
+                                                        🔑 ตั้งรหัสผ่านใหม่
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleToggleDisabled(user)}
+                                                        className={user.disabled ? 'btn-success btn-sm' : 'btn-danger btn-sm'}
+                                                    >
+                                                        {user.disabled ? 'เปิดใช้งาน' : 'ระงับ'}
+                                                    </button>
+                                                </>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Reset Password */}
+            {resetTarget && (
+                <div className="modal-overlay">
+                    <div className="modal-content">
+                        <div className="modal-header">
+                            <h2 className="text-xl font-semibold text-gray-900 dark:text-slate-100">
+                                ตั้งรหัสผ่านใหม่ให้ {resetTarget.username}
+                            </h2>
+                            <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">
+                                ผู้ใช้ต้องเปลี่ยนรหัสผ่านนี้เมื่อเข้าสู่ระบบครั้งถัดไป
+                            </p>
+                        </div>
+                        <form onSubmit={handleResetPassword}>
+                            <div className="modal-body">
+                                <input
+                                    type="password"
+                                    value={resetPassword}
+                                    onChange={(e) => setResetPassword(e.target.value)}
+                                    className="input"
+                                    placeholder="อย่างน้อย 6 ตัวอักษร"
+                                    autoComplete="new-password"
+                                    autoFocus
+                                />
+                            </div>
+                            <div className="modal-footer">
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setResetTarget(null);
+                                        setResetPassword('');
+                                    }}
+                                    className="btn-secondary"
+                                >
+                                    ยกเลิก
+                                </button>
+                                <button type="submit" className="btn-primary">
+                                    บันทึก
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Permission Matrix */}
+            <div>
+                <h3 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">สิทธิ์ตามบทบาท</h3>
+                <p className="text-xs sm:text-sm text-gray-500 dark:text-slate-400 mb-4">
+                    ถ้าไม่ได้เข้าสู่ระบบพนักงาน ร้านจะใช้สิทธิ์ {USER_ROLE_LABELS.user}
+                </p>
+                <div className="overflow-x-auto">
+                    <table className="table w-full whitespace-nowrap text-sm">
+                        <thead>
+                            <tr>
+                                <th>สิทธิ์</th>
+                                {UserRoleEnum.options.map((role) => (
+                                    <th key={role} className="text-center">
+                                        {USER_ROLE_LABELS[role]}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {PermissionEnum.options.map((permission) => (
+                                <tr key={permission}>
+                                    <td>{PERMISSION_LABELS[permission]}</td>
+                                    {UserRoleEnum.options.map((role) => (
+                                        <td key={role} className="text-center">
+                                            {ROLE_PERMISSIONS[role].includes(permission) ? '✓' : ''}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+}
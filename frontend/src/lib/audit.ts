@@ -0,0 +1,121 @@
+/**
+ * Audit Log
+ *
+ * Every write to storage is recorded as who did what to which record, with
+ * the fields it changed. Entries are append-only and sync like any other
+ * collection, so the log of every device ends up in one place.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AuditAction, AuditChange, AuditEntity, AuditEntry } from '@shared/schemas';
+
+// Bookkeeping fields every write touches
+const IGNORED_FIELDS = new Set(['modifiedAt', 'synced']);
+
+// Recorded as changed, without the value
+const HIDDEN_FIELDS = new Set(['passwordHash']);
+const HIDDEN_VALUE = '[hidden]';
+
+export interface AuditActor {
+    id?: string;
+    username: string;
+}
+
+/**
+ * Top-level fields that differ between two versions of a record; a missing
+ * version (create / delete) lists every field of the other
+ */
+export function diffRecords(before: object | null, after: object | null): AuditChange[] {
+    const a = (before ?? {}) as Record<string, unknown>;
+    const b = (after ?? {}) as Record<string, unknown>;
+    const fields = new Set([...Object.keys(a), ...Object.keys(b)]);
+    const changes: AuditChange[] = [];
+
+    for (const field of fields) {
+        if (IGNORED_FIELDS.has(field)) continue;
+        if (JSON.stringify(a[field]) === JSON.stringify(b[field])) continue;
+
+        if (HIDDEN_FIELDS.has(field)) {
+            changes.push({
+                field,
+                ...(field in a ? { before: HIDDEN_VALUE } : {}),
+                ...(field in b ? { after: HIDDEN_VALUE } : {}),
+            });
+        } else {
+            changes.push({
+                field,
+                ...(a[field] !== undefined ? { before: a[field] } : {}),
+                ...(b[field] !== undefined ? { after: b[field] } : {}),
+            });
+        }
+    }
+
+    return changes;
+}
+
+export function createAuditEntry(
+    action: AuditAction,
+    entity: AuditEntity,
+    entityId: string,
+    before: object | null,
+    after: object | null,
+    actor: AuditActor
+): AuditEntry {
+    return {
+        id: uuidv4(),
+        action,
+        entity,
+        entityId,
+        actor: actor.username,
+        ...(actor.id ? { actorId: actor.id } : {}),
+        changes: diffRecords(before, after),
+        timestamp: new Date().toISOString(),
+        synced: false,
+    };
+}
+
+/**
+ * A changed value as text: strings as they are, anything else as JSON
+ */
+export function formatAuditValue(value: unknown): string {
+    if (value === undefined) return '';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export interface AuditQuery {
+    text?: string;      // Matches the record id, the actor, field names and values
+    entity?: AuditEntity;
+    action?: AuditAction;
+    from?: string;      // YYYY-MM-DD, inclusive (local time)
+    to?: string;
+}
+
+const toLocalDate = (timestamp: string) => {
+    const date = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Entries matching the query, newest first
+ */
+export function filterAuditEntries(entries: AuditEntry[], query: AuditQuery): AuditEntry[] {
+    const text = query.text?.trim().toLowerCase();
+
+    return entries
+        .filter((entry) => {
+            if (query.entity && entry.entity !== query.entity) return false;
+            if (query.action && entry.action !== query.action) return false;
+            if (query.from && toLocalDate(entry.timestamp) < query.from) return false;
+            if (query.to && toLocalDate(entry.timestamp) > query.to) return false;
+            if (!text) return true;
+
+            const haystack = [
+                entry.entityId,
+                entry.actor,
+                ...entry.changes.flatMap((c) => [c.field, formatAuditValue(c.before), formatAuditValue(c.after)]),
+            ];
+            return haystack.some((value) => value.toLowerCase().includes(text));
+        })
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
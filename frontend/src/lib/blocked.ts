@@ -0,0 +1,198 @@
+/**
+ * Blocked Number Lists
+ *
+ * Blocked numbers usually change from draw to draw. A rule can be limited to
+ * a product, a draw or a range of ticket dates (see isBlockedNumberActive);
+ * these helpers carry a draw's list over to the next one and turn a pasted
+ * list, written the way dealers send it, into rules.
+ */
+
+import { BlockedNumber, CreateBlockedNumber, Category, Payouts, Product, CATEGORY_DIGIT_LENGTH } from '@shared/schemas';
+import { findProduct, getDrawPeriodForDate } from './drawPeriod';
+import { expandNumber, expandShorthand, parseShorthand } from './expand';
+
+/**
+ * Where a blocked number applies
+ */
+export type BlockedWindow = Pick<BlockedNumber, 'productId' | 'drawDate' | 'validFrom' | 'validTo'>;
+
+/**
+ * Rules of one draw, re-dated to another. Numbers the target draw already
+ * blocks for the same category are skipped.
+ */
+export function copyBlockedNumbersToDraw(
+    blockedNumbers: BlockedNumber[],
+    productId: string,
+    fromDrawId: string,
+    toDrawId: string
+): CreateBlockedNumber[] {
+    const inDraw = (drawId: string) =>
+        blockedNumbers.filter((b) => b.productId === productId && b.drawDate === drawId);
+    const existing = new Set(inDraw(toDrawId).map((b) => `${b.category}:${b.number}`));
+
+    return inDraw(fromDrawId)
+        .filter((b) => !existing.has(`${b.category}:${b.number}`))
+        .map(({ id: _id, ...rule }) => ({ ...rule, drawDate: toDrawId }));
+}
+
+/**
+ * Payout of a blocked list: a rate in baht, or a percentage of the normal
+ * rate ("จ่ายครึ่ง" = 50%)
+ */
+export type BlockedRate = { kind: 'payout'; value: number } | { kind: 'percent'; value: number };
+
+/**
+ * One line of a pasted blocked list
+ */
+export interface BlockedListLine {
+    text: string;
+    numbers: string[];        // Shorthands and โต๊ด/กลับ already expanded
+    rate: BlockedRate | null; // null = the rate chosen for the whole list
+    invalid: string[];        // Items that are neither a number nor a notation
+}
+
+const RATE_PATTERN = /จ่าย\s*(ครึ่ง|\d+(?:\.\d+)?\s*%?)\s*(?:บาท)?/;
+const DIGITS_PATTERN = /(^|\s)(\d)\s*ตัว/;
+const PERMUTE_PATTERN = /โต๊ด|กลับ/;
+
+// เบิ้ล 3 ตัว: two of the three digits the same (001, 010, 100, …)
+const THREE_DIGIT_DOUBLES = Array.from({ length: 1000 }, (_, n) => String(n).padStart(3, '0')).filter(
+    (n) => new Set(n).size === 2
+);
+
+/**
+ * Reads one line, e.g. "123 456 789 จ่ายครึ่ง", "เลขเบิ้ล ทั้งหมด 2 ตัว",
+ * "ตอง จ่าย 300", "123 โต๊ด" (every order of the digits)
+ */
+function parseBlockedLine(text: string): BlockedListLine {
+    let rest = text;
+
+    let rate: BlockedRate | null = null;
+    const rateMatch = rest.match(RATE_PATTERN);
+    if (rateMatch) {
+        const value = rateMatch[1].replace(/\s/g, '');
+        rate =
+            value === 'ครึ่ง'
+                ? { kind: 'percent', value: 50 }
+                : value.endsWith('%')
+                    ? { kind: 'percent', value: parseFloat(value) }
+                    : { kind: 'payout', value: parseFloat(value) };
+        rest = rest.replace(rateMatch[0], ' ');
+    }
+
+    let digits: number | undefined;
+    const digitsMatch = rest.match(DIGITS_PATTERN);
+    if (digitsMatch) {
+        digits = Number(digitsMatch[2]);
+        rest = rest.replace(digitsMatch[0], ' ');
+    }
+
+    const permute = PERMUTE_PATTERN.test(rest);
+    rest = rest
+        .replace(/โต๊ด|กลับ/g, ' ')
+        .replace(/ทั้งหมด/g, ' ')
+        .replace(/เลข(?=\s*(?:\d|เบิ้ล|ตอง))/g, ' ');
+
+    let numbers: string[] = [];
+    const invalid: string[] = [];
+    const shorthand = parseShorthand(rest);
+    if (shorthand) {
+        numbers = shorthand.kind === 'double' && digits === 3 ? THREE_DIGIT_DOUBLES : expandShorthand(shorthand);
+    } else {
+        for (const item of rest.split(/[\s,]+/).filter(Boolean)) {
+            if (/^\d{1,3}$/.test(item) && (!digits || item.length === digits)) {
+                numbers.push(item);
+            } else {
+                invalid.push(item);
+            }
+        }
+    }
+
+    if (permute) {
+        numbers = numbers.flatMap((n) => (n.length === 1 ? [n] : expandNumber(n, n.length === 3 ? '3tod' : '2tod')));
+    }
+
+    return { text, numbers: [...new Set(numbers)], rate, invalid };
+}
+
+/**
+ * Reads a pasted blocked list, one notation per line
+ */
+export function parseBlockedList(text: string): BlockedListLine[] {
+    return text
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map(parseBlockedLine);
+}
+
+export interface BlockedListOptions {
+    categories: Category[];
+    rate: BlockedRate;            // For lines without their own
+    payouts: Payouts;             // Normal rates, for percentages
+    window?: BlockedWindow;
+    existing?: BlockedNumber[];   // Already blocked with the same window are skipped
+}
+
+export interface BlockedListPreview {
+    rules: CreateBlockedNumber[];
+    duplicates: number;
+    unmatched: string[]; // Numbers of a length none of the categories takes
+}
+
+function isSameWindow(a: BlockedWindow, b: BlockedWindow): boolean {
+    return (
+        a.productId === b.productId &&
+        a.drawDate === b.drawDate &&
+        a.validFrom === b.validFrom &&
+        a.validTo === b.validTo
+    );
+}
+
+/**
+ * Blocked numbers for every number of the list in each category of its length
+ */
+export function buildBlockedList(lines: BlockedListLine[], options: BlockedListOptions): BlockedListPreview {
+    const { categories, payouts, window = {}, existing = [] } = options;
+    const rules: CreateBlockedNumber[] = [];
+    const seen = new Set<string>();
+    const unmatched = new Set<string>();
+    let duplicates = 0;
+
+    for (const line of lines) {
+        const rate = line.rate ?? options.rate;
+        for (const number of line.numbers) {
+            const matching = categories.filter((category) => CATEGORY_DIGIT_LENGTH[category] === number.length);
+            if (matching.length === 0) unmatched.add(number);
+
+            for (const category of matching) {
+                const key = `${category}:${number}`;
+                if (seen.has(key)) continue;
+                seen.add(key);
+
+                if (existing.some((b) => b.number === number && b.category === category && isSameWindow(b, window))) {
+                    duplicates++;
+                    continue;
+                }
+
+                const payoutOverride =
+                    rate.kind === 'percent' ? Math.floor((payouts[category] * rate.value) / 100) : rate.value;
+                rules.push({ number, category, payoutOverride, enabled: true, ...window });
+            }
+        }
+    }
+
+    return { rules, duplicates, unmatched: [...unmatched] };
+}
+
+/**
+ * Short Thai description of where a rule applies, or null when it always does
+ */
+export function describeBlockedWindow(window: BlockedWindow, products: Product[] | undefined): string | null {
+    const parts: string[] = [];
+    const product = window.productId ? findProduct(products, window.productId) : undefined;
+    if (product) parts.push(product.name);
+    if (window.drawDate) parts.push(`งวด ${getDrawPeriodForDate(window.drawDate, product).label}`);
+    if (window.validFrom || window.validTo) parts.push(`${window.validFrom ?? '…'} – ${window.validTo ?? '…'}`);
+    return parts.length > 0 ? parts.join(' · ') : null;
+}
@@ -15,10 +15,20 @@ import {
     AgentSummary,
     RiskyNumber,
     Agent,
-
+    Payouts,
+    CommissionRates,
+    CreditLimit,
+    CreditLimitBasis,
+    Product,
+    CeilingAction,
+    CreateBlockedNumber,
+    CATEGORY_DIGIT_LENGTH,
+    GOVERNMENT_PRODUCT_ID,
 } from '@shared/schemas';
-import { isDateInDrawPeriod } from './drawPeriod';
+import { isDateInDrawPeriod, findProduct, getDrawPeriodForDate } from './drawPeriod';
 import { expandNumber } from './expand';
+import { evaluateTicket, DrawResult, PayoutSource } from './payout';
+import { isCountedTicket } from './ticketStatus';
 
 /**
  * Find blocked number override for a specific combo and category
@@ -33,28 +43,124 @@ function findBlockedNumber(
     );
 }
 
+/**
+ * Which payout layers apply to an entry
+ */
+export interface PayoutContext {
+    productId?: string;  // Ticket round
+    agentId?: string;
+    date?: string;       // Ticket date, picks the blocked numbers in force
+}
+
+/**
+ * Whether a blocked number applies to a ticket: its product, draw and date
+ * range must match when set. Without a ticket date, only rules without a
+ * draw or date range apply.
+ */
+export function isBlockedNumberActive(
+    blocked: BlockedNumber,
+    settings: Settings,
+    context: PayoutContext = {}
+): boolean {
+    if (!blocked.enabled) return false;
+
+    const productId = context.productId ?? GOVERNMENT_PRODUCT_ID;
+    if (blocked.productId && blocked.productId !== productId) return false;
+
+    if (!blocked.drawDate && !blocked.validFrom && !blocked.validTo) return true;
+    const { date } = context;
+    if (!date) return false;
+
+    if (blocked.validFrom && date < blocked.validFrom) return false;
+    if (blocked.validTo && date > blocked.validTo) return false;
+    if (blocked.drawDate) {
+        const product = findProduct(settings.products, productId);
+        if (getDrawPeriodForDate(date, product).id !== blocked.drawDate) return false;
+    }
+    return true;
+}
+
+/**
+ * Blocked numbers in force for a ticket
+ */
+export function getActiveBlockedNumbers(
+    blockedNumbers: BlockedNumber[],
+    settings: Settings,
+    context: PayoutContext = {}
+): BlockedNumber[] {
+    return blockedNumbers.filter((b) => isBlockedNumberActive(b, settings, context));
+}
+
+/**
+ * Resolves the effective payout table: global → product → agent.
+ * Each layer only overrides the categories it sets.
+ */
+export function resolvePayouts(settings: Settings, context: PayoutContext = {}): Payouts {
+    const product = context.productId ? findProduct(settings.products, context.productId) : undefined;
+    const agentPayouts = context.agentId ? settings.agentPayouts?.[context.agentId] : undefined;
+
+    return {
+        ...settings.payouts,
+        ...product?.payouts,
+        ...agentPayouts,
+    };
+}
+
 /**
  * Computes the totals for a single entry, including expansion and per-combo breakdowns
  * 
  * @param entry - The entry to compute totals for
- * @param settings - Global settings containing payout rates
+ * @param settings - Settings containing the payout layers
  * @param blockedNumbers - List of blocked numbers with override payouts
+ * @param context - Product, agent and date of the ticket, used to resolve the
+ *   payout table and the blocked numbers in force
+ * @param soldTotals - Already sold in the draw, for tiered blocked numbers
  * @returns Entry with computed expanded, perComboTotals, and total
  */
 export function computeEntryTotals(
     entry: Omit<Entry, 'expanded' | 'perComboTotals' | 'total'>,
     settings: Settings,
-    blockedNumbers: BlockedNumber[]
+    blockedNumbers: BlockedNumber[],
+    context: PayoutContext = {},
+    soldTotals: Map<string, ComboSales> = new Map()
 ): Entry {
     const expanded = expandNumber(entry.raw, entry.category);
+    return rateEntryCombos({ ...entry, expanded }, settings, blockedNumbers, context, soldTotals);
+}
+
+/**
+ * Prices the combos an entry already has without expanding its number again,
+ * so a saved 2-digit entry keyed with its reverse keeps both combos.
+ * Entries saved without combos are expanded.
+ */
+export function repriceEntry(
+    entry: Entry,
+    settings: Settings,
+    blockedNumbers: BlockedNumber[],
+    context: PayoutContext = {},
+    soldTotals: Map<string, ComboSales> = new Map()
+): Entry {
+    const expanded = entry.expanded?.length ? entry.expanded : expandNumber(entry.raw, entry.category);
+    return rateEntryCombos({ ...entry, expanded }, settings, blockedNumbers, context, soldTotals);
+}
 
-    // For tod/permutation categories, total is single price
-    // But each combo soldAmount = full price (for payout calculation if that combo wins)
-    const isTodCategory = entry.category === '3tod' || entry.category === '2tod';
+/**
+ * Prices the given combos of an entry: every combo is paid out on the full
+ * amount, while the customer pays the amount once
+ */
+export function rateEntryCombos(
+    entry: Omit<Entry, 'perComboTotals' | 'total'> & { expanded: string[] },
+    settings: Settings,
+    blockedNumbers: BlockedNumber[],
+    context: PayoutContext = {},
+    soldTotals: Map<string, ComboSales> = new Map()
+): Entry {
+    const payouts = resolvePayouts(settings, context);
+    const activeBlocked = getActiveBlockedNumbers(blockedNumbers, settings, context);
 
-    const perComboTotals: PerComboTotal[] = expanded.map((combo) => {
-        const blocked = findBlockedNumber(combo, entry.category, blockedNumbers);
-        const payoutRate = blocked?.payoutOverride ?? settings.payouts[entry.category];
+    const perComboTotals: PerComboTotal[] = entry.expanded.map((combo) => {
+        const blocked = findBlockedNumber(combo, entry.category, activeBlocked);
+        const payoutRate = blocked?.payoutOverride ?? payouts[entry.category];
 
         // Each combo gets full soldAmount for payout calculation
         const soldAmount = entry.unitPrice * entry.quantity;
@@ -68,18 +174,113 @@ export function computeEntryTotals(
         };
     });
 
-    // For tod: total = single price (what customer paid)
-    // For others: total = sum of all combos (but usually just 1 combo)
-    const total = isTodCategory
-        ? entry.unitPrice * entry.quantity
-        : perComboTotals.reduce((sum, combo) => sum + combo.soldAmount, 0);
+    // What the customer paid: a single price for tod/back and reversed
+    // entries, the one combo's amount for the others
+    const total = entry.unitPrice * entry.quantity;
+
+    return applyPayoutTiers(
+        {
+            ...entry,
+            perComboTotals,
+            total,
+        },
+        soldTotals,
+        activeBlocked,
+        payouts
+    );
+}
 
-    return {
-        ...entry,
-        expanded,
-        perComboTotals,
-        total,
-    };
+/**
+ * Amount of an entry per combo; a tiered combo spans several perComboTotals
+ */
+function sumByCombo(perComboTotals: PerComboTotal[]): Map<string, number> {
+    const amounts = new Map<string, number>();
+    for (const c of perComboTotals) {
+        amounts.set(c.combo, (amounts.get(c.combo) ?? 0) + c.soldAmount);
+    }
+    return amounts;
+}
+
+/**
+ * Splits each combo that has a tiered blocked number into one part per band,
+ * counting from what the draw has already sold on it. Anything past the last
+ * band stays at that band's rate here; checkTierLimits refuses it.
+ * `blockedNumbers` are the ones in force for the ticket (getActiveBlockedNumbers).
+ */
+export function applyPayoutTiers(
+    entry: Entry,
+    soldTotals: Map<string, ComboSales>,
+    blockedNumbers: BlockedNumber[],
+    payouts: Payouts
+): Entry {
+    if (!entry.perComboTotals) return entry;
+
+    const perComboTotals: PerComboTotal[] = [];
+    for (const [combo, amount] of sumByCombo(entry.perComboTotals)) {
+        const parts = entry.perComboTotals.filter((c) => c.combo === combo);
+        const tiers = findBlockedNumber(combo, entry.category, blockedNumbers)?.tiers ?? [];
+        if (tiers.length === 0) {
+            perComboTotals.push(...parts);
+            continue;
+        }
+
+        let sold = soldTotals.get(`${entry.category}:${combo}`)?.soldAmount ?? 0;
+        let left = amount;
+        tiers.forEach((tier, index) => {
+            const isLast = index === tiers.length - 1;
+            const room = tier.upTo === null || isLast ? Infinity : tier.upTo - sold;
+            const portion = Math.min(left, room);
+            if (portion <= 0) return;
+
+            const payoutRate = tier.payoutRate ?? payouts[entry.category];
+            perComboTotals.push(
+                portion === amount && parts.length === 1
+                    ? { ...parts[0], payoutRate, tier: index }
+                    : { combo, unitPrice: portion, quantity: 1, soldAmount: portion, payoutRate, tier: index }
+            );
+            sold += portion;
+            left -= portion;
+        });
+    }
+
+    return { ...entry, perComboTotals };
+}
+
+/**
+ * Combos of an entry that would go past the last band of their tiered
+ * blocked number. Returns null when all of it can be accepted.
+ */
+export function checkTierLimits(
+    entry: Entry,
+    soldTotals: Map<string, ComboSales>,
+    blockedNumbers: BlockedNumber[]
+): CeilingAction | null {
+    const combos: string[] = [];
+    for (const [combo, amount] of sumByCombo(entry.perComboTotals ?? [])) {
+        const tiers = findBlockedNumber(combo, entry.category, blockedNumbers)?.tiers ?? [];
+        const limit = tiers[tiers.length - 1]?.upTo ?? null;
+        const sold = soldTotals.get(`${entry.category}:${combo}`)?.soldAmount ?? 0;
+        if (limit !== null && sold + amount > limit) combos.push(combo);
+    }
+
+    if (combos.length === 0) return null;
+    return { policy: 'reject', combos, requestedPrice: entry.ceiling?.requestedPrice ?? entry.unitPrice };
+}
+
+/**
+ * Cuts every combo of an entry down to `amount`, dropping its highest bands first
+ */
+function capComboTotals(perComboTotals: PerComboTotal[], amount: number): PerComboTotal[] {
+    const kept = new Map<string, number>();
+    const capped: PerComboTotal[] = [];
+    for (const c of perComboTotals) {
+        const used = kept.get(c.combo) ?? 0;
+        const soldAmount = Math.min(c.soldAmount, amount - used);
+        if (soldAmount <= 0) continue;
+        kept.set(c.combo, used + soldAmount);
+        capped.push({ ...c, unitPrice: soldAmount / c.quantity, soldAmount });
+    }
+    return capped;
 }
 
 /**
@@ -97,8 +298,9 @@ export function recomputeTicket(
     settings: Settings,
     blockedNumbers: BlockedNumber[]
 ): Ticket {
+    const context = { productId: ticket.round, agentId: ticket.agentId, date: ticket.date };
     const updatedEntries = ticket.entries.map((entry) =>
-        computeEntryTotals(entry, settings, blockedNumbers)
+        repriceEntry(entry, settings, blockedNumbers, context)
     );
 
     const billTotal = updatedEntries.reduce((sum, entry) => sum + (entry.total ?? 0), 0);
@@ -131,16 +333,102 @@ export function computeTicketExpectedPayout(ticket: Ticket): number {
 }
 
 /**
- * Aggregates sold amounts per combo across all tickets
- * Used for detecting risky numbers
+ * Calculates the agent's commission (ค่าคอม) on a single entry
+ */
+export function computeEntryCommission(entry: Entry, rates?: CommissionRates): number {
+    const rate = rates?.[entry.category] ?? 0;
+    return ((entry.total ?? 0) * rate) / 100;
+}
+
+/**
+ * Calculates the agent's commission for an entire ticket
+ */
+export function computeTicketCommission(ticket: Ticket, rates?: CommissionRates): number {
+    return ticket.entries.reduce((sum, entry) => sum + computeEntryCommission(entry, rates), 0);
+}
+
+/**
+ * Credit limit usage of an agent within one draw of a product
+ */
+export interface CreditUsage {
+    limit: CreditLimit;
+    used: number;      // Already sent in this draw, measured by limit.basis
+    remaining: number; // May be negative once over the limit
+}
+
+/**
+ * Measures a set of entries against a credit limit basis
+ */
+export function computeCreditAmount(entries: Entry[], basis: CreditLimitBasis): number {
+    return entries.reduce(
+        (sum, entry) => sum + (basis === 'payout' ? computeEntryExpectedPayout(entry) : entry.total ?? 0),
+        0
+    );
+}
+
+/**
+ * How much of an agent's credit limit is used by their tickets in the draw
+ * that `date` is sold for. Returns null when the agent has no limit.
+ */
+export function computeCreditUsage(
+    tickets: Ticket[],
+    agent: Pick<Agent, 'id' | 'creditLimit'>,
+    round: string,
+    date: string,
+    settings: Settings
+): CreditUsage | null {
+    const limit = agent.creditLimit;
+    if (!limit) return null;
+
+    const product = findProduct(settings.products, round);
+    const drawId = getDrawPeriodForDate(date, product).id;
+
+    const used = tickets
+        .filter((t) => isCountedTicket(t) && t.agentId === agent.id && t.round === round)
+        .filter((t) => getDrawPeriodForDate(t.date, product).id === drawId)
+        .reduce((sum, t) => sum + computeCreditAmount(t.entries, limit.basis), 0);
+
+    return { limit, used, remaining: limit.amount - used };
+}
+
+/**
+ * Checks whether new entries would take an agent over their credit limit
+ */
+export function checkCreditLimit(
+    usage: CreditUsage | null,
+    entries: Entry[]
+): { exceeded: boolean; amount: number; remaining: number } {
+    if (!usage) return { exceeded: false, amount: 0, remaining: Infinity };
+
+    const amount = computeCreditAmount(entries, usage.limit.basis);
+    return {
+        exceeded: amount > usage.remaining,
+        amount,
+        remaining: usage.remaining,
+    };
+}
+
+/**
+ * Sold amount and payout per combo of a category
  */
-function aggregateComboSales(
-    tickets: Ticket[]
-): Map<string, { combo: string; category: Category; soldAmount: number }> {
-    const comboMap = new Map<string, { combo: string; category: Category; soldAmount: number }>();
+export interface ComboSales {
+    combo: string;
+    category: Category;
+    soldAmount: number;
+    payout: number; // What we pay if this combo wins
+}
 
+/**
+ * Aggregates sold amounts per combo across all tickets
+ * Used for detecting risky numbers and the exposure matrix.
+ * Pass an existing map to add more tickets to it.
+ */
+export function aggregateComboSales(
+    tickets: Array<Pick<Ticket, 'entries' | 'deleted'> & Partial<Pick<Ticket, 'status'>>>,
+    comboMap: Map<string, ComboSales> = new Map()
+): Map<string, ComboSales> {
     for (const ticket of tickets) {
-        if (ticket.deleted) continue;
+        if (!isCountedTicket(ticket)) continue;
 
         for (const entry of ticket.entries) {
             if (!entry.perComboTotals) continue;
@@ -148,14 +436,17 @@ function aggregateComboSales(
             for (const comboTotal of entry.perComboTotals) {
                 const key = `${entry.category}:${comboTotal.combo}`;
                 const existing = comboMap.get(key);
+                const payout = comboTotal.payoutRate * comboTotal.unitPrice * comboTotal.quantity;
 
                 if (existing) {
                     existing.soldAmount += comboTotal.soldAmount;
+                    existing.payout += payout;
                 } else {
                     comboMap.set(key, {
                         combo: comboTotal.combo,
                         category: entry.category,
                         soldAmount: comboTotal.soldAmount,
+                        payout,
                     });
                 }
             }
@@ -165,6 +456,76 @@ function aggregateComboSales(
     return comboMap;
 }
 
+/**
+ * Keeps combo sales for a ticket list that mostly grows, aggregating only
+ * tickets it has not seen yet. Tickets are tracked by identity, so a removed
+ * or edited ticket (a new object in the store) triggers a full rebuild.
+ */
+export function createComboSalesTracker(): (tickets: Ticket[]) => Map<string, ComboSales> {
+    let seen = new Set<Ticket>();
+    let comboMap = new Map<string, ComboSales>();
+
+    return (tickets) => {
+        const current = new Set(tickets);
+        const canExtend = [...seen].every((t) => current.has(t));
+
+        if (!canExtend) {
+            seen = new Set();
+            comboMap = new Map();
+        }
+
+        const added = tickets.filter((t) => !seen.has(t));
+        aggregateComboSales(added, comboMap);
+        for (const ticket of added) seen.add(ticket);
+
+        return comboMap;
+    };
+}
+
+/**
+ * One number of the exposure matrix
+ */
+export interface ExposureCell {
+    number: string;
+    soldAmount: number;
+    payout: number;  // Worst-case payout if the number wins
+    netLoss: number; // payout − draw gross; negative means we still profit
+}
+
+/**
+ * Exposure of every number of a category (00–99, 000–999), or a page of them
+ *
+ * @param comboSales - From aggregateComboSales
+ * @param gross - Total sales of the draw, kept if the number wins
+ * @param start - First number of the page
+ * @param count - Numbers per page (defaults to all)
+ */
+export function buildExposureGrid(
+    comboSales: Map<string, ComboSales>,
+    category: Category,
+    gross: number,
+    start = 0,
+    count?: number
+): ExposureCell[] {
+    const digits = CATEGORY_DIGIT_LENGTH[category];
+    const end = Math.min(10 ** digits, start + (count ?? 10 ** digits));
+    const cells: ExposureCell[] = [];
+
+    for (let n = start; n < end; n++) {
+        const number = String(n).padStart(digits, '0');
+        const sales = comboSales.get(`${category}:${number}`);
+        const payout = sales?.payout ?? 0;
+        cells.push({
+            number,
+            soldAmount: sales?.soldAmount ?? 0,
+            payout,
+            netLoss: payout - gross,
+        });
+    }
+
+    return cells;
+}
+
 /**
  * Find risky numbers (combos with sold amount exceeding threshold)
  */
@@ -196,7 +557,9 @@ export function findRiskyNumbers(
  * @param settings - Global settings
  * @param agents - List of agents for name lookup
  * @param date - Date filter
- * @param round - Optional round filter
+ * @param round - Optional round (product id) filter
+ * @param result - Draw result; when given, winnings are deducted from each agent's net due
+ * @param payouts - Rates for entries without their own (see ticketPayoutResolver)
  * @returns Summary object with all calculations
  */
 export function computeSummary(
@@ -204,13 +567,18 @@ export function computeSummary(
     settings: Settings,
     agents: Agent[],
     date: string,
-    round?: string
+    round?: string,
+    result?: DrawResult | null,
+    payouts: PayoutSource = settings.payouts
 ): Summary {
+    // Draw periods follow the product's schedule when a round (product) is given
+    const product = round ? findProduct(settings.products, round) : undefined;
+
     // Filter tickets
     const filteredTickets = tickets.filter((t) => {
-        if (t.deleted) return false;
+        if (!isCountedTicket(t)) return false;
         // Support both draw period (range) and exact date filtering
-        if (!isDateInDrawPeriod(t.date, date) && t.date !== date) return false;
+        if (!isDateInDrawPeriod(t.date, date, product) && t.date !== date) return false;
         if (round && t.round !== round) return false;
         return true;
     });
@@ -220,11 +588,17 @@ export function computeSummary(
     let expectedPayout = 0;
 
     // Agent aggregation
-    const agentTotals = new Map<string, { gross: number; expectedPayout: number; ticketCount: number }>();
+    const agentTotals = new Map<
+        string,
+        { gross: number; expectedPayout: number; commission: number; winnings: number; ticketCount: number }
+    >();
 
     for (const ticket of filteredTickets) {
         const ticketGross = ticket.billTotal;
         const ticketExpectedPayout = computeTicketExpectedPayout(ticket);
+        const agent = agents.find((a) => a.id === ticket.agentId);
+        const ticketCommission = computeTicketCommission(ticket, agent?.commission);
+        const ticketWinnings = result ? evaluateTicket(ticket, result, payouts).amount : 0;
 
         gross += ticketGross;
         expectedPayout += ticketExpectedPayout;
@@ -234,11 +608,15 @@ export function computeSummary(
         if (existing) {
             existing.gross += ticketGross;
             existing.expectedPayout += ticketExpectedPayout;
+            existing.commission += ticketCommission;
+            existing.winnings += ticketWinnings;
             existing.ticketCount += 1;
         } else {
             agentTotals.set(ticket.agentId, {
                 gross: ticketGross,
                 expectedPayout: ticketExpectedPayout,
+                commission: ticketCommission,
+                winnings: ticketWinnings,
                 ticketCount: 1,
             });
         }
@@ -254,6 +632,8 @@ export function computeSummary(
             gross: totals.gross,
             expectedPayout: totals.expectedPayout,
             profit: totals.gross - totals.expectedPayout,
+            commission: totals.commission,
+            netDue: totals.gross - totals.commission - totals.winnings,
             ticketCount: totals.ticketCount,
         });
     }
@@ -315,15 +695,15 @@ export function checkCeilingViolation(
 
     if (!newEntry.perComboTotals) return null;
 
-    for (const comboTotal of newEntry.perComboTotals) {
-        const key = `${newEntry.category}:${comboTotal.combo}`;
+    for (const [combo, amount] of sumByCombo(newEntry.perComboTotals)) {
+        const key = `${newEntry.category}:${combo}`;
         const existing = comboSales.get(key);
-        const currentAmount = (existing?.soldAmount ?? 0) + comboTotal.soldAmount;
+        const currentAmount = (existing?.soldAmount ?? 0) + amount;
 
         if (currentAmount > settings.ceilings.perComboMax) {
             return {
                 violated: true,
-                combo: comboTotal.combo,
+                combo,
                 currentAmount,
                 maxAmount: settings.ceilings.perComboMax,
             };
@@ -333,9 +713,130 @@ export function checkCeilingViolation(
     return null;
 }
 
+/**
+ * Combo sales of every ticket sold for the same draw as `date`, plus the
+ * entries of a bill still being entered
+ */
+export function getDrawComboSales(
+    tickets: Ticket[],
+    round: string,
+    date: string,
+    settings: Settings,
+    pendingEntries: Entry[] = []
+): Map<string, ComboSales> {
+    const product = findProduct(settings.products, round);
+    const drawId = getDrawPeriodForDate(date, product).id;
+    const drawTickets = tickets.filter(
+        (t) => t.round === round && getDrawPeriodForDate(t.date, product).id === drawId
+    );
+    return aggregateComboSales([...drawTickets, { entries: pendingEntries, deleted: false }]);
+}
+
+/**
+ * Outcome of the ceiling policy for one entry
+ */
+export interface CeilingEnforcement {
+    entry: Entry | null;          // null when rejected, or capped down to nothing
+    action: CeilingAction | null; // null when no combo goes over perComboMax
+    blocks: CreateBlockedNumber[]; // Blocked numbers to create ('reduce')
+}
+
+/**
+ * Applies settings.ceilings.policy to an entry whose combos would take the
+ * draw over perComboMax:
+ * - warn: accepted as is, only marked
+ * - reduce: the combos over the ceiling are paid at reducedPayoutPercent of
+ *   the normal rate, and blocked so later bets get the same rate
+ * - cap: the price is cut to what is left below the ceiling
+ * - reject: not accepted
+ */
+export function applyCeilingPolicy(
+    entry: Entry,
+    comboSales: Map<string, ComboSales>,
+    settings: Settings,
+    blockedNumbers: BlockedNumber[],
+    context: PayoutContext = {}
+): CeilingEnforcement {
+    const { perComboMax, policy = 'warn', reducedPayoutPercent = 50 } = settings.ceilings;
+    const perComboTotals = entry.perComboTotals ?? [];
+    const soldBefore = (combo: string) => comboSales.get(`${entry.category}:${combo}`)?.soldAmount ?? 0;
+
+    const over = [...sumByCombo(perComboTotals)]
+        .filter(([combo, amount]) => soldBefore(combo) + amount > perComboMax)
+        .map(([combo]) => combo);
+    if (over.length === 0) return { entry, action: null, blocks: [] };
+
+    const action: CeilingAction = {
+        policy,
+        combos: over,
+        requestedPrice: entry.ceiling?.requestedPrice ?? entry.unitPrice, // Kept when checked again on save
+    };
+
+    switch (policy) {
+        case 'reject':
+            return { entry: null, action, blocks: [] };
+
+        case 'cap': {
+            const room = Math.min(...over.map((combo) => perComboMax - soldBefore(combo)));
+            const unitPrice = Math.floor(room / entry.quantity);
+            if (unitPrice < 1) return { entry: null, action, blocks: [] };
+
+            return {
+                entry: {
+                    ...entry,
+                    unitPrice,
+                    perComboTotals: capComboTotals(perComboTotals, unitPrice * entry.quantity),
+                    total: ((entry.total ?? 0) * unitPrice) / entry.unitPrice,
+                    ceiling: action,
+                },
+                action,
+                blocks: [],
+            };
+        }
+
+        case 'reduce': {
+            const reducedRate = Math.floor((resolvePayouts(settings, context)[entry.category] * reducedPayoutPercent) / 100);
+            const overCombos = new Set(over);
+            // The ceiling is per draw, so is the reduced rate
+            const activeBlocked = getActiveBlockedNumbers(blockedNumbers, settings, context);
+            const window = context.date
+                ? {
+                      productId: context.productId ?? GOVERNMENT_PRODUCT_ID,
+                      drawDate: getDrawPeriodForDate(context.date, findProduct(settings.products, context.productId)).id,
+                  }
+                : {};
+            const blocks = action.combos
+                .filter((combo) => !findBlockedNumber(combo, entry.category, activeBlocked))
+                .map((combo) => ({
+                    number: combo,
+                    category: entry.category,
+                    payoutOverride: reducedRate,
+                    enabled: true,
+                    ...window,
+                }));
+
+            return {
+                entry: {
+                    ...entry,
+                    perComboTotals: perComboTotals.map((c) =>
+                        overCombos.has(c.combo) ? { ...c, payoutRate: Math.min(c.payoutRate, reducedRate) } : c
+                    ),
+                    ceiling: action,
+                },
+                action,
+                blocks,
+            };
+        }
+
+        default:
+            return { entry: { ...entry, ceiling: action }, action, blocks: [] };
+    }
+}
+
 /**
  * Calculate total amounts per number across all tickets for a given date
- * Used for ceiling alerts
+ * Used for ceiling alerts and hedging. When a product is given, `date` is a
+ * draw period id and every ticket sold for that draw counts.
  */
 export interface NumberTotal {
     number: string;
@@ -347,12 +848,13 @@ export interface NumberTotal {
 export function getNumberTotals(
     tickets: Ticket[],
     date: string,
-    perNumberMax: number
+    perNumberMax: number,
+    product?: Product
 ): Map<string, NumberTotal> {
     const numberMap = new Map<string, NumberTotal>();
 
     const filteredTickets = tickets.filter(
-        (t) => !t.deleted && t.date === date
+        (t) => isCountedTicket(t) && (t.date === date || (product !== undefined && isDateInDrawPeriod(t.date, date, product)))
     );
 
     for (const ticket of filteredTickets) {
@@ -361,9 +863,9 @@ export function getNumberTotals(
 
             for (const num of expanded) {
                 const key = `${entry.category}-${num}`;
-                const perComboAmount = entry.perComboTotals?.find(
-                    (p) => p.combo === num
-                )?.soldAmount ?? entry.unitPrice;
+                const perComboAmount = entry.perComboTotals
+                    ? sumByCombo(entry.perComboTotals).get(num) ?? entry.unitPrice
+                    : entry.unitPrice;
 
                 const existing = numberMap.get(key);
                 if (existing) {
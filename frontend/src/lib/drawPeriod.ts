@@ -1,20 +1,56 @@
 /**
  * Draw Period Utilities
- * Helper functions for Thai government lottery draw periods
+ * Helper functions for lottery draw periods, per product schedule.
+ * Without a product, the Thai government schedule (งวด 1/16) is used.
  */
 
+import { Product, Ticket, Settings, ReopenedDraw, DEFAULT_PRODUCTS, GOVERNMENT_PRODUCT_ID } from '@shared/schemas';
+
 export interface DrawPeriod {
-    id: string;        // e.g., "2025-01-01", "2025-01-16"
+    id: string;        // Draw date, e.g., "2025-01-01", "2025-01-16"
     label: string;     // e.g., "1 ม.ค. 68"
-    period: '1' | '16';
+    period: string;    // "1" | "16" for the government draw, otherwise the draw date
     month: number;
     year: number;
+    productId: string;
+}
+
+// =============================================================================
+// Products
+// =============================================================================
+
+/**
+ * Find a product by id, falling back to the government product
+ */
+export function findProduct(products: Product[] | undefined, id?: string): Product {
+    const list = products && products.length > 0 ? products : DEFAULT_PRODUCTS;
+    return (
+        list.find((p) => p.id === id) ??
+        list.find((p) => p.id === GOVERNMENT_PRODUCT_ID) ??
+        DEFAULT_PRODUCTS[0]
+    );
 }
 
+/**
+ * Products that currently take bets
+ */
+export function getEnabledProducts(products: Product[] | undefined): Product[] {
+    const list = products && products.length > 0 ? products : DEFAULT_PRODUCTS;
+    return list.filter((p) => p.enabled);
+}
+
+// =============================================================================
+// Draw Periods
+// =============================================================================
+
 /**
  * Generate draw period options for the last N months
  */
-export function getDrawPeriodOptions(monthsBack: number = 12): DrawPeriod[] {
+export function getDrawPeriodOptions(monthsBack: number = 12, product?: Product): DrawPeriod[] {
+    if (product && product.schedule.type === 'weekly') {
+        return getWeeklyDrawPeriodOptions(monthsBack, product);
+    }
+
     const options: DrawPeriod[] = [];
     const now = new Date();
 
@@ -24,22 +60,10 @@ export function getDrawPeriodOptions(monthsBack: number = 12): DrawPeriod[] {
         const month = date.getMonth();
 
         // วันที่ 16
-        options.push({
-            id: `${year}-${String(month + 1).padStart(2, '0')}-16`,
-            label: `16 ${getThaiMonthShort(month)} ${(year + 543) % 100}`,
-            period: '16',
-            month: month + 1,
-            year,
-        });
+        options.push(makeGovernmentPeriod(year, month, '16'));
 
         // วันที่ 1
-        options.push({
-            id: `${year}-${String(month + 1).padStart(2, '0')}-01`,
-            label: `1 ${getThaiMonthShort(month)} ${(year + 543) % 100}`,
-            period: '1',
-            month: month + 1,
-            year,
-        });
+        options.push(makeGovernmentPeriod(year, month, '1'));
     }
 
     // Sort by date descending
@@ -49,50 +73,74 @@ export function getDrawPeriodOptions(monthsBack: number = 12): DrawPeriod[] {
 /**
  * Get current draw period based on today's date
  */
-export function getCurrentDrawPeriod(): DrawPeriod {
-    const now = new Date();
-    const day = now.getDate();
-    const month = now.getMonth();
-    const year = now.getFullYear();
+export function getCurrentDrawPeriod(product?: Product): DrawPeriod {
+    return getDrawPeriodForDate(formatDateId(new Date()), product);
+}
+
+/**
+ * Get the draw period a ticket date (YYYY-MM-DD) is sold for
+ * - หวยรัฐบาล: วันที่ 17 ถึงวันที่ 1 ของเดือนถัดไป = งวดวันที่ 1,
+ *   วันที่ 2 ถึงวันที่ 16 = งวดวันที่ 16
+ * - weekly: the next draw day on or after the ticket date
+ */
+export function getDrawPeriodForDate(dateStr: string, product?: Product): DrawPeriod {
+    const date = parseDateId(dateStr);
+
+    if (product && product.schedule.type === 'weekly') {
+        const { weekdays } = product.schedule;
+        // Look ahead at most a week for the next draw day
+        for (let i = 0; i < 7 && weekdays.length > 0; i++) {
+            if (weekdays.includes(date.getDay())) break;
+            date.setDate(date.getDate() + 1);
+        }
+        return makeWeeklyPeriod(date, product);
+    }
 
-    if (day >= 18) {
+    const day = date.getDate();
+    const month = date.getMonth();
+    const year = date.getFullYear();
+
+    if (day >= 17) {
         // งวดวันที่ 1 ของเดือนถัดไป
         const nextMonth = month === 11 ? 0 : month + 1;
         const nextYear = month === 11 ? year + 1 : year;
-        return {
-            id: `${nextYear}-${String(nextMonth + 1).padStart(2, '0')}-01`,
-            label: `1 ${getThaiMonthShort(nextMonth)} ${(nextYear + 543) % 100}`,
-            period: '1',
-            month: nextMonth + 1,
-            year: nextYear,
-        };
+        return makeGovernmentPeriod(nextYear, nextMonth, '1');
     } else if (day <= 1) {
         // งวดวันที่ 1 ของเดือนนี้
-        return {
-            id: `${year}-${String(month + 1).padStart(2, '0')}-01`,
-            label: `1 ${getThaiMonthShort(month)} ${(year + 543) % 100}`,
-            period: '1',
-            month: month + 1,
-            year,
-        };
-    } else {
-        // งวดวันที่ 16 ของเดือนนี้
-        return {
-            id: `${year}-${String(month + 1).padStart(2, '0')}-16`,
-            label: `16 ${getThaiMonthShort(month)} ${(year + 543) % 100}`,
-            period: '16',
-            month: month + 1,
-            year,
-        };
+        return makeGovernmentPeriod(year, month, '1');
     }
+    // งวดวันที่ 16 ของเดือนนี้
+    return makeGovernmentPeriod(year, month, '16');
+}
+
+/**
+ * Get the draw before the given one, by stepping back to a date sold for an
+ * earlier draw
+ */
+export function getPreviousDrawPeriod(drawPeriodId: string, product?: Product): DrawPeriod {
+    const date = parseDateId(drawPeriodId);
+    let period = getDrawPeriodForDate(drawPeriodId, product);
+
+    // A draw never spans more than a month of ticket dates
+    for (let i = 0; i < 40 && period.id === drawPeriodId; i++) {
+        date.setDate(date.getDate() - 1);
+        period = getDrawPeriodForDate(formatDateId(date), product);
+    }
+
+    return period;
 }
 
 /**
  * Check if a ticket date belongs to a draw period
- * Draw period 1: วันที่ 18 ของเดือนก่อน ถึง วันที่ 1 ของเดือน
- * Draw period 16: วันที่ 2 ถึง วันที่ 17 ของเดือน
+ * Draw period 1: วันที่ 17 ของเดือนก่อน ถึง วันที่ 1 ของเดือน
+ * Draw period 16: วันที่ 2 ถึง วันที่ 16 ของเดือน
+ * Weekly products: the ticket date's next draw day is the period's draw date
  */
-export function isDateInDrawPeriod(ticketDate: string, drawPeriodId: string): boolean {
+export function isDateInDrawPeriod(ticketDate: string, drawPeriodId: string, product?: Product): boolean {
+    if (product && product.schedule.type === 'weekly') {
+        return getDrawPeriodForDate(ticketDate, product).id === drawPeriodId;
+    }
+
     const tDate = new Date(ticketDate);
     const tDay = tDate.getDate();
     const tMonth = tDate.getMonth();
@@ -104,12 +152,12 @@ export function isDateInDrawPeriod(ticketDate: string, drawPeriodId: string): bo
     const dpYear = dpDate.getFullYear();
 
     if (dpDay === 1) {
-        // งวดวันที่ 1: บิลวันที่ 18 ของเดือนก่อน ถึง วันที่ 1 ของเดือนนี้
+        // งวดวันที่ 1: บิลวันที่ 17 ของเดือนก่อน ถึง วันที่ 1 ของเดือนนี้
         const prevMonth = dpMonth === 0 ? 11 : dpMonth - 1;
         const prevYear = dpMonth === 0 ? dpYear - 1 : dpYear;
 
-        // บิลในช่วง 18-31 ของเดือนก่อน
-        if (tYear === prevYear && tMonth === prevMonth && tDay >= 18) {
+        // บิลในช่วง 17-31 ของเดือนก่อน
+        if (tYear === prevYear && tMonth === prevMonth && tDay >= 17) {
             return true;
         }
         // บิลในวันที่ 1 ของเดือนเป้าหมาย
@@ -117,8 +165,8 @@ export function isDateInDrawPeriod(ticketDate: string, drawPeriodId: string): bo
             return true;
         }
     } else if (dpDay === 16) {
-        // งวดวันที่ 16: บิลวันที่ 2-17 ของเดือนนี้
-        if (tYear === dpYear && tMonth === dpMonth && tDay >= 2 && tDay <= 17) {
+        // งวดวันที่ 16: บิลวันที่ 2-16 ของเดือนนี้
+        if (tYear === dpYear && tMonth === dpMonth && tDay >= 2 && tDay <= 16) {
             return true;
         }
     }
@@ -126,6 +174,154 @@ export function isDateInDrawPeriod(ticketDate: string, drawPeriodId: string): bo
     return false;
 }
 
+// =============================================================================
+// Cut-off (ปิดรับ)
+// =============================================================================
+
+/**
+ * When a draw stops taking bills: the product's draw time on the draw date,
+ * less its cut-off minutes (e.g. 16:00 less 60 minutes closes at 15:00)
+ */
+export function getDrawCutoff(drawPeriodId: string, product?: Product): Date {
+    const { schedule } = product ?? findProduct(undefined, GOVERNMENT_PRODUCT_ID);
+    const [hours, minutes] = schedule.drawTime.split(':').map(Number);
+    const cutoff = parseDateId(drawPeriodId);
+    cutoff.setHours(hours, minutes - schedule.cutoffMinutes, 0, 0);
+    return cutoff;
+}
+
+/**
+ * The admin reopening of a draw, if any
+ */
+export function findReopenedDraw(
+    reopenedDraws: ReopenedDraw[] | undefined,
+    drawPeriodId: string,
+    product?: Product
+): ReopenedDraw | undefined {
+    const productId = product?.id ?? GOVERNMENT_PRODUCT_ID;
+    return reopenedDraws?.find((r) => r.productId === productId && r.drawId === drawPeriodId);
+}
+
+/**
+ * Whether a draw no longer takes bills or edits: past its cut-off and not
+ * reopened by an admin
+ */
+export function isDrawClosed(
+    drawPeriodId: string,
+    product: Product | undefined,
+    reopenedDraws: ReopenedDraw[] | undefined,
+    now: Date = new Date()
+): boolean {
+    if (now < getDrawCutoff(drawPeriodId, product)) return false;
+    return !findReopenedDraw(reopenedDraws, drawPeriodId, product);
+}
+
+/**
+ * The ticket date to key a sale made now under: today, or a later day once
+ * today's draw is past its cut-off, so late sales go to the next draw
+ */
+export function getSaleDate(product?: Product, now: Date = new Date()): string {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    // The next draw's cut-off is always later than now
+    for (let i = 0; i < 40; i++) {
+        const draw = getDrawPeriodForDate(formatDateId(date), product);
+        if (now < getDrawCutoff(draw.id, product)) break;
+        date.setDate(date.getDate() + 1);
+    }
+
+    return formatDateId(date);
+}
+
+/**
+ * Whether the draw a ticket is sold for is closed
+ */
+export function isTicketDrawClosed(
+    ticket: Pick<Ticket, 'round' | 'date'>,
+    settings: Pick<Settings, 'products' | 'reopenedDraws'>,
+    now: Date = new Date()
+): boolean {
+    const product = findProduct(settings.products, ticket.round);
+    const draw = getDrawPeriodForDate(ticket.date, product);
+    return isDrawClosed(draw.id, product, settings.reopenedDraws, now);
+}
+
+/**
+ * Thrown when a bill of a draw past its cut-off would be entered, edited or
+ * deleted, and no admin has reopened the draw
+ */
+export class DrawClosedError extends Error {
+    constructor(public readonly draw: DrawPeriod) {
+        super(`งวด ${draw.label} ปิดรับแล้ว`);
+        this.name = 'DrawClosedError';
+    }
+}
+
+/**
+ * Throws DrawClosedError when the draw a ticket is sold for is closed
+ */
+export function assertTicketDrawOpen(
+    ticket: Pick<Ticket, 'round' | 'date'>,
+    settings: Pick<Settings, 'products' | 'reopenedDraws'>,
+    now: Date = new Date()
+): void {
+    const product = findProduct(settings.products, ticket.round);
+    const draw = getDrawPeriodForDate(ticket.date, product);
+    if (isDrawClosed(draw.id, product, settings.reopenedDraws, now)) throw new DrawClosedError(draw);
+}
+
+/**
+ * Draw periods of a weekly product, newest first (includes the upcoming draw)
+ */
+function getWeeklyDrawPeriodOptions(monthsBack: number, product: Product): DrawPeriod[] {
+    const options: DrawPeriod[] = [];
+    const current = parseDateId(getCurrentDrawPeriod(product).id);
+    const earliest = new Date(current.getFullYear(), current.getMonth() - monthsBack, current.getDate());
+
+    for (const date = current; date > earliest; date.setDate(date.getDate() - 1)) {
+        if (product.schedule.weekdays.includes(date.getDay())) {
+            options.push(makeWeeklyPeriod(new Date(date), product));
+        }
+    }
+
+    return options;
+}
+
+function makeGovernmentPeriod(year: number, month: number, period: '1' | '16'): DrawPeriod {
+    return {
+        id: `${year}-${String(month + 1).padStart(2, '0')}-${period === '1' ? '01' : '16'}`,
+        label: `${period} ${getThaiMonthShort(month)} ${(year + 543) % 100}`,
+        period,
+        month: month + 1,
+        year,
+        productId: GOVERNMENT_PRODUCT_ID,
+    };
+}
+
+function makeWeeklyPeriod(date: Date, product: Product): DrawPeriod {
+    const id = formatDateId(date);
+    return {
+        id,
+        label: `${date.getDate()} ${getThaiMonthShort(date.getMonth())} ${(date.getFullYear() + 543) % 100}`,
+        period: id,
+        month: date.getMonth() + 1,
+        year: date.getFullYear(),
+        productId: product.id,
+    };
+}
+
+/**
+ * Parse YYYY-MM-DD as a local date
+ */
+function parseDateId(dateStr: string): Date {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+function formatDateId(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
 /**
  * Get Thai month name (short)
  */
@@ -54,7 +54,7 @@ export function validateNumber(raw: string, category: Category): void {
 /**
  * Expands a raw lottery number into all concrete combinations based on category
  * 
- * @param raw - The raw number string (2 or 3 digits)
+ * @param raw - The raw number string (1, 2 or 3 digits)
  * @param category - The category type
  * @returns Array of expanded number combinations
  * 
@@ -62,22 +62,25 @@ export function validateNumber(raw: string, category: Category): void {
  * expandNumber("123", "3top") // ["123"]
  * expandNumber("123", "3tod") // ["123", "132", "213", "231", "312", "321"]
  * expandNumber("112", "3tod") // ["112", "121", "211"]
+ * expandNumber("123", "3back") // same as 3tod, checked against the bottom prizes
  * expandNumber("12", "2tod")  // ["12", "21"]
  * expandNumber("11", "2tod")  // ["11"]
+ * expandNumber("34", "2back") // ["34", "43"]
+ * expandNumber("7", "1top")   // ["7"]
  */
 export function expandNumber(raw: string, category: Category): string[] {
     // Validate input
     validateNumber(raw, category);
 
-    // Handle 3-digit tod category (permutations)
-    if (category === '3tod') {
+    // Handle 3-digit tod/back categories (permutations)
+    if (category === '3tod' || category === '3back') {
         const chars = raw.split('');
         const permutations = getUniquePermutations(chars);
         return permutations.map(p => p.join('')).sort();
     }
 
-    // Handle 2-digit tod category (swap)
-    if (category === '2tod') {
+    // Handle 2-digit tod/back categories (swap)
+    if (category === '2tod' || category === '2back') {
         const swapped = raw[1] + raw[0];
         if (raw === swapped) {
             return [raw];
@@ -94,14 +97,14 @@ export function expandNumber(raw: string, category: Category): string[] {
  * Useful for UI display and validation
  */
 export function getExpansionCount(raw: string, category: Category): number {
-    if (category === '3tod') {
+    if (category === '3tod' || category === '3back') {
         const unique = new Set(raw.split(''));
         if (unique.size === 1) return 1; // All same digits (111)
         if (unique.size === 2) return 3; // Two same digits (112, 122)
         return 6; // All different digits (123)
     }
 
-    if (category === '2tod') {
+    if (category === '2tod' || category === '2back') {
         return raw[0] === raw[1] ? 1 : 2;
     }
 
@@ -110,9 +113,10 @@ export function getExpansionCount(raw: string, category: Category): number {
 
 /**
  * Check if a category supports number expansion
+ * (tod and back bets cover every order of their digits)
  */
 export function isExpandableCategory(category: Category): boolean {
-    return ['3tod', '2tod'].includes(category);
+    return ['3tod', '3back', '2tod', '2back'].includes(category);
 }
 
 /**
@@ -126,3 +130,109 @@ export function getExpansionDescription(raw: string, category: Category): string
     const expanded = expandNumber(raw, category);
     return expanded.join(', ');
 }
+
+// =============================================================================
+// Shorthand Sets
+// =============================================================================
+
+/**
+ * Named bet shorthands that stand for a fixed set of numbers
+ * - door19: 19 ประตู — every 2-digit number containing the digit
+ * - front:  รูดหน้า / สิบเลขหน้า — the digit in front (d0–d9)
+ * - back:   รูดหลัง / สิบเลขหลัง — the digit at the back (0d–9d)
+ * - double: เบิ้ล — 00, 11, …, 99
+ * - triple: ตอง — 000, 111, …, 999
+ */
+export type ShorthandKind = 'door19' | 'front' | 'back' | 'double' | 'triple';
+
+export const SHORTHAND_LABELS: Record<ShorthandKind, string> = {
+    door19: '19 ประตู',
+    front: 'รูดหน้า',
+    back: 'รูดหลัง',
+    double: 'เบิ้ล',
+    triple: 'ตอง',
+};
+
+export interface Shorthand {
+    kind: ShorthandKind;
+    digit?: string; // Required for door19/front/back
+}
+
+const DIGITS = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+/**
+ * Check if a shorthand needs a digit to expand
+ */
+export function shorthandNeedsDigit(kind: ShorthandKind): boolean {
+    return kind === 'door19' || kind === 'front' || kind === 'back';
+}
+
+/**
+ * Digit length of the numbers a shorthand produces
+ */
+export function getShorthandDigitLength(kind: ShorthandKind): number {
+    return kind === 'triple' ? 3 : 2;
+}
+
+/**
+ * Expands a shorthand into its concrete numbers
+ *
+ * @example
+ * expandShorthand({ kind: 'front', digit: '5' })  // ["50", "51", ..., "59"]
+ * expandShorthand({ kind: 'door19', digit: '5' }) // 19 numbers: "05", ..., "50", ..., "95"
+ * expandShorthand({ kind: 'double' })             // ["00", "11", ..., "99"]
+ */
+export function expandShorthand({ kind, digit }: Shorthand): string[] {
+    if (shorthandNeedsDigit(kind) && (!digit || !/^\d$/.test(digit))) {
+        throw new Error(`Shorthand "${SHORTHAND_LABELS[kind]}" requires a single digit`);
+    }
+
+    switch (kind) {
+        case 'front':
+            return DIGITS.map((d) => digit + d);
+        case 'back':
+            return DIGITS.map((d) => d + digit);
+        case 'door19': {
+            const numbers = new Set([...DIGITS.map((d) => digit + d), ...DIGITS.map((d) => d + digit)]);
+            return [...numbers].sort();
+        }
+        case 'double':
+            return DIGITS.map((d) => d + d);
+        case 'triple':
+            return DIGITS.map((d) => d + d + d);
+    }
+}
+
+// Longer keywords first so "รูดหน้า" is not read as "รูด"
+const SHORTHAND_KEYWORDS: [string, ShorthandKind][] = [
+    ['19ประตู', 'door19'],
+    ['สิบเลขหน้า', 'front'],
+    ['สิบเลขหลัง', 'back'],
+    ['รูดหน้า', 'front'],
+    ['รูดหลัง', 'back'],
+    ['รูด', 'door19'],
+    ['เบิ้ล', 'double'],
+    ['ตอง', 'triple'],
+];
+
+/**
+ * Parse shorthand text as agents write it, e.g. "5 19 ประตู", "รูด 5",
+ * "รูดหน้า 3", "สิบเลขหลัง 7", "เบิ้ล", "ตอง"
+ *
+ * @returns The shorthand, or null if the text is not a shorthand
+ */
+export function parseShorthand(text: string): Shorthand | null {
+    const compact = text.replace(/\s+/g, '');
+
+    for (const [keyword, kind] of SHORTHAND_KEYWORDS) {
+        if (!compact.includes(keyword)) continue;
+
+        const rest = compact.replace(keyword, '');
+        if (!shorthandNeedsDigit(kind)) {
+            return rest === '' ? { kind } : null;
+        }
+        return /^\d$/.test(rest) ? { kind, digit: rest } : null;
+    }
+
+    return null;
+}
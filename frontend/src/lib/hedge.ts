@@ -0,0 +1,168 @@
+/**
+ * Hedging (ตัดส่ง)
+ *
+ * When more is sold on a combo than we want to hold, the excess is forwarded
+ * to an upstream dealer. Hedge tickets record what was sent; their entries
+ * carry the upstream's rates, so the win engine evaluates them like any bet
+ * and whatever they win comes back to us.
+ */
+
+import { Ticket, Entry, Settings, Category, Payouts, HedgeTicket } from '@shared/schemas';
+import { getNumberTotals, resolvePayouts, computeEntryExpectedPayout } from './compute';
+import { findProduct } from './drawPeriod';
+import { isExpandableCategory } from './expand';
+import { evaluateEntry, DrawResult } from './payout';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Amount of one combo to pass upstream
+ */
+export interface HedgeLine {
+    category: Category;
+    combo: string;
+    sold: number;       // Total sold on the combo in the draw
+    keep: number;       // Most we hold ourselves
+    alreadySent: number;
+    amount: number;     // Still to send: sold − keep − alreadySent
+    payoutRate: number; // Upstream rate
+}
+
+/**
+ * What the draw's hedge tickets cost and cover
+ */
+export interface HedgeSummary {
+    stake: number;     // Sent upstream
+    coverage: number;  // Upstream would pay if every hedged combo won
+    winnings: number;  // Upstream pays on the actual result
+}
+
+/**
+ * Permutation bets win once per set of digits, so they are hedged per set
+ */
+function hedgeKey(category: Category, combo: string): string {
+    const digits = isExpandableCategory(category) ? combo.split('').sort().join('') : combo;
+    return `${category}-${digits}`;
+}
+
+/**
+ * Upstream payout table: our own rates for the product, overridden per category
+ */
+export function resolveUpstreamPayouts(settings: Settings, round: string): Payouts {
+    return { ...resolvePayouts(settings, { productId: round }), ...settings.hedging?.payouts };
+}
+
+/**
+ * Amount already sent upstream per combo
+ */
+export function getHedgedAmounts(hedges: HedgeTicket[]): Map<string, number> {
+    const sent = new Map<string, number>();
+    for (const hedge of hedges) {
+        if (hedge.deleted) continue;
+        for (const entry of hedge.entries) {
+            const key = hedgeKey(entry.category, entry.raw);
+            sent.set(key, (sent.get(key) ?? 0) + (entry.total ?? 0));
+        }
+    }
+    return sent;
+}
+
+/**
+ * Combos of a draw sold beyond the per-category keep limit, minus what has
+ * already been sent. Categories without a keep limit are never hedged.
+ */
+export function computeHedgeLines(
+    tickets: Ticket[],
+    hedges: HedgeTicket[],
+    settings: Settings,
+    round: string,
+    drawDate: string
+): HedgeLine[] {
+    const keepLimits = settings.hedging?.keep ?? {};
+    const product = findProduct(settings.products, round);
+    const totals = getNumberTotals(
+        tickets.filter((t) => t.round === round),
+        drawDate,
+        Infinity,
+        product
+    );
+    const sent = getHedgedAmounts(hedges.filter((h) => h.round === round && h.drawDate === drawDate));
+    const payouts = resolveUpstreamPayouts(settings, round);
+
+    // Every permutation of a tod/back bet carries the full price; keep the largest
+    const sold = new Map<string, { category: Category; combo: string; amount: number }>();
+    for (const total of totals.values()) {
+        if (keepLimits[total.category] === undefined) continue;
+        const key = hedgeKey(total.category, total.number);
+        const existing = sold.get(key);
+        if (!existing || total.totalAmount > existing.amount) {
+            sold.set(key, { category: total.category, combo: total.number, amount: total.totalAmount });
+        }
+    }
+
+    const lines: HedgeLine[] = [];
+    for (const [key, { category, combo, amount }] of sold) {
+        const keep = keepLimits[category] ?? 0;
+        const alreadySent = sent.get(key) ?? 0;
+        const toSend = amount - keep - alreadySent;
+        if (toSend <= 0) continue;
+
+        lines.push({
+            category,
+            combo,
+            sold: amount,
+            keep,
+            alreadySent,
+            amount: toSend,
+            payoutRate: payouts[category],
+        });
+    }
+
+    return lines.sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Entries of an outbound hedge ticket, one per combo at the upstream rate
+ */
+export function buildHedgeEntries(lines: HedgeLine[]): Entry[] {
+    return lines.map((line) => ({
+        id: uuidv4(),
+        category: line.category,
+        raw: line.combo,
+        expanded: [line.combo],
+        unitPrice: line.amount,
+        quantity: 1,
+        perComboTotals: [
+            {
+                combo: line.combo,
+                unitPrice: line.amount,
+                quantity: 1,
+                soldAmount: line.amount,
+                payoutRate: line.payoutRate,
+            },
+        ],
+        total: line.amount,
+    }));
+}
+
+/**
+ * Totals of the hedge tickets of a draw, with upstream winnings once the
+ * result is known
+ */
+export function summarizeHedges(hedges: HedgeTicket[], result?: DrawResult | null): HedgeSummary {
+    let stake = 0;
+    let coverage = 0;
+    let winnings = 0;
+
+    for (const hedge of hedges) {
+        if (hedge.deleted) continue;
+        stake += hedge.total;
+        for (const entry of hedge.entries) {
+            coverage += computeEntryExpectedPayout(entry);
+            if (result) {
+                winnings += evaluateEntry(entry, result).reduce((sum, line) => sum + line.amount, 0);
+            }
+        }
+    }
+
+    return { stake, coverage, winnings };
+}
@@ -0,0 +1,149 @@
+/**
+ * Agent Ledger
+ *
+ * Balances and statements from ledger entries. A positive balance means the
+ * agent owes us; a negative balance means we owe the agent. Whatever is left
+ * at the end of a draw is carried forward as the next draw's opening balance.
+ * Each product keeps its own balance, as its draws can fall on the same date
+ * as another product's.
+ */
+
+import {
+    Agent,
+    Ticket,
+    LedgerEntry,
+    LedgerEntryType,
+    CreateLedgerEntry,
+    GOVERNMENT_PRODUCT_ID,
+} from '@shared/schemas';
+import { computeTicketCommission } from './compute';
+import { evaluateTicket, DrawResult, PayoutSource } from './payout';
+import { isCountedTicket } from './ticketStatus';
+
+// Effect of each entry type on what the agent owes us
+const LEDGER_SIGNS: Record<LedgerEntryType, number> = {
+    sale: 1,
+    commission: -1,
+    winnings: -1,
+    cashReceived: -1,
+    cashPaid: 1,
+    adjustment: 1,
+};
+
+export interface StatementLine {
+    entry: LedgerEntry;
+    delta: number;
+    balance: number; // Running balance after this entry
+}
+
+export interface AgentStatement {
+    agentId: string;
+    drawDate: string;
+    openingBalance: number; // ยอดยกมา
+    lines: StatementLine[];
+    closingBalance: number; // ยอดยกไป
+}
+
+/**
+ * Signed change an entry makes to the agent's balance
+ */
+export function getLedgerDelta(entry: Pick<LedgerEntry, 'type' | 'amount'>): number {
+    return LEDGER_SIGNS[entry.type] * entry.amount;
+}
+
+function compareEntries(a: LedgerEntry, b: LedgerEntry): number {
+    return a.drawDate.localeCompare(b.drawDate) || a.createdAt.localeCompare(b.createdAt);
+}
+
+/**
+ * Live entries of an agent, of one product when given (entries from before
+ * products were kept belong to the government draw)
+ */
+function getAgentEntries(entries: LedgerEntry[], agentId: string, productId?: string): LedgerEntry[] {
+    return entries.filter(
+        (e) =>
+            !e.deleted &&
+            e.agentId === agentId &&
+            (!productId || (e.productId ?? GOVERNMENT_PRODUCT_ID) === productId)
+    );
+}
+
+/**
+ * Current balance of an agent, optionally only up to (and including) a draw
+ * and only for one product; without a product, all products together
+ */
+export function computeAgentBalance(
+    entries: LedgerEntry[],
+    agentId: string,
+    upToDrawDate?: string,
+    productId?: string
+): number {
+    return getAgentEntries(entries, agentId, productId)
+        .filter((e) => !upToDrawDate || e.drawDate <= upToDrawDate)
+        .reduce((sum, e) => sum + getLedgerDelta(e), 0);
+}
+
+/**
+ * Statement of one draw: balance carried in from earlier draws, the draw's
+ * entries with a running balance, and the balance carried forward. Pass the
+ * draw's product so another product's draw on the same date stays out.
+ */
+export function buildAgentStatement(
+    entries: LedgerEntry[],
+    agentId: string,
+    drawDate: string,
+    productId?: string
+): AgentStatement {
+    const agentEntries = getAgentEntries(entries, agentId, productId).sort(compareEntries);
+
+    const openingBalance = agentEntries
+        .filter((e) => e.drawDate < drawDate)
+        .reduce((sum, e) => sum + getLedgerDelta(e), 0);
+
+    let balance = openingBalance;
+    const lines: StatementLine[] = agentEntries
+        .filter((e) => e.drawDate === drawDate)
+        .map((entry) => {
+            const delta = getLedgerDelta(entry);
+            balance += delta;
+            return { entry, delta, balance };
+        });
+
+    return { agentId, drawDate, openingBalance, lines, closingBalance: balance };
+}
+
+/**
+ * Ledger entries for an agent's tickets in a draw: sales, commission and
+ * (once the result is known) winnings. Zero amounts are skipped.
+ */
+export function buildDrawLedgerEntries(
+    tickets: Ticket[],
+    agent: Pick<Agent, 'id' | 'commission'>,
+    drawDate: string,
+    productId: string,
+    createdBy: string,
+    result?: DrawResult | null,
+    payouts?: PayoutSource
+): CreateLedgerEntry[] {
+    const agentTickets = tickets.filter((t) => isCountedTicket(t) && t.agentId === agent.id);
+
+    const amounts: Partial<Record<LedgerEntryType, number>> = {
+        sale: agentTickets.reduce((sum, t) => sum + t.billTotal, 0),
+        commission: agentTickets.reduce((sum, t) => sum + computeTicketCommission(t, agent.commission), 0),
+        winnings: result
+            ? agentTickets.reduce((sum, t) => sum + evaluateTicket(t, result, payouts).amount, 0)
+            : 0,
+    };
+
+    return (Object.entries(amounts) as [LedgerEntryType, number][])
+        .filter(([, amount]) => amount > 0)
+        .map(([type, amount]) => ({
+            agentId: agent.id,
+            type,
+            amount,
+            drawDate,
+            productId,
+            auto: true,
+            createdBy,
+        }));
+}
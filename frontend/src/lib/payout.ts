@@ -1,49 +1,293 @@
-import { Ticket, LotteryResult, Category } from '@shared/schemas';
+/**
+ * Win Evaluation Engine
+ *
+ * Single source of truth for deciding which bets win against a draw result
+ * and how much they pay. Dashboard, LotteryCheck, AgentDetailModal and the
+ * exports all go through this module.
+ *
+ * Matching rules:
+ * - Straight categories (3top, 3down, 2top, 2down) win on an exact match.
+ * - Permutation categories win when the digits match in any order, at most
+ *   once per entry per prize: tod against the top prize, back against the
+ *   bottom prize.
+ * - Running categories (1top, 1down) win once when the digit appears anywhere
+ *   in 3 ตัวบน or 2 ตัวล่าง respectively.
+ */
+
+import {
+    Ticket,
+    Entry,
+    LotteryResult,
+    Category,
+    Payouts,
+    PerComboTotal,
+    DEFAULT_PAYOUTS,
+} from '@shared/schemas';
+import { isCountedTicket } from './ticketStatus';
+
+// =============================================================================
+// Types
+// =============================================================================
 
 /**
- * Calculates the actual payout for a set of tickets based on the lottery result.
+ * The winning numbers needed for evaluation (a stored LotteryResult qualifies)
  */
-export function computeActualPayout(tickets: Ticket[], result: LotteryResult): number {
-    if (!result) return 0;
+export type DrawResult = Pick<
+    LotteryResult,
+    'firstPrize' | 'threeTop' | 'threeDown' | 'twoDown' | 'threeTod3' | 'threeTod4'
+>;
 
-    let totalPayout = 0;
-
-    // Extract winning numbers
-    const { threeTop, twoDown, threeTod3, threeTod4 } = result;
-    const twoTop = threeTop ? threeTop.slice(-2) : "";
-
-    // Helper to check if a number matches winning numbers for a category
-    const isWin = (combo: string, category: Category): boolean => {
-        switch (category) {
-            case '3top':
-            case '3tod':
-                return threeTop === combo;
-            case '2top':
-                return twoTop === combo;
-            case '2down':
-                return twoDown === combo;
-            case '3down':
-                // Check both 3-digit suffixes (3 ตัวล่าง 2 รางวัล)
-                return (threeTod3 === combo) || (threeTod4 === combo);
-            default:
-                return false;
-        }
+export type PrizeKey = 'threeTop' | 'twoTop' | 'twoDown' | 'threeDown1' | 'threeDown2';
+
+export const PRIZE_LABELS: Record<PrizeKey, string> = {
+    threeTop: '3 ตัวบน',
+    twoTop: '2 ตัวบน',
+    twoDown: '2 ตัวล่าง',
+    threeDown1: 'เลขท้าย 3 ตัว ชุด 1',
+    threeDown2: 'เลขท้าย 3 ตัว ชุด 2',
+};
+
+/**
+ * One winning combo of an entry
+ */
+export interface WinLine {
+    category: Category;
+    combo: string;       // The combo that was bet
+    prize: PrizeKey;     // Which prize it matched
+    matched: string;     // The winning number it matched
+    rate: number;        // Payout rate applied
+    unitPrice: number;
+    quantity: number;
+    amount: number;      // rate × unitPrice × quantity
+}
+
+export interface EntryWin {
+    entry: Entry;
+    lines: WinLine[];
+    amount: number;
+}
+
+export interface TicketWin {
+    ticket: Ticket;
+    entries: EntryWin[];
+    amount: number;
+}
+
+// =============================================================================
+// Prize Extraction
+// =============================================================================
+
+interface Prize {
+    key: PrizeKey;
+    number: string;
+}
+
+/**
+ * Resolve the prizes each category is checked against
+ */
+function getPrizes(result: DrawResult): Record<'top3' | 'top2' | 'bottom3' | 'bottom2', Prize[]> {
+    const threeTop = result.threeTop || (result.firstPrize ? result.firstPrize.slice(-3) : '');
+    const twoTop = threeTop ? threeTop.slice(-2) : '';
+
+    // Two 3-digit bottom draws; fall back to the single threeDown field for older records
+    const bottom3: Prize[] = [];
+    if (result.threeTod3 || result.threeTod4) {
+        if (result.threeTod3) bottom3.push({ key: 'threeDown1', number: result.threeTod3 });
+        if (result.threeTod4) bottom3.push({ key: 'threeDown2', number: result.threeTod4 });
+    } else if (result.threeDown) {
+        bottom3.push({ key: 'threeDown1', number: result.threeDown });
+    }
+
+    return {
+        top3: threeTop ? [{ key: 'threeTop', number: threeTop }] : [],
+        top2: twoTop ? [{ key: 'twoTop', number: twoTop }] : [],
+        bottom3,
+        bottom2: result.twoDown ? [{ key: 'twoDown', number: result.twoDown }] : [],
     };
+}
 
-    for (const ticket of tickets) {
-        if (ticket.deleted) continue;
+type MatchMode = 'exact' | 'anyOrder' | 'containsDigit';
+
+const CATEGORY_RULES: Record<Category, { prizes: 'top3' | 'top2' | 'bottom3' | 'bottom2'; match: MatchMode }> = {
+    '3top': { prizes: 'top3', match: 'exact' },
+    '3tod': { prizes: 'top3', match: 'anyOrder' },
+    '3down': { prizes: 'bottom3', match: 'exact' },
+    '3back': { prizes: 'bottom3', match: 'anyOrder' },
+    '2top': { prizes: 'top2', match: 'exact' },
+    '2tod': { prizes: 'top2', match: 'anyOrder' },
+    '2down': { prizes: 'bottom2', match: 'exact' },
+    '2back': { prizes: 'bottom2', match: 'anyOrder' },
+    '1top': { prizes: 'top3', match: 'containsDigit' },
+    '1down': { prizes: 'bottom2', match: 'containsDigit' },
+};
+
+function sortDigits(value: string): string {
+    return value.split('').sort().join('');
+}
+
+/**
+ * Combos of an entry with their stored rates.
+ * Entries saved without perComboTotals fall back to the raw number at the
+ * given payout table's rate.
+ */
+function getEntryCombos(entry: Entry, payouts: Payouts): PerComboTotal[] {
+    if (entry.perComboTotals && entry.perComboTotals.length > 0) {
+        return entry.perComboTotals;
+    }
+
+    return (entry.expanded ?? [entry.raw]).map((combo) => ({
+        combo,
+        unitPrice: entry.unitPrice,
+        quantity: entry.quantity,
+        soldAmount: entry.unitPrice * entry.quantity,
+        payoutRate: payouts[entry.category] ?? DEFAULT_PAYOUTS[entry.category],
+    }));
+}
+
+function toWinLine(category: Category, item: PerComboTotal, prize: Prize): WinLine {
+    return {
+        category,
+        combo: item.combo,
+        prize: prize.key,
+        matched: prize.number,
+        rate: item.payoutRate,
+        unitPrice: item.unitPrice,
+        quantity: item.quantity,
+        amount: item.payoutRate * item.unitPrice * item.quantity,
+    };
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
 
-        for (const entry of ticket.entries) {
-            if (!entry.perComboTotals) continue;
+/**
+ * Evaluate a single entry against a draw result
+ *
+ * @param entry - Entry with perComboTotals (as saved on a ticket)
+ * @param result - Draw result
+ * @param payouts - Fallback rates for entries without perComboTotals
+ * @returns Every winning combo line (empty when the entry lost)
+ */
+export function evaluateEntry(
+    entry: Entry,
+    result: DrawResult,
+    payouts: Payouts = DEFAULT_PAYOUTS
+): WinLine[] {
+    const rule = CATEGORY_RULES[entry.category];
+    if (!rule) return [];
+
+    const prizes = getPrizes(result)[rule.prizes];
+    const combos = getEntryCombos(entry, payouts);
+    const lines: WinLine[] = [];
+
+    for (const prize of prizes) {
+        if (rule.match === 'exact') {
+            for (const item of combos) {
+                if (item.combo === prize.number) {
+                    lines.push(toWinLine(entry.category, item, prize));
+                }
+            }
+            continue;
+        }
 
-            for (const item of entry.perComboTotals) {
-                if (isWin(item.combo, entry.category)) {
-                    // Actual Payout = Payout Rate * Unit Price * Quantity
-                    totalPayout += item.payoutRate * item.unitPrice * item.quantity;
+        // Running digits pay once even if the digit appears more than once
+        if (rule.match === 'containsDigit') {
+            for (const item of combos) {
+                if (prize.number.includes(item.combo)) {
+                    lines.push(toWinLine(entry.category, item, prize));
                 }
             }
+            continue;
+        }
+
+        // Permutation bets pay once per prize: prefer the exact permutation,
+        // otherwise any combo with the same digits (unexpanded legacy entries).
+        // Every band of a tiered combo pays.
+        const target = sortDigits(prize.number);
+        const hit =
+            combos.find((item) => item.combo === prize.number) ??
+            combos.find((item) => sortDigits(item.combo) === target);
+        if (hit) {
+            for (const item of combos.filter((c) => c.combo === hit.combo)) {
+                lines.push(toWinLine(entry.category, item, prize));
+            }
         }
     }
 
-    return totalPayout;
+    return lines;
+}
+
+/**
+ * Payout table for entries without rates of their own (legacy entries), or a
+ * function giving it per ticket
+ */
+export type PayoutSource = Payouts | ((ticket: Ticket) => Payouts);
+
+/**
+ * Evaluate every entry of a ticket
+ */
+export function evaluateTicket(
+    ticket: Ticket,
+    result: DrawResult,
+    payouts: PayoutSource = DEFAULT_PAYOUTS
+): TicketWin {
+    const ticketPayouts = typeof payouts === 'function' ? payouts(ticket) : payouts;
+    const entries: EntryWin[] = [];
+    let amount = 0;
+
+    for (const entry of ticket.entries) {
+        const lines = evaluateEntry(entry, result, ticketPayouts);
+        if (lines.length === 0) continue;
+
+        const entryAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+        entries.push({ entry, lines, amount: entryAmount });
+        amount += entryAmount;
+    }
+
+    return { ticket, entries, amount };
+}
+
+/**
+ * Evaluate a set of tickets, returning only tickets with at least one win
+ */
+export function evaluateTickets(
+    tickets: Ticket[],
+    result: DrawResult,
+    payouts: PayoutSource = DEFAULT_PAYOUTS
+): TicketWin[] {
+    const wins: TicketWin[] = [];
+
+    for (const ticket of tickets) {
+        if (!isCountedTicket(ticket)) continue;
+        const win = evaluateTicket(ticket, result, payouts);
+        if (win.amount > 0) wins.push(win);
+    }
+
+    return wins;
+}
+
+/**
+ * Calculates the actual payout for a set of tickets based on the lottery result.
+ */
+export function computeActualPayout(
+    tickets: Ticket[],
+    result: DrawResult | null,
+    payouts: PayoutSource = DEFAULT_PAYOUTS
+): number {
+    if (!result) return 0;
+
+    return evaluateTickets(tickets, result, payouts).reduce((sum, win) => sum + win.amount, 0);
+}
+
+/**
+ * Check a single number against a draw result (1 baht at rate 1)
+ */
+export function evaluateCombo(combo: string, category: Category, result: DrawResult): WinLine | null {
+    const [line] = evaluateEntry(
+        { id: combo, category, raw: combo, expanded: [combo], unitPrice: 1, quantity: 1 },
+        result,
+        { ...DEFAULT_PAYOUTS, [category]: 1 }
+    );
+    return line ?? null;
 }
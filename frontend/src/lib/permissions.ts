@@ -0,0 +1,60 @@
+/**
+ * Roles & Permissions (สิทธิ์ผู้ใช้)
+ *
+ * What each role may do is the matrix ROLE_PERMISSIONS. The app store and the
+ * storage writes check it, so hiding a button is never the only thing that
+ * stops a user. Without a staff sign-in nothing is allowed.
+ */
+
+import { Permission, User, UserRole, ROLE_PERMISSIONS, PERMISSION_LABELS } from '@shared/schemas';
+
+export type ActingUser = Pick<User, 'role'> & Partial<Pick<User, 'id' | 'username' | 'agentId'>>;
+
+/**
+ * Thrown when the acting user's role does not allow a write
+ */
+export class PermissionError extends Error {
+    constructor(public readonly permission: Permission) {
+        super(`ไม่มีสิทธิ์${PERMISSION_LABELS[permission]}`);
+        this.name = 'PermissionError';
+    }
+}
+
+export function hasPermission(user: ActingUser | null, permission: Permission): boolean {
+    // Signed-out sessions get nothing, so signing out never widens a role
+    return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+/**
+ * Agent users only work with their own agent's bills
+ */
+export function canAccessAgent(user: ActingUser | null, agentId: string): boolean {
+    return user?.role !== 'agent' || user.agentId === agentId;
+}
+
+/**
+ * Throws PermissionError unless the user has the permission (and, when the
+ * write is about an agent's bills, may work with that agent)
+ */
+export function assertPermission(user: ActingUser | null, permission: Permission, agentId?: string): void {
+    if (!hasPermission(user, permission)) {
+        throw new PermissionError(permission);
+    }
+    if (agentId !== undefined && !canAccessAgent(user, agentId)) {
+        throw new PermissionError('tickets.viewAll');
+    }
+}
+
+/**
+ * Roles a user may give to others: only an owner makes (or unmakes) owners
+ */
+export function canAssignRole(user: ActingUser | null, role: UserRole): boolean {
+    return hasPermission(user, 'users.manage') && (role !== 'owner' || user?.role === 'owner');
+}
+
+/**
+ * Roles that hold every permission
+ */
+export function isAdminRole(role: UserRole | undefined): boolean {
+    return role === 'owner' || role === 'admin';
+}
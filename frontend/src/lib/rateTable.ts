@@ -0,0 +1,157 @@
+/**
+ * Rate Tables (ตารางอัตราจ่าย)
+ *
+ * Payout rates live in Settings and can be edited at any time. Whenever they
+ * change a new rate table version is kept, and every ticket records the
+ * version in force when it was sold, so its payouts can always be worked out
+ * (and shown) at the rates the agent was given.
+ */
+
+import { Category, Payouts, PayoutOverrides, RateTable, CreateRateTable, Settings, Ticket } from '@shared/schemas';
+import { resolvePayouts } from './compute';
+import { PayoutSource } from './payout';
+
+type RateLayers = Pick<RateTable, 'payouts' | 'productPayouts' | 'agentPayouts'>;
+
+/**
+ * Where a rate was changed
+ */
+export type RateLayer = 'global' | 'product' | 'agent';
+
+export interface RateChange {
+    layer: RateLayer;
+    layerId?: string; // Product or agent id
+    category: Category;
+    before?: number;  // Unset = not overridden on this layer
+    after?: number;
+}
+
+/**
+ * A rate table and the time it was in force
+ */
+export interface RateTableVersion {
+    table: RateTable;
+    from: string;
+    to: string | null;     // null = still in force
+    changes: RateChange[]; // Against the previous version (none for the first)
+}
+
+/**
+ * The payout layers of the settings
+ */
+export function snapshotRates(settings: Settings): RateLayers {
+    const productPayouts: Record<string, PayoutOverrides> = {};
+    for (const product of settings.products ?? []) {
+        if (product.payouts && Object.keys(product.payouts).length > 0) {
+            productPayouts[product.id] = product.payouts;
+        }
+    }
+
+    return {
+        payouts: { ...settings.payouts },
+        productPayouts,
+        agentPayouts: { ...settings.agentPayouts },
+    };
+}
+
+/**
+ * Differences between two rate tables, layer by layer
+ */
+export function diffRates(before: RateLayers, after: RateLayers): RateChange[] {
+    const changes: RateChange[] = [];
+
+    const compare = (layer: RateLayer, layerId: string | undefined, a: PayoutOverrides = {}, b: PayoutOverrides = {}) => {
+        const categories = new Set([...Object.keys(a), ...Object.keys(b)] as Category[]);
+        for (const category of categories) {
+            if (a[category] !== b[category]) {
+                changes.push({ layer, layerId, category, before: a[category], after: b[category] });
+            }
+        }
+    };
+
+    compare('global', undefined, before.payouts, after.payouts);
+    for (const [key, layer] of [['productPayouts', 'product'], ['agentPayouts', 'agent']] as const) {
+        const ids = new Set([...Object.keys(before[key]), ...Object.keys(after[key])]);
+        for (const id of ids) {
+            compare(layer, id, before[key][id], after[key][id]);
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * New rate table version for the settings, or null when their rates are the
+ * ones of the current table
+ */
+export function createRateTableVersion(
+    tables: RateTable[],
+    settings: Settings,
+    createdBy: string,
+    effectiveFrom: string = new Date().toISOString()
+): CreateRateTable | null {
+    const current = findRateTable(tables, settings.rateTableId) ?? getLatestRateTable(tables);
+    const rates = snapshotRates(settings);
+    if (current && diffRates(current, rates).length === 0) return null;
+
+    const version = tables.reduce((max, t) => Math.max(max, t.version), 0) + 1;
+    return { ...rates, version, effectiveFrom, createdBy };
+}
+
+export function findRateTable(tables: RateTable[], id: string | undefined): RateTable | undefined {
+    return id ? tables.find((t) => t.id === id) : undefined;
+}
+
+export function getLatestRateTable(tables: RateTable[]): RateTable | undefined {
+    return tables.reduce<RateTable | undefined>((latest, t) => (!latest || t.version > latest.version ? t : latest), undefined);
+}
+
+/**
+ * Settings with the payout layers of a rate table; everything else is kept
+ */
+export function applyRateTable(settings: Settings, table: RateTable | undefined): Settings {
+    if (!table) return settings;
+
+    return {
+        ...settings,
+        payouts: table.payouts,
+        products: (settings.products ?? []).map((product) => ({
+            ...product,
+            payouts: table.productPayouts[product.id],
+        })),
+        agentPayouts: table.agentPayouts,
+    };
+}
+
+/**
+ * Settings with the rates a ticket was sold at. Tickets from before rate
+ * tables were kept use the current rates.
+ */
+export function getTicketSettings(ticket: Pick<Ticket, 'rateTableId'>, settings: Settings, tables: RateTable[]): Settings {
+    return applyRateTable(settings, findRateTable(tables, ticket.rateTableId));
+}
+
+/**
+ * Payout table of each ticket at the rates it was sold at, for entries that
+ * carry no rates of their own (see evaluateTicket)
+ */
+export function ticketPayoutResolver(settings: Settings, tables: RateTable[]): PayoutSource {
+    return (ticket: Ticket): Payouts =>
+        resolvePayouts(getTicketSettings(ticket, settings, tables), { productId: ticket.round, agentId: ticket.agentId });
+}
+
+/**
+ * Every version, newest first, with the time it was in force and what changed
+ */
+export function getRateTableHistory(tables: RateTable[]): RateTableVersion[] {
+    const sorted = [...tables].sort((a, b) => a.version - b.version);
+
+    return sorted
+        .map((table, i) => ({
+            table,
+            from: table.effectiveFrom,
+            to: sorted[i + 1]?.effectiveFrom ?? null,
+            changes: i > 0 ? diffRates(sorted[i - 1], table) : [],
+        }))
+        .reverse();
+}
@@ -0,0 +1,93 @@
+/**
+ * Re-rating
+ *
+ * Saved tickets keep the rates they were entered with. After the payout
+ * tables or blocked numbers change, a draw can be re-rated: every ticket is
+ * priced again with the current rate table, which it then records, in the
+ * order it was entered so tiered blocked numbers fill their bands the same
+ * way. Entries keep the combos they were sold with.
+ */
+
+import { Ticket, Entry, Settings, BlockedNumber, Product, RateTable } from '@shared/schemas';
+import { repriceEntry, computeTicketExpectedPayout, aggregateComboSales, ComboSales } from './compute';
+import { isDateInDrawPeriod } from './drawPeriod';
+import { isCountedTicket } from './ticketStatus';
+import { getTicketSettings } from './rateTable';
+
+/**
+ * A ticket whose rates change
+ */
+export interface TicketReRate {
+    ticket: Ticket;   // As saved
+    entries: Entry[]; // Rated with the current rate table
+    billTotal: number;
+    rateTableId?: string; // The table they were rated with
+    payoutBefore: number;
+    payoutAfter: number;
+}
+
+export interface ReRatePlan {
+    changes: TicketReRate[];
+    ticketCount: number;   // Tickets of the draw, changed or not
+    payoutBefore: number;  // Whole draw
+    payoutAfter: number;
+}
+
+function hasChanged(before: Entry, after: Entry): boolean {
+    return (
+        before.total !== after.total ||
+        JSON.stringify(before.perComboTotals ?? []) !== JSON.stringify(after.perComboTotals ?? [])
+    );
+}
+
+/**
+ * Prices every ticket of a draw again and lists the ones that change
+ */
+export function planReRate(
+    tickets: Ticket[],
+    settings: Settings,
+    rateTables: RateTable[],
+    blockedNumbers: BlockedNumber[],
+    product: Product,
+    drawId: string
+): ReRatePlan {
+    const drawTickets = tickets
+        .filter((t) => isCountedTicket(t) && t.round === product.id && isDateInDrawPeriod(t.date, drawId, product))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const comboSales = new Map<string, ComboSales>();
+    const changes: TicketReRate[] = [];
+    let payoutBefore = 0;
+    let payoutAfter = 0;
+
+    // Tickets from before rate tables were kept stay without one
+    const rateTableId = settings.rateTableId;
+    const ratedSettings = getTicketSettings({ rateTableId }, settings, rateTables);
+
+    for (const ticket of drawTickets) {
+        const context = { productId: ticket.round, agentId: ticket.agentId, date: ticket.date };
+        const entries = ticket.entries.map((entry) => {
+            const rated = repriceEntry(entry, ratedSettings, blockedNumbers, context, comboSales);
+            aggregateComboSales([{ entries: [rated], deleted: false }], comboSales);
+            return rated;
+        });
+
+        const before = computeTicketExpectedPayout(ticket);
+        const after = computeTicketExpectedPayout({ ...ticket, entries });
+        payoutBefore += before;
+        payoutAfter += after;
+
+        if (entries.some((entry, i) => hasChanged(ticket.entries[i], entry))) {
+            changes.push({
+                ticket,
+                entries,
+                billTotal: entries.reduce((sum, entry) => sum + (entry.total ?? 0), 0),
+                ...(rateTableId ? { rateTableId } : {}),
+                payoutBefore: before,
+                payoutAfter: after,
+            });
+        }
+    }
+
+    return { changes, ticketCount: drawTickets.length, payoutBefore, payoutAfter };
+}
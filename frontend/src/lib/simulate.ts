@@ -0,0 +1,220 @@
+/**
+ * Draw Simulation
+ *
+ * "If X comes out, how much do we lose" for every possible result of a draw.
+ * A result is 3 ตัวบน × 2 ตัวล่าง × the 3-digit bottom sets, far too many to
+ * evaluate one by one. But every category is checked against exactly one of
+ * those numbers, so the payout of a result is the sum of one payout per
+ * number. Each part is built once from the bets (through the win engine), and
+ * worst case, best case, expected value and the most damaging results are
+ * combined from the parts.
+ */
+
+import { Ticket, Entry, Category, Payouts, DEFAULT_PAYOUTS } from '@shared/schemas';
+import { evaluateEntry, DrawResult } from './payout';
+import { isCountedTicket } from './ticketStatus';
+
+type Part = 'top' | 'twoDown' | 'bottom3';
+
+/**
+ * A complete draw result with what we would pay and keep
+ */
+export interface SimulatedOutcome {
+    threeTop: string;
+    twoDown: string;
+    threeDown: string[]; // One per bottom set (empty for top/bottom products)
+    payout: number;
+    profit: number;      // gross − payout
+}
+
+export interface DrawSimulation {
+    gross: number;
+    worst: SimulatedOutcome;
+    best: SimulatedOutcome;
+    expectedPayout: number; // Every number equally likely
+    expectedProfit: number;
+    topOutcomes: SimulatedOutcome[]; // Most damaging first
+    payoutsByPart: Record<Part, number[]>; // Payout per drawn number, indexed by its value
+}
+
+export interface SimulationOptions {
+    payouts?: Payouts;   // Fallback rates for entries without perComboTotals
+    bottomSets?: number; // 3-digit bottom draws: 2 for หวยรัฐบาล, 0 for top/bottom products
+    topN?: number;
+}
+
+const PART_SIZES: Record<Part, number> = { top: 1000, twoDown: 100, bottom3: 1000 };
+
+const CATEGORY_PARTS: Record<Category, Part> = {
+    '3top': 'top',
+    '3tod': 'top',
+    '2top': 'top',
+    '2tod': 'top',
+    '1top': 'top',
+    '2down': 'twoDown',
+    '2back': 'twoDown',
+    '1down': 'twoDown',
+    '3down': 'bottom3',
+    '3back': 'bottom3',
+};
+
+function pad(n: number, digits: number): string {
+    return String(n).padStart(digits, '0');
+}
+
+function permutations(value: string): string[] {
+    if (value.length <= 1) return [value];
+    const result = new Set<string>();
+    value.split('').forEach((digit, i) => {
+        for (const rest of permutations(value.slice(0, i) + value.slice(i + 1))) {
+            result.add(digit + rest);
+        }
+    });
+    return [...result];
+}
+
+/**
+ * Drawn numbers an entry can possibly win on, so only those are evaluated
+ */
+function getCandidates(entry: Entry): string[] {
+    const part = CATEGORY_PARTS[entry.category];
+    const digits = part === 'twoDown' ? 2 : 3;
+    const combos = entry.perComboTotals?.map((c) => c.combo) ?? entry.expanded ?? [entry.raw];
+    const candidates = new Set<string>();
+
+    for (const combo of combos) {
+        if (combo.length === 1) {
+            // Running digit: any number containing it
+            for (let n = 0; n < 10 ** digits; n++) {
+                const value = pad(n, digits);
+                if (value.includes(combo)) candidates.add(value);
+            }
+        } else if (combo.length === 2 && digits === 3) {
+            // 2 ตัวบน: the last two digits of 3 ตัวบน
+            for (const p of permutations(combo)) {
+                for (let d = 0; d < 10; d++) candidates.add(`${d}${p}`);
+            }
+        } else {
+            for (const p of permutations(combo)) candidates.add(p);
+        }
+    }
+
+    return [...candidates];
+}
+
+function toResult(part: Part, value: string): DrawResult {
+    if (part === 'top') return { threeTop: value };
+    if (part === 'twoDown') return { twoDown: value };
+    return { threeTod3: value };
+}
+
+/**
+ * Payout per drawn number of each part of the result
+ */
+export function computePartPayouts(tickets: Ticket[], payouts: Payouts = DEFAULT_PAYOUTS): Record<Part, number[]> {
+    const parts: Record<Part, number[]> = {
+        top: new Array(PART_SIZES.top).fill(0),
+        twoDown: new Array(PART_SIZES.twoDown).fill(0),
+        bottom3: new Array(PART_SIZES.bottom3).fill(0),
+    };
+
+    for (const ticket of tickets) {
+        if (!isCountedTicket(ticket)) continue;
+        for (const entry of ticket.entries) {
+            const part = CATEGORY_PARTS[entry.category];
+            if (!part) continue;
+
+            for (const value of getCandidates(entry)) {
+                const amount = evaluateEntry(entry, toResult(part, value), payouts)
+                    .reduce((sum, line) => sum + line.amount, 0);
+                if (amount > 0) parts[part][Number(value)] += amount;
+            }
+        }
+    }
+
+    return parts;
+}
+
+/**
+ * Indices of an array sorted by value, largest first
+ */
+function rankDescending(values: number[], limit: number): number[] {
+    return values
+        .map((_, i) => i)
+        .sort((a, b) => values[b] - values[a] || a - b)
+        .slice(0, limit);
+}
+
+/**
+ * Simulate every possible result of a draw for a set of tickets
+ */
+export function simulateDraw(tickets: Ticket[], options: SimulationOptions = {}): DrawSimulation {
+    const { payouts = DEFAULT_PAYOUTS, bottomSets = 2 } = options;
+    const topN = Math.max(1, options.topN ?? 10);
+    const gross = tickets.filter(isCountedTicket).reduce((sum, t) => sum + t.billTotal, 0);
+    const payoutsByPart = computePartPayouts(tickets, payouts);
+
+    const makeOutcome = (top: number, twoDown: number, bottom: number[]): SimulatedOutcome => {
+        const payout =
+            payoutsByPart.top[top] +
+            payoutsByPart.twoDown[twoDown] +
+            bottom.reduce((sum, b) => sum + payoutsByPart.bottom3[b], 0);
+        return {
+            threeTop: pad(top, 3),
+            twoDown: pad(twoDown, 2),
+            threeDown: bottom.map((b) => pad(b, 3)),
+            payout,
+            profit: gross - payout,
+        };
+    };
+
+    // Parts add up, so the top N results only ever extend the top N partial
+    // results with the top N numbers of the next part
+    const rankedBottom = rankDescending(payoutsByPart.bottom3, topN);
+    const stages: Array<{ ranked: number[]; values: number[]; bottom: boolean }> = [
+        { ranked: rankDescending(payoutsByPart.top, topN), values: payoutsByPart.top, bottom: false },
+        { ranked: rankDescending(payoutsByPart.twoDown, topN), values: payoutsByPart.twoDown, bottom: false },
+        ...Array.from({ length: bottomSets }, () => ({ ranked: rankedBottom, values: payoutsByPart.bottom3, bottom: true })),
+    ];
+
+    let partial: Array<{ picks: number[]; rank: number; payout: number }> = [{ picks: [], rank: 0, payout: 0 }];
+    for (const stage of stages) {
+        partial = partial
+            .flatMap((prefix) =>
+                stage.ranked
+                    // Bottom sets are unordered: pick them in rank order to skip swapped duplicates
+                    .map((value, rank) => ({ value, rank }))
+                    .filter(({ rank }) => !stage.bottom || rank >= prefix.rank)
+                    .map(({ value, rank }) => ({
+                        picks: [...prefix.picks, value],
+                        rank: stage.bottom ? rank : 0,
+                        payout: prefix.payout + stage.values[value],
+                    }))
+            )
+            .sort((a, b) => b.payout - a.payout)
+            .slice(0, topN);
+    }
+    const topOutcomes = partial.map(({ picks: [top, twoDown, ...bottom] }) => makeOutcome(top, twoDown, bottom));
+
+    const lowest = (values: number[]) => rankDescending(values, values.length).pop() ?? 0;
+    const bestBottom = lowest(payoutsByPart.bottom3);
+    const best = makeOutcome(
+        lowest(payoutsByPart.top),
+        lowest(payoutsByPart.twoDown),
+        Array(bottomSets).fill(bestBottom)
+    );
+
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const expectedPayout =
+        mean(payoutsByPart.top) + mean(payoutsByPart.twoDown) + bottomSets * mean(payoutsByPart.bottom3);
+
+    return {
+        gross,
+        worst: topOutcomes[0],
+        best,
+        expectedPayout,
+        expectedProfit: gross - expectedPayout,
+        topOutcomes,
+        payoutsByPart,
+    };
+}
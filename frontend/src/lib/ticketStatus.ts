@@ -0,0 +1,91 @@
+/**
+ * Ticket Status (สถานะบิล)
+ *
+ * A bill is a draft, pending review, accepted, rejected or void. Only
+ * accepted bills count in sales, payouts, ceilings and the ledger; bills
+ * saved before statuses existed have none and count as accepted.
+ */
+
+import { Ticket, TicketStatus, Permission, TICKET_STATUS_LABELS } from '@shared/schemas';
+
+// Statuses a bill may move to from each status
+export const TICKET_STATUS_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+    draft: ['pending', 'accepted', 'void'],
+    pending: ['accepted', 'rejected', 'void'],
+    accepted: ['void'],
+    rejected: ['pending', 'void'],
+    void: [],
+};
+
+// Changes that have to give a reason
+const REASON_REQUIRED: TicketStatus[] = ['rejected', 'void'];
+
+export function getTicketStatus(ticket: Pick<Ticket, 'status'>): TicketStatus {
+    return ticket.status ?? 'accepted';
+}
+
+/**
+ * Whether a bill counts in totals: accepted and not deleted
+ */
+export function isCountedTicket(ticket: Partial<Pick<Ticket, 'status' | 'deleted'>>): boolean {
+    return !ticket.deleted && getTicketStatus(ticket) === 'accepted';
+}
+
+export function canChangeTicketStatus(from: TicketStatus, to: TicketStatus): boolean {
+    return TICKET_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Permission needed to move a bill to `status`: sending a bill in is part of
+ * keying it, any other change is a review
+ */
+export function getStatusPermission(status: TicketStatus): Permission {
+    return status === 'pending' ? 'tickets.create' : 'tickets.review';
+}
+
+/**
+ * Permission needed to save a new bill with `status`: a draft or a bill sent
+ * in is part of keying it, any other status (none counts as accepted) skips
+ * the review
+ */
+export function getCreateStatusPermission(status: TicketStatus | undefined): Permission {
+    const keyed: TicketStatus[] = ['draft', 'pending'];
+    return keyed.includes(getTicketStatus({ status })) ? 'tickets.create' : 'tickets.review';
+}
+
+/**
+ * Thrown when a bill cannot move to a status, or a reason is missing
+ */
+export class TicketStatusError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TicketStatusError';
+    }
+}
+
+/**
+ * The fields to write to move a bill to `status`, stamped with the reviewer.
+ * Throws TicketStatusError for a change that is not allowed.
+ */
+export function buildStatusChange(
+    ticket: Pick<Ticket, 'status'>,
+    status: TicketStatus,
+    reviewedBy: string,
+    reason?: string
+): Pick<Ticket, 'status' | 'statusReason' | 'reviewedAt' | 'reviewedBy'> {
+    const from = getTicketStatus(ticket);
+    if (!canChangeTicketStatus(from, status)) {
+        throw new TicketStatusError(`เปลี่ยนบิลที่${TICKET_STATUS_LABELS[from]}เป็น${TICKET_STATUS_LABELS[status]}ไม่ได้`);
+    }
+    const trimmed = reason?.trim();
+    if (REASON_REQUIRED.includes(status) && !trimmed) {
+        throw new TicketStatusError('กรุณาระบุเหตุผล');
+    }
+
+    return {
+        status,
+        ...(trimmed ? { statusReason: trimmed } : {}),
+        reviewedAt: new Date().toISOString(),
+        reviewedBy,
+    };
+}
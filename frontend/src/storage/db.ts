@@ -9,13 +9,33 @@ import localforage from 'localforage';
 import { v4 as uuidv4 } from 'uuid';
 import {
     Agent,
+    UpdateAgent,
     Ticket,
     Settings,
     BlockedNumber,
     User,
+    LedgerEntry,
+    CreateLedgerEntry,
+    HedgeTicket,
+    CreateHedgeTicket,
+    RateTable,
+    CreateRateTable,
+    AuditAction,
+    AuditEntity,
+    AuditEntry,
+    Permission,
+    UserRole,
     DEFAULT_SETTINGS,
+    DEFAULT_PAYOUTS,
+    DEFAULT_PRODUCTS,
+    DEFAULT_HEDGING,
+    DEFAULT_CEILINGS,
 } from '@shared/schemas';
 import { hashPassword } from '../utils/crypto';
+import { createAuditEntry } from '../lib/audit';
+import { ActingUser, PermissionError, assertPermission, canAssignRole } from '../lib/permissions';
+import { getStatusPermission, getCreateStatusPermission } from '../lib/ticketStatus';
+import { assertTicketDrawOpen } from '../lib/drawPeriod';
 
 // Database version for migrations
 const DB_VERSION = 1;
@@ -34,6 +54,10 @@ let blockedNumbersStore: LocalForage;
 let usersStore: LocalForage;
 let syncQueueStore: LocalForage;
 let lotteryResultsStore: LocalForage;
+let ledgerStore: LocalForage;
+let hedgesStore: LocalForage;
+let rateTablesStore: LocalForage;
+let auditStore: LocalForage;
 
 /**
  * Get the database name for a tenant
@@ -90,6 +114,30 @@ function initializeStores(tenantSlug: string | null): void {
         version: DB_VERSION,
     });
 
+    ledgerStore = localforage.createInstance({
+        name: dbName,
+        storeName: 'ledger',
+        version: DB_VERSION,
+    });
+
+    hedgesStore = localforage.createInstance({
+        name: dbName,
+        storeName: 'hedges',
+        version: DB_VERSION,
+    });
+
+    rateTablesStore = localforage.createInstance({
+        name: dbName,
+        storeName: 'rateTables',
+        version: DB_VERSION,
+    });
+
+    auditStore = localforage.createInstance({
+        name: dbName,
+        storeName: 'auditLog',
+        version: DB_VERSION,
+    });
+
     console.log(`[DB] Stores initialized for tenant: ${tenantSlug || 'default'}`);
 }
 
@@ -114,6 +162,127 @@ export function getCurrentDbTenant(): string | null {
 // Initialize with default (no tenant) on first load
 initializeStores(null);
 
+// =============================================================================
+// Acting User & Audit Log
+// =============================================================================
+
+let actingUser: ActingUser | null = null;
+
+/**
+ * Set the user that writes are checked and recorded against (null = the shop
+ * session without a staff sign-in). Call this when the signed-in user changes
+ */
+export function setActingUser(user: ActingUser | null): void {
+    actingUser = user;
+}
+
+/**
+ * Options of the write functions
+ */
+export interface WriteOptions {
+    // Records received from the remote or seeded by the app: not checked
+    // against the user's role, nor logged (remote ones were where they were made)
+    system?: boolean;
+}
+
+/**
+ * Throws PermissionError unless the acting user may make the write. Also
+ * used by the Firebase data layer, so both stores hold writes to one matrix.
+ */
+export function authorize(permission: Permission, options: WriteOptions, agentId?: string): void {
+    if (!options.system) assertPermission(actingUser, permission, agentId);
+}
+
+/**
+ * Checks a new ticket: keying it, and reviewing it unless it is saved as a
+ * draft or sent in for review
+ */
+export function authorizeTicketCreate(ticket: Pick<Ticket, 'agentId' | 'status'>, options: WriteOptions): void {
+    authorize('tickets.create', options, ticket.agentId);
+    authorize(getCreateStatusPermission(ticket.status), options, ticket.agentId);
+}
+
+/**
+ * Checks an update of a ticket: a status change is checked on its own, so
+ * agents can send bills in
+ */
+export function authorizeTicketUpdate(existing: Ticket, updates: Partial<Ticket>, options: WriteOptions): void {
+    const { status, statusReason, reviewedAt, reviewedBy, ...edits } = updates;
+    if (status && status !== existing.status) authorize(getStatusPermission(status), options, existing.agentId);
+    if (Object.keys(edits).length > 0) authorize('tickets.edit', options, existing.agentId);
+    if (updates.agentId) authorize('tickets.edit', options, updates.agentId);
+}
+
+/**
+ * Throws DrawClosedError unless the draw of the ticket takes writes. Also used
+ * by the Firebase data layer, with its own settings.
+ */
+export function assertDrawOpen(ticket: Pick<Ticket, 'round' | 'date'>, settings: Settings, options: WriteOptions): void {
+    if (!options.system) assertTicketDrawOpen(ticket, settings);
+}
+
+/**
+ * Checks the draws of an update of a ticket: reviewing it may finish after the
+ * cut-off, editing it, moving it or sending it in may not
+ */
+export function assertTicketUpdateDrawOpen(
+    existing: Ticket,
+    updates: Partial<Ticket>,
+    settings: Settings,
+    options: WriteOptions
+): void {
+    const { status, statusReason, reviewedAt, reviewedBy, ...edits } = updates;
+    const review = !status || status === existing.status || getStatusPermission(status) === 'tickets.review';
+    if (review && Object.keys(edits).length === 0) return;
+    assertDrawOpen(existing, settings, options);
+    assertDrawOpen({ ...existing, ...updates }, settings, options);
+}
+
+/**
+ * Append an entry to the audit log; writes that change nothing are skipped
+ */
+export async function recordAudit(
+    action: AuditAction,
+    entity: AuditEntity,
+    entityId: string,
+    before: object | null,
+    after: object | null
+): Promise<void> {
+    const actor = { id: actingUser?.id, username: actingUser?.username ?? 'unknown' };
+    const entry = createAuditEntry(action, entity, entityId, before, after, actor);
+    if (entry.changes.length === 0) return;
+
+    await auditStore.setItem(entry.id, entry);
+    await addToSyncQueue('create', 'auditLog', entry);
+}
+
+export async function getAuditLog(): Promise<AuditEntry[]> {
+    return getAllFromStore<AuditEntry>(auditStore);
+}
+
+export async function getAuditEntry(id: string): Promise<AuditEntry | null> {
+    return auditStore.getItem<AuditEntry>(id);
+}
+
+/**
+ * Flag audit entries as pushed to the remote
+ */
+export async function markAuditEntriesSynced(ids: string[]): Promise<void> {
+    for (const id of ids) {
+        const entry = await getAuditEntry(id);
+        if (entry && !entry.synced) {
+            await auditStore.setItem(id, { ...entry, synced: true });
+        }
+    }
+}
+
+/**
+ * Store an audit entry made on another device
+ */
+export async function saveRemoteAuditEntry(entry: AuditEntry): Promise<void> {
+    await auditStore.setItem(entry.id, { ...entry, synced: true });
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -138,7 +307,8 @@ export async function getAgent(id: string): Promise<Agent | null> {
     return agentsStore.getItem<Agent>(id);
 }
 
-export async function createAgent(name: string): Promise<Agent> {
+export async function createAgent(name: string, options: WriteOptions = {}): Promise<Agent> {
+    authorize('agents.create', options);
     const agent: Agent = {
         id: uuidv4(),
         name,
@@ -147,27 +317,32 @@ export async function createAgent(name: string): Promise<Agent> {
     };
     await agentsStore.setItem(agent.id, agent);
     await addToSyncQueue('create', 'agents', agent);
+    if (!options.system) await recordAudit('create', 'agents', agent.id, null, agent);
     return agent;
 }
 
-export async function updateAgent(id: string, name: string): Promise<Agent | null> {
+export async function updateAgent(id: string, updates: UpdateAgent, options: WriteOptions = {}): Promise<Agent | null> {
+    authorize('agents.manage', options);
     const existing = await getAgent(id);
     if (!existing) return null;
 
     const updated: Agent = {
         ...existing,
-        name,
+        ...updates,
         modifiedAt: new Date().toISOString(),
     };
     await agentsStore.setItem(id, updated);
     await addToSyncQueue('update', 'agents', updated);
+    if (!options.system) await recordAudit('update', 'agents', id, existing, updated);
     return updated;
 }
 
-export async function deleteAgent(id: string): Promise<boolean> {
+export async function deleteAgent(id: string, options: WriteOptions = {}): Promise<boolean> {
+    authorize('agents.manage', options);
     const existing = await getAgent(id);
     if (existing) {
         await addToSyncQueue('delete', 'agents', { id });
+        if (!options.system) await recordAudit('delete', 'agents', id, existing, null);
     }
     await agentsStore.removeItem(id);
     return true;
@@ -200,7 +375,12 @@ export async function getTicket(id: string): Promise<Ticket | null> {
     return ticketsStore.getItem<Ticket>(id);
 }
 
-export async function createTicket(ticket: Omit<Ticket, 'id' | 'createdAt' | 'modifiedAt' | 'synced' | 'deleted'>): Promise<Ticket> {
+export async function createTicket(
+    ticket: Omit<Ticket, 'id' | 'createdAt' | 'modifiedAt' | 'synced' | 'deleted'>,
+    options: WriteOptions = {}
+): Promise<Ticket> {
+    authorizeTicketCreate(ticket, options);
+    assertDrawOpen(ticket, await getSettings(), options);
     const newTicket: Ticket = {
         ...ticket,
         id: uuidv4(),
@@ -211,12 +391,15 @@ export async function createTicket(ticket: Omit<Ticket, 'id' | 'createdAt' | 'mo
     };
     await ticketsStore.setItem(newTicket.id, newTicket);
     await addToSyncQueue('create', 'tickets', newTicket);
+    if (!options.system) await recordAudit('create', 'tickets', newTicket.id, null, newTicket);
     return newTicket;
 }
 
-export async function updateTicket(id: string, updates: Partial<Ticket>): Promise<Ticket | null> {
+export async function updateTicket(id: string, updates: Partial<Ticket>, options: WriteOptions = {}): Promise<Ticket | null> {
     const existing = await getTicket(id);
     if (!existing) return null;
+    authorizeTicketUpdate(existing, updates, options);
+    assertTicketUpdateDrawOpen(existing, updates, await getSettings(), options);
 
     const updated: Ticket = {
         ...existing,
@@ -227,12 +410,15 @@ export async function updateTicket(id: string, updates: Partial<Ticket>): Promis
     };
     await ticketsStore.setItem(id, updated);
     await addToSyncQueue('update', 'tickets', updated);
+    if (!options.system) await recordAudit('update', 'tickets', id, existing, updated);
     return updated;
 }
 
-export async function deleteTicket(id: string): Promise<boolean> {
+export async function deleteTicket(id: string, options: WriteOptions = {}): Promise<boolean> {
     const existing = await getTicket(id);
     if (!existing) return false;
+    authorize('tickets.delete', options, existing.agentId);
+    assertDrawOpen(existing, await getSettings(), options);
 
     // Soft delete for sync purposes
     const updated: Ticket = {
@@ -243,9 +429,193 @@ export async function deleteTicket(id: string): Promise<boolean> {
     };
     await ticketsStore.setItem(id, updated);
     await addToSyncQueue('delete', 'tickets', updated);
+    if (!options.system) await recordAudit('delete', 'tickets', id, existing, updated);
+    return true;
+}
+
+// =============================================================================
+// Agent Ledger
+// =============================================================================
+
+export async function getLedgerEntries(agentId?: string): Promise<LedgerEntry[]> {
+    const entries = await getAllFromStore<LedgerEntry>(ledgerStore);
+    return entries.filter((e) => !e.deleted && (!agentId || e.agentId === agentId));
+}
+
+export async function getLedgerEntry(id: string): Promise<LedgerEntry | null> {
+    return ledgerStore.getItem<LedgerEntry>(id);
+}
+
+export async function createLedgerEntry(data: CreateLedgerEntry, options: WriteOptions = {}): Promise<LedgerEntry> {
+    authorize('ledger.manage', options);
+    const now = new Date().toISOString();
+    const entry: LedgerEntry = {
+        ...data,
+        id: uuidv4(),
+        createdAt: now,
+        modifiedAt: now,
+        synced: false,
+        deleted: false,
+    };
+    await ledgerStore.setItem(entry.id, entry);
+    await addToSyncQueue('create', 'ledger', entry);
+    if (!options.system) await recordAudit('create', 'ledger', entry.id, null, entry);
+    return entry;
+}
+
+export async function deleteLedgerEntry(id: string, options: WriteOptions = {}): Promise<boolean> {
+    authorize('ledger.manage', options);
+    const existing = await getLedgerEntry(id);
+    if (!existing) return false;
+
+    // Soft delete so the removal syncs and balances stay auditable
+    const updated: LedgerEntry = {
+        ...existing,
+        deleted: true,
+        modifiedAt: new Date().toISOString(),
+        synced: false,
+    };
+    await ledgerStore.setItem(id, updated);
+    await addToSyncQueue('delete', 'ledger', updated);
+    if (!options.system) await recordAudit('delete', 'ledger', id, existing, updated);
+    return true;
+}
+
+/**
+ * Replace the automatic entries (sales, commission, winnings) an agent has for
+ * a draw, so re-posting a draw never double-counts
+ */
+export async function postDrawLedgerEntries(
+    agentId: string,
+    drawDate: string,
+    productId: string,
+    entries: CreateLedgerEntry[]
+): Promise<LedgerEntry[]> {
+    const existing = await getLedgerEntries(agentId);
+    for (const entry of existing) {
+        if (entry.auto && entry.drawDate === drawDate && entry.productId === productId) {
+            await deleteLedgerEntry(entry.id);
+        }
+    }
+
+    const created: LedgerEntry[] = [];
+    for (const entry of entries) {
+        created.push(await createLedgerEntry(entry));
+    }
+    return created;
+}
+
+/**
+ * Flag ledger entries as pushed to the remote
+ */
+export async function markLedgerEntriesSynced(ids: string[]): Promise<void> {
+    for (const id of ids) {
+        const entry = await getLedgerEntry(id);
+        if (entry && !entry.synced) {
+            await ledgerStore.setItem(id, { ...entry, synced: true });
+        }
+    }
+}
+
+/**
+ * Store a ledger entry received from the remote as-is (keeps its id)
+ */
+export async function saveRemoteLedgerEntry(entry: LedgerEntry): Promise<void> {
+    await ledgerStore.setItem(entry.id, { ...entry, synced: true });
+}
+
+// =============================================================================
+// Hedge Tickets (ตัดส่ง)
+// =============================================================================
+
+export async function getHedgeTickets(round?: string, drawDate?: string): Promise<HedgeTicket[]> {
+    const hedges = await getAllFromStore<HedgeTicket>(hedgesStore);
+    return hedges
+        .filter((h) => !h.deleted)
+        .filter((h) => !round || h.round === round)
+        .filter((h) => !drawDate || h.drawDate === drawDate)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getHedgeTicket(id: string): Promise<HedgeTicket | null> {
+    return hedgesStore.getItem<HedgeTicket>(id);
+}
+
+export async function createHedgeTicket(data: CreateHedgeTicket, options: WriteOptions = {}): Promise<HedgeTicket> {
+    authorize('hedges.manage', options);
+    const now = new Date().toISOString();
+    const hedge: HedgeTicket = {
+        ...data,
+        id: uuidv4(),
+        createdAt: now,
+        modifiedAt: now,
+        synced: false,
+        deleted: false,
+    };
+    await hedgesStore.setItem(hedge.id, hedge);
+    await addToSyncQueue('create', 'hedges', hedge);
+    if (!options.system) await recordAudit('create', 'hedges', hedge.id, null, hedge);
+    return hedge;
+}
+
+export async function deleteHedgeTicket(id: string, options: WriteOptions = {}): Promise<boolean> {
+    authorize('hedges.manage', options);
+    const existing = await getHedgeTicket(id);
+    if (!existing) return false;
+
+    const updated: HedgeTicket = {
+        ...existing,
+        deleted: true,
+        modifiedAt: new Date().toISOString(),
+        synced: false,
+    };
+    await hedgesStore.setItem(id, updated);
+    await addToSyncQueue('delete', 'hedges', updated);
+    if (!options.system) await recordAudit('delete', 'hedges', id, existing, updated);
     return true;
 }
 
+/**
+ * Flag hedge tickets as pushed to the remote
+ */
+export async function markHedgeTicketsSynced(ids: string[]): Promise<void> {
+    for (const id of ids) {
+        const hedge = await getHedgeTicket(id);
+        if (hedge && !hedge.synced) {
+            await hedgesStore.setItem(id, { ...hedge, synced: true });
+        }
+    }
+}
+
+/**
+ * Store a hedge ticket received from the remote as-is (keeps its id)
+ */
+export async function saveRemoteHedgeTicket(hedge: HedgeTicket): Promise<void> {
+    await hedgesStore.setItem(hedge.id, { ...hedge, synced: true });
+}
+
+// =============================================================================
+// Rate Tables (ตารางอัตราจ่าย)
+// =============================================================================
+
+// Kept here when the shop runs without Firebase; append-only like the remote
+
+export async function getRateTables(): Promise<RateTable[]> {
+    const tables = await getAllFromStore<RateTable>(rateTablesStore);
+    return tables.sort((a, b) => a.version - b.version);
+}
+
+export async function createRateTable(data: CreateRateTable, options: WriteOptions = {}): Promise<RateTable> {
+    authorize('settings.manage', options);
+    const table: RateTable = {
+        ...data,
+        id: uuidv4(),
+    };
+    await rateTablesStore.setItem(table.id, table);
+    if (!options.system) await recordAudit('create', 'rateTables', table.id, null, table);
+    return table;
+}
+
 // =============================================================================
 // Settings
 // =============================================================================
@@ -284,6 +654,13 @@ export async function getSettings(): Promise<Settings> {
         if (settings.firebaseConfig) {
             settings.storageMode = 'TwoWay';
         }
+        // Fill in rates for categories added after these settings were saved
+        settings.payouts = { ...DEFAULT_PAYOUTS, ...settings.payouts };
+        settings.products = settings.products ?? DEFAULT_PRODUCTS;
+        settings.agentPayouts = settings.agentPayouts ?? {};
+        settings.hedging = settings.hedging ?? DEFAULT_HEDGING;
+        settings.ceilings = { ...DEFAULT_CEILINGS, ...settings.ceilings };
+        settings.reopenedDraws = settings.reopenedDraws ?? [];
         return settings;
     }
 
@@ -300,7 +677,8 @@ export async function getSettings(): Promise<Settings> {
     return defaults;
 }
 
-export async function updateSettings(updates: Partial<Settings>): Promise<Settings> {
+export async function updateSettings(updates: Partial<Settings>, options: WriteOptions = {}): Promise<Settings> {
+    authorize('settings.manage', options);
     const existing = await getSettings();
     const updated: Settings = {
         ...existing,
@@ -308,6 +686,7 @@ export async function updateSettings(updates: Partial<Settings>): Promise<Settin
     };
     await settingsStore.setItem(SETTINGS_KEY, updated);
     await addToSyncQueue('update', 'settings', { id: SETTINGS_KEY, ...updated });
+    if (!options.system) await recordAudit('update', 'settings', SETTINGS_KEY, existing, updated);
     return updated;
 }
 
@@ -323,17 +702,27 @@ export async function getBlockedNumber(id: string): Promise<BlockedNumber | null
     return blockedNumbersStore.getItem<BlockedNumber>(id);
 }
 
-export async function createBlockedNumber(data: Omit<BlockedNumber, 'id'>): Promise<BlockedNumber> {
+export async function createBlockedNumber(
+    data: Omit<BlockedNumber, 'id'>,
+    options: WriteOptions = {}
+): Promise<BlockedNumber> {
+    authorize('blocked.manage', options);
     const blocked: BlockedNumber = {
         ...data,
         id: uuidv4(),
     };
     await blockedNumbersStore.setItem(blocked.id, blocked);
     await addToSyncQueue('create', 'blockedNumbers', blocked);
+    if (!options.system) await recordAudit('create', 'blockedNumbers', blocked.id, null, blocked);
     return blocked;
 }
 
-export async function updateBlockedNumber(id: string, updates: Partial<BlockedNumber>): Promise<BlockedNumber | null> {
+export async function updateBlockedNumber(
+    id: string,
+    updates: Partial<BlockedNumber>,
+    options: WriteOptions = {}
+): Promise<BlockedNumber | null> {
+    authorize('blocked.manage', options);
     const existing = await getBlockedNumber(id);
     if (!existing) return null;
 
@@ -344,12 +733,16 @@ export async function updateBlockedNumber(id: string, updates: Partial<BlockedNu
     };
     await blockedNumbersStore.setItem(id, updated);
     await addToSyncQueue('update', 'blockedNumbers', updated);
+    if (!options.system) await recordAudit('update', 'blockedNumbers', id, existing, updated);
     return updated;
 }
 
-export async function deleteBlockedNumber(id: string): Promise<boolean> {
+export async function deleteBlockedNumber(id: string, options: WriteOptions = {}): Promise<boolean> {
+    authorize('blocked.manage', options);
+    const existing = await getBlockedNumber(id);
     await addToSyncQueue('delete', 'blockedNumbers', { id });
     await blockedNumbersStore.removeItem(id);
+    if (existing && !options.system) await recordAudit('delete', 'blockedNumbers', id, existing, null);
     return true;
 }
 
@@ -373,36 +766,183 @@ export async function getUserByUsername(username: string): Promise<User | null>
 export async function createUser(
     username: string,
     password: string,
-    role: 'admin' | 'user',
-    mustChangePassword = false
+    role: UserRole,
+    mustChangePassword = false,
+    options: WriteOptions = {}
+): Promise<User> {
+    return addUser(username, password, role, mustChangePassword, options);
+}
+
+/**
+ * Create the login of an agent: role 'agent', limited to that agent's bills
+ */
+export async function createAgentUser(
+    agentId: string,
+    username: string,
+    password: string,
+    options: WriteOptions = {}
+): Promise<User> {
+    return addUser(username, password, 'agent', true, options, agentId);
+}
+
+async function addUser(
+    username: string,
+    password: string,
+    role: UserRole,
+    mustChangePassword: boolean,
+    options: WriteOptions,
+    agentId?: string
 ): Promise<User> {
+    authorize('users.manage', options);
+    if (!options.system && !canAssignRole(actingUser, role)) {
+        throw new PermissionError('users.manage');
+    }
+    const normalized = username.toLowerCase();
+    if (await getUserByUsername(normalized)) {
+        throw new Error('มีชื่อผู้ใช้นี้แล้ว');
+    }
     const passwordHash = await hashPassword(password);
     const user: User = {
         id: uuidv4(),
-        username,
+        username: normalized,
         passwordHash,
         role,
+        ...(agentId ? { agentId } : {}),
         mustChangePassword,
+        disabled: false,
         createdAt: new Date().toISOString(),
     };
     await usersStore.setItem(user.id, user);
+    await addToSyncQueue('create', 'users', user);
+    if (!options.system) await recordAudit('create', 'users', user.id, null, user);
     return user;
 }
 
-export async function updateUserPassword(id: string, newPassword: string): Promise<boolean> {
+export async function updateUserPassword(id: string, newPassword: string, options: WriteOptions = {}): Promise<boolean> {
     const user = await getUser(id);
     if (!user) return false;
+    // Everyone may change their own password
+    if (actingUser?.id !== id) authorize('users.manage', options);
 
     const passwordHash = await hashPassword(newPassword);
     const updated: User = {
         ...user,
         passwordHash,
         mustChangePassword: false,
+        modifiedAt: new Date().toISOString(),
     };
     await usersStore.setItem(id, updated);
+    await addToSyncQueue('update', 'users', updated);
+    if (!options.system) await recordAudit('update', 'users', id, user, updated);
     return true;
 }
 
+/**
+ * Set a new password for another user, who must change it at the next sign-in
+ */
+export async function resetUserPassword(id: string, newPassword: string, options: WriteOptions = {}): Promise<User | null> {
+    const user = await getUser(id);
+    if (!user) return null;
+    authorize('users.manage', options);
+    if (!options.system && !canAssignRole(actingUser, user.role)) {
+        throw new PermissionError('users.manage');
+    }
+
+    const passwordHash = await hashPassword(newPassword);
+    const updated: User = {
+        ...user,
+        passwordHash,
+        mustChangePassword: true,
+        modifiedAt: new Date().toISOString(),
+    };
+    await usersStore.setItem(id, updated);
+    await addToSyncQueue('update', 'users', updated);
+    if (!options.system) await recordAudit('update', 'users', id, user, updated);
+    return updated;
+}
+
+/**
+ * Disable or re-enable a user; disabled users cannot sign in
+ */
+export async function setUserDisabled(id: string, disabled: boolean, options: WriteOptions = {}): Promise<User | null> {
+    const user = await getUser(id);
+    if (!user) return null;
+    authorize('users.manage', options);
+    if (!options.system && !canAssignRole(actingUser, user.role)) {
+        throw new PermissionError('users.manage');
+    }
+    if (!options.system && actingUser?.id === id) {
+        throw new Error('ระงับบัญชีของตัวเองไม่ได้');
+    }
+
+    const updated: User = {
+        ...user,
+        disabled,
+        modifiedAt: new Date().toISOString(),
+    };
+    await usersStore.setItem(id, updated);
+    await addToSyncQueue('update', 'users', updated);
+    if (!options.system) await recordAudit('update', 'users', id, user, updated);
+    return updated;
+}
+
+/**
+ * Give a user another role; agentId is the agent of role 'agent'
+ */
+export async function updateUserRole(
+    id: string,
+    role: UserRole,
+    agentId?: string,
+    options: WriteOptions = {}
+): Promise<User | null> {
+    const user = await getUser(id);
+    if (!user) return null;
+    authorize('users.manage', options);
+    if (!options.system && (!canAssignRole(actingUser, role) || !canAssignRole(actingUser, user.role))) {
+        throw new PermissionError('users.manage');
+    }
+    if (!options.system && actingUser?.id === id) {
+        throw new Error('เปลี่ยนสิทธิ์ของตัวเองไม่ได้');
+    }
+    if (role === 'agent' && !agentId) {
+        throw new Error('ผู้ใช้สิทธิ์เจ้าที่ส่งต้องเลือกเจ้า');
+    }
+
+    const { agentId: _previousAgent, ...rest } = user;
+    const updated: User = {
+        ...rest,
+        role,
+        ...(role === 'agent' ? { agentId } : {}),
+        modifiedAt: new Date().toISOString(),
+    };
+    await usersStore.setItem(id, updated);
+    await addToSyncQueue('update', 'users', updated);
+    if (!options.system) await recordAudit('update', 'users', id, user, updated);
+    return updated;
+}
+
+/**
+ * Store a user received from the remote as-is (keeps its id). Two devices
+ * that each created the same username keep the older account and drop the
+ * other one everywhere.
+ */
+export async function saveRemoteUser(user: User): Promise<void> {
+    const duplicate = (await getUsers()).find((u) => u.username === user.username && u.id !== user.id);
+    if (duplicate) {
+        if (duplicate.createdAt <= user.createdAt) return;
+        await usersStore.removeItem(duplicate.id);
+        await addToSyncQueue('delete', 'users', { id: duplicate.id });
+    }
+    await usersStore.setItem(user.id, user);
+}
+
+/**
+ * Drop a user that was removed on the remote
+ */
+export async function removeRemoteUser(id: string): Promise<void> {
+    await usersStore.removeItem(id);
+}
+
 // =============================================================================
 // Sync Queue
 // =============================================================================
@@ -448,17 +988,12 @@ export async function removeSyncQueueItem(id: string): Promise<void> {
 
 export async function seedDemoData(): Promise<void> {
     const existingUsers = await getUsers();
-    const adminUser = existingUsers.find(u => u.username === 'admin');
-
-    if (adminUser) {
-        // Enforce password for existing admin
-        await updateUserPassword(adminUser.id, '654321');
-        console.log('Admin password updated to default');
-    } else {
-        // Create default admin user if not exists
-        await createUser('admin', '654321', 'admin', false);
-        console.log('Default admin user created');
-    }
+    if (existingUsers.length > 0) return;
+
+    // First start of the shop: create the default admin, who picks a new
+    // password at the first sign-in
+    await createUser('admin', '654321', 'admin', true, { system: true });
+    console.log('Default admin user created');
 }
 
 // =============================================================================
@@ -472,14 +1007,22 @@ export interface ExportData {
     tickets: Ticket[];
     settings: Settings;
     blockedNumbers: BlockedNumber[];
+    ledger?: LedgerEntry[];
+    hedges?: HedgeTicket[];
+    rateTables?: RateTable[];
+    auditLog?: AuditEntry[];
 }
 
 export async function exportAllData(): Promise<ExportData> {
-    const [agents, tickets, settings, blockedNumbers] = await Promise.all([
+    const [agents, tickets, settings, blockedNumbers, ledger, hedges, rateTables, auditLog] = await Promise.all([
         getAgents(),
         getAllFromStore<Ticket>(ticketsStore), // Include deleted for full export
         getSettings(),
         getBlockedNumbers(),
+        getAllFromStore<LedgerEntry>(ledgerStore),
+        getAllFromStore<HedgeTicket>(hedgesStore),
+        getRateTables(),
+        getAuditLog(),
     ]);
 
     return {
@@ -489,6 +1032,10 @@ export async function exportAllData(): Promise<ExportData> {
         tickets,
         settings,
         blockedNumbers,
+        ledger,
+        hedges,
+        rateTables,
+        auditLog,
     };
 }
 
@@ -498,6 +1045,9 @@ export async function importData(data: ExportData): Promise<void> {
         agentsStore.clear(),
         ticketsStore.clear(),
         blockedNumbersStore.clear(),
+        ledgerStore.clear(),
+        hedgesStore.clear(),
+        rateTablesStore.clear(),
     ]);
 
     // Import agents
@@ -517,6 +1067,26 @@ export async function importData(data: ExportData): Promise<void> {
     for (const blocked of data.blockedNumbers) {
         await blockedNumbersStore.setItem(blocked.id, blocked);
     }
+
+    // Import ledger (older backups have none)
+    for (const entry of data.ledger ?? []) {
+        await ledgerStore.setItem(entry.id, entry);
+    }
+
+    // Import hedge tickets (older backups have none)
+    for (const hedge of data.hedges ?? []) {
+        await hedgesStore.setItem(hedge.id, hedge);
+    }
+
+    // Import rate tables (older backups have none)
+    for (const table of data.rateTables ?? []) {
+        await rateTablesStore.setItem(table.id, table);
+    }
+
+    // Add the backup's audit entries; the log itself is never cleared
+    for (const entry of data.auditLog ?? []) {
+        await auditStore.setItem(entry.id, entry);
+    }
 }
 
 // =============================================================================
@@ -536,6 +1106,9 @@ export async function factoryResetData(): Promise<void> {
         // usersStore.clear(), // KEEP USERS
         syncQueueStore.clear(),
         lotteryResultsStore.clear(),
+        ledgerStore.clear(),
+        hedgesStore.clear(),
+        // auditStore is append-only - KEEP AUDIT LOG
     ]);
 }
 
@@ -548,6 +1121,10 @@ export async function clearAllData(): Promise<void> {
         usersStore.clear(),
         syncQueueStore.clear(),
         lotteryResultsStore.clear(),
+        ledgerStore.clear(),
+        hedgesStore.clear(),
+        rateTablesStore.clear(),
+        auditStore.clear(),
     ]);
 }
 
@@ -572,7 +1149,8 @@ export async function getLotteryResultByDate(date: string, drawPeriod?: string):
     return items.find((r) => r.date === date && r.drawPeriod === drawPeriod) ?? null;
 }
 
-export async function createLotteryResult(data: CreateLotteryResult): Promise<LotteryResult> {
+export async function createLotteryResult(data: CreateLotteryResult, options: WriteOptions = {}): Promise<LotteryResult> {
+    authorize('results.manage', options);
     const now = new Date().toISOString();
     const result: LotteryResult = {
         ...data,
@@ -582,10 +1160,16 @@ export async function createLotteryResult(data: CreateLotteryResult): Promise<Lo
     };
     await lotteryResultsStore.setItem(result.id, result);
     await addToSyncQueue('create', 'lotteryResults', result);
+    if (!options.system) await recordAudit('create', 'lotteryResults', result.id, null, result);
     return result;
 }
 
-export async function updateLotteryResult(id: string, updates: Partial<LotteryResult>): Promise<LotteryResult | null> {
+export async function updateLotteryResult(
+    id: string,
+    updates: Partial<LotteryResult>,
+    options: WriteOptions = {}
+): Promise<LotteryResult | null> {
+    authorize('results.manage', options);
     const existing = await getLotteryResult(id);
     if (!existing) return null;
 
@@ -598,11 +1182,15 @@ export async function updateLotteryResult(id: string, updates: Partial<LotteryRe
     };
     await lotteryResultsStore.setItem(id, updated);
     await addToSyncQueue('update', 'lotteryResults', updated);
+    if (!options.system) await recordAudit('update', 'lotteryResults', id, existing, updated);
     return updated;
 }
 
-export async function deleteLotteryResult(id: string): Promise<void> {
+export async function deleteLotteryResult(id: string, options: WriteOptions = {}): Promise<void> {
+    authorize('results.manage', options);
+    const existing = await getLotteryResult(id);
     await addToSyncQueue('delete', 'lotteryResults', { id });
     await lotteryResultsStore.removeItem(id);
+    if (existing && !options.system) await recordAudit('delete', 'lotteryResults', id, existing, null);
 }
 
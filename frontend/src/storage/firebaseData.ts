@@ -3,7 +3,8 @@
  * 
  * Primary data storage using Firebase Firestore.
  * All data is stored under tenants/{slug}/...
- * This replaces IndexedDB as the primary data store.
+ * This replaces IndexedDB as the primary data store. Writes are checked
+ * against the acting user's role like the ones of storage/db.ts.
  */
 
 import {
@@ -16,15 +17,32 @@ import {
     orderBy,
     updateDoc,
     getDoc,
+    DocumentReference,
 } from 'firebase/firestore';
 import {
     Agent,
+    UpdateAgent,
     Ticket,
     Settings,
     BlockedNumber,
+    RateTable,
+    CreateRateTable,
     DEFAULT_SETTINGS,
+    DEFAULT_PAYOUTS,
+    DEFAULT_CEILINGS,
+    GOVERNMENT_PRODUCT_ID,
 } from '@shared/schemas';
 import { getFirestoreInstance, getCurrentTenantId } from './sync';
+import * as localDb from './db';
+import {
+    recordAudit,
+    authorize,
+    authorizeTicketCreate,
+    authorizeTicketUpdate,
+    assertDrawOpen,
+    assertTicketUpdateDrawOpen,
+    WriteOptions,
+} from './db';
 import { v4 as uuidv4 } from 'uuid';
 
 // =============================================================================
@@ -49,6 +67,21 @@ function getCollectionPath(collectionName: string): string {
     return `${tenantPath}/${collectionName}`;
 }
 
+/**
+ * A document's data before a write, for the audit log
+ */
+async function readForAudit(ref: DocumentReference): Promise<object | null> {
+    const snapshot = await getDoc(ref);
+    return snapshot.exists() ? { id: snapshot.id, ...snapshot.data() } : null;
+}
+
+/**
+ * Firestore rejects undefined fields, so drop them before writing
+ */
+function withoutUndefined<T extends object>(data: T): Partial<T> {
+    return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
 // =============================================================================
 // Agents
 // =============================================================================
@@ -71,7 +104,8 @@ export async function getAgents(): Promise<Agent[]> {
     }
 }
 
-export async function createAgent(name: string): Promise<Agent> {
+export async function createAgent(name: string, options: WriteOptions = {}): Promise<Agent> {
+    authorize('agents.create', options);
     const firestore = getFirestoreInstance();
     if (!firestore) {
         throw new Error('Firebase not initialized');
@@ -83,23 +117,36 @@ export async function createAgent(name: string): Promise<Agent> {
     };
 
     await setDoc(doc(firestore, getCollectionPath('agents'), agent.id), agent);
+    if (!options.system) await recordAudit('create', 'agents', agent.id, null, agent);
     return agent;
 }
 
-export async function updateAgent(id: string, name: string): Promise<Agent | null> {
+export async function updateAgent(id: string, updates: UpdateAgent, options: WriteOptions = {}): Promise<Agent | null> {
+    authorize('agents.manage', options);
     const firestore = getFirestoreInstance();
     if (!firestore) return null;
 
     const agentRef = doc(firestore, getCollectionPath('agents'), id);
-    await updateDoc(agentRef, { name });
-    return { id, name };
+    const before = await readForAudit(agentRef);
+    const modifiedAt = new Date().toISOString();
+    await updateDoc(agentRef, { ...withoutUndefined(updates), modifiedAt });
+    const snapshot = await getDoc(agentRef);
+    if (!snapshot.exists()) return null;
+
+    const agent = { id, ...snapshot.data() } as Agent;
+    if (!options.system) await recordAudit('update', 'agents', id, before, agent);
+    return agent;
 }
 
-export async function deleteAgent(id: string): Promise<void> {
+export async function deleteAgent(id: string, options: WriteOptions = {}): Promise<void> {
+    authorize('agents.manage', options);
     const firestore = getFirestoreInstance();
     if (!firestore) return;
 
-    await deleteDoc(doc(firestore, getCollectionPath('agents'), id));
+    const agentRef = doc(firestore, getCollectionPath('agents'), id);
+    const before = await readForAudit(agentRef);
+    await deleteDoc(agentRef);
+    if (before && !options.system) await recordAudit('delete', 'agents', id, before, null);
 }
 
 // =============================================================================
@@ -127,12 +174,15 @@ export async function getTickets(): Promise<Ticket[]> {
 }
 
 export async function createTicket(
-    ticketData: Omit<Ticket, 'id' | 'createdAt' | 'modifiedAt' | 'synced' | 'deleted'>
+    ticketData: Omit<Ticket, 'id' | 'createdAt' | 'modifiedAt' | 'synced' | 'deleted'>,
+    options: WriteOptions = {}
 ): Promise<Ticket> {
+    authorizeTicketCreate(ticketData, options);
     const firestore = getFirestoreInstance();
     if (!firestore) {
         throw new Error('Firebase not initialized');
     }
+    assertDrawOpen(ticketData, await getSettings(), options);
 
     const now = new Date().toISOString();
     const ticket: Ticket = {
@@ -145,14 +195,19 @@ export async function createTicket(
     };
 
     await setDoc(doc(firestore, getCollectionPath('tickets'), ticket.id), ticket);
+    if (!options.system) await recordAudit('create', 'tickets', ticket.id, null, ticket);
     return ticket;
 }
 
-export async function updateTicket(id: string, updates: Partial<Ticket>): Promise<Ticket | null> {
+export async function updateTicket(id: string, updates: Partial<Ticket>, options: WriteOptions = {}): Promise<Ticket | null> {
     const firestore = getFirestoreInstance();
     if (!firestore) return null;
 
     const ticketRef = doc(firestore, getCollectionPath('tickets'), id);
+    const before = (await readForAudit(ticketRef)) as Ticket | null;
+    if (!before) return null;
+    authorizeTicketUpdate(before, updates, options);
+    assertTicketUpdateDrawOpen(before, updates, await getSettings(), options);
     const updatedData = {
         ...updates,
         modifiedAt: new Date().toISOString(),
@@ -162,21 +217,28 @@ export async function updateTicket(id: string, updates: Partial<Ticket>): Promis
 
     const updatedDoc = await getDoc(ticketRef);
     if (updatedDoc.exists()) {
-        return { id: updatedDoc.id, ...updatedDoc.data() } as Ticket;
+        const ticket = { id: updatedDoc.id, ...updatedDoc.data() } as Ticket;
+        if (!options.system) await recordAudit('update', 'tickets', id, before, ticket);
+        return ticket;
     }
     return null;
 }
 
-export async function deleteTicket(id: string): Promise<void> {
+export async function deleteTicket(id: string, options: WriteOptions = {}): Promise<void> {
     const firestore = getFirestoreInstance();
     if (!firestore) return;
 
     // Soft delete
     const ticketRef = doc(firestore, getCollectionPath('tickets'), id);
+    const before = (await readForAudit(ticketRef)) as Ticket | null;
+    if (!before) return;
+    authorize('tickets.delete', options, before.agentId);
+    assertDrawOpen(before, await getSettings(), options);
     await updateDoc(ticketRef, {
         deleted: true,
         modifiedAt: new Date().toISOString()
     });
+    if (!options.system) await recordAudit('delete', 'tickets', id, before, { ...before, deleted: true });
 }
 
 // =============================================================================
@@ -194,7 +256,15 @@ export async function getSettings(): Promise<Settings> {
         const settingsDoc = await getDoc(settingsRef);
 
         if (settingsDoc.exists()) {
-            return { ...DEFAULT_SETTINGS, ...settingsDoc.data() } as Settings;
+            const data = settingsDoc.data() as Partial<Settings>;
+            // Fill in rates for categories added after these settings were saved
+            return {
+                ...DEFAULT_SETTINGS,
+                ...data,
+                payouts: { ...DEFAULT_PAYOUTS, ...data.payouts },
+                ceilings: { ...DEFAULT_CEILINGS, ...data.ceilings },
+                agentPayouts: data.agentPayouts ?? {},
+            };
         }
         return DEFAULT_SETTINGS;
     } catch (error) {
@@ -203,7 +273,8 @@ export async function getSettings(): Promise<Settings> {
     }
 }
 
-export async function updateSettings(updates: Partial<Settings>): Promise<Settings> {
+export async function updateSettings(updates: Partial<Settings>, options: WriteOptions = {}): Promise<Settings> {
+    authorize('settings.manage', options);
     const firestore = getFirestoreInstance();
     if (!firestore) {
         return { ...DEFAULT_SETTINGS, ...updates };
@@ -213,10 +284,53 @@ export async function updateSettings(updates: Partial<Settings>): Promise<Settin
     const currentSettings = await getSettings();
     const newSettings = { ...currentSettings, ...updates };
 
-    await setDoc(settingsRef, newSettings, { merge: true });
+    // Overwrite rather than merge so cleared payout overrides (nested map keys) are removed
+    await setDoc(settingsRef, newSettings);
+    if (!options.system) await recordAudit('update', 'settings', 'main', currentSettings, newSettings);
     return newSettings;
 }
 
+// =============================================================================
+// Rate Tables (ตารางอัตราจ่าย)
+// =============================================================================
+
+// Append-only: a version is never changed once tickets may point at it
+
+export async function getRateTables(): Promise<RateTable[]> {
+    const firestore = getFirestoreInstance();
+    if (!firestore) {
+        return localDb.getRateTables();
+    }
+
+    try {
+        const tablesRef = collection(firestore, getCollectionPath('rateTables'));
+        const q = query(tablesRef, orderBy('version', 'asc'));
+        const snapshot = await getDocs(q);
+        return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as RateTable));
+    } catch (error) {
+        console.error('Failed to load rate tables:', error);
+        return [];
+    }
+}
+
+export async function createRateTable(data: CreateRateTable, options: WriteOptions = {}): Promise<RateTable> {
+    const firestore = getFirestoreInstance();
+    if (!firestore) {
+        // Tickets still need a version to point at
+        return localDb.createRateTable(data, options);
+    }
+
+    authorize('settings.manage', options);
+    const table: RateTable = {
+        ...data,
+        id: uuidv4(),
+    };
+
+    await setDoc(doc(firestore, getCollectionPath('rateTables'), table.id), table);
+    if (!options.system) await recordAudit('create', 'rateTables', table.id, null, table);
+    return table;
+}
+
 // =============================================================================
 // Blocked Numbers
 // =============================================================================
@@ -237,7 +351,11 @@ export async function getBlockedNumbers(): Promise<BlockedNumber[]> {
     }
 }
 
-export async function createBlockedNumber(data: Omit<BlockedNumber, 'id'>): Promise<BlockedNumber> {
+export async function createBlockedNumber(
+    data: Omit<BlockedNumber, 'id'>,
+    options: WriteOptions = {}
+): Promise<BlockedNumber> {
+    authorize('blocked.manage', options);
     const firestore = getFirestoreInstance();
     if (!firestore) {
         throw new Error('Firebase not initialized');
@@ -248,29 +366,42 @@ export async function createBlockedNumber(data: Omit<BlockedNumber, 'id'>): Prom
         id: uuidv4(),
     };
 
-    await setDoc(doc(firestore, getCollectionPath('blockedNumbers'), blocked.id), blocked);
+    await setDoc(doc(firestore, getCollectionPath('blockedNumbers'), blocked.id), withoutUndefined(blocked));
+    if (!options.system) await recordAudit('create', 'blockedNumbers', blocked.id, null, blocked);
     return blocked;
 }
 
-export async function updateBlockedNumber(id: string, updates: Partial<BlockedNumber>): Promise<BlockedNumber | null> {
+export async function updateBlockedNumber(
+    id: string,
+    updates: Partial<BlockedNumber>,
+    options: WriteOptions = {}
+): Promise<BlockedNumber | null> {
+    authorize('blocked.manage', options);
     const firestore = getFirestoreInstance();
     if (!firestore) return null;
 
     const blockedRef = doc(firestore, getCollectionPath('blockedNumbers'), id);
+    const before = await readForAudit(blockedRef);
     await updateDoc(blockedRef, updates);
 
     const updatedDoc = await getDoc(blockedRef);
     if (updatedDoc.exists()) {
-        return { id: updatedDoc.id, ...updatedDoc.data() } as BlockedNumber;
+        const blocked = { id: updatedDoc.id, ...updatedDoc.data() } as BlockedNumber;
+        if (!options.system) await recordAudit('update', 'blockedNumbers', id, before, blocked);
+        return blocked;
     }
     return null;
 }
 
-export async function deleteBlockedNumber(id: string): Promise<void> {
+export async function deleteBlockedNumber(id: string, options: WriteOptions = {}): Promise<void> {
+    authorize('blocked.manage', options);
     const firestore = getFirestoreInstance();
     if (!firestore) return;
 
-    await deleteDoc(doc(firestore, getCollectionPath('blockedNumbers'), id));
+    const blockedRef = doc(firestore, getCollectionPath('blockedNumbers'), id);
+    const before = await readForAudit(blockedRef);
+    await deleteDoc(blockedRef);
+    if (before && !options.system) await recordAudit('delete', 'blockedNumbers', id, before, null);
 }
 
 // =============================================================================
@@ -296,7 +427,8 @@ export async function getLotteryResults(): Promise<LotteryResult[]> {
     }
 }
 
-export async function saveLotteryResult(result: LotteryResult): Promise<LotteryResult> {
+export async function saveLotteryResult(result: LotteryResult, options: WriteOptions = {}): Promise<LotteryResult> {
+    authorize('results.manage', options);
     const firestore = getFirestoreInstance();
     if (!firestore) {
         throw new Error('Firebase not initialized');
@@ -305,16 +437,27 @@ export async function saveLotteryResult(result: LotteryResult): Promise<LotteryR
     const resultId = result.id || `${result.date}`;
     const resultWithId = { ...result, id: resultId };
 
-    await setDoc(doc(firestore, getCollectionPath('lotteryResults'), resultId), resultWithId);
+    const resultRef = doc(firestore, getCollectionPath('lotteryResults'), resultId);
+    const before = await readForAudit(resultRef);
+    await setDoc(resultRef, resultWithId);
+    if (!options.system) await recordAudit(before ? 'update' : 'create', 'lotteryResults', resultId, before, resultWithId);
     return resultWithId;
 }
 
-export async function getLotteryResultByDate(drawDate: string): Promise<LotteryResult | null> {
+/**
+ * Result document id: the draw date for the government draw (as before),
+ * prefixed with the product id for other products
+ */
+function getLotteryResultId(drawDate: string, round?: string): string {
+    return round && round !== GOVERNMENT_PRODUCT_ID ? `${round}_${drawDate}` : drawDate;
+}
+
+export async function getLotteryResultByDate(drawDate: string, round?: string): Promise<LotteryResult | null> {
     const firestore = getFirestoreInstance();
     if (!firestore) return null;
 
     try {
-        const resultRef = doc(firestore, getCollectionPath('lotteryResults'), drawDate);
+        const resultRef = doc(firestore, getCollectionPath('lotteryResults'), getLotteryResultId(drawDate, round));
         const resultDoc = await getDoc(resultRef);
 
         if (resultDoc.exists()) {
@@ -327,18 +470,23 @@ export async function getLotteryResultByDate(drawDate: string): Promise<LotteryR
     }
 }
 
-export async function createLotteryResult(data: { date: string } & Partial<LotteryResult>): Promise<LotteryResult> {
+export async function createLotteryResult(
+    data: { date: string } & Partial<LotteryResult>,
+    options: WriteOptions = {}
+): Promise<LotteryResult> {
+    authorize('results.manage', options);
     const firestore = getFirestoreInstance();
     if (!firestore) {
         throw new Error('Firebase not initialized');
     }
 
-    // Use date as ID for easy lookup
-    const resultId = data.date;
+    // Use date (and product) as ID for easy lookup
+    const resultId = getLotteryResultId(data.date, data.round);
     const now = new Date().toISOString();
     const result: LotteryResult = {
         id: resultId,
         date: data.date,
+        round: data.round,
         createdAt: now,
         modifiedAt: now,
         firstPrize: data.firstPrize, // Full 6-digit first prize
@@ -351,11 +499,22 @@ export async function createLotteryResult(data: { date: string } & Partial<Lotte
         threeTod4: data.threeTod4,
     };
 
-    await setDoc(doc(firestore, getCollectionPath('lotteryResults'), resultId), result);
+    // Non-government products have no first prize etc.
+    const resultRef = doc(firestore, getCollectionPath('lotteryResults'), resultId);
+    const before = await readForAudit(resultRef);
+    await setDoc(resultRef, withoutUndefined(result));
+    if (!options.system) {
+        await recordAudit(before ? 'update' : 'create', 'lotteryResults', resultId, before, withoutUndefined(result));
+    }
     return result;
 }
 
-export async function updateLotteryResult(id: string, updates: Partial<LotteryResult>): Promise<LotteryResult | null> {
+export async function updateLotteryResult(
+    id: string,
+    updates: Partial<LotteryResult>,
+    options: WriteOptions = {}
+): Promise<LotteryResult | null> {
+    authorize('results.manage', options);
     const firestore = getFirestoreInstance();
     if (!firestore) return null;
 
@@ -367,6 +526,7 @@ export async function updateLotteryResult(id: string, updates: Partial<LotteryRe
 
         const updated = { ...existing.data(), ...updates, id };
         await setDoc(resultRef, updated);
+        if (!options.system) await recordAudit('update', 'lotteryResults', id, { id, ...existing.data() }, updated);
         return updated as LotteryResult;
     } catch (error) {
         console.error('Failed to update lottery result:', error);
@@ -374,9 +534,13 @@ export async function updateLotteryResult(id: string, updates: Partial<LotteryRe
     }
 }
 
-export async function deleteLotteryResult(id: string): Promise<void> {
+export async function deleteLotteryResult(id: string, options: WriteOptions = {}): Promise<void> {
+    authorize('results.manage', options);
     const firestore = getFirestoreInstance();
     if (!firestore) return;
 
-    await deleteDoc(doc(firestore, getCollectionPath('lotteryResults'), id));
+    const resultRef = doc(firestore, getCollectionPath('lotteryResults'), id);
+    const before = await readForAudit(resultRef);
+    await deleteDoc(resultRef);
+    if (before && !options.system) await recordAudit('delete', 'lotteryResults', id, before, null);
 }
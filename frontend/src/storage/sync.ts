@@ -22,9 +22,16 @@ import {
     FirebaseConfig,
     BlockedNumber,
     LotteryResult,
+    LedgerEntry,
+    HedgeTicket,
+    AuditEntry,
+    User,
 } from '@shared/schemas';
 import * as db from './db';
 
+// Remote changes were checked and audited on the device that made them
+const REMOTE: db.WriteOptions = { system: true };
+
 let firebaseApp: FirebaseApp | null = null;
 let firestore: Firestore | null = null;
 let unsubscribers: (() => void)[] = [];
@@ -121,11 +128,11 @@ export function startRealtimeSync(
                     const remoteTime = new Date(remoteTicket.modifiedAt).getTime();
 
                     if (conflictResolution === 'remote' || remoteTime > localTime) {
-                        await db.updateTicket(remoteTicket.id, remoteTicket);
+                        await db.updateTicket(remoteTicket.id, remoteTicket, REMOTE);
                     }
                 } else {
                     // New ticket from remote
-                    await db.createTicket(remoteTicket);
+                    await db.createTicket(remoteTicket, REMOTE);
                 }
             }
         }
@@ -143,10 +150,14 @@ export function startRealtimeSync(
             if (change.type === 'added' || change.type === 'modified') {
                 const localAgent = await db.getAgent(remoteAgent.id);
                 if (!localAgent) {
-                    await db.createAgent(remoteAgent.name);
+                    await db.createAgent(remoteAgent.name, REMOTE);
                 } else if (remoteAgent.modifiedAt && localAgent.modifiedAt) {
                     if (new Date(remoteAgent.modifiedAt) > new Date(localAgent.modifiedAt)) {
-                        await db.updateAgent(remoteAgent.id, remoteAgent.name);
+                        await db.updateAgent(remoteAgent.id, {
+                            name: remoteAgent.name,
+                            commission: remoteAgent.commission,
+                            creditLimit: remoteAgent.creditLimit,
+                        }, REMOTE);
                     }
                 }
             }
@@ -163,7 +174,7 @@ export function startRealtimeSync(
             if (change.type === 'added' || change.type === 'modified') {
                 const remoteSettings = change.doc.data();
                 // Merge remote settings with local
-                await db.updateSettings(remoteSettings as Partial<Settings>);
+                await db.updateSettings(remoteSettings as Partial<Settings>, REMOTE);
             }
         }
         onSync();
@@ -178,12 +189,12 @@ export function startRealtimeSync(
             if (change.type === 'added' || change.type === 'modified') {
                 const local = await db.getBlockedNumber(remoteBlocked.id);
                 if (!local) {
-                    await db.createBlockedNumber(remoteBlocked as Omit<BlockedNumber, 'id'>);
+                    await db.createBlockedNumber(remoteBlocked as Omit<BlockedNumber, 'id'>, REMOTE);
                 } else {
-                    await db.updateBlockedNumber(remoteBlocked.id, remoteBlocked);
+                    await db.updateBlockedNumber(remoteBlocked.id, remoteBlocked, REMOTE);
                 }
             } else if (change.type === 'removed') {
-                await db.deleteBlockedNumber(remoteBlocked.id);
+                await db.deleteBlockedNumber(remoteBlocked.id, REMOTE);
             }
         }
         onSync();
@@ -198,18 +209,85 @@ export function startRealtimeSync(
             if (change.type === 'added' || change.type === 'modified') {
                 const local = await db.getLotteryResult(remoteResult.id);
                 if (!local) {
-                    await db.createLotteryResult(remoteResult as any);
+                    await db.createLotteryResult(remoteResult as any, REMOTE);
                 } else {
-                    await db.updateLotteryResult(remoteResult.id, remoteResult);
+                    await db.updateLotteryResult(remoteResult.id, remoteResult, REMOTE);
                 }
             } else if (change.type === 'removed') {
-                await db.deleteLotteryResult(remoteResult.id);
+                await db.deleteLotteryResult(remoteResult.id, REMOTE);
             }
         }
         onSync();
     });
     unsubscribers.push(lotteryUnsub);
 
+    // Listen to ledger collection (entries keep their ids so balances never double up)
+    const ledgerRef = collection(firestore, getTenantCollectionPath('ledger'));
+    const ledgerUnsub = onSnapshot(ledgerRef, async (snapshot) => {
+        for (const change of snapshot.docChanges()) {
+            const remoteEntry = change.doc.data() as LedgerEntry;
+            const local = await db.getLedgerEntry(remoteEntry.id);
+            if (change.type === 'added' || change.type === 'modified') {
+                if (!local || new Date(remoteEntry.modifiedAt) > new Date(local.modifiedAt)) {
+                    await db.saveRemoteLedgerEntry(remoteEntry);
+                }
+            } else if (change.type === 'removed' && local) {
+                await db.saveRemoteLedgerEntry({ ...local, deleted: true });
+            }
+        }
+        onSync();
+    });
+    unsubscribers.push(ledgerUnsub);
+
+    // Listen to hedge tickets collection
+    const hedgesRef = collection(firestore, getTenantCollectionPath('hedges'));
+    const hedgesUnsub = onSnapshot(hedgesRef, async (snapshot) => {
+        for (const change of snapshot.docChanges()) {
+            const remoteHedge = change.doc.data() as HedgeTicket;
+            const local = await db.getHedgeTicket(remoteHedge.id);
+            if (change.type === 'added' || change.type === 'modified') {
+                if (!local || new Date(remoteHedge.modifiedAt) > new Date(local.modifiedAt)) {
+                    await db.saveRemoteHedgeTicket(remoteHedge);
+                }
+            } else if (change.type === 'removed' && local) {
+                await db.saveRemoteHedgeTicket({ ...local, deleted: true });
+            }
+        }
+        onSync();
+    });
+    unsubscribers.push(hedgesUnsub);
+
+    // Listen to the audit log (append-only, so only additions)
+    const auditRef = collection(firestore, getTenantCollectionPath('auditLog'));
+    const auditUnsub = onSnapshot(auditRef, async (snapshot) => {
+        for (const change of snapshot.docChanges()) {
+            if (change.type === 'added') {
+                await db.saveRemoteAuditEntry(change.doc.data() as AuditEntry);
+            }
+        }
+        onSync();
+    });
+    unsubscribers.push(auditUnsub);
+
+    // Listen to users collection
+    const usersRef = collection(firestore, getTenantCollectionPath('users'));
+    const usersUnsub = onSnapshot(usersRef, async (snapshot) => {
+        for (const change of snapshot.docChanges()) {
+            const remoteUser = change.doc.data() as User;
+            const local = await db.getUser(remoteUser.id);
+            if (change.type === 'added' || change.type === 'modified') {
+                const remoteTime = new Date(remoteUser.modifiedAt ?? remoteUser.createdAt);
+                if (!local || remoteTime > new Date(local.modifiedAt ?? local.createdAt)) {
+                    await db.saveRemoteUser(remoteUser);
+                }
+            } else if (change.type === 'removed' && local) {
+                await db.removeRemoteUser(local.id);
+            }
+        }
+        onSync();
+    });
+    unsubscribers.push(usersUnsub);
+
     console.log('Real-time sync started (full)');
 }
 
@@ -250,6 +328,15 @@ export async function pushLocalChanges(): Promise<{ success: boolean; synced: nu
 
         await batch.commit();
         await db.clearSyncQueue();
+        await db.markLedgerEntriesSynced(
+            queue.filter((item) => item.collection === 'ledger').map((item) => (item.data as { id: string }).id)
+        );
+        await db.markHedgeTicketsSynced(
+            queue.filter((item) => item.collection === 'hedges').map((item) => (item.data as { id: string }).id)
+        );
+        await db.markAuditEntriesSynced(
+            queue.filter((item) => item.collection === 'auditLog').map((item) => (item.data as { id: string }).id)
+        );
 
         return { success: true, synced };
     } catch (error) {
@@ -301,6 +388,8 @@ export async function clearRemoteData(): Promise<boolean> {
         //     operationCount++;
         // });
 
+        // KEEP RATE TABLES - ประวัติอัตราจ่าย, the settings point at the current one
+
         // Clear lotteryResults
         const lotteryRef = collection(firestore, getTenantCollectionPath('lotteryResults'));
         const lotterySnapshot = await getDocs(lotteryRef);
@@ -309,6 +398,26 @@ export async function clearRemoteData(): Promise<boolean> {
             operationCount++;
         });
 
+        // Clear ledger
+        const ledgerRef = collection(firestore, getTenantCollectionPath('ledger'));
+        const ledgerSnapshot = await getDocs(ledgerRef);
+        ledgerSnapshot.forEach((doc) => {
+            batch.delete(doc.ref);
+            operationCount++;
+        });
+
+        // KEEP AUDIT LOG - append-only
+
+        // KEEP USERS - ผู้ใช้
+
+        // Clear hedge tickets
+        const hedgesRef = collection(firestore, getTenantCollectionPath('hedges'));
+        const hedgesSnapshot = await getDocs(hedgesRef);
+        hedgesSnapshot.forEach((doc) => {
+            batch.delete(doc.ref);
+            operationCount++;
+        });
+
         if (operationCount > 0) {
             await batch.commit();
         }
@@ -344,14 +453,14 @@ export async function pullRemoteData(
             const localTicket = await db.getTicket(remoteTicket.id);
 
             if (!localTicket) {
-                await db.createTicket(remoteTicket);
+                await db.createTicket(remoteTicket, REMOTE);
                 pulled++;
             } else if (conflictResolution === 'remote') {
                 const localTime = new Date(localTicket.modifiedAt).getTime();
                 const remoteTime = new Date(remoteTicket.modifiedAt).getTime();
 
                 if (remoteTime > localTime) {
-                    await db.updateTicket(remoteTicket.id, remoteTicket);
+                    await db.updateTicket(remoteTicket.id, remoteTicket, REMOTE);
                     pulled++;
                 }
             }
@@ -366,7 +475,7 @@ export async function pullRemoteData(
             const localAgent = await db.getAgent(remoteAgent.id);
 
             if (!localAgent) {
-                await db.createAgent(remoteAgent.name);
+                await db.createAgent(remoteAgent.name, REMOTE);
                 pulled++;
             }
         }
@@ -380,7 +489,7 @@ export async function pullRemoteData(
             const localBlocked = await db.getBlockedNumber(remoteBlocked.id);
 
             if (!localBlocked) {
-                await db.createBlockedNumber(remoteBlocked as Omit<BlockedNumber, 'id'>);
+                await db.createBlockedNumber(remoteBlocked as Omit<BlockedNumber, 'id'>, REMOTE);
                 pulled++;
             }
         }
@@ -394,11 +503,73 @@ export async function pullRemoteData(
             const localResult = await db.getLotteryResult(remoteResult.id);
 
             if (!localResult) {
-                await db.createLotteryResult(remoteResult as any);
+                await db.createLotteryResult(remoteResult as any, REMOTE);
+                pulled++;
+            }
+        }
+
+        // Pull ledger
+        const ledgerRef = collection(firestore, getTenantCollectionPath('ledger'));
+        const ledgerSnapshot = await getDocs(ledgerRef);
+
+        for (const docSnap of ledgerSnapshot.docs) {
+            const remoteEntry = docSnap.data() as LedgerEntry;
+            const localEntry = await db.getLedgerEntry(remoteEntry.id);
+
+            if (!localEntry) {
+                await db.saveRemoteLedgerEntry(remoteEntry);
                 pulled++;
             }
         }
 
+        // Pull hedge tickets
+        const hedgesRef = collection(firestore, getTenantCollectionPath('hedges'));
+        const hedgesSnapshot = await getDocs(hedgesRef);
+
+        for (const docSnap of hedgesSnapshot.docs) {
+            const remoteHedge = docSnap.data() as HedgeTicket;
+            const localHedge = await db.getHedgeTicket(remoteHedge.id);
+
+            if (!localHedge) {
+                await db.saveRemoteHedgeTicket(remoteHedge);
+                pulled++;
+            }
+        }
+
+        // Pull audit log
+        const auditRef = collection(firestore, getTenantCollectionPath('auditLog'));
+        const auditSnapshot = await getDocs(auditRef);
+
+        for (const docSnap of auditSnapshot.docs) {
+            const remoteEntry = docSnap.data() as AuditEntry;
+            if (!(await db.getAuditEntry(remoteEntry.id))) {
+                await db.saveRemoteAuditEntry(remoteEntry);
+                pulled++;
+            }
+        }
+
+        // Pull users
+        const usersRef = collection(firestore, getTenantCollectionPath('users'));
+        const usersSnapshot = await getDocs(usersRef);
+
+        for (const docSnap of usersSnapshot.docs) {
+            const remoteUser = docSnap.data() as User;
+            const localUser = await db.getUser(remoteUser.id);
+
+            if (!localUser) {
+                await db.saveRemoteUser(remoteUser);
+                pulled++;
+            } else if (conflictResolution === 'remote') {
+                const localTime = new Date(localUser.modifiedAt ?? localUser.createdAt).getTime();
+                const remoteTime = new Date(remoteUser.modifiedAt ?? remoteUser.createdAt).getTime();
+
+                if (remoteTime > localTime) {
+                    await db.saveRemoteUser(remoteUser);
+                    pulled++;
+                }
+            }
+        }
+
         return { success: true, pulled };
     } catch (error) {
         console.error('Pull sync failed:', error);
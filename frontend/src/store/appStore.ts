@@ -10,23 +10,107 @@ import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import {
     Agent,
+    UpdateAgent,
     Ticket,
     Entry,
     Settings,
     BlockedNumber,
+    CreateBlockedNumber,
+    RateTable,
     DEFAULT_SETTINGS,
     Category,
+    CeilingAction,
+    Permission,
+    TicketStatus,
+    CATEGORY_LABELS,
 } from '@shared/schemas';
 // Use Firebase as primary storage (not IndexedDB)
 import * as db from '../storage/firebaseData';
+import { recordAudit } from '../storage/db';
 import { syncManager, SyncStatus } from '../storage/sync';
-import { computeEntryTotals } from '../lib/compute';
+import { useAuthStore } from './authStore';
+import {
+    computeEntryTotals,
+    repriceEntry,
+    rateEntryCombos,
+    resolvePayouts,
+    computeCreditUsage,
+    checkCreditLimit,
+    CreditUsage,
+    aggregateComboSales,
+    getDrawComboSales,
+    applyCeilingPolicy,
+    applyPayoutTiers,
+    checkTierLimits,
+    getActiveBlockedNumbers,
+    ComboSales,
+    CeilingEnforcement,
+    PayoutContext,
+} from '../lib/compute';
+import { TicketReRate } from '../lib/rerate';
+import { createRateTableVersion, getTicketSettings } from '../lib/rateTable';
+import { assertPermission, hasPermission } from '../lib/permissions';
+import { buildStatusChange, getStatusPermission } from '../lib/ticketStatus';
+import { assertTicketDrawOpen } from '../lib/drawPeriod';
 import { v4 as uuidv4 } from 'uuid';
 
 // =============================================================================
 // Types
 // =============================================================================
 
+/**
+ * Thrown by saveCurrentTicket when the bill would take the agent over their
+ * credit limit (วงเงินเครดิต) and no admin override was given
+ */
+export class CreditLimitError extends Error {
+    constructor(
+        public readonly usage: CreditUsage,
+        public readonly amount: number
+    ) {
+        super(`เกินวงเงินเครดิต: คงเหลือ ${Math.max(usage.remaining, 0).toLocaleString()} แต่บิลนี้ ${amount.toLocaleString()}`);
+        this.name = 'CreditLimitError';
+    }
+}
+
+/**
+ * Thrown by saveCurrentTicket when the ceiling policy turns down entries of
+ * the bill ('reject', or nothing left to accept under 'cap')
+ */
+export class CeilingRejectedError extends Error {
+    constructor(public readonly entries: Entry[]) {
+        super(`เกินเพดาน: ${entries.map((e) => `${CATEGORY_LABELS[e.category]} ${e.raw}`).join(', ')}`);
+        this.name = 'CeilingRejectedError';
+    }
+}
+
+/**
+ * Thrown by saveCurrentTicket when a blocked number of the 'reduce' ceiling
+ * policy could not be created; the bill is not saved
+ */
+export class CeilingBlockError extends Error {
+    constructor(public readonly block: CreateBlockedNumber, cause: unknown) {
+        const reason = cause instanceof Error ? cause.message : String(cause);
+        super(`สร้างเลขอั้น ${CATEGORY_LABELS[block.category]} ${block.number} ไม่สำเร็จ: ${reason}`);
+        this.name = 'CeilingBlockError';
+    }
+}
+
+/**
+ * Thrown by saveCurrentTicket when no staff member is signed in: every bill
+ * records the id of the user who keyed it
+ */
+export class SignInRequiredError extends Error {
+    constructor() {
+        super('ต้องเข้าสู่ระบบพนักงานก่อนบันทึกบิล');
+        this.name = 'SignInRequiredError';
+    }
+}
+
+interface SaveTicketOptions {
+    overrideCreditLimit?: boolean; // Needs 'tickets.overrideCredit'
+    draft?: boolean; // Keep as a draft (ร่าง) that does not count yet
+}
+
 interface UndoAction {
     type: 'CREATE_TICKET' | 'UPDATE_TICKET' | 'DELETE_TICKET';
     data: Ticket;
@@ -39,6 +123,7 @@ interface AppState {
     tickets: Ticket[];
     settings: Settings;
     blockedNumbers: BlockedNumber[];
+    rateTables: RateTable[]; // Every version, oldest first
 
     // UI State
     isLoading: boolean;
@@ -52,6 +137,7 @@ interface AppState {
         date: string;
         drawPeriod?: string;
         entries: Entry[];
+        imported?: boolean; // Entries came from a scan or a pasted list
     } | null;
 
     // Actions - Loading
@@ -60,7 +146,7 @@ interface AppState {
     // Actions - Agents
     loadAgents: () => Promise<void>;
     createAgent: (name: string) => Promise<Agent>;
-    updateAgent: (id: string, name: string) => Promise<void>;
+    updateAgent: (id: string, updates: UpdateAgent) => Promise<void>;
     deleteAgent: (id: string) => Promise<void>;
 
     // Actions - Tickets
@@ -68,10 +154,18 @@ interface AppState {
     createTicket: (ticket: Omit<Ticket, 'id' | 'createdAt' | 'modifiedAt' | 'synced' | 'deleted'>) => Promise<Ticket>;
     updateTicket: (id: string, updates: Partial<Ticket>) => Promise<void>;
     deleteTicket: (id: string) => Promise<void>;
+    reRateTickets: (changes: TicketReRate[], reRatedBy: string) => Promise<number>;
+    changeTicketStatus: (ids: string[], status: TicketStatus, reason?: string) => Promise<number>;
 
     // Actions - Settings
     loadSettings: () => Promise<void>;
     updateSettings: (updates: Partial<Settings>) => Promise<void>;
+    reopenDraw: (productId: string, drawId: string) => Promise<void>;
+    closeDraw: (productId: string, drawId: string) => Promise<void>;
+
+    // Actions - Rate Tables
+    loadRateTables: () => Promise<void>;
+    snapshotRateTable: () => Promise<void>;
 
     // Actions - Blocked Numbers
     loadBlockedNumbers: () => Promise<void>;
@@ -81,11 +175,12 @@ interface AppState {
 
     // Actions - Current Ticket Entry
     initCurrentTicket: (agentId: string, round: string, date: string, drawPeriod?: string) => void;
-    addEntry: (category: Category, raw: string, unitPrice: number, quantity?: number, withReverse?: boolean) => void;
+    addEntry: (category: Category, raw: string, unitPrice: number, quantity?: number, withReverse?: boolean) => CeilingAction | null;
     updateEntry: (entryId: string, updates: Partial<Entry>) => void;
     removeEntry: (entryId: string) => void;
+    markCurrentTicketImported: () => void;
     clearCurrentTicket: () => void;
-    saveCurrentTicket: (createdBy: string) => Promise<Ticket | null>;
+    saveCurrentTicket: (options?: SaveTicketOptions) => Promise<Ticket | null>;
 
     // Actions - Undo
     undo: () => Promise<boolean>;
@@ -95,6 +190,88 @@ interface AppState {
     setSyncStatus: (status: SyncStatus) => void;
 }
 
+/**
+ * Throws PermissionError unless the signed-in user's role allows the action
+ * (and, for an agent's bills, the user may work with that agent)
+ */
+function authorize(permission: Permission, agentId?: string): void {
+    assertPermission(useAuthStore.getState().user, permission, agentId);
+}
+
+/**
+ * Settings with the rates of the bill being keyed: those of the rate table it
+ * will record (see saveCurrentTicket)
+ */
+function getCurrentTicketSettings(): Settings {
+    const { settings, rateTables } = useAppStore.getState();
+    return getTicketSettings({ rateTableId: settings.rateTableId }, settings, rateTables);
+}
+
+/**
+ * Throws DrawClosedError when the draw the bill is sold for is closed. The
+ * storage layer checks every write too; this checks a batch before any of it
+ * is written
+ */
+function assertDrawOpen(ticket: Pick<Ticket, 'round' | 'date'>): void {
+    assertTicketDrawOpen(ticket, useAppStore.getState().settings);
+}
+
+/**
+ * Refuses an entry past the last band of a tiered blocked number, otherwise
+ * runs the ceiling policy on it. The action goes back to the caller to show
+ * and stays on the entry; the blocked numbers of the 'reduce' policy are
+ * created when the bill is saved (see createCeilingBlocks).
+ */
+function enforceCeiling(
+    entry: Entry,
+    comboSales: Map<string, ComboSales>,
+    context: PayoutContext
+): CeilingEnforcement {
+    const { settings, blockedNumbers } = useAppStore.getState();
+    const tierAction = checkTierLimits(entry, comboSales, getActiveBlockedNumbers(blockedNumbers, settings, context));
+    return tierAction
+        ? { entry: null, action: tierAction, blocks: [] }
+        : applyCeilingPolicy(entry, comboSales, settings, blockedNumbers, context);
+}
+
+/**
+ * Creates the blocked numbers of the 'reduce' policy, once per combo. Part of
+ * entering the bill, so not held to the blocked-number permission, but still
+ * logged against the user keying it. Throws CeilingBlockError on the first
+ * that fails.
+ */
+async function createCeilingBlocks(blocks: CreateBlockedNumber[]): Promise<void> {
+    const unique = new Map(blocks.map((block) => [`${block.category}:${block.number}:${block.drawDate ?? ''}`, block]));
+    for (const block of unique.values()) {
+        let blocked: BlockedNumber;
+        try {
+            blocked = await db.createBlockedNumber(block, { system: true });
+        } catch (error) {
+            throw new CeilingBlockError(block, error);
+        }
+        await recordAudit('create', 'blockedNumbers', blocked.id, null, blocked);
+        useAppStore.setState((state) => {
+            state.blockedNumbers.push(blocked);
+        });
+    }
+}
+
+// Rates are saved on every keystroke, so a rate table version is only kept
+// once they have not changed for a moment
+const RATE_TABLE_DELAY_MS = 3000;
+let rateTableTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Keeps the version of rates changed moments ago now, before a ticket records
+ * the current rate table
+ */
+async function flushRateTable(): Promise<void> {
+    if (!rateTableTimer) return;
+    clearTimeout(rateTableTimer);
+    rateTableTimer = null;
+    await useAppStore.getState().snapshotRateTable();
+}
+
 // =============================================================================
 // Store
 // =============================================================================
@@ -106,6 +283,7 @@ export const useAppStore = create<AppState>()(
         tickets: [],
         settings: DEFAULT_SETTINGS,
         blockedNumbers: [],
+        rateTables: [],
         isLoading: true,
         syncStatus: {
             lastSync: null,
@@ -130,8 +308,12 @@ export const useAppStore = create<AppState>()(
                 get().loadTickets(),
                 get().loadSettings(),
                 get().loadBlockedNumbers(),
+                get().loadRateTables(),
             ]);
 
+            // Rates saved before rate tables were kept get their first version
+            await get().snapshotRateTable();
+
             // Initialize sync manager
             const settings = get().settings;
             await syncManager.initialize(settings);
@@ -154,6 +336,7 @@ export const useAppStore = create<AppState>()(
         },
 
         createAgent: async (name: string) => {
+            authorize('agents.create');
             const agent = await db.createAgent(name);
             set((state) => {
                 state.agents.push(agent);
@@ -161,8 +344,9 @@ export const useAppStore = create<AppState>()(
             return agent;
         },
 
-        updateAgent: async (id: string, name: string) => {
-            const updated = await db.updateAgent(id, name);
+        updateAgent: async (id: string, updates: UpdateAgent) => {
+            authorize('agents.manage');
+            const updated = await db.updateAgent(id, updates);
             if (updated) {
                 set((state) => {
                     const index = state.agents.findIndex((a) => a.id === id);
@@ -174,6 +358,7 @@ export const useAppStore = create<AppState>()(
         },
 
         deleteAgent: async (id: string) => {
+            authorize('agents.manage');
             await db.deleteAgent(id);
             set((state) => {
                 state.agents = state.agents.filter((a) => a.id !== id);
@@ -192,6 +377,7 @@ export const useAppStore = create<AppState>()(
         },
 
         createTicket: async (ticketData) => {
+            authorize('tickets.create', ticketData.agentId);
             const ticket = await db.createTicket(ticketData);
 
             set((state) => {
@@ -214,6 +400,8 @@ export const useAppStore = create<AppState>()(
         updateTicket: async (id: string, updates: Partial<Ticket>) => {
             const current = get().tickets.find((t) => t.id === id);
             if (!current) return;
+            authorize('tickets.edit', current.agentId);
+            if (updates.agentId) authorize('tickets.edit', updates.agentId);
 
             const updated = await db.updateTicket(id, updates);
 
@@ -240,6 +428,7 @@ export const useAppStore = create<AppState>()(
         deleteTicket: async (id: string) => {
             const current = get().tickets.find((t) => t.id === id);
             if (!current) return;
+            authorize('tickets.delete', current.agentId);
 
             await db.deleteTicket(id);
 
@@ -258,6 +447,67 @@ export const useAppStore = create<AppState>()(
             });
         },
 
+        // Writes the new rates of a re-rate plan (see planReRate); returns
+        // how many tickets were updated
+        reRateTickets: async (changes: TicketReRate[], reRatedBy: string) => {
+            for (const change of changes) {
+                authorize('tickets.edit', change.ticket.agentId);
+                assertDrawOpen(change.ticket);
+            }
+            const reRatedAt = new Date().toISOString();
+            let count = 0;
+
+            for (const change of changes) {
+                const updated = await db.updateTicket(change.ticket.id, {
+                    entries: change.entries,
+                    billTotal: change.billTotal,
+                    reRatedAt,
+                    reRatedBy,
+                    ...(change.rateTableId ? { rateTableId: change.rateTableId } : {}),
+                });
+                if (!updated) continue;
+
+                count++;
+                set((state) => {
+                    const index = state.tickets.findIndex((t) => t.id === updated.id);
+                    if (index >= 0) state.tickets[index] = updated;
+                });
+            }
+
+            return count;
+        },
+
+        // Moves bills to a new status, stamped with the signed-in user; returns
+        // how many were changed
+        changeTicketStatus: async (ids: string[], status: TicketStatus, reason?: string) => {
+            const user = useAuthStore.getState().user;
+            if (!user) throw new SignInRequiredError();
+            const targets = get().tickets.filter((t) => ids.includes(t.id));
+
+            // Check every bill before writing any; reviews may finish after
+            // the cut-off, sending a bill in may not
+            const permission = getStatusPermission(status);
+            const changes = targets.map((ticket) => {
+                authorize(permission, ticket.agentId);
+                if (permission !== 'tickets.review') assertDrawOpen(ticket);
+                return { id: ticket.id, updates: buildStatusChange(ticket, status, user.id, reason) };
+            });
+
+            let count = 0;
+            for (const change of changes) {
+                const updated = await db.updateTicket(change.id, change.updates);
+                if (!updated) continue;
+
+                count++;
+                set((state) => {
+                    const index = state.tickets.findIndex((t) => t.id === updated.id);
+                    if (index >= 0) state.tickets[index] = updated;
+                });
+            }
+
+            return count;
+        },
+
         // ==========================================================================
         // Settings
         // ==========================================================================
@@ -270,17 +520,85 @@ export const useAppStore = create<AppState>()(
         },
 
         updateSettings: async (updates: Partial<Settings>) => {
+            authorize('settings.manage');
             const settings = await db.updateSettings(updates);
             set((state) => {
                 state.settings = settings;
             });
 
+            if (updates.payouts || updates.products || updates.agentPayouts) {
+                if (rateTableTimer) clearTimeout(rateTableTimer);
+                rateTableTimer = setTimeout(() => {
+                    rateTableTimer = null;
+                    get().snapshotRateTable();
+                }, RATE_TABLE_DELAY_MS);
+            }
+
             // Reinitialize sync if storage mode changed
             if (updates.storageMode || updates.firebaseConfig) {
                 await syncManager.initialize(settings);
             }
         },
 
+        // Lets a draw past its cut-off take bills and edits again, until closed
+        reopenDraw: async (productId: string, drawId: string) => {
+            authorize('draws.reopen');
+            const user = useAuthStore.getState().user;
+            if (!user) throw new SignInRequiredError();
+
+            const reopenedDraws = get().settings.reopenedDraws.filter(
+                (r) => !(r.productId === productId && r.drawId === drawId)
+            );
+            reopenedDraws.push({ productId, drawId, reopenedBy: user.id, reopenedAt: new Date().toISOString() });
+            const settings = await db.updateSettings({ reopenedDraws });
+            set((state) => {
+                state.settings = settings;
+            });
+        },
+
+        closeDraw: async (productId: string, drawId: string) => {
+            authorize('draws.reopen');
+            const reopenedDraws = get().settings.reopenedDraws.filter(
+                (r) => !(r.productId === productId && r.drawId === drawId)
+            );
+            const settings = await db.updateSettings({ reopenedDraws });
+            set((state) => {
+                state.settings = settings;
+            });
+        },
+
+        // ==========================================================================
+        // Rate Tables
+        // ==========================================================================
+
+        loadRateTables: async () => {
+            const rateTables = await db.getRateTables();
+            set((state) => {
+                state.rateTables = rateTables;
+            });
+        },
+
+        // Keeps a new rate table version when the rates of the settings differ
+        // from the current one, and makes it the current one
+        snapshotRateTable: async () => {
+            const { rateTables, settings } = get();
+            const createdBy = useAuthStore.getState().user?.username ?? 'system';
+            const version = createRateTableVersion(rateTables, settings, createdBy);
+            if (!version) return;
+
+            // Follows from a settings change already checked (or from loading)
+            try {
+                const table = await db.createRateTable(version, { system: true });
+                const updated = await db.updateSettings({ rateTableId: table.id }, { system: true });
+                set((state) => {
+                    state.rateTables.push(table);
+                    state.settings = updated;
+                });
+            } catch (error) {
+                console.error('[RateTable] Failed to keep rate table:', error);
+            }
+        },
+
         // ==========================================================================
         // Blocked Numbers
         // ==========================================================================
@@ -293,6 +611,7 @@ export const useAppStore = create<AppState>()(
         },
 
         createBlockedNumber: async (data) => {
+            authorize('blocked.manage');
             const blocked = await db.createBlockedNumber(data);
             set((state) => {
                 state.blockedNumbers.push(blocked);
@@ -300,6 +619,7 @@ export const useAppStore = create<AppState>()(
         },
 
         updateBlockedNumber: async (id: string, updates: Partial<BlockedNumber>) => {
+            authorize('blocked.manage');
             const updated = await db.updateBlockedNumber(id, updates);
             if (updated) {
                 set((state) => {
@@ -312,6 +632,7 @@ export const useAppStore = create<AppState>()(
         },
 
         deleteBlockedNumber: async (id: string) => {
+            authorize('blocked.manage');
             await db.deleteBlockedNumber(id);
             set((state) => {
                 state.blockedNumbers = state.blockedNumbers.filter((b) => b.id !== id);
@@ -335,8 +656,10 @@ export const useAppStore = create<AppState>()(
         },
 
         addEntry: (category: Category, raw: string, unitPrice: number, quantity = 1, withReverse = false) => {
-            const { settings, blockedNumbers, currentTicket } = get();
-            if (!currentTicket) return;
+            const { settings, blockedNumbers, currentTicket, tickets } = get();
+            if (!currentTicket) return null;
+            const ticketSettings = getCurrentTicketSettings();
+            const context = { productId: currentTicket.round, agentId: currentTicket.agentId, date: currentTicket.date };
 
             try {
                 // Calculate expanded numbers
@@ -354,6 +677,15 @@ export const useAppStore = create<AppState>()(
                     expanded = undefined as unknown as string[]; // Will be computed by computeEntryTotals
                 }
 
+                // Sold so far in the draw, this bill included
+                const comboSales = getDrawComboSales(
+                    tickets,
+                    currentTicket.round,
+                    currentTicket.date,
+                    settings,
+                    currentTicket.entries
+                );
+
                 // Create entry with computed totals
                 const baseEntry = {
                     id: uuidv4(),
@@ -363,44 +695,24 @@ export const useAppStore = create<AppState>()(
                     quantity,
                 };
 
-                let entry: Entry;
-                if (expanded) {
-                    // Custom expanded (withReverse) - each combo shows full price for payout
-                    // But total = single price (what customer paid)
-                    const perComboTotals = expanded.map((combo) => {
-                        const blocked = blockedNumbers.find(
-                            (b) => b.number === combo && b.category === category && b.enabled
-                        );
-                        const payoutRate = blocked?.payoutOverride ?? settings.payouts[category];
-                        // Full soldAmount per combo for payout calculation
-                        const soldAmount = unitPrice * quantity;
-                        return {
-                            combo,
-                            unitPrice,
-                            quantity,
-                            soldAmount,
-                            payoutRate,
-                        };
-                    });
-                    // Total is single price, not multiplied by combo count
-                    const total = unitPrice * quantity;
-                    entry = {
-                        ...baseEntry,
-                        expanded,
-                        perComboTotals,
-                        total,
-                    };
-                } else {
-                    entry = computeEntryTotals(baseEntry, settings, blockedNumbers);
-                }
+                // Custom expanded (withReverse) - each combo shows full price for payout,
+                // but total = single price (what customer paid)
+                const entry = expanded
+                    ? rateEntryCombos({ ...baseEntry, expanded }, ticketSettings, blockedNumbers, context, comboSales)
+                    : computeEntryTotals(baseEntry, ticketSettings, blockedNumbers, context, comboSales);
+
+                const enforced = enforceCeiling(entry, comboSales, context);
+                if (!enforced.entry) return enforced.action;
+                const accepted = enforced.entry;
 
                 set((state) => {
                     if (!state.currentTicket) return;
 
-                    // Check for duplicates if merge is enabled
-                    if (state.settings.mergeDuplicates) {
+                    // Check for duplicates if merge is enabled; entries the
+                    // ceiling policy touched stay separate
+                    if (state.settings.mergeDuplicates && !accepted.ceiling) {
                         const existingIndex = state.currentTicket.entries.findIndex(
-                            (e) => e.category === category && e.raw === raw
+                            (e) => e.category === category && e.raw === raw && !e.ceiling
                         );
 
                         if (existingIndex >= 0) {
@@ -408,13 +720,21 @@ export const useAppStore = create<AppState>()(
                             const existing = state.currentTicket.entries[existingIndex];
                             const newQuantity = existing.quantity + quantity;
 
-                            const merged = computeEntryTotals(
+                            const merged = repriceEntry(
                                 {
                                     ...existing,
                                     quantity: newQuantity,
                                 },
-                                state.settings,
-                                state.blockedNumbers
+                                ticketSettings,
+                                state.blockedNumbers,
+                                context,
+                                getDrawComboSales(
+                                    tickets,
+                                    currentTicket.round,
+                                    currentTicket.date,
+                                    settings,
+                                    currentTicket.entries.filter((e) => e.id !== existing.id)
+                                )
                             );
 
                             state.currentTicket.entries[existingIndex] = merged;
@@ -422,14 +742,28 @@ export const useAppStore = create<AppState>()(
                         }
                     }
 
-                    state.currentTicket.entries.push(entry);
+                    state.currentTicket.entries.push(accepted);
                 });
+
+                return enforced.action;
             } catch (error) {
                 console.error('Failed to add entry:', error);
+                return null;
             }
         },
 
         updateEntry: (entryId: string, updates: Partial<Entry>) => {
+            const { currentTicket, tickets, settings } = get();
+            if (!currentTicket) return;
+            const ticketSettings = getCurrentTicketSettings();
+            const soldTotals = getDrawComboSales(
+                tickets,
+                currentTicket.round,
+                currentTicket.date,
+                settings,
+                currentTicket.entries.filter((e) => e.id !== entryId)
+            );
+
             set((state) => {
                 if (!state.currentTicket) return;
 
@@ -437,14 +771,22 @@ export const useAppStore = create<AppState>()(
                 if (index < 0) return;
 
                 const existing = state.currentTicket.entries[index];
-                const updated = computeEntryTotals(
+                const next = { ...existing, ...updates, id: entryId };
+                // A changed number is expanded again; otherwise its combos are kept
+                const rate =
+                    next.raw === existing.raw && next.category === existing.category
+                        ? repriceEntry
+                        : computeEntryTotals;
+                const updated = rate(
+                    next,
+                    ticketSettings,
+                    state.blockedNumbers,
                     {
-                        ...existing,
-                        ...updates,
-                        id: entryId,
+                        productId: state.currentTicket.round,
+                        agentId: state.currentTicket.agentId,
+                        date: state.currentTicket.date,
                     },
-                    state.settings,
-                    state.blockedNumbers
+                    soldTotals
                 );
 
                 state.currentTicket.entries[index] = updated;
@@ -460,29 +802,86 @@ export const useAppStore = create<AppState>()(
             });
         },
 
+        markCurrentTicketImported: () => {
+            set((state) => {
+                if (state.currentTicket) state.currentTicket.imported = true;
+            });
+        },
+
         clearCurrentTicket: () => {
             set((state) => {
                 state.currentTicket = null;
             });
         },
 
-        saveCurrentTicket: async (createdBy: string) => {
-            const { currentTicket, createTicket } = get();
+        saveCurrentTicket: async (options: SaveTicketOptions = {}) => {
+            await flushRateTable();
+
+            const { currentTicket, createTicket, agents, tickets, settings } = get();
             if (!currentTicket || currentTicket.entries.length === 0) return null;
+            authorize('tickets.create', currentTicket.agentId);
+            const user = useAuthStore.getState().user;
+            if (!user) throw new SignInRequiredError();
+            assertDrawOpen({ round: currentTicket.round, date: currentTicket.date });
+
+            // Payout bands and ceiling policy again, against tickets saved
+            // since the entries were added
+            const context = { productId: currentTicket.round, agentId: currentTicket.agentId, date: currentTicket.date };
+            const payouts = resolvePayouts(getCurrentTicketSettings(), context);
+            const activeBlocked = getActiveBlockedNumbers(get().blockedNumbers, settings, context);
+            const comboSales = getDrawComboSales(tickets, currentTicket.round, currentTicket.date, settings);
+            const entries: Entry[] = [];
+            const rejected: Entry[] = [];
+            const blocks: CreateBlockedNumber[] = [];
+            for (const entry of currentTicket.entries) {
+                const tiered = applyPayoutTiers(entry, comboSales, activeBlocked, payouts);
+                const enforced = enforceCeiling(tiered, comboSales, context);
+                if (!enforced.entry) {
+                    rejected.push(entry);
+                    continue;
+                }
+                entries.push(enforced.entry);
+                blocks.push(...enforced.blocks);
+                aggregateComboSales([{ entries: [enforced.entry], deleted: false }], comboSales);
+            }
+            if (rejected.length > 0) {
+                throw new CeilingRejectedError(rejected);
+            }
 
-            const billTotal = currentTicket.entries.reduce(
+            // Credit limit: only roles allowed to may push an agent over their limit
+            const agent = agents.find((a) => a.id === currentTicket.agentId);
+            if (agent) {
+                const usage = computeCreditUsage(tickets, agent, currentTicket.round, currentTicket.date, settings);
+                const check = checkCreditLimit(usage, entries);
+                const canOverride = hasPermission(user, 'tickets.overrideCredit');
+                if (usage && check.exceeded && !(options.overrideCreditLimit && canOverride)) {
+                    throw new CreditLimitError(usage, check.amount);
+                }
+            }
+
+            const billTotal = entries.reduce(
                 (sum, e) => sum + (e.total ?? 0),
                 0
             );
 
+            await createCeilingBlocks(blocks);
+
             const ticket = await createTicket({
                 agentId: currentTicket.agentId,
                 round: currentTicket.round,
                 date: currentTicket.date,
                 drawPeriod: currentTicket.drawPeriod,
-                createdBy,
-                entries: currentTicket.entries,
+                createdBy: user.id,
+                entries,
                 billTotal,
+                ...(settings.rateTableId ? { rateTableId: settings.rateTableId } : {}),
+                // Bills of users who may not review them (agents among them) and
+                // bills from a scan or a pasted list wait for review
+                status: options.draft
+                    ? 'draft'
+                    : !hasPermission(user, 'tickets.review') || currentTicket.imported
+                      ? 'pending'
+                      : 'accepted',
             });
 
             set((state) => {
@@ -501,6 +900,13 @@ export const useAppStore = create<AppState>()(
             if (undoStack.length === 0) return false;
 
             const lastAction = undoStack[undoStack.length - 1];
+            // Undoing a write is making the opposite one
+            const permission: Record<UndoAction['type'], Permission> = {
+                CREATE_TICKET: 'tickets.create',
+                UPDATE_TICKET: 'tickets.edit',
+                DELETE_TICKET: 'tickets.delete',
+            };
+            authorize(permission[lastAction.type], lastAction.data.agentId);
 
             switch (lastAction.type) {
                 case 'CREATE_TICKET':
@@ -6,9 +6,10 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { User } from '@shared/schemas';
+import { User, Permission } from '@shared/schemas';
 import * as db from '../storage/db';
 import { verifyPassword } from '../utils/crypto';
+import { hasPermission, isAdminRole } from '../lib/permissions';
 
 interface AuthState {
     user: User | null;
@@ -51,6 +52,11 @@ export const useAuthStore = create<AuthState>()(
                         return false;
                     }
 
+                    if (user.disabled) {
+                        set({ error: 'This account has been disabled', isLoading: false });
+                        return false;
+                    }
+
                     set({
                         user,
                         isAuthenticated: true,
@@ -102,10 +108,10 @@ export const useAuthStore = create<AuthState>()(
                 const { user } = get();
 
                 if (user) {
-                    // Verify user still exists in DB
+                    // Verify user still exists in DB and pick up role changes
                     const dbUser = await db.getUser(user.id);
-                    if (dbUser) {
-                        set({ isAuthenticated: true, isLoading: false });
+                    if (dbUser && !dbUser.disabled) {
+                        set({ user: dbUser, isAuthenticated: true, isLoading: false });
                         return;
                     }
                 }
@@ -125,12 +131,25 @@ export const useAuthStore = create<AuthState>()(
     )
 );
 
+// Writes to storage are checked against, and recorded in the audit log for,
+// the signed-in user
+db.setActingUser(useAuthStore.getState().user);
+useAuthStore.subscribe((state) => db.setActingUser(state.user));
+
 /**
- * Check if current user is admin
+ * Check if current user is admin (owner or admin role)
  */
 export function useIsAdmin(): boolean {
     const user = useAuthStore((state) => state.user);
-    return user?.role === 'admin';
+    return isAdminRole(user?.role);
+}
+
+/**
+ * Check if the current user's role has a permission (see ROLE_PERMISSIONS)
+ */
+export function usePermission(permission: Permission): boolean {
+    const user = useAuthStore((state) => state.user);
+    return hasPermission(user, permission);
 }
 
 /**
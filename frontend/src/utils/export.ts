@@ -2,7 +2,9 @@
  * Export utilities for CSV and JSON
  */
 
-import { Ticket, Summary, Agent, CATEGORY_LABELS } from '@shared/schemas';
+import { Ticket, Summary, Agent, AuditEntry, CATEGORY_LABELS } from '@shared/schemas';
+import { TicketWin, PRIZE_LABELS } from '../lib/payout';
+import { formatAuditValue } from '../lib/audit';
 
 /**
  * Convert tickets to CSV format
@@ -62,12 +64,12 @@ export function summaryToCSV(summary: Summary): string {
         `Ticket Count,${summary.ticketCount}`,
         '',
         'Per Agent Breakdown',
-        'Agent,Gross,Expected Payout,Profit,Ticket Count',
+        'Agent,Gross,Expected Payout,Profit,Commission,Net Due,Ticket Count',
     ];
 
     for (const agent of summary.perAgent) {
         lines.push(
-            `${agent.agentName},${agent.gross},${agent.expectedPayout},${agent.profit},${agent.ticketCount}`
+            `${agent.agentName},${agent.gross},${agent.expectedPayout},${agent.profit},${agent.commission},${agent.netDue},${agent.ticketCount}`
         );
     }
 
@@ -85,6 +87,79 @@ export function summaryToCSV(summary: Summary): string {
     return lines.join('\n');
 }
 
+/**
+ * Convert evaluated wins to CSV format (one row per winning combo)
+ */
+export function winnersToCSV(wins: TicketWin[], agents: Agent[]): string {
+    const headers = [
+        'Ticket ID',
+        'Agent',
+        'Date',
+        'Category',
+        'Raw Number',
+        'Combo',
+        'Prize',
+        'Matched',
+        'Unit Price',
+        'Quantity',
+        'Rate',
+        'Amount',
+    ];
+
+    const rows: string[][] = [headers];
+
+    const agentMap = new Map(agents.map((a) => [a.id, a.name]));
+
+    for (const win of wins) {
+        for (const entryWin of win.entries) {
+            for (const line of entryWin.lines) {
+                rows.push([
+                    win.ticket.id,
+                    agentMap.get(win.ticket.agentId) ?? 'Unknown',
+                    win.ticket.date,
+                    CATEGORY_LABELS[line.category] ?? line.category,
+                    entryWin.entry.raw,
+                    line.combo,
+                    PRIZE_LABELS[line.prize],
+                    line.matched,
+                    line.unitPrice.toString(),
+                    line.quantity.toString(),
+                    line.rate.toString(),
+                    line.amount.toString(),
+                ]);
+            }
+        }
+    }
+
+    return rows.map((row) => row.map((cell) => `"${cell}"`).join(',')).join('\n');
+}
+
+/**
+ * Convert audit log entries to CSV format (one row per changed field)
+ */
+export function auditLogToCSV(entries: AuditEntry[]): string {
+    const headers = ['Timestamp', 'Actor', 'Action', 'Entity', 'Record ID', 'Field', 'Before', 'After'];
+    const rows: string[][] = [headers];
+
+    for (const entry of entries) {
+        for (const change of entry.changes) {
+            rows.push([
+                entry.timestamp,
+                entry.actor,
+                entry.action,
+                entry.entity,
+                entry.entityId,
+                change.field,
+                formatAuditValue(change.before),
+                formatAuditValue(change.after),
+            ]);
+        }
+    }
+
+    // Values hold JSON, so quotes are doubled
+    return rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+}
+
 /**
  * Download data as a file
  */
@@ -130,6 +205,24 @@ export function exportSummaryCSV(summary: Summary, filename?: string): void {
     );
 }
 
+/**
+ * Export winning lines as CSV
+ */
+export function exportWinnersCSV(wins: TicketWin[], agents: Agent[], filename?: string): void {
+    const csv = winnersToCSV(wins, agents);
+    const date = new Date().toISOString().split('T')[0];
+    downloadFile(csv, filename ?? `winners_${date}.csv`, 'text/csv');
+}
+
+/**
+ * Export audit log entries as CSV
+ */
+export function exportAuditCSV(entries: AuditEntry[], filename?: string): void {
+    const csv = auditLogToCSV(entries);
+    const date = new Date().toISOString().split('T')[0];
+    downloadFile(csv, filename ?? `audit_${date}.csv`, 'text/csv');
+}
+
 /**
  * Format currency (Thai Baht)
  */
@@ -184,3 +277,19 @@ export function formatDateTimeShort(dateString: string): string {
         minute: '2-digit',
     }).format(date);
 }
+
+/**
+ * Format a time left, e.g. "2 วัน 03:12:45" or "00:04:09"
+ */
+export function formatCountdown(ms: number): string {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const days = Math.floor(totalSeconds / 86400);
+    const clock = [
+        Math.floor((totalSeconds % 86400) / 3600),
+        Math.floor((totalSeconds % 3600) / 60),
+        totalSeconds % 60,
+    ]
+        .map((n) => String(n).padStart(2, '0'))
+        .join(':');
+    return days > 0 ? `${days} วัน ${clock}` : clock;
+}
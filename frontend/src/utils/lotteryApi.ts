@@ -5,6 +5,9 @@
  * API: https://lotto.api.rayriffy.com/lotto/{DDMMYYYY}
  */
 
+import { Category } from '@shared/schemas';
+import { DrawResult, evaluateCombo, PRIZE_LABELS } from '../lib/payout';
+
 export interface LotteryApiResponse {
     status: 'success' | 'fail';
     response: {
@@ -119,61 +122,31 @@ function parseLotteryResponse(response: LotteryApiResponse['response']): ParsedL
     };
 }
 
+/**
+ * Convert a parsed API result into the shape used by the win engine
+ */
+export function toDrawResult(result: ParsedLotteryResult): DrawResult {
+    return {
+        firstPrize: result.prizeFirst || undefined,
+        threeTop: result.threeTop || undefined,
+        twoDown: result.twoDown || undefined,
+        threeTod3: result.threeDown[0] || undefined,
+        threeTod4: result.threeDown[1] || undefined,
+    };
+}
+
 /**
  * Check if a number wins any prize
  */
 export function checkWinningNumber(
     number: string,
-    category: string,
+    category: Category,
     result: ParsedLotteryResult
 ): { isWinner: boolean; prize: string } {
-    const num = number.trim();
-
-    switch (category) {
-        case '3top':
-            // Check if matches last 3 digits of prize first
-            if (result.prizeFirst.endsWith(num)) {
-                return { isWinner: true, prize: 'รางวัลที่ 1 (3 ตัวบน)' };
-            }
-            break;
-
-        case '3tod':
-            // Check permutations against last 3 digits
-            const last3 = result.prizeFirst.substring(3);
-            if (isPermutation(num, last3)) {
-                return { isWinner: true, prize: 'รางวัลโต๊ด 3 ตัวบน' };
-            }
-            break;
-
-        case '3down':
-            // Check against back three running numbers
-            if (result.threeDown.includes(num)) {
-                return { isWinner: true, prize: 'รางวัล 3 ตัวล่าง' };
-            }
-            break;
-
-        case '2top':
-            // Check last 2 digits of prize first
-            if (result.prizeFirst.endsWith(num)) {
-                return { isWinner: true, prize: 'รางวัล 2 ตัวบน' };
-            }
-            break;
-
-        case '2down':
-            // Check against back two
-            if (result.twoDown === num) {
-                return { isWinner: true, prize: 'รางวัล 2 ตัวล่าง' };
-            }
-            break;
-    }
-
-    return { isWinner: false, prize: '' };
-}
+    const line = evaluateCombo(number.trim(), category, toDrawResult(result));
 
-/**
- * Check if two numbers are permutations of each other
- */
-function isPermutation(a: string, b: string): boolean {
-    if (a.length !== b.length) return false;
-    return a.split('').sort().join('') === b.split('').sort().join('');
+    if (!line) {
+        return { isWinner: false, prize: '' };
+    }
+    return { isWinner: true, prize: PRIZE_LABELS[line.prize] };
 }
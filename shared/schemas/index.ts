@@ -13,6 +13,8 @@ export const CategoryEnum = z.enum([
     '2tod',
     '2down',
     '2back',
+    '1top',
+    '1down',
 ]);
 
 export type Category = z.infer<typeof CategoryEnum>;
@@ -26,6 +28,8 @@ export const CATEGORY_LABELS: Record<Category, string> = {
     '2tod': '2 ตัวโต๊ด',
     '2down': '2 ตัวล่าง',
     '2back': '2 ตัวกลับ',
+    '1top': 'วิ่งบน',
+    '1down': 'วิ่งล่าง',
 };
 
 export const CATEGORY_DIGIT_LENGTH: Record<Category, number> = {
@@ -37,15 +41,53 @@ export const CATEGORY_DIGIT_LENGTH: Record<Category, number> = {
     '2tod': 2,
     '2down': 2,
     '2back': 2,
+    '1top': 1,
+    '1down': 1,
 };
 
 // =============================================================================
 // Agent
 // =============================================================================
 
+// ค่าคอม: percentage of sales per category kept by the agent
+const CommissionRateSchema = z.number().min(0).max(100);
+
+export const CommissionRatesSchema = z.object({
+    '3top': CommissionRateSchema,
+    '3tod': CommissionRateSchema,
+    '3down': CommissionRateSchema,
+    '3back': CommissionRateSchema,
+    '2top': CommissionRateSchema,
+    '2tod': CommissionRateSchema,
+    '2down': CommissionRateSchema,
+    '2back': CommissionRateSchema,
+    '1top': CommissionRateSchema,
+    '1down': CommissionRateSchema,
+}).partial();
+
+export type CommissionRates = z.infer<typeof CommissionRatesSchema>;
+
+// วงเงินเครดิต: cap on what an agent may send per draw, either by sales or by potential payout
+export const CreditLimitBasisEnum = z.enum(['gross', 'payout']);
+export type CreditLimitBasis = z.infer<typeof CreditLimitBasisEnum>;
+
+export const CREDIT_LIMIT_BASIS_LABELS: Record<CreditLimitBasis, string> = {
+    gross: 'ยอดขาย',
+    payout: 'ยอดจ่ายสูงสุด',
+};
+
+export const CreditLimitSchema = z.object({
+    amount: z.number().positive(),
+    basis: CreditLimitBasisEnum.default('gross'),
+});
+
+export type CreditLimit = z.infer<typeof CreditLimitSchema>;
+
 export const AgentSchema = z.object({
     id: z.string().uuid(),
     name: z.string().min(1).max(100),
+    commission: CommissionRatesSchema.optional(),
+    creditLimit: CreditLimitSchema.nullable().optional(), // null = ไม่จำกัด
     createdAt: z.string().datetime().optional(),
     modifiedAt: z.string().datetime().optional(),
 });
@@ -55,6 +97,9 @@ export type Agent = z.infer<typeof AgentSchema>;
 export const CreateAgentSchema = AgentSchema.omit({ id: true, createdAt: true, modifiedAt: true });
 export type CreateAgent = z.infer<typeof CreateAgentSchema>;
 
+export const UpdateAgentSchema = CreateAgentSchema.partial();
+export type UpdateAgent = z.infer<typeof UpdateAgentSchema>;
+
 // =============================================================================
 // Per-Combo Total
 // =============================================================================
@@ -65,6 +110,7 @@ export const PerComboTotalSchema = z.object({
     quantity: z.number().int().min(1),
     soldAmount: z.number().min(0),
     payoutRate: z.number().min(0),
+    tier: z.number().int().min(0).optional(), // Band of a tiered blocked number this part was paid at
 });
 
 export type PerComboTotal = z.infer<typeof PerComboTotalSchema>;
@@ -73,6 +119,26 @@ export type PerComboTotal = z.infer<typeof PerComboTotalSchema>;
 // Entry
 // =============================================================================
 
+// What happens to a bet that takes a combo over perComboMax in its draw
+export const CeilingPolicyEnum = z.enum(['warn', 'reduce', 'cap', 'reject']);
+export type CeilingPolicy = z.infer<typeof CeilingPolicyEnum>;
+
+export const CEILING_POLICY_LABELS: Record<CeilingPolicy, string> = {
+    warn: 'แจ้งเตือนอย่างเดียว',
+    reduce: 'ลดอัตราจ่าย (เลขอั้น)',
+    cap: 'รับเท่าที่เหลือถึงเพดาน',
+    reject: 'ไม่รับเลขที่เกินเพดาน',
+};
+
+// Which combos of an entry went over perComboMax and what was done about it
+export const CeilingActionSchema = z.object({
+    policy: CeilingPolicyEnum,
+    combos: z.array(z.string()),
+    requestedPrice: z.number().min(0), // Unit price asked for, before a 'cap'
+});
+
+export type CeilingAction = z.infer<typeof CeilingActionSchema>;
+
 export const EntrySchema = z.object({
     id: z.string().uuid(),
     category: CategoryEnum,
@@ -82,6 +148,7 @@ export const EntrySchema = z.object({
     quantity: z.number().int().min(1).default(1),
     perComboTotals: z.array(PerComboTotalSchema).optional(),
     total: z.number().min(0).optional(),
+    ceiling: CeilingActionSchema.optional(), // Set when the ceiling policy touched this entry
 });
 
 export type Entry = z.infer<typeof EntrySchema>;
@@ -91,6 +158,7 @@ export const CreateEntrySchema = EntrySchema.omit({
     expanded: true,
     perComboTotals: true,
     total: true,
+    ceiling: true,
 });
 export type CreateEntry = z.infer<typeof CreateEntrySchema>;
 
@@ -98,19 +166,43 @@ export type CreateEntry = z.infer<typeof CreateEntrySchema>;
 // Ticket
 // =============================================================================
 
+/**
+ * Lifecycle of a bill. Only accepted bills count in sales, payouts and
+ * ceilings; bills from agents, scans and pasted lists wait as pending until
+ * the shop reviews them.
+ */
+export const TicketStatusEnum = z.enum(['draft', 'pending', 'accepted', 'rejected', 'void']);
+export type TicketStatus = z.infer<typeof TicketStatusEnum>;
+
+export const TICKET_STATUS_LABELS: Record<TicketStatus, string> = {
+    draft: 'ร่าง',
+    pending: 'รอรับ',
+    accepted: 'รับแล้ว',
+    rejected: 'ไม่รับ',
+    void: 'ยกเลิก',
+};
+
 export const TicketSchema = z.object({
     id: z.string().uuid(),
     agentId: z.string().uuid(),
-    round: z.string().min(1), // e.g., "morning", "afternoon", "evening"
+    round: z.string().min(1), // Product id, e.g., "government", "lao", "hanoi"
     date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD
     drawPeriod: z.string().optional(), // งวดหวย เช่น "1", "16", "หุ้น"
     createdAt: z.string().datetime(),
-    createdBy: z.string(),
+    createdBy: z.string(), // Id of the user who keyed the bill (older bills: username)
     modifiedAt: z.string().datetime(),
     entries: z.array(EntrySchema),
     billTotal: z.number().min(0),
     synced: z.boolean().default(false),
     deleted: z.boolean().default(false),
+    // Last priced again with the current rates (ปรับอัตราใหม่)
+    reRatedAt: z.string().datetime().optional(),
+    reRatedBy: z.string().optional(),
+    rateTableId: z.string().uuid().optional(), // Rate table in force when sold (ตารางอัตราจ่าย)
+    status: TicketStatusEnum.optional(), // Missing: accepted
+    statusReason: z.string().optional(), // Why the bill was rejected or voided
+    reviewedAt: z.string().datetime().optional(),
+    reviewedBy: z.string().optional(), // User id
 });
 
 export type Ticket = z.infer<typeof TicketSchema>;
@@ -121,19 +213,184 @@ export const CreateTicketSchema = TicketSchema.omit({
     modifiedAt: true,
     synced: true,
     deleted: true,
+    reRatedAt: true,
+    reRatedBy: true,
+    reviewedAt: true,
+    reviewedBy: true,
 });
 export type CreateTicket = z.infer<typeof CreateTicketSchema>;
 
+// =============================================================================
+// Agent Ledger (บัญชีเจ้า)
+// =============================================================================
+
+export const LedgerEntryTypeEnum = z.enum([
+    'sale',         // ยอดขาย - agent owes us
+    'commission',   // ค่าคอม - deducted from what the agent owes
+    'winnings',     // ถูกรางวัล - payable to the agent
+    'cashReceived', // รับเงิน
+    'cashPaid',     // จ่ายเงิน
+    'adjustment',   // ปรับยอด (signed)
+]);
+
+export type LedgerEntryType = z.infer<typeof LedgerEntryTypeEnum>;
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryType, string> = {
+    sale: 'ยอดขาย',
+    commission: 'ค่าคอม',
+    winnings: 'ถูกรางวัล',
+    cashReceived: 'รับเงิน',
+    cashPaid: 'จ่ายเงิน',
+    adjustment: 'ปรับยอด',
+};
+
+export const LedgerEntrySchema = z.object({
+    id: z.string().uuid(),
+    agentId: z.string().uuid(),
+    type: LedgerEntryTypeEnum,
+    amount: z.number(), // Positive, except adjustments which carry their own sign
+    drawDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // Draw period id the entry belongs to
+    productId: z.string().optional(),
+    note: z.string().max(200).optional(),
+    auto: z.boolean().default(false), // Posted from the draw's tickets (replaced on re-post)
+    createdAt: z.string().datetime(),
+    createdBy: z.string(),
+    modifiedAt: z.string().datetime(),
+    synced: z.boolean().default(false),
+    deleted: z.boolean().default(false),
+});
+
+export type LedgerEntry = z.infer<typeof LedgerEntrySchema>;
+
+export const CreateLedgerEntrySchema = LedgerEntrySchema.omit({
+    id: true,
+    createdAt: true,
+    modifiedAt: true,
+    synced: true,
+    deleted: true,
+});
+export type CreateLedgerEntry = z.infer<typeof CreateLedgerEntrySchema>;
+
+// =============================================================================
+// Hedge Ticket (ตัดส่ง)
+// =============================================================================
+
+// Outbound bets forwarded to an upstream dealer. Entries carry the upstream's
+// payout rates in perComboTotals, so the win engine evaluates them as is.
+export const HedgeTicketSchema = z.object({
+    id: z.string().uuid(),
+    round: z.string(), // Product id
+    drawDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // Draw period id
+    upstream: z.string().max(100), // เจ้ามือที่ส่งต่อ
+    entries: z.array(EntrySchema),
+    total: z.number().min(0), // Stake sent upstream
+    createdAt: z.string().datetime(),
+    createdBy: z.string(),
+    modifiedAt: z.string().datetime(),
+    synced: z.boolean().default(false),
+    deleted: z.boolean().default(false),
+});
+
+export type HedgeTicket = z.infer<typeof HedgeTicketSchema>;
+
+export const CreateHedgeTicketSchema = HedgeTicketSchema.omit({
+    id: true,
+    createdAt: true,
+    modifiedAt: true,
+    synced: true,
+    deleted: true,
+});
+export type CreateHedgeTicket = z.infer<typeof CreateHedgeTicketSchema>;
+
+// =============================================================================
+// Audit Log
+// =============================================================================
+
+export const AuditActionEnum = z.enum(['create', 'update', 'delete']);
+export type AuditAction = z.infer<typeof AuditActionEnum>;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    create: 'เพิ่ม',
+    update: 'แก้ไข',
+    delete: 'ลบ',
+};
+
+// Storage collections whose writes are recorded
+export const AuditEntityEnum = z.enum([
+    'agents',
+    'tickets',
+    'settings',
+    'blockedNumbers',
+    'lotteryResults',
+    'ledger',
+    'hedges',
+    'users',
+    'rateTables',
+]);
+export type AuditEntity = z.infer<typeof AuditEntityEnum>;
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+    agents: 'เจ้าที่ส่ง',
+    tickets: 'บิล',
+    settings: 'ตั้งค่า',
+    blockedNumbers: 'เลขอั้น',
+    lotteryResults: 'ผลหวย',
+    ledger: 'บัญชีเจ้า',
+    hedges: 'ตัดส่ง',
+    users: 'ผู้ใช้',
+    rateTables: 'ตารางอัตราจ่าย',
+};
+
+export const AuditChangeSchema = z.object({
+    field: z.string(),
+    before: z.unknown().optional(), // Unset = the field did not exist
+    after: z.unknown().optional(),
+});
+
+export type AuditChange = z.infer<typeof AuditChangeSchema>;
+
+// Append-only: entries are never updated or deleted
+export const AuditEntrySchema = z.object({
+    id: z.string().uuid(),
+    action: AuditActionEnum,
+    entity: AuditEntityEnum,
+    entityId: z.string(),
+    actor: z.string(),                  // Username
+    actorId: z.string().optional(),
+    changes: z.array(AuditChangeSchema),
+    timestamp: z.string().datetime(),
+    synced: z.boolean().default(false),
+});
+
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
+
 // =============================================================================
 // Blocked Number
 // =============================================================================
 
+// One band of a tiered blocked number. Bands follow each other: a band covers
+// what is sold on the combo in the draw up to `upTo`, counted from zero.
+export const PayoutTierSchema = z.object({
+    upTo: z.number().positive().nullable(), // null = no limit (last band only)
+    payoutRate: z.number().min(0).nullable(), // null = the normal rate
+});
+
+export type PayoutTier = z.infer<typeof PayoutTierSchema>;
+
 export const BlockedNumberSchema = z.object({
     id: z.string().uuid(),
     number: z.string().regex(/^\d+$/, 'Must be numeric'),
     category: CategoryEnum,
     payoutOverride: z.number().min(0),
+    // When set, replaces payoutOverride. Anything sold beyond the last band's
+    // upTo is refused.
+    tiers: z.array(PayoutTierSchema).optional(),
     enabled: z.boolean().default(true),
+    // Validity window; fields left unset do not restrict
+    productId: z.string().min(1).optional(),
+    drawDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // Draw period id
+    validFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // Ticket dates, inclusive
+    validTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
 });
 
 export type BlockedNumber = z.infer<typeof BlockedNumberSchema>;
@@ -149,6 +406,7 @@ export const LotteryResultSchema = z.object({
     id: z.string().uuid(),
     date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD
     drawPeriod: z.string().optional(), // งวด: 1, 16, หุ้น
+    round: z.string().optional(), // Product id (ไม่ระบุ = หวยรัฐบาล)
     firstPrize: z.string().regex(/^\d{6}$/).optional(), // รางวัลที่ 1 (6 หลัก)
     threeTop: z.string().regex(/^\d{3}$/).optional(), // 3 ตัวบน
     threeDown: z.string().regex(/^\d{3}$/).optional(), // 3 ตัวล่าง
@@ -183,6 +441,8 @@ export const PayoutsSchema = z.object({
     '2tod': z.number().min(0).default(35),
     '2down': z.number().min(0).default(70),
     '2back': z.number().min(0).default(35),
+    '1top': z.number().min(0).default(3),
+    '1down': z.number().min(0).default(4),
 });
 
 export type Payouts = z.infer<typeof PayoutsSchema>;
@@ -196,8 +456,78 @@ export const DEFAULT_PAYOUTS: Payouts = {
     '2tod': 35,
     '2down': 70,
     '2back': 35,
+    '1top': 3,
+    '1down': 4,
 };
 
+// Partial payout table layered over the global rates (per product / per agent)
+export const PayoutOverridesSchema = PayoutsSchema.partial();
+export type PayoutOverrides = z.infer<typeof PayoutOverridesSchema>;
+
+// =============================================================================
+// Products (ประเภทหวย) & Draw Schedules
+// =============================================================================
+
+export const GOVERNMENT_PRODUCT_ID = 'government';
+
+export const DrawScheduleSchema = z.object({
+    type: z.enum(['semimonthly', 'weekly']), // semimonthly = งวดวันที่ 1/16 แบบหวยรัฐบาล
+    weekdays: z.array(z.number().int().min(0).max(6)).default([]), // weekly: 0 = อาทิตย์ ... 6 = เสาร์
+    drawTime: z.string().regex(/^\d{2}:\d{2}$/), // HH:mm เวลาออกผล
+    cutoffMinutes: z.number().int().min(0).default(0), // ปิดรับก่อนออกผล (นาที)
+});
+
+export type DrawSchedule = z.infer<typeof DrawScheduleSchema>;
+
+// A draw past its cut-off that an admin opened again for bills and edits
+export const ReopenedDrawSchema = z.object({
+    productId: z.string(),
+    drawId: z.string(), // Draw date (YYYY-MM-DD)
+    reopenedBy: z.string(), // User id
+    reopenedAt: z.string().datetime(),
+});
+
+export type ReopenedDraw = z.infer<typeof ReopenedDrawSchema>;
+
+// government = รางวัลที่ 1 + เลขหน้า/ท้าย 3 ตัว + ท้าย 2 ตัว, topBottom = 3 ตัวบน + 2 ตัวล่าง
+export const ResultShapeEnum = z.enum(['government', 'topBottom']);
+export type ResultShape = z.infer<typeof ResultShapeEnum>;
+
+export const ProductSchema = z.object({
+    id: z.string().regex(/^[a-z0-9-]+$/, 'Must be lowercase letters, digits or -').min(1).max(50),
+    name: z.string().min(1).max(100),
+    schedule: DrawScheduleSchema,
+    resultShape: ResultShapeEnum,
+    payouts: PayoutOverridesSchema.optional(), // Overrides the global rates for this product
+    enabled: z.boolean().default(true),
+});
+
+export type Product = z.infer<typeof ProductSchema>;
+
+export const DEFAULT_PRODUCTS: Product[] = [
+    {
+        id: GOVERNMENT_PRODUCT_ID,
+        name: 'หวยรัฐบาล',
+        schedule: { type: 'semimonthly', weekdays: [], drawTime: '16:00', cutoffMinutes: 0 },
+        resultShape: 'government',
+        enabled: true,
+    },
+    {
+        id: 'lao',
+        name: 'หวยลาว',
+        schedule: { type: 'weekly', weekdays: [1, 4], drawTime: '20:30', cutoffMinutes: 0 },
+        resultShape: 'topBottom',
+        enabled: false,
+    },
+    {
+        id: 'hanoi',
+        name: 'หวยฮานอย',
+        schedule: { type: 'weekly', weekdays: [0, 1, 2, 3, 4, 5, 6], drawTime: '18:30', cutoffMinutes: 0 },
+        resultShape: 'topBottom',
+        enabled: false,
+    },
+];
+
 // =============================================================================
 // Ceilings
 // =============================================================================
@@ -205,10 +535,73 @@ export const DEFAULT_PAYOUTS: Payouts = {
 export const CeilingsSchema = z.object({
     perComboMax: z.number().min(0).default(10000),
     perNumberMax: z.number().min(0).default(50000), // เพดานต่อเลข (รวมทุกบิล)
+    policy: CeilingPolicyEnum.default('warn'),
+    reducedPayoutPercent: z.number().min(0).max(100).default(50), // Rate kept by the 'reduce' policy
 });
 
 export type Ceilings = z.infer<typeof CeilingsSchema>;
 
+export const DEFAULT_CEILINGS: Ceilings = {
+    perComboMax: 10000,
+    perNumberMax: 50000,
+    policy: 'warn',
+    reducedPayoutPercent: 50,
+};
+
+// =============================================================================
+// Hedging (ตัดส่ง)
+// =============================================================================
+
+const KeepLimitSchema = z.number().min(0);
+
+// Most we hold on one combo per category; anything above goes upstream.
+// Categories without a limit are never hedged.
+export const KeepLimitsSchema = z.object({
+    '3top': KeepLimitSchema,
+    '3tod': KeepLimitSchema,
+    '3down': KeepLimitSchema,
+    '3back': KeepLimitSchema,
+    '2top': KeepLimitSchema,
+    '2tod': KeepLimitSchema,
+    '2down': KeepLimitSchema,
+    '2back': KeepLimitSchema,
+    '1top': KeepLimitSchema,
+    '1down': KeepLimitSchema,
+}).partial();
+
+export type KeepLimits = z.infer<typeof KeepLimitsSchema>;
+
+export const HedgingSchema = z.object({
+    upstream: z.string().max(100).default(''),
+    keep: KeepLimitsSchema.default({}),
+    payouts: PayoutOverridesSchema.default({}), // Upstream rates; unset categories use our own table
+});
+
+export type Hedging = z.infer<typeof HedgingSchema>;
+
+export const DEFAULT_HEDGING: Hedging = { upstream: '', keep: {}, payouts: {} };
+
+// =============================================================================
+// Rate Tables (ตารางอัตราจ่าย)
+// =============================================================================
+
+// Every payout layer as it stood from `effectiveFrom` until the next version.
+// Kept forever, so a ticket can always be paid at the rates it was sold with.
+export const RateTableSchema = z.object({
+    id: z.string().uuid(),
+    version: z.number().int().positive(),
+    payouts: PayoutsSchema,
+    productPayouts: z.record(z.string(), PayoutOverridesSchema).default({}), // productId → overrides
+    agentPayouts: z.record(z.string(), PayoutOverridesSchema).default({}), // agentId → overrides
+    effectiveFrom: z.string().datetime(),
+    createdBy: z.string(),
+});
+
+export type RateTable = z.infer<typeof RateTableSchema>;
+
+export const CreateRateTableSchema = RateTableSchema.omit({ id: true });
+export type CreateRateTable = z.infer<typeof CreateRateTableSchema>;
+
 // =============================================================================
 // Storage Mode
 // =============================================================================
@@ -243,33 +636,117 @@ export const SettingsSchema = z.object({
     firebaseConfig: FirebaseConfigSchema.optional(),
     mergeDuplicates: z.boolean().default(true),
     conflictResolution: z.enum(['remote', 'local']).default('remote'),
+    products: z.array(ProductSchema).default(DEFAULT_PRODUCTS),
+    agentPayouts: z.record(z.string(), PayoutOverridesSchema).default({}), // agentId → rates over the product table
+    hedging: HedgingSchema.default(DEFAULT_HEDGING),
+    rateTableId: z.string().uuid().optional(), // Rate table of the current rates
+    reopenedDraws: z.array(ReopenedDrawSchema).default([]),
 });
 
 export type Settings = z.infer<typeof SettingsSchema>;
 
 export const DEFAULT_SETTINGS: Settings = {
     payouts: DEFAULT_PAYOUTS,
-    ceilings: { perComboMax: 10000, perNumberMax: 50000 },
+    ceilings: DEFAULT_CEILINGS,
     riskyThreshold: 5000,
     storageMode: 'Off',
     mergeDuplicates: true,
     conflictResolution: 'remote',
+    products: DEFAULT_PRODUCTS,
+    agentPayouts: {},
+    hedging: DEFAULT_HEDGING,
+    reopenedDraws: [],
 };
 
 // =============================================================================
 // User
 // =============================================================================
 
-export const UserRoleEnum = z.enum(['admin', 'user']);
+// owner / admin: everything; user: shop staff (signed-out sessions get no role);
+// cashier: bill entry only; auditor: read-only reports; agent: own bills only
+export const UserRoleEnum = z.enum(['owner', 'admin', 'user', 'cashier', 'auditor', 'agent']);
 export type UserRole = z.infer<typeof UserRoleEnum>;
 
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+    owner: 'เจ้าของ',
+    admin: 'ผู้ดูแล',
+    user: 'พนักงาน',
+    cashier: 'คนคีย์บิล',
+    auditor: 'ผู้ตรวจสอบ',
+    agent: 'เจ้าที่ส่ง',
+};
+
+export const PermissionEnum = z.enum([
+    'tickets.create',
+    'tickets.edit',
+    'tickets.delete',
+    'tickets.viewAll',
+    'tickets.overrideCredit',
+    'tickets.review',
+    'draws.reopen',
+    'agents.create',
+    'agents.manage',
+    'blocked.manage',
+    'results.manage',
+    'ledger.manage',
+    'hedges.manage',
+    'settings.manage',
+    'reports.view',
+    'audit.view',
+    'users.manage',
+]);
+export type Permission = z.infer<typeof PermissionEnum>;
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+    'tickets.create': 'บันทึกบิล',
+    'tickets.edit': 'แก้ไขบิล',
+    'tickets.delete': 'ลบบิล',
+    'tickets.viewAll': 'ดูบิลทุกเจ้า',
+    'tickets.overrideCredit': 'อนุมัติเกินวงเงิน',
+    'tickets.review': 'ตรวจรับบิล',
+    'draws.reopen': 'เปิดรับงวดที่ปิดแล้ว',
+    'agents.create': 'เพิ่มเจ้าที่ส่ง',
+    'agents.manage': 'แก้ไข/ลบเจ้าที่ส่ง',
+    'blocked.manage': 'จัดการเลขอั้น',
+    'results.manage': 'บันทึกผลหวย',
+    'ledger.manage': 'บันทึกบัญชีเจ้า',
+    'hedges.manage': 'ตัดส่ง',
+    'settings.manage': 'แก้ไขการตั้งค่า',
+    'reports.view': 'ดูรายงาน',
+    'audit.view': 'ดูประวัติการแก้ไข',
+    'users.manage': 'จัดการผู้ใช้',
+};
+
+// Permission matrix; roles not listed for a permission are refused it
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    owner: PermissionEnum.options,
+    admin: PermissionEnum.options,
+    user: [
+        'tickets.create',
+        'tickets.viewAll',
+        'agents.create',
+        'blocked.manage',
+        'results.manage',
+        'ledger.manage',
+        'hedges.manage',
+        'settings.manage',
+        'reports.view',
+    ],
+    cashier: ['tickets.create'],
+    auditor: ['tickets.viewAll', 'reports.view', 'audit.view'],
+    agent: ['tickets.create'], // Limited to the user's agentId
+};
+
 export const UserSchema = z.object({
     id: z.string().uuid(),
     username: z.string().min(3).max(50),
     passwordHash: z.string(),
     role: UserRoleEnum,
+    agentId: z.string().uuid().optional(), // Role 'agent': the agent whose bills the user works with
     mustChangePassword: z.boolean().default(false),
+    disabled: z.boolean().default(false), // Disabled users cannot sign in
     createdAt: z.string().datetime(),
+    modifiedAt: z.string().datetime().optional(),
 });
 
 export type User = z.infer<typeof UserSchema>;
@@ -283,6 +760,7 @@ export type LoginInput = z.infer<typeof LoginSchema>;
 
 export const RegisterSchema = LoginSchema.extend({
     role: UserRoleEnum.default('user'),
+    agentId: z.string().uuid().optional(), // Required for role 'agent'
 });
 
 export type RegisterInput = z.infer<typeof RegisterSchema>;
@@ -297,6 +775,8 @@ export const AgentSummarySchema = z.object({
     gross: z.number(),
     expectedPayout: z.number(),
     profit: z.number(),
+    commission: z.number(), // ค่าคอม kept by the agent
+    netDue: z.number(),     // gross − commission − winnings (once a result is known); positive = agent pays us
     ticketCount: z.number().int(),
 });
 
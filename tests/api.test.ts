@@ -0,0 +1,342 @@
+// @vitest-environment node
+/**
+ * Integration tests for the Express backend
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { createApp } from '../backend/src/app';
+import { loadConfig } from '../backend/src/config';
+import { initDatabase, seedAdminUser, createUser, updateSettings } from '../backend/src/services/db';
+
+const config = loadConfig({ DATA_FILE: ':memory:', JWT_SECRET: 'test-secret' });
+
+let server: Server;
+let baseUrl: string;
+let adminToken: string;
+let adminId: string;
+
+function reopened(drawId: string) {
+    return { productId: 'government', drawId, reopenedBy: adminId, reopenedAt: new Date().toISOString() };
+}
+
+async function api(
+    method: string,
+    path: string,
+    body?: unknown,
+    token: string | null = adminToken
+): Promise<{ status: number; json: { success: boolean; data?: any; error?: string } }> {
+    const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, json: await response.json() };
+}
+
+beforeAll(async () => {
+    await initDatabase(':memory:');
+    await seedAdminUser('admin123');
+    await createUser('cashier', 'cashier123', 'user');
+
+    server = createApp(config).listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+
+    const login = await api('POST', '/auth/login', { username: 'admin', password: 'admin123' }, null);
+    adminToken = login.json.data.token;
+    adminId = login.json.data.user.id;
+
+    // Tickets below are dated in a draw long past its cut-off
+    await updateSettings({ reopenedDraws: [reopened('2025-01-16')] });
+});
+
+afterAll(() => {
+    server.close();
+});
+
+describe('auth', () => {
+    it('should reject invalid credentials', async () => {
+        const res = await api('POST', '/auth/login', { username: 'admin', password: 'wrong-password' }, null);
+        expect(res.status).toBe(401);
+        expect(res.json.success).toBe(false);
+    });
+
+    it('should validate the login body', async () => {
+        const res = await api('POST', '/auth/login', { username: 'ad' }, null);
+        expect(res.status).toBe(400);
+    });
+
+    it('should not expose password hashes', async () => {
+        const res = await api('POST', '/auth/login', { username: 'admin', password: 'admin123' }, null);
+        expect(res.json.data.user.username).toBe('admin');
+        expect(res.json.data.user.passwordHash).toBeUndefined();
+    });
+
+    it('should require a token for protected routes', async () => {
+        const res = await api('GET', '/agents', undefined, null);
+        expect(res.status).toBe(401);
+    });
+
+    it('should only let admins register users', async () => {
+        const login = await api('POST', '/auth/login', { username: 'cashier', password: 'cashier123' }, null);
+        const userToken = login.json.data.token;
+
+        const denied = await api('POST', '/auth/register', { username: 'newbie', password: 'secret1' }, userToken);
+        expect(denied.status).toBe(403);
+
+        const created = await api('POST', '/auth/register', { username: 'newbie', password: 'secret1' });
+        expect(created.status).toBe(201);
+        expect(created.json.data.role).toBe('user');
+
+        const duplicate = await api('POST', '/auth/register', { username: 'newbie', password: 'secret1' });
+        expect(duplicate.status).toBe(400);
+    });
+});
+
+describe('tickets and summary', () => {
+    it('should recompute entry totals on the server', async () => {
+        const agent = await api('POST', '/agents', { name: 'Agent A' });
+        expect(agent.status).toBe(201);
+
+        const res = await api('POST', '/tickets', {
+            agentId: agent.json.data.id,
+            round: 'government',
+            date: '2025-01-05',
+            entries: [
+                { id: uuidv4(), category: '3top', raw: '123', unitPrice: 100, quantity: 1, total: 1 },
+                { id: uuidv4(), category: '2tod', raw: '12', unitPrice: 10, quantity: 1 },
+            ],
+            billTotal: 0,
+            status: 'draft',
+        });
+
+        expect(res.status).toBe(201);
+        expect(res.json.data.createdBy).toBe(adminId);
+        expect(res.json.data.status).toBe('accepted');
+        expect(res.json.data.entries[0].perComboTotals[0].payoutRate).toBe(800);
+        expect(res.json.data.entries[1].expanded).toEqual(['12', '21']);
+        expect(res.json.data.billTotal).toBe(110);
+    });
+
+    it('should reject entries with the wrong digit length', async () => {
+        const agents = await api('GET', '/agents');
+        const res = await api('POST', '/tickets', {
+            agentId: agents.json.data[0].id,
+            round: 'government',
+            date: '2025-01-05',
+            entries: [{ id: uuidv4(), category: '3top', raw: '12', unitPrice: 100, quantity: 1 }],
+            billTotal: 100,
+        });
+        expect(res.status).toBe(400);
+    });
+
+    it('should reject tickets for unknown agents', async () => {
+        const res = await api('POST', '/tickets', {
+            agentId: uuidv4(),
+            round: 'government',
+            date: '2025-01-05',
+            entries: [],
+            billTotal: 0,
+        });
+        expect(res.status).toBe(400);
+    });
+
+    it('should summarize a draw period with computeSummary', async () => {
+        const res = await api('GET', '/summary?date=2025-01-16');
+        expect(res.status).toBe(200);
+        expect(res.json.data.gross).toBe(110);
+        // 3top 100 × 800 + 2tod 10 × 35 for each of 2 combos
+        expect(res.json.data.expectedPayout).toBe(80000 + 700);
+        expect(res.json.data.perAgent).toHaveLength(1);
+        expect(res.json.data.perAgent[0].agentName).toBe('Agent A');
+    });
+
+    it('should update agent commission rates', async () => {
+        const agents = await api('GET', '/agents');
+        const res = await api('PUT', `/agents/${agents.json.data[0].id}`, { commission: { '3top': 10 } });
+        expect(res.status).toBe(200);
+        expect(res.json.data.name).toBe('Agent A');
+
+        const summary = await api('GET', '/summary?date=2025-01-16');
+        expect(summary.json.data.perAgent[0].commission).toBe(10);
+        expect(summary.json.data.perAgent[0].netDue).toBe(100);
+    });
+
+    it('should reject commission rates above 100%', async () => {
+        const agents = await api('GET', '/agents');
+        const res = await api('PUT', `/agents/${agents.json.data[0].id}`, { commission: { '3top': 150 } });
+        expect(res.status).toBe(400);
+    });
+
+    it('should require a date for the summary', async () => {
+        const res = await api('GET', '/summary');
+        expect(res.status).toBe(400);
+    });
+
+    it('should refuse bills of a closed draw', async () => {
+        const tickets = await api('GET', '/tickets');
+        const ticket = {
+            agentId: tickets.json.data[0].agentId,
+            round: 'government',
+            date: '2025-02-05',
+            entries: [{ id: uuidv4(), category: '2down', raw: '45', unitPrice: 10, quantity: 1 }],
+            billTotal: 10,
+        };
+
+        const created = await api('POST', '/tickets', ticket);
+        expect(created.status).toBe(409);
+
+        const moved = await api('PUT', `/tickets/${tickets.json.data[0].id}`, { date: '2025-02-05' });
+        expect(moved.status).toBe(409);
+
+        await api('PUT', '/settings', { reopenedDraws: [reopened('2025-01-16'), reopened('2025-02-16')] });
+        const reopenedCreate = await api('POST', '/tickets', ticket);
+        expect(reopenedCreate.status).toBe(201);
+
+        await api('PUT', '/settings', { reopenedDraws: [reopened('2025-01-16')] });
+        const deleted = await api('DELETE', `/tickets/${reopenedCreate.json.data.id}`);
+        expect(deleted.status).toBe(409);
+    });
+});
+
+describe('settings and blocked numbers', () => {
+    it('should apply blocked number overrides to new tickets', async () => {
+        const blocked = await api('POST', '/settings/blocked-numbers', {
+            number: '999',
+            category: '3top',
+            payoutOverride: 400,
+        });
+        expect(blocked.status).toBe(201);
+        expect(blocked.json.data.enabled).toBe(true);
+
+        const agents = await api('GET', '/agents');
+        const ticket = await api('POST', '/tickets', {
+            agentId: agents.json.data[0].id,
+            round: 'government',
+            date: '2025-01-05',
+            entries: [{ id: uuidv4(), category: '3top', raw: '999', unitPrice: 10, quantity: 1 }],
+            billTotal: 10,
+        });
+        expect(ticket.json.data.entries[0].perComboTotals[0].payoutRate).toBe(400);
+    });
+
+    it('should reject a blocked number that does not fit its category', async () => {
+        const res = await api('POST', '/settings/blocked-numbers', {
+            number: '12',
+            category: '3top',
+            payoutOverride: 0,
+        });
+        expect(res.status).toBe(400);
+    });
+
+    it('should update settings', async () => {
+        const res = await api('PUT', '/settings', { riskyThreshold: 1234 });
+        expect(res.status).toBe(200);
+        expect(res.json.data.riskyThreshold).toBe(1234);
+        expect(res.json.data.payouts['3top']).toBe(800);
+    });
+
+    it('should keep a rate table version when the rates change', async () => {
+        const before = await api('GET', '/settings');
+        const unchanged = await api('PUT', '/settings', { riskyThreshold: 2000 });
+        expect(unchanged.json.data.rateTableId).toBe(before.json.data.rateTableId);
+
+        const payouts = before.json.data.payouts;
+        const changed = await api('PUT', '/settings', { payouts: { ...payouts, '3top': 900 } });
+        expect(changed.json.data.rateTableId).toBeDefined();
+        expect(changed.json.data.rateTableId).not.toBe(before.json.data.rateTableId);
+
+        const agents = await api('GET', '/agents');
+        const ticket = await api('POST', '/tickets', {
+            agentId: agents.json.data[0].id,
+            round: 'government',
+            date: '2025-01-05',
+            entries: [{ id: uuidv4(), category: '3top', raw: '321', unitPrice: 10, quantity: 1 }],
+            billTotal: 10,
+        });
+        expect(ticket.json.data.rateTableId).toBe(changed.json.data.rateTableId);
+
+        // An edit keeps the rates the bill was sold at
+        await api('PUT', '/settings', { payouts });
+        const edited = await api('PUT', `/tickets/${ticket.json.data.id}`, {
+            entries: [{ id: uuidv4(), category: '3top', raw: '322', unitPrice: 10, quantity: 1 }],
+        });
+        expect(edited.json.data.rateTableId).toBe(changed.json.data.rateTableId);
+        expect(edited.json.data.entries[0].perComboTotals[0].payoutRate).toBe(900);
+    });
+});
+
+describe('permissions', () => {
+    const login = async (username: string, password: string): Promise<string> => {
+        const res = await api('POST', '/auth/login', { username, password }, null);
+        return res.json.data.token;
+    };
+
+    it('should keep auditors read-only', async () => {
+        await api('POST', '/auth/register', { username: 'auditor', password: 'auditor123', role: 'auditor' });
+        const token = await login('auditor', 'auditor123');
+        const agents = await api('GET', '/agents', undefined, token);
+
+        const agent = await api('POST', '/agents', { name: 'Agent X' }, token);
+        expect(agent.status).toBe(403);
+
+        const ticket = await api(
+            'POST',
+            '/tickets',
+            { agentId: agents.json.data[0].id, round: 'government', date: '2025-01-05', entries: [], billTotal: 0 },
+            token
+        );
+        expect(ticket.status).toBe(403);
+
+        const summary = await api('GET', '/summary?date=2025-01-16', undefined, token);
+        expect(summary.status).toBe(200);
+    });
+
+    it('should require an agent for agent users', async () => {
+        const res = await api('POST', '/auth/register', { username: 'agentless', password: 'secret1', role: 'agent' });
+        expect(res.status).toBe(400);
+    });
+
+    it('should keep agent users to their own agent', async () => {
+        const own = await api('POST', '/agents', { name: 'Agent B' });
+        const other = (await api('GET', '/agents')).json.data.find((a: { name: string }) => a.name === 'Agent A');
+
+        const user = await api('POST', '/auth/register', {
+            username: 'agentb',
+            password: 'agentb123',
+            role: 'agent',
+            agentId: own.json.data.id,
+        });
+        expect(user.json.data.agentId).toBe(own.json.data.id);
+        const token = await login('agentb', 'agentb123');
+
+        const bill = (agentId: string) => ({
+            agentId,
+            round: 'government',
+            date: '2025-01-05',
+            entries: [{ id: uuidv4(), category: '2down', raw: '45', unitPrice: 10, quantity: 1 }],
+            billTotal: 10,
+        });
+        const denied = await api('POST', '/tickets', bill(other.id), token);
+        expect(denied.status).toBe(403);
+
+        const created = await api('POST', '/tickets', bill(own.json.data.id), token);
+        expect(created.status).toBe(201);
+        expect(created.json.data.status).toBe('pending');
+
+        const tickets = await api('GET', '/tickets', undefined, token);
+        expect(tickets.json.data.map((t: { id: string }) => t.id)).toEqual([created.json.data.id]);
+
+        const agents = await api('GET', '/agents', undefined, token);
+        expect(agents.json.data.map((a: { id: string }) => a.id)).toEqual([own.json.data.id]);
+
+        const summary = await api('GET', '/summary?date=2025-01-16', undefined, token);
+        expect(summary.status).toBe(403);
+    });
+});
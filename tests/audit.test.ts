@@ -0,0 +1,92 @@
+/**
+ * Unit tests for the audit log
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffRecords, createAuditEntry, filterAuditEntries } from '../frontend/src/lib/audit';
+import { auditLogToCSV } from '../frontend/src/utils/export';
+import { AuditEntry } from '../shared/schemas';
+
+const actor = { id: 'u1', username: 'admin' };
+
+describe('diffRecords', () => {
+    it('should list only the fields that changed, leaving out modifiedAt and synced', () => {
+        const before = { name: 'สมชาย', note: 'a', modifiedAt: '2025-01-01T00:00:00.000Z', synced: true };
+        const after = { name: 'สมชาย', note: 'b', modifiedAt: '2025-01-02T00:00:00.000Z', synced: false };
+        expect(diffRecords(before, after)).toEqual([{ field: 'note', before: 'a', after: 'b' }]);
+    });
+
+    it('should list every field on create and delete', () => {
+        expect(diffRecords(null, { name: 'x', percent: 10 })).toEqual([
+            { field: 'name', after: 'x' },
+            { field: 'percent', after: 10 },
+        ]);
+        expect(diffRecords({ name: 'x' }, null)).toEqual([{ field: 'name', before: 'x' }]);
+    });
+
+    it('should compare nested values by content', () => {
+        expect(diffRecords({ payouts: { '3top': 800 } }, { payouts: { '3top': 800 } })).toEqual([]);
+        expect(diffRecords({ payouts: { '3top': 800 } }, { payouts: { '3top': 900 } })).toEqual([
+            { field: 'payouts', before: { '3top': 800 }, after: { '3top': 900 } },
+        ]);
+    });
+
+    it('should record a password change without the hash', () => {
+        expect(diffRecords({ passwordHash: 'old' }, { passwordHash: 'new' })).toEqual([
+            { field: 'passwordHash', before: '[hidden]', after: '[hidden]' },
+        ]);
+    });
+});
+
+describe('createAuditEntry', () => {
+    it('should record the actor and the changes', () => {
+        const entry = createAuditEntry('update', 'agents', 'a1', { name: 'x' }, { name: 'y' }, actor);
+        expect(entry).toMatchObject({
+            action: 'update',
+            entity: 'agents',
+            entityId: 'a1',
+            actor: 'admin',
+            actorId: 'u1',
+            changes: [{ field: 'name', before: 'x', after: 'y' }],
+            synced: false,
+        });
+    });
+});
+
+describe('filterAuditEntries', () => {
+    const entry = (id: string, timestamp: string, overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+        ...createAuditEntry('update', 'tickets', id, { note: 'a' }, { note: 'b' }, actor),
+        timestamp,
+        ...overrides,
+    });
+    const entries = [
+        entry('t1', '2025-01-01T10:00:00'),
+        entry('t2', '2025-01-03T10:00:00', { actor: 'cashier', entity: 'agents' }),
+        entry('t3', '2025-01-02T10:00:00', { action: 'delete' }),
+    ];
+
+    it('should sort newest first', () => {
+        expect(filterAuditEntries(entries, {}).map((e) => e.entityId)).toEqual(['t2', 't3', 't1']);
+    });
+
+    it('should filter by entity, action and date range', () => {
+        expect(filterAuditEntries(entries, { entity: 'tickets' }).map((e) => e.entityId)).toEqual(['t3', 't1']);
+        expect(filterAuditEntries(entries, { action: 'delete' }).map((e) => e.entityId)).toEqual(['t3']);
+        expect(filterAuditEntries(entries, { from: '2025-01-02', to: '2025-01-02' }).map((e) => e.entityId)).toEqual(['t3']);
+    });
+
+    it('should search the actor, record id and changed values', () => {
+        expect(filterAuditEntries(entries, { text: 'CASHIER' }).map((e) => e.entityId)).toEqual(['t2']);
+        expect(filterAuditEntries(entries, { text: 't1' }).map((e) => e.entityId)).toEqual(['t1']);
+        expect(filterAuditEntries(entries, { text: 'note' })).toHaveLength(3);
+    });
+});
+
+describe('auditLogToCSV', () => {
+    it('should write one row per change with quotes doubled', () => {
+        const entry = createAuditEntry('update', 'settings', 'main', { payouts: { '3top': 800 } }, { payouts: { '3top': 900 } }, actor);
+        const lines = auditLogToCSV([entry]).split('\n');
+        expect(lines).toHaveLength(2);
+        expect(lines[1]).toContain('"payouts","{""3top"":800}","{""3top"":900}"');
+    });
+});
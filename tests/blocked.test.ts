@@ -0,0 +1,121 @@
+/**
+ * Unit tests for blocked number lists
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    copyBlockedNumbersToDraw,
+    parseBlockedList,
+    buildBlockedList,
+    describeBlockedWindow,
+} from '../frontend/src/lib/blocked';
+import { BlockedNumber, DEFAULT_PRODUCTS, DEFAULT_PAYOUTS } from '../shared/schemas';
+import { v4 as uuidv4 } from 'uuid';
+
+const rule = (number: string, window: Partial<BlockedNumber>): BlockedNumber => ({
+    id: uuidv4(),
+    number,
+    category: '3top',
+    payoutOverride: 400,
+    enabled: true,
+    ...window,
+});
+
+describe('copyBlockedNumbersToDraw', () => {
+    const blockedNumbers = [
+        rule('123', { productId: 'government', drawDate: '2025-01-01' }),
+        rule('456', { productId: 'government', drawDate: '2025-01-01' }),
+        rule('456', { productId: 'government', drawDate: '2025-01-16' }), // Already copied
+        rule('789', { productId: 'lao', drawDate: '2025-01-01' }),
+        rule('999', {}),
+    ];
+
+    it('should re-date the previous draw rules of the product', () => {
+        const copies = copyBlockedNumbersToDraw(blockedNumbers, 'government', '2025-01-01', '2025-01-16');
+        expect(copies).toEqual([
+            { number: '123', category: '3top', payoutOverride: 400, enabled: true, productId: 'government', drawDate: '2025-01-16' },
+        ]);
+    });
+
+    it('should copy nothing from a draw without rules', () => {
+        expect(copyBlockedNumbersToDraw(blockedNumbers, 'government', '2024-12-16', '2025-01-01')).toEqual([]);
+    });
+});
+
+describe('parseBlockedList', () => {
+    it('should read numbers and the rate of a line', () => {
+        expect(parseBlockedList('123 456,789 จ่ายครึ่ง')).toEqual([
+            { text: '123 456,789 จ่ายครึ่ง', numbers: ['123', '456', '789'], rate: { kind: 'percent', value: 50 }, invalid: [] },
+        ]);
+        expect(parseBlockedList('12 34 จ่าย 35 บาท')[0].rate).toEqual({ kind: 'payout', value: 35 });
+        expect(parseBlockedList('12 จ่าย 30%')[0].rate).toEqual({ kind: 'percent', value: 30 });
+    });
+
+    it('should expand double and triple shorthands', () => {
+        const [doubles] = parseBlockedList('เลขเบิ้ล ทั้งหมด 2 ตัว');
+        expect(doubles.numbers).toEqual(['00', '11', '22', '33', '44', '55', '66', '77', '88', '99']);
+        expect(doubles.invalid).toEqual([]);
+
+        const [threeDigit] = parseBlockedList('เบิ้ล 3 ตัว');
+        expect(threeDigit.numbers).toHaveLength(270);
+        expect(threeDigit.numbers).toContain('112');
+        expect(threeDigit.numbers).not.toContain('111');
+
+        expect(parseBlockedList('ตอง จ่าย 300')[0]).toMatchObject({
+            numbers: ['000', '111', '222', '333', '444', '555', '666', '777', '888', '999'],
+            rate: { kind: 'payout', value: 300 },
+        });
+    });
+
+    it('should expand โต๊ด to every order of the digits', () => {
+        expect(parseBlockedList('123 โต๊ด')[0].numbers).toEqual(['123', '132', '213', '231', '312', '321']);
+        expect(parseBlockedList('12 กลับ')[0].numbers).toEqual(['12', '21']);
+    });
+
+    it('should report items it cannot read, and numbers of the wrong length', () => {
+        expect(parseBlockedList('12 abc 3456')[0].invalid).toEqual(['abc', '3456']);
+        expect(parseBlockedList('12 345 2 ตัว')[0]).toMatchObject({ numbers: ['12'], invalid: ['345'] });
+    });
+});
+
+describe('buildBlockedList', () => {
+    const options = {
+        categories: ['3top', '2top', '2down'] as BlockedNumber['category'][],
+        rate: { kind: 'payout' as const, value: 100 },
+        payouts: DEFAULT_PAYOUTS,
+    };
+
+    it('should block each number in every category of its length', () => {
+        const { rules, unmatched } = buildBlockedList(parseBlockedList('123 45\n7'), options);
+        expect(rules.map((r) => `${r.category}:${r.number}:${r.payoutOverride}`)).toEqual([
+            '3top:123:100',
+            '2top:45:100',
+            '2down:45:100',
+        ]);
+        expect(unmatched).toEqual(['7']);
+    });
+
+    it('should take a percentage of the normal rate', () => {
+        const { rules } = buildBlockedList(parseBlockedList('123 จ่ายครึ่ง'), options);
+        expect(rules[0].payoutOverride).toBe(Math.floor(DEFAULT_PAYOUTS['3top'] / 2));
+    });
+
+    it('should skip numbers already blocked with the same window', () => {
+        const window = { productId: 'government', drawDate: '2025-01-16' };
+        const existing = [rule('123', window), rule('456', {})];
+        const { rules, duplicates } = buildBlockedList(parseBlockedList('123 456'), { ...options, window, existing });
+        expect(rules.map((r) => r.number)).toEqual(['456']);
+        expect(rules[0]).toMatchObject(window);
+        expect(duplicates).toBe(1);
+    });
+});
+
+describe('describeBlockedWindow', () => {
+    it('should describe product, draw and range', () => {
+        expect(describeBlockedWindow({}, DEFAULT_PRODUCTS)).toBeNull();
+        expect(describeBlockedWindow({ productId: 'government', drawDate: '2025-01-16' }, DEFAULT_PRODUCTS)).toBe(
+            'หวยรัฐบาล · งวด 16 ม.ค. 68'
+        );
+        expect(describeBlockedWindow({ validFrom: '2025-01-05' }, DEFAULT_PRODUCTS)).toBe('2025-01-05 – …');
+    });
+});
@@ -9,9 +9,24 @@ import {
     computeEntryExpectedPayout,
     findRiskyNumbers,
     mergeDuplicateEntries,
+    resolvePayouts,
+    recomputeTicket,
+    computeTicketCommission,
+    computeSummary,
+    computeCreditUsage,
+    checkCreditLimit,
+    aggregateComboSales,
+    createComboSalesTracker,
+    buildExposureGrid,
+    getDrawComboSales,
+    applyCeilingPolicy,
+    checkTierLimits,
+    isBlockedNumberActive,
+    ComboSales,
 } from '../frontend/src/lib/compute';
-import { Entry, Settings, BlockedNumber, Ticket, DEFAULT_SETTINGS } from '../shared/schemas';
+import { Entry, Settings, BlockedNumber, Ticket, Agent, CeilingPolicy, DEFAULT_SETTINGS } from '../shared/schemas';
 import { v4 as uuidv4 } from 'uuid';
+import { makeTicket } from './helpers';
 
 const createEntry = (
     category: string,
@@ -98,6 +113,41 @@ describe('computeEntryTotals', () => {
         });
     });
 
+    describe('back categories', () => {
+        it('should expand 3back to permutations at the 3back rate', () => {
+            const result = computeEntryTotals(createEntry('3back', '123', 10), settings, []);
+
+            expect(result.expanded).toHaveLength(6);
+            result.perComboTotals!.forEach((combo) => {
+                expect(combo.soldAmount).toBe(10);
+                expect(combo.payoutRate).toBe(130);
+            });
+            // Same as tod: the customer pays a single price
+            expect(result.total).toBe(10);
+        });
+
+        it('should expand 2back to both orders at the 2back rate', () => {
+            const result = computeEntryTotals(createEntry('2back', '34', 5, 2), settings, []);
+
+            expect(result.expanded).toEqual(['34', '43']);
+            result.perComboTotals!.forEach((combo) => {
+                expect(combo.soldAmount).toBe(10);
+                expect(combo.payoutRate).toBe(35);
+            });
+            expect(result.total).toBe(10);
+        });
+
+        it('should apply blocked overrides per back combo', () => {
+            const blockedNumbers: BlockedNumber[] = [
+                { id: 'b1', number: '43', category: '2back', payoutOverride: 10, enabled: true },
+            ];
+            const result = computeEntryTotals(createEntry('2back', '34', 5), settings, blockedNumbers);
+
+            expect(result.perComboTotals!.find((c) => c.combo === '34')!.payoutRate).toBe(35);
+            expect(result.perComboTotals!.find((c) => c.combo === '43')!.payoutRate).toBe(10);
+        });
+    });
+
     describe('blocked number overrides', () => {
         it('should use override payout rate for blocked number', () => {
             const entry = createEntry('3top', '123', 100);
@@ -175,6 +225,56 @@ describe('computeEntryTotals', () => {
     });
 });
 
+describe('payout layers', () => {
+    const layered: Settings = {
+        ...settings,
+        products: DEFAULT_SETTINGS.products.map((p) =>
+            p.id === 'lao' ? { ...p, payouts: { '2top': 80, '3top': 600 } } : p
+        ),
+        agentPayouts: { 'agent-90': { '2top': 90 } },
+    };
+
+    it('should use the global table without context', () => {
+        expect(resolvePayouts(layered)['2top']).toBe(70);
+    });
+
+    it('should apply the product table over the global rates', () => {
+        const payouts = resolvePayouts(layered, { productId: 'lao' });
+        expect(payouts['2top']).toBe(80);
+        expect(payouts['3top']).toBe(600);
+        expect(payouts['2down']).toBe(70);
+    });
+
+    it('should apply the agent table over the product table', () => {
+        const payouts = resolvePayouts(layered, { productId: 'lao', agentId: 'agent-90' });
+        expect(payouts['2top']).toBe(90);
+        expect(payouts['3top']).toBe(600);
+    });
+
+    it('should rate entries with the resolved table', () => {
+        const result = computeEntryTotals(createEntry('2top', '12', 10), layered, [], { agentId: 'agent-90' });
+        expect(result.perComboTotals![0].payoutRate).toBe(90);
+    });
+
+    it('should still prefer blocked number overrides', () => {
+        const blocked: BlockedNumber[] = [
+            { id: 'b1', number: '12', category: '2top', payoutOverride: 35, enabled: true },
+        ];
+        const result = computeEntryTotals(createEntry('2top', '12', 10), layered, blocked, { agentId: 'agent-90' });
+        expect(result.perComboTotals![0].payoutRate).toBe(35);
+    });
+
+    it('should resolve from the ticket when recomputing', () => {
+        const ticket = makeTicket([computeEntryTotals(createEntry('3top', '123', 10), settings, [])], {
+            agentId: 'agent-90',
+            round: 'lao',
+            date: '2025-01-06',
+        });
+        const recomputed = recomputeTicket(ticket, layered, []);
+        expect(recomputed.entries[0].perComboTotals![0].payoutRate).toBe(600);
+    });
+});
+
 describe('computeEntryExpectedPayout', () => {
     it('should calculate expected payout correctly', () => {
         const entry = createEntry('3top', '123', 100);
@@ -198,6 +298,82 @@ describe('computeEntryExpectedPayout', () => {
     });
 });
 
+describe('agent commission', () => {
+    const agent: Agent = { id: uuidv4(), name: 'Agent A', commission: { '3top': 25, '2down': 10 } };
+
+    const ticket = makeTicket(
+        [
+            computeEntryTotals(createEntry('3top', '123', 100), settings, []),
+            computeEntryTotals(createEntry('2down', '45', 50), settings, []),
+            computeEntryTotals(createEntry('2top', '45', 20), settings, []),
+        ],
+        { agentId: agent.id }
+    );
+
+    it('should apply the rate of each category to its sales', () => {
+        // 100 × 25% + 50 × 10% + 20 × 0%
+        expect(computeTicketCommission(ticket, agent.commission)).toBe(30);
+    });
+
+    it('should be zero without rates', () => {
+        expect(computeTicketCommission(ticket)).toBe(0);
+    });
+
+    it('should report commission and net due per agent', () => {
+        const summary = computeSummary([ticket], settings, [agent], '2025-01-16');
+        expect(summary.perAgent[0].commission).toBe(30);
+        expect(summary.perAgent[0].netDue).toBe(170 - 30);
+    });
+
+    it('should deduct winnings from net due once a result is known', () => {
+        const summary = computeSummary([ticket], settings, [agent], '2025-01-16', undefined, {
+            threeTop: '123',
+            twoDown: '99',
+        });
+        // 3top 123 wins 100 × 800
+        expect(summary.perAgent[0].netDue).toBe(170 - 30 - 80000);
+    });
+});
+
+describe('agent credit limit', () => {
+    const agent: Agent = { id: uuidv4(), name: 'Agent A', creditLimit: { amount: 500, basis: 'gross' } };
+
+    const entry = (raw: string, price: number) => computeEntryTotals(createEntry('2down', raw, price), settings, []);
+
+    const tickets = [
+        makeTicket([entry('12', 200)], { agentId: agent.id }),
+        makeTicket([entry('34', 100)], { agentId: agent.id, date: '2025-01-10' }),
+        makeTicket([entry('56', 300)], { agentId: agent.id, date: '2025-01-20' }), // งวด 1 ก.พ.
+        makeTicket([entry('78', 300)]), // Another agent
+    ];
+
+    it('should only count the agent\'s tickets in the same draw', () => {
+        const usage = computeCreditUsage(tickets, agent, 'government', '2025-01-12', settings);
+        expect(usage?.used).toBe(300);
+        expect(usage?.remaining).toBe(200);
+    });
+
+    it('should be null without a limit', () => {
+        expect(computeCreditUsage(tickets, { id: agent.id }, 'government', '2025-01-12', settings)).toBeNull();
+        expect(checkCreditLimit(null, [entry('99', 10000)]).exceeded).toBe(false);
+    });
+
+    it('should flag a bill that takes the agent over the limit', () => {
+        const usage = computeCreditUsage(tickets, agent, 'government', '2025-01-12', settings);
+        expect(checkCreditLimit(usage, [entry('99', 200)]).exceeded).toBe(false);
+        expect(checkCreditLimit(usage, [entry('99', 201)]).exceeded).toBe(true);
+    });
+
+    it('should measure potential payout when the basis is payout', () => {
+        const payoutAgent = { ...agent, creditLimit: { amount: 25000, basis: 'payout' as const } };
+        const usage = computeCreditUsage(tickets, payoutAgent, 'government', '2025-01-12', settings);
+        // 300 × 70
+        expect(usage?.used).toBe(21000);
+        expect(checkCreditLimit(usage, [entry('99', 50)]).exceeded).toBe(false);
+        expect(checkCreditLimit(usage, [entry('99', 60)]).exceeded).toBe(true);
+    });
+});
+
 describe('computeTicketTotal', () => {
     it('should sum all entry totals', () => {
         const ticket: Ticket = {
@@ -305,6 +481,242 @@ describe('findRiskyNumbers', () => {
         expect(risky).toHaveLength(1);
         expect(risky[0].soldAmount).toBe(6000); // Aggregated
     });
+
+    it('should flag every expanded combo of a back entry', () => {
+        const ticket = makeTicket([computeEntryTotals(createEntry('2back', '34', 6000), settings, [])]);
+
+        const risky = findRiskyNumbers([ticket], 5000);
+
+        expect(risky.map((r) => r.combo).sort()).toEqual(['34', '43']);
+        expect(risky.every((r) => r.category === '2back')).toBe(true);
+    });
+});
+
+describe('exposure matrix', () => {
+    const ticket1 = makeTicket([
+        computeEntryTotals(createEntry('2down', '45', 100), settings, []),
+        computeEntryTotals(createEntry('2back', '12', 10), settings, []),
+    ]);
+    const ticket2 = makeTicket([computeEntryTotals(createEntry('2down', '45', 50), settings, [])]);
+
+    it('should aggregate sold amount and payout per combo', () => {
+        const sales = aggregateComboSales([ticket1, ticket2]);
+        expect(sales.get('2down:45')).toMatchObject({ soldAmount: 150, payout: 150 * 70 });
+    });
+
+    it('should list every number of a category with its net loss', () => {
+        const grid = buildExposureGrid(aggregateComboSales([ticket1, ticket2]), '2down', 160);
+        expect(grid).toHaveLength(100);
+        expect(grid[0].number).toBe('00');
+        expect(grid[45]).toMatchObject({ soldAmount: 150, payout: 10500, netLoss: 10500 - 160 });
+        expect(grid[46]).toMatchObject({ soldAmount: 0, payout: 0, netLoss: -160 });
+    });
+
+    it('should page 3-digit numbers', () => {
+        const grid = buildExposureGrid(new Map(), '3top', 0, 900, 100);
+        expect(grid).toHaveLength(100);
+        expect(grid[0].number).toBe('900');
+        expect(grid[99].number).toBe('999');
+    });
+
+    it('should only aggregate new tickets and rebuild when one is removed', () => {
+        const track = createComboSalesTracker();
+        expect(track([ticket1]).get('2down:45')?.soldAmount).toBe(100);
+        expect(track([ticket1, ticket2]).get('2down:45')?.soldAmount).toBe(150);
+        expect(track([ticket2]).get('2down:45')?.soldAmount).toBe(50);
+        expect(track([ticket2]).get('2back:21')).toBeUndefined();
+    });
+});
+
+describe('ceiling policy', () => {
+    const withPolicy = (policy: CeilingPolicy): Settings => ({
+        ...settings,
+        ceilings: { ...settings.ceilings, perComboMax: 1000, policy, reducedPayoutPercent: 50 },
+    });
+
+    const sold = (date: string, raw: string, unitPrice: number): Ticket =>
+        makeTicket([computeEntryTotals(createEntry('3top', raw, unitPrice), settings, [])], { date });
+
+    // 800 sold on 123 in the draw of the 16th, 500 more in the next draw
+    const tickets = [sold('2025-01-05', '123', 500), sold('2025-01-10', '123', 300), sold('2025-01-20', '123', 500)];
+    const comboSales = getDrawComboSales(tickets, 'government', '2025-01-12', settings);
+    const entry = computeEntryTotals(createEntry('3top', '123', 300), settings, []);
+
+    it('should count only the draw the date is sold for, plus pending entries', () => {
+        expect(comboSales.get('3top:123')?.soldAmount).toBe(800);
+        const withPending = getDrawComboSales(tickets, 'government', '2025-01-12', settings, [entry]);
+        expect(withPending.get('3top:123')?.soldAmount).toBe(1100);
+    });
+
+    it('should leave entries within the ceiling alone', () => {
+        const small = computeEntryTotals(createEntry('3top', '123', 200), settings, []);
+        expect(applyCeilingPolicy(small, comboSales, withPolicy('reject'), [])).toEqual({
+            entry: small,
+            action: null,
+            blocks: [],
+        });
+    });
+
+    it('should only mark the entry under warn', () => {
+        const result = applyCeilingPolicy(entry, comboSales, withPolicy('warn'), []);
+        expect(result.entry?.total).toBe(300);
+        expect(result.entry?.ceiling).toEqual({ policy: 'warn', combos: ['123'], requestedPrice: 300 });
+    });
+
+    it('should refuse the entry under reject', () => {
+        const result = applyCeilingPolicy(entry, comboSales, withPolicy('reject'), []);
+        expect(result.entry).toBeNull();
+        expect(result.action?.policy).toBe('reject');
+    });
+
+    it('should cut the price to what is left under cap', () => {
+        const result = applyCeilingPolicy(entry, comboSales, withPolicy('cap'), []);
+        expect(result.entry).toMatchObject({ unitPrice: 200, total: 200 });
+        expect(result.entry?.perComboTotals?.[0].soldAmount).toBe(200);
+        expect(result.entry?.ceiling?.requestedPrice).toBe(300);
+
+        const full = getDrawComboSales(tickets, 'government', '2025-01-12', settings, [
+            computeEntryTotals(createEntry('3top', '123', 200), settings, []),
+        ]);
+        expect(applyCeilingPolicy(entry, full, withPolicy('cap'), []).entry).toBeNull();
+    });
+
+    it('should pay a reduced rate and block the combo under reduce', () => {
+        const result = applyCeilingPolicy(entry, comboSales, withPolicy('reduce'), []);
+        expect(result.entry?.perComboTotals?.[0].payoutRate).toBe(400);
+        expect(result.blocks).toEqual([{ number: '123', category: '3top', payoutOverride: 400, enabled: true }]);
+    });
+
+    it('should limit the reduced rate to the draw of the ticket', () => {
+        const result = applyCeilingPolicy(entry, comboSales, withPolicy('reduce'), [], { date: '2025-01-12' });
+        expect(result.blocks[0]).toMatchObject({ productId: 'government', drawDate: '2025-01-16' });
+    });
+
+    it('should not block a combo twice', () => {
+        const blocked: BlockedNumber[] = [
+            { id: uuidv4(), number: '123', category: '3top', payoutOverride: 300, enabled: true },
+        ];
+        const blockedEntry = computeEntryTotals(createEntry('3top', '123', 300), settings, blocked);
+        const result = applyCeilingPolicy(blockedEntry, comboSales, withPolicy('reduce'), blocked);
+        expect(result.blocks).toEqual([]);
+        expect(result.entry?.perComboTotals?.[0].payoutRate).toBe(300);
+    });
+});
+
+describe('tiered blocked numbers', () => {
+    // First 1,000 at the normal rate, next 2,000 at half, nothing beyond
+    const blocked: BlockedNumber[] = [
+        {
+            id: uuidv4(),
+            number: '123',
+            category: '3top',
+            payoutOverride: 800,
+            tiers: [
+                { upTo: 1000, payoutRate: null },
+                { upTo: 3000, payoutRate: 400 },
+            ],
+            enabled: true,
+        },
+    ];
+    const soldBefore = (amount: number): Map<string, ComboSales> =>
+        new Map([['3top:123', { combo: '123', category: '3top', soldAmount: amount, payout: 0 }]]);
+
+    it('should pay the first band when nothing is sold yet', () => {
+        const entry = computeEntryTotals(createEntry('3top', '123', 500), settings, blocked);
+        expect(entry.perComboTotals).toEqual([
+            { combo: '123', unitPrice: 500, quantity: 1, soldAmount: 500, payoutRate: 800, tier: 0 },
+        ]);
+    });
+
+    it('should split an entry across bands from what the draw has sold', () => {
+        const entry = computeEntryTotals(createEntry('3top', '123', 500), settings, blocked, {}, soldBefore(800));
+        expect(entry.perComboTotals).toEqual([
+            { combo: '123', unitPrice: 200, quantity: 1, soldAmount: 200, payoutRate: 800, tier: 0 },
+            { combo: '123', unitPrice: 300, quantity: 1, soldAmount: 300, payoutRate: 400, tier: 1 },
+        ]);
+        expect(entry.total).toBe(500);
+        expect(computeEntryExpectedPayout(entry)).toBe(200 * 800 + 300 * 400);
+    });
+
+    it('should refuse what goes past the last band', () => {
+        const entry = computeEntryTotals(createEntry('3top', '123', 500), settings, blocked, {}, soldBefore(2800));
+        expect(checkTierLimits(entry, soldBefore(2800), blocked)).toEqual({
+            policy: 'reject',
+            combos: ['123'],
+            requestedPrice: 500,
+        });
+        expect(checkTierLimits(entry, soldBefore(2500), blocked)).toBeNull();
+    });
+
+    it('should accept anything when the last band has no limit', () => {
+        const open: BlockedNumber[] = [{ ...blocked[0], tiers: [{ upTo: 1000, payoutRate: null }, { upTo: null, payoutRate: 200 }] }];
+        const entry = computeEntryTotals(createEntry('3top', '123', 5000), settings, open, {}, soldBefore(500));
+        expect(checkTierLimits(entry, soldBefore(500), open)).toBeNull();
+        expect(entry.perComboTotals?.map((c) => [c.soldAmount, c.payoutRate])).toEqual([
+            [500, 800],
+            [4500, 200],
+        ]);
+    });
+
+    it('should cap the highest band first', () => {
+        const entry = computeEntryTotals(createEntry('3top', '123', 500), settings, blocked, {}, soldBefore(800));
+        const capped = applyCeilingPolicy(
+            entry,
+            soldBefore(800),
+            { ...settings, ceilings: { ...settings.ceilings, perComboMax: 1100, policy: 'cap' } },
+            blocked
+        );
+        expect(capped.entry?.perComboTotals?.map((c) => [c.soldAmount, c.tier])).toEqual([
+            [200, 0],
+            [100, 1],
+        ]);
+    });
+});
+
+describe('blocked number windows', () => {
+    const rule = (window: Partial<BlockedNumber>): BlockedNumber => ({
+        id: uuidv4(),
+        number: '123',
+        category: '3top',
+        payoutOverride: 10,
+        enabled: true,
+        ...window,
+    });
+    const rateOn = (blocked: BlockedNumber, context: { productId?: string; date?: string }) =>
+        computeEntryTotals(createEntry('3top', '123', 100), settings, [blocked], context).perComboTotals![0].payoutRate;
+
+    it('should apply a rule without a window everywhere', () => {
+        expect(isBlockedNumberActive(rule({}), settings)).toBe(true);
+        expect(isBlockedNumberActive(rule({}), settings, { productId: 'lao', date: '2025-01-05' })).toBe(true);
+    });
+
+    it('should apply a product rule only to that product', () => {
+        const blocked = rule({ productId: 'government' });
+        expect(rateOn(blocked, {})).toBe(10);
+        expect(rateOn(blocked, { productId: 'lao' })).toBe(800);
+    });
+
+    it('should apply a draw rule only to tickets sold for that draw', () => {
+        const blocked = rule({ productId: 'government', drawDate: '2025-01-16' });
+        expect(rateOn(blocked, { productId: 'government', date: '2025-01-10' })).toBe(10);
+        expect(rateOn(blocked, { productId: 'government', date: '2025-01-20' })).toBe(800);
+        expect(rateOn(blocked, { productId: 'government' })).toBe(800); // Date unknown
+    });
+
+    it('should apply a date range inclusively', () => {
+        const blocked = rule({ validFrom: '2025-01-05', validTo: '2025-01-10' });
+        expect(isBlockedNumberActive(blocked, settings, { date: '2025-01-05' })).toBe(true);
+        expect(isBlockedNumberActive(blocked, settings, { date: '2025-01-10' })).toBe(true);
+        expect(isBlockedNumberActive(blocked, settings, { date: '2025-01-11' })).toBe(false);
+    });
+
+    it('should rate a saved ticket with the rules of its own date', () => {
+        const ticket = makeTicket([computeEntryTotals(createEntry('3top', '123', 100), settings, [])], {
+            date: '2025-01-20',
+        });
+        const blocked = [rule({ drawDate: '2025-02-01' })];
+        expect(recomputeTicket(ticket, settings, blocked).entries[0].perComboTotals![0].payoutRate).toBe(10);
+    });
 });
 
 describe('mergeDuplicateEntries', () => {
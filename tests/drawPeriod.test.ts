@@ -0,0 +1,162 @@
+/**
+ * Unit tests for per-product draw periods
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    findProduct,
+    getEnabledProducts,
+    getDrawPeriodForDate,
+    getPreviousDrawPeriod,
+    isDateInDrawPeriod,
+    getDrawCutoff,
+    isDrawClosed,
+    isTicketDrawClosed,
+    getSaleDate,
+} from '../frontend/src/lib/drawPeriod';
+import { Product, ReopenedDraw, DEFAULT_PRODUCTS } from '../shared/schemas';
+
+// Draws on Monday and Thursday
+const weekly: Product = {
+    id: 'lao',
+    name: 'หวยลาว',
+    schedule: { type: 'weekly', weekdays: [1, 4], drawTime: '20:30', cutoffMinutes: 0 },
+    resultShape: 'topBottom',
+    enabled: true,
+};
+
+describe('findProduct', () => {
+    it('should find a product by id', () => {
+        expect(findProduct([...DEFAULT_PRODUCTS, weekly], 'lao').name).toBe('หวยลาว');
+    });
+
+    it('should fall back to the government product', () => {
+        expect(findProduct(DEFAULT_PRODUCTS, 'missing').id).toBe('government');
+        expect(findProduct(undefined).id).toBe('government');
+    });
+});
+
+describe('getEnabledProducts', () => {
+    it('should skip disabled products', () => {
+        const ids = getEnabledProducts(DEFAULT_PRODUCTS).map((p) => p.id);
+        expect(ids).toContain('government');
+        expect(ids).not.toContain('lao');
+    });
+});
+
+describe('getDrawPeriodForDate', () => {
+    describe('government', () => {
+        it('should map the 2nd to the 16th to the 16th', () => {
+            expect(getDrawPeriodForDate('2025-01-02').id).toBe('2025-01-16');
+            expect(getDrawPeriodForDate('2025-01-16').id).toBe('2025-01-16');
+        });
+
+        it('should map the 17th onwards to the 1st of the next month', () => {
+            expect(getDrawPeriodForDate('2025-01-17').id).toBe('2025-02-01');
+            expect(getDrawPeriodForDate('2025-01-18').id).toBe('2025-02-01');
+            expect(getDrawPeriodForDate('2024-12-25').id).toBe('2025-01-01');
+        });
+
+        it('should keep the 1st in its own draw', () => {
+            const period = getDrawPeriodForDate('2025-03-01');
+            expect(period.id).toBe('2025-03-01');
+            expect(period.period).toBe('1');
+            expect(period.productId).toBe('government');
+        });
+    });
+
+    describe('weekly', () => {
+        it('should map a draw day to itself', () => {
+            // 2025-01-06 is a Monday
+            expect(getDrawPeriodForDate('2025-01-06', weekly).id).toBe('2025-01-06');
+        });
+
+        it('should map other days to the next draw day', () => {
+            expect(getDrawPeriodForDate('2025-01-07', weekly).id).toBe('2025-01-09');
+            expect(getDrawPeriodForDate('2025-01-10', weekly).id).toBe('2025-01-13');
+        });
+
+        it('should tag the period with the product', () => {
+            const period = getDrawPeriodForDate('2025-01-06', weekly);
+            expect(period.productId).toBe('lao');
+            expect(period.label).toBe('6 ม.ค. 68');
+        });
+    });
+});
+
+describe('isDateInDrawPeriod', () => {
+    it('should keep the government rules', () => {
+        expect(isDateInDrawPeriod('2024-12-20', '2025-01-01')).toBe(true);
+        expect(isDateInDrawPeriod('2025-01-05', '2025-01-01')).toBe(false);
+        expect(isDateInDrawPeriod('2025-01-05', '2025-01-16')).toBe(true);
+        expect(isDateInDrawPeriod('2025-01-17', '2025-02-01')).toBe(true);
+    });
+
+    it('should match weekly tickets to their next draw', () => {
+        expect(isDateInDrawPeriod('2025-01-07', '2025-01-09', weekly)).toBe(true);
+        expect(isDateInDrawPeriod('2025-01-07', '2025-01-06', weekly)).toBe(false);
+    });
+});
+
+describe('getPreviousDrawPeriod', () => {
+    it('should alternate between the 1st and the 16th', () => {
+        expect(getPreviousDrawPeriod('2025-01-16').id).toBe('2025-01-01');
+        expect(getPreviousDrawPeriod('2025-01-01').id).toBe('2024-12-16');
+    });
+
+    it('should step back to the previous draw day', () => {
+        expect(getPreviousDrawPeriod('2025-01-09', weekly).id).toBe('2025-01-06');
+        expect(getPreviousDrawPeriod('2025-01-06', weekly).id).toBe('2025-01-02');
+    });
+});
+
+describe('draw cut-off', () => {
+    // หวยรัฐบาล draws at 16:00; close an hour before
+    const government: Product = {
+        ...DEFAULT_PRODUCTS[0],
+        schedule: { ...DEFAULT_PRODUCTS[0].schedule, cutoffMinutes: 60 },
+    };
+    const reopened: ReopenedDraw[] = [
+        {
+            productId: 'government',
+            drawId: '2025-01-16',
+            reopenedBy: '33333333-3333-4333-8333-333333333333',
+            reopenedAt: '2025-01-16T10:00:00.000Z',
+        },
+    ];
+
+    it('should close at the draw time less the cut-off minutes', () => {
+        expect(getDrawCutoff('2025-01-16', government)).toEqual(new Date(2025, 0, 16, 15, 0));
+        expect(getDrawCutoff('2025-01-09', weekly)).toEqual(new Date(2025, 0, 9, 20, 30));
+    });
+
+    it('should be open until the cut-off', () => {
+        expect(isDrawClosed('2025-01-16', government, [], new Date(2025, 0, 16, 14, 59))).toBe(false);
+        expect(isDrawClosed('2025-01-16', government, [], new Date(2025, 0, 16, 15, 0))).toBe(true);
+    });
+
+    it('should stay open once an admin reopens the draw', () => {
+        const after = new Date(2025, 0, 17, 9, 0);
+        expect(isDrawClosed('2025-01-16', government, reopened, after)).toBe(false);
+        expect(isDrawClosed('2025-01-16', weekly, reopened, after)).toBe(true);
+        expect(isDrawClosed('2025-02-01', government, reopened, new Date(2025, 1, 2))).toBe(true);
+    });
+
+    it('should check a ticket against the draw it is sold for', () => {
+        const settings = { products: [government], reopenedDraws: [] };
+        const now = new Date(2025, 0, 16, 15, 30);
+        expect(isTicketDrawClosed({ round: 'government', date: '2025-01-16' }, settings, now)).toBe(true);
+        expect(isTicketDrawClosed({ round: 'government', date: '2025-01-17' }, settings, now)).toBe(false);
+        expect(isTicketDrawClosed({ round: 'government', date: '2025-01-18' }, settings, now)).toBe(false);
+    });
+
+    it('should key sales after the cut-off under the next draw', () => {
+        expect(getSaleDate(government, new Date(2025, 0, 16, 14, 59))).toBe('2025-01-16');
+        expect(getSaleDate(government, new Date(2025, 0, 16, 15, 30))).toBe('2025-01-17');
+        expect(getDrawPeriodForDate(getSaleDate(government, new Date(2025, 0, 16, 15, 30))).id).toBe('2025-02-01');
+
+        // 2025-01-09 is a Thursday, drawn at 20:30
+        expect(getSaleDate(weekly, new Date(2025, 0, 9, 20, 0))).toBe('2025-01-09');
+        expect(getDrawPeriodForDate(getSaleDate(weekly, new Date(2025, 0, 9, 21, 0)), weekly).id).toBe('2025-01-13');
+    });
+});
@@ -3,7 +3,14 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { expandNumber, validateNumber, getExpansionCount } from '../frontend/src/lib/expand';
+import {
+    expandNumber,
+    validateNumber,
+    getExpansionCount,
+    isExpandableCategory,
+    expandShorthand,
+    parseShorthand,
+} from '../frontend/src/lib/expand';
 
 describe('expandNumber', () => {
     describe('3top/3down categories', () => {
@@ -59,6 +66,11 @@ describe('expandNumber', () => {
             expect(result).toContain('321');
         });
 
+        it('should expand 3back with repeated digits like 3tod', () => {
+            expect(expandNumber('899', '3back')).toEqual(['899', '989', '998']);
+            expect(expandNumber('777', '3back')).toEqual(['777']);
+        });
+
         it('should return sorted results', () => {
             const result = expandNumber('321', '3tod');
             expect(result).toEqual(['123', '132', '213', '231', '312', '321']);
@@ -97,12 +109,27 @@ describe('expandNumber', () => {
             expect(result).toContain('43');
         });
 
+        it('should return 1 result for 2back with same digits', () => {
+            expect(expandNumber('55', '2back')).toEqual(['55']);
+        });
+
         it('should return sorted results', () => {
             const result = expandNumber('21', '2tod');
             expect(result).toEqual(['12', '21']);
         });
     });
 
+    describe('1top/1down categories', () => {
+        it('should return the single digit as-is', () => {
+            expect(expandNumber('7', '1top')).toEqual(['7']);
+            expect(expandNumber('0', '1down')).toEqual(['0']);
+        });
+
+        it('should reject more than one digit', () => {
+            expect(() => expandNumber('12', '1top')).toThrow('requires 1 digits');
+        });
+    });
+
     describe('validation', () => {
         it('should throw error for non-numeric input', () => {
             expect(() => expandNumber('abc', '3top')).toThrow('must contain only digits');
@@ -158,8 +185,92 @@ describe('getExpansionCount', () => {
         expect(getExpansionCount('11', '2tod')).toBe(1);
     });
 
+    it('should count 3back and 2back like tod', () => {
+        expect(getExpansionCount('123', '3back')).toBe(6);
+        expect(getExpansionCount('112', '3back')).toBe(3);
+        expect(getExpansionCount('34', '2back')).toBe(2);
+        expect(getExpansionCount('33', '2back')).toBe(1);
+    });
+
     it('should return 1 for non-expanding categories', () => {
         expect(getExpansionCount('123', '3top')).toBe(1);
         expect(getExpansionCount('12', '2top')).toBe(1);
     });
 });
+
+describe('isExpandableCategory', () => {
+    it('should be true for tod and back categories', () => {
+        expect(isExpandableCategory('3tod')).toBe(true);
+        expect(isExpandableCategory('3back')).toBe(true);
+        expect(isExpandableCategory('2tod')).toBe(true);
+        expect(isExpandableCategory('2back')).toBe(true);
+    });
+
+    it('should be false for straight categories', () => {
+        expect(isExpandableCategory('3top')).toBe(false);
+        expect(isExpandableCategory('3down')).toBe(false);
+        expect(isExpandableCategory('2top')).toBe(false);
+        expect(isExpandableCategory('2down')).toBe(false);
+    });
+});
+
+describe('expandShorthand', () => {
+    it('should expand 19 ประตู to every 2-digit number containing the digit', () => {
+        const result = expandShorthand({ kind: 'door19', digit: '5' });
+        expect(result).toHaveLength(19);
+        expect(result).toContain('05');
+        expect(result).toContain('50');
+        expect(result).toContain('55');
+        expect(result).toContain('95');
+        expect(result.every((n) => n.includes('5'))).toBe(true);
+    });
+
+    it('should sweep the front and back digit', () => {
+        expect(expandShorthand({ kind: 'front', digit: '3' })).toEqual([
+            '30', '31', '32', '33', '34', '35', '36', '37', '38', '39',
+        ]);
+        expect(expandShorthand({ kind: 'back', digit: '3' })).toEqual([
+            '03', '13', '23', '33', '43', '53', '63', '73', '83', '93',
+        ]);
+    });
+
+    it('should list doubles and triples', () => {
+        expect(expandShorthand({ kind: 'double' })).toEqual([
+            '00', '11', '22', '33', '44', '55', '66', '77', '88', '99',
+        ]);
+        expect(expandShorthand({ kind: 'triple' })).toHaveLength(10);
+        expect(expandShorthand({ kind: 'triple' })[9]).toBe('999');
+    });
+
+    it('should require a single digit for digit-based shorthands', () => {
+        expect(() => expandShorthand({ kind: 'door19' })).toThrow('requires a single digit');
+        expect(() => expandShorthand({ kind: 'front', digit: '12' })).toThrow('requires a single digit');
+    });
+});
+
+describe('parseShorthand', () => {
+    it('should parse 19 ประตู with the digit on either side', () => {
+        expect(parseShorthand('5 19 ประตู')).toEqual({ kind: 'door19', digit: '5' });
+        expect(parseShorthand('19ประตู 5')).toEqual({ kind: 'door19', digit: '5' });
+        expect(parseShorthand('รูด 5')).toEqual({ kind: 'door19', digit: '5' });
+    });
+
+    it('should parse front and back sweeps', () => {
+        expect(parseShorthand('รูดหน้า 3')).toEqual({ kind: 'front', digit: '3' });
+        expect(parseShorthand('สิบเลขหน้า 3')).toEqual({ kind: 'front', digit: '3' });
+        expect(parseShorthand('รูดหลัง 7')).toEqual({ kind: 'back', digit: '7' });
+        expect(parseShorthand('สิบเลขหลัง 7')).toEqual({ kind: 'back', digit: '7' });
+    });
+
+    it('should parse doubles and triples', () => {
+        expect(parseShorthand('เบิ้ล')).toEqual({ kind: 'double' });
+        expect(parseShorthand(' ตอง ')).toEqual({ kind: 'triple' });
+    });
+
+    it('should return null for plain numbers and malformed shorthand', () => {
+        expect(parseShorthand('123')).toBeNull();
+        expect(parseShorthand('รูด')).toBeNull();
+        expect(parseShorthand('รูด 55')).toBeNull();
+        expect(parseShorthand('เบิ้ล 5')).toBeNull();
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for hedging (ตัดส่ง)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    computeHedgeLines,
+    buildHedgeEntries,
+    summarizeHedges,
+    resolveUpstreamPayouts,
+} from '../frontend/src/lib/hedge';
+import { Entry, HedgeTicket, Settings, DEFAULT_SETTINGS } from '../shared/schemas';
+import { v4 as uuidv4 } from 'uuid';
+import { makeEntry, makeTicket } from './helpers';
+
+const settings: Settings = {
+    ...DEFAULT_SETTINGS,
+    hedging: {
+        upstream: 'เจ้าใหญ่',
+        keep: { '3top': 100, '3tod': 50, '2down': 200 },
+        payouts: { '3top': 700 },
+    },
+};
+
+const DRAW = '2025-01-16';
+
+const makeHedge = (entries: Entry[], drawDate = DRAW): HedgeTicket => ({
+    id: uuidv4(),
+    round: 'government',
+    drawDate,
+    upstream: 'เจ้าใหญ่',
+    entries,
+    total: entries.reduce((sum, e) => sum + (e.total ?? 0), 0),
+    createdAt: new Date().toISOString(),
+    createdBy: 'tester',
+    modifiedAt: new Date().toISOString(),
+    synced: false,
+    deleted: false,
+});
+
+const tickets = [
+    makeTicket([makeEntry('3top', '123', 150), makeEntry('2down', '45', 100)]),
+    makeTicket([makeEntry('3top', '123', 50), makeEntry('2down', '45', 50)], { date: '2025-01-10' }),
+    makeTicket([makeEntry('3tod', '456', 80)], { date: '2025-01-12' }),
+    makeTicket([makeEntry('2top', '99', 5000)], { date: '2025-01-12' }), // No keep limit
+    makeTicket([makeEntry('3top', '123', 500)], { date: '2025-01-20' }), // Next draw
+];
+
+describe('computeHedgeLines', () => {
+    it('should pass the excess over the keep limit upstream for the whole draw', () => {
+        const lines = computeHedgeLines(tickets, [], settings, 'government', DRAW);
+        const top = lines.find((l) => l.category === '3top');
+        expect(top).toMatchObject({ combo: '123', sold: 200, keep: 100, amount: 100, payoutRate: 700 });
+    });
+
+    it('should skip combos within the limit and categories without one', () => {
+        const lines = computeHedgeLines(tickets, [], settings, 'government', DRAW);
+        expect(lines.find((l) => l.category === '2down')).toBeUndefined();
+        expect(lines.find((l) => l.category === '2top')).toBeUndefined();
+    });
+
+    it('should hedge a tod bet once per set of digits', () => {
+        const lines = computeHedgeLines(tickets, [], settings, 'government', DRAW);
+        const tod = lines.filter((l) => l.category === '3tod');
+        expect(tod).toHaveLength(1);
+        expect(tod[0].amount).toBe(30);
+    });
+
+    it('should deduct what was already sent', () => {
+        const sent = makeHedge(buildHedgeEntries([
+            { category: '3top', combo: '123', sold: 200, keep: 100, alreadySent: 0, amount: 60, payoutRate: 700 },
+        ]));
+        const lines = computeHedgeLines(tickets, [sent], settings, 'government', DRAW);
+        expect(lines.find((l) => l.category === '3top')?.amount).toBe(40);
+    });
+
+    it('should fall back to our own rate for the upstream table', () => {
+        expect(resolveUpstreamPayouts(settings, 'government')['2down']).toBe(DEFAULT_SETTINGS.payouts['2down']);
+    });
+});
+
+describe('summarizeHedges', () => {
+    const lines = computeHedgeLines(tickets, [], settings, 'government', DRAW);
+    const hedge = makeHedge(buildHedgeEntries(lines));
+
+    it('should report stake and coverage', () => {
+        const summary = summarizeHedges([hedge]);
+        // 3top 123: 100 × 700, 3tod 456: 30 × 130
+        expect(summary.stake).toBe(130);
+        expect(summary.coverage).toBe(100 * 700 + 30 * DEFAULT_SETTINGS.payouts['3tod']);
+        expect(summary.winnings).toBe(0);
+    });
+
+    it('should pay the hedged amount back when the combo wins', () => {
+        expect(summarizeHedges([hedge], { threeTop: '123' }).winnings).toBe(70000);
+        expect(summarizeHedges([hedge], { threeTop: '645' }).winnings).toBe(30 * DEFAULT_SETTINGS.payouts['3tod']);
+    });
+
+    it('should ignore deleted hedge tickets', () => {
+        expect(summarizeHedges([{ ...hedge, deleted: true }]).stake).toBe(0);
+    });
+});
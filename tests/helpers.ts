@@ -0,0 +1,40 @@
+/**
+ * Test data shared by the unit tests
+ */
+
+import { computeEntryTotals } from '../frontend/src/lib/compute';
+import { Entry, Ticket, BlockedNumber, DEFAULT_SETTINGS } from '../shared/schemas';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * An entry priced with the default settings
+ */
+export const makeEntry = (
+    category: Entry['category'],
+    raw: string,
+    unitPrice = 10,
+    quantity = 1,
+    blockedNumbers: BlockedNumber[] = []
+): Entry => computeEntryTotals({ id: uuidv4(), category, raw, unitPrice, quantity }, DEFAULT_SETTINGS, blockedNumbers);
+
+/**
+ * A saved government ticket of 2025-01-05 (the 2025-01-16 draw) for a new
+ * agent, totalling its entries
+ */
+export const makeTicket = (entries: Entry[], overrides: Partial<Ticket> = {}): Ticket => {
+    const createdAt = overrides.createdAt ?? new Date().toISOString();
+    return {
+        id: uuidv4(),
+        agentId: uuidv4(),
+        round: 'government',
+        date: '2025-01-05',
+        createdAt,
+        createdBy: 'tester',
+        modifiedAt: createdAt,
+        entries,
+        billTotal: entries.reduce((sum, e) => sum + (e.total ?? 0), 0),
+        synced: false,
+        deleted: false,
+        ...overrides,
+    };
+};
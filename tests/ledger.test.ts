@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the agent ledger
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    getLedgerDelta,
+    computeAgentBalance,
+    buildAgentStatement,
+    buildDrawLedgerEntries,
+} from '../frontend/src/lib/ledger';
+import { computeEntryTotals } from '../frontend/src/lib/compute';
+import { LedgerEntry, LedgerEntryType, Ticket, DEFAULT_SETTINGS } from '../shared/schemas';
+import { v4 as uuidv4 } from 'uuid';
+
+const agentId = uuidv4();
+let clock = 0;
+
+const makeEntry = (type: LedgerEntryType, amount: number, drawDate: string, extra: Partial<LedgerEntry> = {}): LedgerEntry => {
+    const createdAt = new Date(Date.UTC(2025, 0, 1, 0, 0, clock++)).toISOString();
+    return {
+        id: uuidv4(),
+        agentId,
+        type,
+        amount,
+        drawDate,
+        auto: false,
+        createdAt,
+        createdBy: 'tester',
+        modifiedAt: createdAt,
+        synced: false,
+        deleted: false,
+        ...extra,
+    };
+};
+
+const entries: LedgerEntry[] = [
+    makeEntry('sale', 1000, '2025-01-01'),
+    makeEntry('commission', 100, '2025-01-01'),
+    makeEntry('cashReceived', 500, '2025-01-01'),
+    makeEntry('sale', 2000, '2025-01-16'),
+    makeEntry('winnings', 3000, '2025-01-16'),
+    makeEntry('cashPaid', 200, '2025-01-16'),
+    makeEntry('adjustment', -50, '2025-01-16'),
+    makeEntry('sale', 999, '2025-01-16', { deleted: true }),
+    makeEntry('sale', 700, '2025-01-16', { agentId: uuidv4() }),
+];
+
+describe('getLedgerDelta', () => {
+    it('should add sales and cash paid, subtract commission, winnings and cash received', () => {
+        expect(getLedgerDelta({ type: 'sale', amount: 100 })).toBe(100);
+        expect(getLedgerDelta({ type: 'cashPaid', amount: 100 })).toBe(100);
+        expect(getLedgerDelta({ type: 'commission', amount: 100 })).toBe(-100);
+        expect(getLedgerDelta({ type: 'winnings', amount: 100 })).toBe(-100);
+        expect(getLedgerDelta({ type: 'cashReceived', amount: 100 })).toBe(-100);
+    });
+
+    it('should keep the sign of adjustments', () => {
+        expect(getLedgerDelta({ type: 'adjustment', amount: -30 })).toBe(-30);
+    });
+});
+
+describe('computeAgentBalance', () => {
+    it('should skip deleted entries and other agents', () => {
+        // 1000 - 100 - 500 + 2000 - 3000 + 200 - 50
+        expect(computeAgentBalance(entries, agentId)).toBe(-450);
+    });
+
+    it('should stop at the given draw', () => {
+        expect(computeAgentBalance(entries, agentId, '2025-01-01')).toBe(400);
+    });
+
+    it('should keep the balance of each product apart', () => {
+        const lao = makeEntry('sale', 300, '2025-01-16', { productId: 'lao' });
+        expect(computeAgentBalance([...entries, lao], agentId)).toBe(-150);
+        expect(computeAgentBalance([...entries, lao], agentId, undefined, 'government')).toBe(-450);
+        expect(computeAgentBalance([...entries, lao], agentId, undefined, 'lao')).toBe(300);
+    });
+});
+
+describe('buildAgentStatement', () => {
+    it('should carry the previous balance forward', () => {
+        const statement = buildAgentStatement(entries, agentId, '2025-01-16');
+        expect(statement.openingBalance).toBe(400);
+        expect(statement.lines).toHaveLength(4);
+        expect(statement.lines.map((l) => l.balance)).toEqual([2400, -600, -400, -450]);
+        expect(statement.closingBalance).toBe(-450);
+    });
+
+    it('should leave out the entries of another product drawn on the same date', () => {
+        const lao = [
+            makeEntry('sale', 300, '2025-01-01', { productId: 'lao' }),
+            makeEntry('sale', 400, '2025-01-16', { productId: 'lao' }),
+        ];
+        const statement = buildAgentStatement([...entries, ...lao], agentId, '2025-01-16', 'government');
+        expect(statement.openingBalance).toBe(400);
+        expect(statement.lines).toHaveLength(4);
+        expect(statement.closingBalance).toBe(-450);
+
+        const laoStatement = buildAgentStatement([...entries, ...lao], agentId, '2025-01-16', 'lao');
+        expect(laoStatement.openingBalance).toBe(300);
+        expect(laoStatement.closingBalance).toBe(700);
+    });
+
+    it('should open at zero for the first draw', () => {
+        const statement = buildAgentStatement(entries, agentId, '2025-01-01');
+        expect(statement.openingBalance).toBe(0);
+        expect(statement.closingBalance).toBe(400);
+    });
+});
+
+describe('buildDrawLedgerEntries', () => {
+    const ticket: Ticket = {
+        id: uuidv4(),
+        agentId,
+        round: 'government',
+        date: '2025-01-05',
+        createdAt: new Date().toISOString(),
+        createdBy: 'tester',
+        modifiedAt: new Date().toISOString(),
+        entries: [computeEntryTotals({ id: uuidv4(), category: '2down', raw: '12', unitPrice: 100, quantity: 1 }, DEFAULT_SETTINGS, [])],
+        billTotal: 100,
+        synced: false,
+        deleted: false,
+    };
+
+    it('should post sales and commission before the result is known', () => {
+        const posted = buildDrawLedgerEntries([ticket], { id: agentId, commission: { '2down': 10 } }, '2025-01-16', 'government', 'tester');
+        expect(posted.map((e) => [e.type, e.amount])).toEqual([
+            ['sale', 100],
+            ['commission', 10],
+        ]);
+        expect(posted.every((e) => e.auto)).toBe(true);
+    });
+
+    it('should post winnings once the result is known', () => {
+        const posted = buildDrawLedgerEntries([ticket], { id: agentId }, '2025-01-16', 'government', 'tester', {
+            twoDown: '12',
+        });
+        expect(posted.find((e) => e.type === 'winnings')?.amount).toBe(7000);
+    });
+});
@@ -0,0 +1,249 @@
+/**
+ * Unit tests for the win evaluation engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    evaluateEntry,
+    evaluateTicket,
+    evaluateCombo,
+    computeActualPayout,
+    DrawResult,
+} from '../frontend/src/lib/payout';
+import { Entry, BlockedNumber, DEFAULT_SETTINGS } from '../shared/schemas';
+import { v4 as uuidv4 } from 'uuid';
+import { makeEntry, makeTicket } from './helpers';
+
+const settings = DEFAULT_SETTINGS;
+
+// รางวัลที่ 1 = 123456 → 3 ตัวบน 456, 2 ตัวบน 56
+const result: DrawResult = {
+    firstPrize: '123456',
+    threeTop: '456',
+    twoDown: '78',
+    threeTod3: '901',
+    threeTod4: '234',
+};
+
+describe('evaluateEntry', () => {
+    describe('3top', () => {
+        it('should win on exact match with 3 ตัวบน', () => {
+            const lines = evaluateEntry(makeEntry('3top', '456'), result);
+            expect(lines).toHaveLength(1);
+            expect(lines[0]).toMatchObject({ prize: 'threeTop', matched: '456', rate: 800, amount: 8000 });
+        });
+
+        it('should not win on a permutation', () => {
+            expect(evaluateEntry(makeEntry('3top', '654'), result)).toHaveLength(0);
+        });
+
+        it('should derive 3 ตัวบน from the first prize when threeTop is missing', () => {
+            const lines = evaluateEntry(makeEntry('3top', '456'), { firstPrize: '123456' });
+            expect(lines).toHaveLength(1);
+        });
+    });
+
+    describe('3tod', () => {
+        it('should win once for any permutation of 3 ตัวบน', () => {
+            const lines = evaluateEntry(makeEntry('3tod', '654'), result);
+            expect(lines).toHaveLength(1);
+            expect(lines[0]).toMatchObject({ combo: '456', prize: 'threeTop', rate: 130, amount: 1300 });
+        });
+
+        it('should win on the exact number too', () => {
+            expect(evaluateEntry(makeEntry('3tod', '456'), result)).toHaveLength(1);
+        });
+
+        it('should not win against the bottom 3 digits', () => {
+            expect(evaluateEntry(makeEntry('3tod', '109'), result)).toHaveLength(0);
+        });
+
+        it('should pay once for legacy entries without expansion', () => {
+            const entry: Entry = { id: uuidv4(), category: '3tod', raw: '564', unitPrice: 10, quantity: 1 };
+            const lines = evaluateEntry(entry, result);
+            expect(lines).toHaveLength(1);
+            expect(lines[0].amount).toBe(1300);
+        });
+    });
+
+    describe('3down', () => {
+        it('should win against either bottom 3-digit draw', () => {
+            expect(evaluateEntry(makeEntry('3down', '901'), result)[0]).toMatchObject({ prize: 'threeDown1', amount: 4000 });
+            expect(evaluateEntry(makeEntry('3down', '234'), result)[0]).toMatchObject({ prize: 'threeDown2', amount: 4000 });
+        });
+
+        it('should pay twice when both bottom draws are the same number', () => {
+            const lines = evaluateEntry(makeEntry('3down', '901'), { ...result, threeTod4: '901' });
+            expect(lines).toHaveLength(2);
+        });
+
+        it('should fall back to the single threeDown field', () => {
+            const lines = evaluateEntry(makeEntry('3down', '555'), { threeTop: '456', threeDown: '555' });
+            expect(lines).toHaveLength(1);
+        });
+
+        it('should not win on a permutation', () => {
+            expect(evaluateEntry(makeEntry('3down', '109'), result)).toHaveLength(0);
+        });
+    });
+
+    describe('3back', () => {
+        it('should win once for any permutation of a bottom 3-digit draw', () => {
+            const lines = evaluateEntry(makeEntry('3back', '109'), result);
+            expect(lines).toHaveLength(1);
+            expect(lines[0]).toMatchObject({ prize: 'threeDown1', matched: '901', rate: 130 });
+        });
+
+        it('should not win against 3 ตัวบน', () => {
+            expect(evaluateEntry(makeEntry('3back', '654'), result)).toHaveLength(0);
+        });
+    });
+
+    describe('2top', () => {
+        it('should win on the last 2 digits of 3 ตัวบน', () => {
+            expect(evaluateEntry(makeEntry('2top', '56'), result)[0]).toMatchObject({ prize: 'twoTop', amount: 700 });
+        });
+
+        it('should not win on the reverse', () => {
+            expect(evaluateEntry(makeEntry('2top', '65'), result)).toHaveLength(0);
+        });
+    });
+
+    describe('2tod', () => {
+        it('should win once on either order of 2 ตัวบน', () => {
+            const lines = evaluateEntry(makeEntry('2tod', '65'), result);
+            expect(lines).toHaveLength(1);
+            expect(lines[0]).toMatchObject({ combo: '56', prize: 'twoTop', amount: 350 });
+        });
+    });
+
+    describe('2down', () => {
+        it('should win on exact 2 ตัวล่าง', () => {
+            expect(evaluateEntry(makeEntry('2down', '78'), result)[0]).toMatchObject({ prize: 'twoDown', amount: 700 });
+        });
+
+        it('should not win on the reverse', () => {
+            expect(evaluateEntry(makeEntry('2down', '87'), result)).toHaveLength(0);
+        });
+    });
+
+    describe('2back', () => {
+        it('should win once on either order of 2 ตัวล่าง', () => {
+            const lines = evaluateEntry(makeEntry('2back', '87'), result);
+            expect(lines).toHaveLength(1);
+            expect(lines[0]).toMatchObject({ prize: 'twoDown', matched: '78', rate: 35 });
+        });
+
+        it('should not win against 2 ตัวบน', () => {
+            expect(evaluateEntry(makeEntry('2back', '65'), result)).toHaveLength(0);
+        });
+    });
+
+    describe('1top', () => {
+        it('should win when the digit appears anywhere in 3 ตัวบน', () => {
+            const lines = evaluateEntry(makeEntry('1top', '5'), result);
+            expect(lines).toHaveLength(1);
+            expect(lines[0]).toMatchObject({ prize: 'threeTop', matched: '456', rate: 3, amount: 30 });
+        });
+
+        it('should pay once when the digit appears more than once', () => {
+            expect(evaluateEntry(makeEntry('1top', '4'), { threeTop: '404' })).toHaveLength(1);
+        });
+
+        it('should not win on a bottom-only digit', () => {
+            expect(evaluateEntry(makeEntry('1top', '7'), result)).toHaveLength(0);
+        });
+    });
+
+    describe('1down', () => {
+        it('should win when the digit appears in 2 ตัวล่าง', () => {
+            const lines = evaluateEntry(makeEntry('1down', '8'), result);
+            expect(lines).toHaveLength(1);
+            expect(lines[0]).toMatchObject({ prize: 'twoDown', rate: 4, amount: 40 });
+        });
+
+        it('should not win on a top-only digit', () => {
+            expect(evaluateEntry(makeEntry('1down', '4'), result)).toHaveLength(0);
+        });
+    });
+
+    describe('rates and amounts', () => {
+        it('should use the stored per-combo rate (blocked override)', () => {
+            const blocked: BlockedNumber[] = [
+                { id: 'b1', number: '456', category: '3top', payoutOverride: 400, enabled: true },
+            ];
+            const lines = evaluateEntry(makeEntry('3top', '456', 10, 1, blocked), result);
+            expect(lines[0].rate).toBe(400);
+            expect(lines[0].amount).toBe(4000);
+        });
+
+        it('should pay every band of a tiered tod combo', () => {
+            const blocked: BlockedNumber[] = [
+                {
+                    id: 'b1',
+                    number: '456',
+                    category: '3tod',
+                    payoutOverride: 150,
+                    tiers: [{ upTo: 5, payoutRate: null }, { upTo: null, payoutRate: 50 }],
+                    enabled: true,
+                },
+            ];
+            const lines = evaluateEntry(makeEntry('3tod', '456', 10, 1, blocked), result);
+            expect(lines.map((l) => [l.combo, l.amount])).toEqual([
+                ['456', 5 * settings.payouts['3tod']],
+                ['456', 5 * 50],
+            ]);
+        });
+
+        it('should multiply by quantity', () => {
+            const lines = evaluateEntry(makeEntry('2down', '78', 10, 3), result);
+            expect(lines[0].amount).toBe(2100);
+        });
+
+        it('should use the fallback payout table for entries without perComboTotals', () => {
+            const entry: Entry = { id: uuidv4(), category: '2down', raw: '78', unitPrice: 10, quantity: 1 };
+            const lines = evaluateEntry(entry, result, { ...settings.payouts, '2down': 90 });
+            expect(lines[0].amount).toBe(900);
+        });
+
+        it('should return nothing when the result is empty', () => {
+            expect(evaluateEntry(makeEntry('3top', '456'), {})).toHaveLength(0);
+        });
+    });
+});
+
+describe('evaluateTicket', () => {
+    it('should list only winning entries and total them', () => {
+        const ticket = makeTicket([
+            makeEntry('3top', '456'),
+            makeEntry('2down', '78'),
+            makeEntry('2top', '11'),
+        ]);
+        const win = evaluateTicket(ticket, result);
+
+        expect(win.entries).toHaveLength(2);
+        expect(win.amount).toBe(8000 + 700);
+    });
+});
+
+describe('computeActualPayout', () => {
+    it('should sum all winning tickets and skip deleted ones', () => {
+        const tickets = [
+            makeTicket([makeEntry('3top', '456')]),
+            makeTicket([makeEntry('3tod', '546')]),
+            makeTicket([makeEntry('2down', '78')], { deleted: true }),
+        ];
+        expect(computeActualPayout(tickets, result)).toBe(8000 + 1300);
+    });
+
+    it('should return 0 without a result', () => {
+        expect(computeActualPayout([makeTicket([makeEntry('3top', '456')])], null)).toBe(0);
+    });
+});
+
+describe('evaluateCombo', () => {
+    it('should report the matched prize for a single number', () => {
+        expect(evaluateCombo('234', '3down', result)?.prize).toBe('threeDown2');
+        expect(evaluateCombo('111', '3down', result)).toBeNull();
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for roles and permissions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    hasPermission,
+    canAccessAgent,
+    assertPermission,
+    canAssignRole,
+    PermissionError,
+    ActingUser,
+} from '../frontend/src/lib/permissions';
+
+const AGENT_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_AGENT_ID = '22222222-2222-4222-8222-222222222222';
+
+const owner: ActingUser = { role: 'owner' };
+const admin: ActingUser = { role: 'admin' };
+const cashier: ActingUser = { role: 'cashier' };
+const auditor: ActingUser = { role: 'auditor' };
+const agent: ActingUser = { role: 'agent', agentId: AGENT_ID };
+
+describe('hasPermission', () => {
+    it('should give owners and admins every permission', () => {
+        expect(hasPermission(owner, 'users.manage')).toBe(true);
+        expect(hasPermission(admin, 'tickets.delete')).toBe(true);
+    });
+
+    it('should let cashiers enter bills and nothing else', () => {
+        expect(hasPermission(cashier, 'tickets.create')).toBe(true);
+        expect(hasPermission(cashier, 'tickets.edit')).toBe(false);
+        expect(hasPermission(cashier, 'reports.view')).toBe(false);
+    });
+
+    it('should keep auditors read-only', () => {
+        expect(hasPermission(auditor, 'reports.view')).toBe(true);
+        expect(hasPermission(auditor, 'audit.view')).toBe(true);
+        expect(hasPermission(auditor, 'tickets.create')).toBe(false);
+        expect(hasPermission(auditor, 'settings.manage')).toBe(false);
+    });
+
+    it('should allow nothing without a staff sign-in', () => {
+        expect(hasPermission(null, 'tickets.create')).toBe(false);
+        expect(hasPermission(null, 'settings.manage')).toBe(false);
+        expect(hasPermission(null, 'reports.view')).toBe(false);
+        expect(hasPermission(null, 'users.manage')).toBe(false);
+    });
+});
+
+describe('canAccessAgent', () => {
+    it('should limit agent users to their own agent', () => {
+        expect(canAccessAgent(agent, AGENT_ID)).toBe(true);
+        expect(canAccessAgent(agent, OTHER_AGENT_ID)).toBe(false);
+        expect(canAccessAgent(cashier, OTHER_AGENT_ID)).toBe(true);
+        expect(canAccessAgent(null, OTHER_AGENT_ID)).toBe(true);
+    });
+});
+
+describe('assertPermission', () => {
+    it('should throw PermissionError naming the missing permission', () => {
+        expect(() => assertPermission(cashier, 'tickets.delete')).toThrow(PermissionError);
+        try {
+            assertPermission(cashier, 'tickets.delete');
+        } catch (error) {
+            expect((error as PermissionError).permission).toBe('tickets.delete');
+        }
+    });
+
+    it('should refuse an agent user bills of another agent', () => {
+        expect(() => assertPermission(agent, 'tickets.create', AGENT_ID)).not.toThrow();
+        expect(() => assertPermission(agent, 'tickets.create', OTHER_AGENT_ID)).toThrow(PermissionError);
+    });
+});
+
+describe('canAssignRole', () => {
+    it('should let only owners make owners', () => {
+        expect(canAssignRole(owner, 'owner')).toBe(true);
+        expect(canAssignRole(admin, 'owner')).toBe(false);
+        expect(canAssignRole(admin, 'cashier')).toBe(true);
+    });
+
+    it('should refuse roles without user management', () => {
+        expect(canAssignRole(auditor, 'cashier')).toBe(false);
+        expect(canAssignRole(null, 'cashier')).toBe(false);
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for rate table versioning
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createRateTableVersion,
+    applyRateTable,
+    ticketPayoutResolver,
+    getRateTableHistory,
+    diffRates,
+} from '../frontend/src/lib/rateTable';
+import { resolvePayouts } from '../frontend/src/lib/compute';
+import { evaluateTicket } from '../frontend/src/lib/payout';
+import { RateTable, Settings, Entry, DEFAULT_SETTINGS, DEFAULT_PRODUCTS } from '../shared/schemas';
+import { v4 as uuidv4 } from 'uuid';
+import { makeTicket } from './helpers';
+
+const toTable = (settings: Settings, tables: RateTable[], effectiveFrom: string): RateTable => ({
+    ...createRateTableVersion(tables, settings, 'tester', effectiveFrom)!,
+    id: uuidv4(),
+});
+
+const v1 = toTable(DEFAULT_SETTINGS, [], '2025-01-01T00:00:00.000Z');
+const raised: Settings = {
+    ...DEFAULT_SETTINGS,
+    payouts: { ...DEFAULT_SETTINGS.payouts, '3top': 900 },
+    products: DEFAULT_PRODUCTS.map((p) => (p.id === 'lao' ? { ...p, payouts: { '2top': 90 } } : p)),
+    rateTableId: v1.id,
+};
+const v2 = toTable(raised, [v1], '2025-01-10T00:00:00.000Z');
+
+describe('createRateTableVersion', () => {
+    it('should number versions from 1', () => {
+        expect(v1.version).toBe(1);
+        expect(v2.version).toBe(2);
+    });
+
+    it('should keep no version when the rates are those of the current table', () => {
+        expect(createRateTableVersion([v1], { ...DEFAULT_SETTINGS, rateTableId: v1.id }, 'tester')).toBeNull();
+    });
+
+    it('should keep product overrides and leave products without them out', () => {
+        expect(v2.productPayouts).toEqual({ lao: { '2top': 90 } });
+    });
+});
+
+describe('diffRates', () => {
+    it('should list each changed rate with its layer', () => {
+        expect(diffRates(v1, v2)).toEqual([
+            { layer: 'global', layerId: undefined, category: '3top', before: 800, after: 900 },
+            { layer: 'product', layerId: 'lao', category: '2top', before: undefined, after: 90 },
+        ]);
+    });
+});
+
+describe('applyRateTable', () => {
+    it('should put back the rates of an older table', () => {
+        const current = { ...raised, rateTableId: v2.id };
+        const old = applyRateTable(current, v1);
+        expect(resolvePayouts(old, { productId: 'lao' })['3top']).toBe(800);
+        expect(resolvePayouts(old, { productId: 'lao' })['2top']).toBe(DEFAULT_SETTINGS.payouts['2top']);
+    });
+});
+
+describe('ticketPayoutResolver', () => {
+    // Legacy entry: no perComboTotals, so the payout table decides the rate
+    const entry: Entry = { id: uuidv4(), category: '3top', raw: '456', unitPrice: 10, quantity: 1 };
+    const payouts = ticketPayoutResolver({ ...raised, rateTableId: v2.id }, [v1, v2]);
+
+    it('should pay a ticket at the rates it was sold with', () => {
+        expect(evaluateTicket(makeTicket([entry], { rateTableId: v1.id }), { threeTop: '456' }, payouts).amount).toBe(8000);
+    });
+
+    it('should pay tickets without a rate table at the current rates', () => {
+        expect(evaluateTicket(makeTicket([entry]), { threeTop: '456' }, payouts).amount).toBe(9000);
+    });
+});
+
+describe('getRateTableHistory', () => {
+    it('should list versions newest first with the time each was in force', () => {
+        const history = getRateTableHistory([v2, v1]);
+        expect(history.map((h) => h.table.version)).toEqual([2, 1]);
+        expect(history[0]).toMatchObject({ from: v2.effectiveFrom, to: null });
+        expect(history[1]).toMatchObject({ from: v1.effectiveFrom, to: v2.effectiveFrom, changes: [] });
+        expect(history[0].changes).toHaveLength(2);
+    });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for re-rating saved tickets
+ */
+
+import { describe, it, expect } from 'vitest';
+import { planReRate } from '../frontend/src/lib/rerate';
+import { rateEntryCombos } from '../frontend/src/lib/compute';
+import { BlockedNumber, RateTable, DEFAULT_SETTINGS, DEFAULT_PRODUCTS } from '../shared/schemas';
+import { v4 as uuidv4 } from 'uuid';
+import { makeEntry, makeTicket } from './helpers';
+
+const settings = DEFAULT_SETTINGS;
+const government = DEFAULT_PRODUCTS[0];
+
+const rate = settings.payouts['3top'];
+const tickets = [
+    makeTicket([makeEntry('3top', '123', 100)], { createdAt: '2025-01-05T10:00:00.000Z' }),
+    makeTicket([makeEntry('3top', '456', 100)], { date: '2025-01-06', createdAt: '2025-01-06T10:00:00.000Z' }),
+    makeTicket([makeEntry('3top', '123', 100)], { date: '2025-01-20', createdAt: '2025-01-20T10:00:00.000Z' }), // Next draw
+];
+
+describe('planReRate', () => {
+    it('should list nothing when the rates are unchanged', () => {
+        const plan = planReRate(tickets, settings, [], [], government, '2025-01-16');
+        expect(plan.changes).toEqual([]);
+        expect(plan.ticketCount).toBe(2);
+        expect(plan.payoutBefore).toBe(plan.payoutAfter);
+    });
+
+    it('should re-rate only the tickets of the draw that a new blocked number touches', () => {
+        const blocked: BlockedNumber[] = [
+            { id: uuidv4(), number: '123', category: '3top', payoutOverride: 100, enabled: true },
+        ];
+        const plan = planReRate(tickets, settings, [], blocked, government, '2025-01-16');
+
+        expect(plan.changes).toHaveLength(1);
+        expect(plan.changes[0].ticket.id).toBe(tickets[0].id);
+        expect(plan.changes[0].entries[0].perComboTotals?.[0].payoutRate).toBe(100);
+        expect(plan.changes[0]).toMatchObject({ payoutBefore: 100 * rate, payoutAfter: 100 * 100, billTotal: 100 });
+        expect(plan.payoutAfter - plan.payoutBefore).toBe(100 * 100 - 100 * rate);
+    });
+
+    it('should pick up a changed payout table', () => {
+        const plan = planReRate(tickets, { ...settings, payouts: { ...settings.payouts, '3top': 500 } }, [], [], government, '2025-01-16');
+        expect(plan.changes).toHaveLength(2);
+        expect(plan.payoutAfter).toBe(2 * 100 * 500);
+    });
+
+    it('should price with the current rate table and record it', () => {
+        const table = (version: number, payout: number): RateTable => ({
+            id: uuidv4(),
+            version,
+            payouts: { ...settings.payouts, '3top': payout },
+            productPayouts: {},
+            agentPayouts: {},
+            effectiveFrom: '2025-01-01T00:00:00.000Z',
+            createdBy: 'tester',
+        });
+        const tables = [table(1, rate), table(2, 500)];
+        const sold = tickets.map((t) => ({ ...t, rateTableId: tables[0].id }));
+
+        const plan = planReRate(sold, { ...settings, rateTableId: tables[1].id }, tables, [], government, '2025-01-16');
+        expect(plan.changes).toHaveLength(2);
+        expect(plan.changes.map((c) => c.rateTableId)).toEqual([tables[1].id, tables[1].id]);
+        expect(plan.payoutAfter).toBe(2 * 100 * 500);
+    });
+
+    it('should fill tiered bands in the order the tickets were entered', () => {
+        const blocked: BlockedNumber[] = [
+            {
+                id: uuidv4(),
+                number: '123',
+                category: '3top',
+                payoutOverride: rate,
+                tiers: [{ upTo: 150, payoutRate: null }, { upTo: null, payoutRate: 200 }],
+                enabled: true,
+            },
+        ];
+        const later = makeTicket([makeEntry('3top', '123', 100)], { date: '2025-01-07', createdAt: '2025-01-07T10:00:00.000Z' });
+        const plan = planReRate([later, ...tickets], settings, [], blocked, government, '2025-01-16');
+
+        const rows = plan.changes.find((c) => c.ticket.id === later.id)?.entries[0].perComboTotals;
+        expect(rows?.map((r) => [r.soldAmount, r.payoutRate])).toEqual([
+            [50, rate],
+            [50, 200],
+        ]);
+    });
+
+    it('should keep the reversed combo of a 2-digit entry', () => {
+        const reversed = rateEntryCombos(
+            { id: uuidv4(), category: '2top', raw: '12', unitPrice: 10, quantity: 1, expanded: ['12', '21'] },
+            settings,
+            []
+        );
+        const ticket = makeTicket([reversed], { createdAt: '2025-01-05T10:00:00.000Z' });
+
+        const unchanged = planReRate([ticket], settings, [], [], government, '2025-01-16');
+        expect(unchanged.changes).toEqual([]);
+        expect(unchanged.payoutAfter).toBe(2 * 10 * settings.payouts['2top']);
+
+        const raised = planReRate([ticket], { ...settings, payouts: { ...settings.payouts, '2top': 100 } }, [], [], government, '2025-01-16');
+        expect(raised.changes[0].entries[0].expanded).toEqual(['12', '21']);
+        expect(raised.changes[0].billTotal).toBe(10);
+        expect(raised.payoutAfter).toBe(2 * 10 * 100);
+    });
+
+    it('should skip deleted tickets', () => {
+        const plan = planReRate([{ ...tickets[0], deleted: true }], settings, [], [], government, '2025-01-16');
+        expect(plan.ticketCount).toBe(0);
+    });
+
+    it('should skip bills that are not accepted', () => {
+        const plan = planReRate([{ ...tickets[0], status: 'pending' }], settings, [], [], government, '2025-01-16');
+        expect(plan.ticketCount).toBe(0);
+    });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for the draw simulator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { simulateDraw, computePartPayouts } from '../frontend/src/lib/simulate';
+import { DEFAULT_SETTINGS } from '../shared/schemas';
+import { makeEntry, makeTicket } from './helpers';
+
+const payouts = DEFAULT_SETTINGS.payouts;
+
+const tickets = [
+    makeTicket([makeEntry('3top', '123', 10), makeEntry('2down', '45', 20)]),
+    makeTicket([makeEntry('2top', '23', 10), makeEntry('3down', '789', 10)]),
+];
+const gross = 50;
+
+describe('computePartPayouts', () => {
+    it('should credit each bet to the number it is checked against', () => {
+        const parts = computePartPayouts(tickets, payouts);
+        expect(parts.top[123]).toBe(10 * payouts['3top'] + 10 * payouts['2top']);
+        expect(parts.top[523]).toBe(10 * payouts['2top']); // 2 ตัวบน wins on any hundreds digit
+        expect(parts.twoDown[45]).toBe(20 * payouts['2down']);
+        expect(parts.bottom3[789]).toBe(10 * payouts['3down']);
+        expect(parts.top[456]).toBe(0);
+    });
+
+    it('should ignore deleted tickets', () => {
+        const parts = computePartPayouts([{ ...tickets[0], deleted: true }], payouts);
+        expect(parts.top.every((v) => v === 0)).toBe(true);
+    });
+});
+
+describe('simulateDraw', () => {
+    it('should report the worst case as every bet winning', () => {
+        const simulation = simulateDraw(tickets, { payouts });
+        const payout =
+            10 * payouts['3top'] + 10 * payouts['2top'] + 20 * payouts['2down'] + 2 * 10 * payouts['3down'];
+        expect(simulation.gross).toBe(gross);
+        expect(simulation.worst).toMatchObject({ threeTop: '123', twoDown: '45', threeDown: ['789', '789'], payout });
+        expect(simulation.worst.profit).toBe(gross - payout);
+    });
+
+    it('should report the best case as nothing winning', () => {
+        const simulation = simulateDraw(tickets, { payouts });
+        expect(simulation.best.payout).toBe(0);
+        expect(simulation.best.profit).toBe(gross);
+    });
+
+    it('should average each part over uniform draws', () => {
+        const simulation = simulateDraw(tickets, { payouts });
+        const expected =
+            (10 * payouts['3top'] + 10 * 10 * payouts['2top']) / 1000 +
+            (20 * payouts['2down']) / 100 +
+            (2 * 10 * payouts['3down']) / 1000;
+        expect(simulation.expectedPayout).toBeCloseTo(expected);
+        expect(simulation.expectedProfit).toBeCloseTo(gross - expected);
+    });
+
+    it('should leave out 3-digit bottom draws for top/bottom products', () => {
+        const simulation = simulateDraw(tickets, { payouts, bottomSets: 0 });
+        expect(simulation.worst.threeDown).toEqual([]);
+        expect(simulation.worst.payout).toBe(10 * payouts['3top'] + 10 * payouts['2top'] + 20 * payouts['2down']);
+    });
+
+    it('should list the most damaging outcomes first without swapped duplicates', () => {
+        const simulation = simulateDraw(tickets, { payouts, topN: 5 });
+        expect(simulation.topOutcomes).toHaveLength(5);
+        const amounts = simulation.topOutcomes.map((o) => o.payout);
+        expect(amounts).toEqual([...amounts].sort((a, b) => b - a));
+
+        const keys = simulation.topOutcomes.map((o) => `${o.threeTop}-${o.twoDown}-${[...o.threeDown].sort().join()}`);
+        expect(new Set(keys).size).toBe(keys.length);
+    });
+});
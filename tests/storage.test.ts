@@ -0,0 +1,101 @@
+/**
+ * Unit tests for the local store
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as db from '../frontend/src/storage/db';
+import { PermissionError } from '../frontend/src/lib/permissions';
+import { DrawClosedError } from '../frontend/src/lib/drawPeriod';
+import { Agent, Ticket, DEFAULT_SETTINGS } from '../shared/schemas';
+
+const owner = { id: '11111111-1111-4111-8111-111111111111', username: 'owner', role: 'owner' as const };
+const cashier = { id: '22222222-2222-4222-8222-222222222222', username: 'cashier', role: 'cashier' as const };
+
+let agent: Agent;
+
+const bill = (status?: Ticket['status'], date = '2025-01-05'): Parameters<typeof db.createTicket>[0] => ({
+    agentId: agent.id,
+    round: 'government',
+    date,
+    createdBy: cashier.id,
+    entries: [],
+    billTotal: 0,
+    ...(status ? { status } : {}),
+});
+
+beforeAll(async () => {
+    db.setActingUser(owner);
+    agent = await db.createAgent('สมชาย');
+    // Bills of the 2025-01-16 draw are taken, later closed draws are not
+    await db.updateSettings({
+        reopenedDraws: [
+            { productId: 'government', drawId: '2025-01-16', reopenedBy: owner.id, reopenedAt: new Date().toISOString() },
+        ],
+    });
+});
+
+afterAll(() => db.setActingUser(null));
+
+describe('createTicket', () => {
+    it('should let a cashier key a bill as a draft or send it in for review', async () => {
+        db.setActingUser(cashier);
+        expect((await db.createTicket(bill('draft'))).status).toBe('draft');
+        expect((await db.createTicket(bill('pending'))).status).toBe('pending');
+    });
+
+    it('should stop a cashier from saving a bill past the review', async () => {
+        db.setActingUser(cashier);
+        await expect(db.createTicket(bill('accepted'))).rejects.toThrow(PermissionError);
+        await expect(db.createTicket(bill())).rejects.toThrow(PermissionError);
+    });
+
+    it('should let a reviewer save a bill as accepted', async () => {
+        db.setActingUser(owner);
+        const ticket = await db.createTicket(bill('accepted'));
+        expect((await db.getTicket(ticket.id))?.status).toBe('accepted');
+    });
+
+    it('should not check records marked as system writes', async () => {
+        db.setActingUser(cashier);
+        expect((await db.createTicket(bill('accepted'), { system: true })).status).toBe('accepted');
+    });
+});
+
+describe('draw cut-off', () => {
+    it('should refuse bills of a closed draw', async () => {
+        db.setActingUser(owner);
+        await expect(db.createTicket(bill('accepted', '2025-02-05'))).rejects.toThrow(DrawClosedError);
+    });
+
+    it('should refuse edits and deletes once the draw closes, but not reviews', async () => {
+        db.setActingUser(owner);
+        const ticket = await db.createTicket(bill('pending'));
+        await db.updateSettings({ reopenedDraws: [] });
+
+        await expect(db.updateTicket(ticket.id, { billTotal: 10 })).rejects.toThrow(DrawClosedError);
+        await expect(db.deleteTicket(ticket.id)).rejects.toThrow(DrawClosedError);
+        expect((await db.updateTicket(ticket.id, { status: 'rejected', statusReason: 'late' }))?.status).toBe('rejected');
+        await expect(db.updateTicket(ticket.id, { status: 'pending' })).rejects.toThrow(DrawClosedError);
+    });
+});
+
+describe('createRateTable', () => {
+    const rates = (version: number) => ({
+        payouts: DEFAULT_SETTINGS.payouts,
+        productPayouts: {},
+        agentPayouts: {},
+        version,
+        effectiveFrom: new Date().toISOString(),
+        createdBy: owner.username,
+    });
+
+    it('should keep versions in order for the settings managers', async () => {
+        db.setActingUser(owner);
+        await db.createRateTable(rates(2));
+        await db.createRateTable(rates(1));
+        expect((await db.getRateTables()).map((t) => t.version)).toEqual([1, 2]);
+
+        db.setActingUser(cashier);
+        await expect(db.createRateTable(rates(3))).rejects.toThrow(PermissionError);
+    });
+});
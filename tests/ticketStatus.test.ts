@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the ticket status lifecycle
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    getTicketStatus,
+    isCountedTicket,
+    canChangeTicketStatus,
+    getCreateStatusPermission,
+    buildStatusChange,
+    TicketStatusError,
+} from '../frontend/src/lib/ticketStatus';
+import { computeSummary, computeCreditUsage } from '../frontend/src/lib/compute';
+import { Agent, Ticket, TicketStatus, DEFAULT_SETTINGS } from '../shared/schemas';
+import { v4 as uuidv4 } from 'uuid';
+import { makeEntry, makeTicket } from './helpers';
+
+const REVIEWER_ID = '33333333-3333-4333-8333-333333333333';
+
+describe('getTicketStatus', () => {
+    it('should treat bills saved before statuses existed as accepted', () => {
+        expect(getTicketStatus({})).toBe('accepted');
+        expect(getTicketStatus({ status: 'pending' })).toBe('pending');
+    });
+});
+
+describe('isCountedTicket', () => {
+    it('should count only accepted bills that are not deleted', () => {
+        expect(isCountedTicket({})).toBe(true);
+        expect(isCountedTicket({ status: 'accepted' })).toBe(true);
+        expect(isCountedTicket({ status: 'accepted', deleted: true })).toBe(false);
+
+        const uncounted: TicketStatus[] = ['draft', 'pending', 'rejected', 'void'];
+        for (const status of uncounted) {
+            expect(isCountedTicket({ status })).toBe(false);
+        }
+    });
+});
+
+describe('canChangeTicketStatus', () => {
+    it('should let pending bills be accepted, rejected or voided', () => {
+        expect(canChangeTicketStatus('pending', 'accepted')).toBe(true);
+        expect(canChangeTicketStatus('pending', 'rejected')).toBe(true);
+        expect(canChangeTicketStatus('pending', 'void')).toBe(true);
+    });
+
+    it('should only let accepted bills be voided', () => {
+        expect(canChangeTicketStatus('accepted', 'void')).toBe(true);
+        expect(canChangeTicketStatus('accepted', 'rejected')).toBe(false);
+        expect(canChangeTicketStatus('accepted', 'pending')).toBe(false);
+    });
+
+    it('should let rejected bills be sent in again', () => {
+        expect(canChangeTicketStatus('rejected', 'pending')).toBe(true);
+        expect(canChangeTicketStatus('rejected', 'accepted')).toBe(false);
+    });
+
+    it('should never bring a void bill back', () => {
+        expect(canChangeTicketStatus('void', 'accepted')).toBe(false);
+        expect(canChangeTicketStatus('void', 'pending')).toBe(false);
+    });
+});
+
+describe('getCreateStatusPermission', () => {
+    it('should let a bill be keyed as a draft or sent in for review', () => {
+        expect(getCreateStatusPermission('draft')).toBe('tickets.create');
+        expect(getCreateStatusPermission('pending')).toBe('tickets.create');
+    });
+
+    it('should take the review permission to save a bill with any other status', () => {
+        expect(getCreateStatusPermission('accepted')).toBe('tickets.review');
+        expect(getCreateStatusPermission(undefined)).toBe('tickets.review');
+        expect(getCreateStatusPermission('void')).toBe('tickets.review');
+    });
+});
+
+describe('buildStatusChange', () => {
+    it('should stamp the reviewer and the time', () => {
+        const change = buildStatusChange({ status: 'pending' }, 'accepted', REVIEWER_ID);
+        expect(change.status).toBe('accepted');
+        expect(change.reviewedBy).toBe(REVIEWER_ID);
+        expect(Date.parse(change.reviewedAt!)).not.toBeNaN();
+        expect(change.statusReason).toBeUndefined();
+    });
+
+    it('should require a reason to reject or void', () => {
+        expect(() => buildStatusChange({ status: 'pending' }, 'rejected', REVIEWER_ID)).toThrow(TicketStatusError);
+        expect(() => buildStatusChange({}, 'void', REVIEWER_ID, '   ')).toThrow(TicketStatusError);
+
+        const change = buildStatusChange({ status: 'pending' }, 'rejected', REVIEWER_ID, ' เลขอั้น ');
+        expect(change.statusReason).toBe('เลขอั้น');
+    });
+
+    it('should refuse a change the lifecycle does not allow', () => {
+        expect(() => buildStatusChange({ status: 'void' }, 'accepted', REVIEWER_ID)).toThrow(TicketStatusError);
+        expect(() => buildStatusChange({}, 'rejected', REVIEWER_ID, 'late')).toThrow(TicketStatusError);
+    });
+});
+
+describe('uncounted bills in totals', () => {
+    const agent: Agent = { id: uuidv4(), name: 'Agent A', creditLimit: { amount: 1000, basis: 'gross' } };
+
+    const bill = (amount: number, status?: TicketStatus): Ticket =>
+        makeTicket([makeEntry('2down', '45', amount)], { agentId: agent.id, ...(status ? { status } : {}) });
+
+    const tickets = [
+        bill(100),
+        bill(200, 'accepted'),
+        bill(400, 'pending'),
+        bill(800, 'draft'),
+        bill(1600, 'rejected'),
+        bill(3200, 'void'),
+    ];
+
+    it('should leave them out of the summary', () => {
+        const summary = computeSummary(tickets, DEFAULT_SETTINGS, [agent], '2025-01-16');
+        expect(summary.gross).toBe(300);
+        expect(summary.ticketCount).toBe(2);
+    });
+
+    it('should leave them out of credit usage', () => {
+        const usage = computeCreditUsage(tickets, agent, 'government', '2025-01-05', DEFAULT_SETTINGS);
+        expect(usage?.used).toBe(300);
+    });
+});